@@ -9,15 +9,30 @@
 
 import {
   speak,
+  speakDialogue,
+  synthesizeAsync,
+  synthesizeToFileAsync,
   getAvailableVoicesAsync,
   stop,
   pause,
   resume,
   isSpeakingAsync,
+  seekTo,
+  seekToCharIndex,
+  skipWords,
+  skipSentences,
+  getPositionAsync,
+  getDurationAsync,
   configure,
 } from "../src/Speech";
 import { SpeechAPI } from "../src/Speech";
-import { SpeechOptions, EdgeSpeechVoice, SpeechAPIConfig } from "../src/types";
+import { ssml } from "../src/utils/ssmlBuilder";
+import {
+  SpeechOptions,
+  EdgeSpeechVoice,
+  SpeechAPIConfig,
+  SynthesisCancelled,
+} from "../src/types";
 import {
   MAX_TEXT_LENGTH,
   PARAMETER_RANGES,
@@ -27,18 +42,36 @@ import {
 // Mock the services to avoid network calls and expo-av dependencies
 // Mock Synthesizer
 const mockSynthesizerSpeak = jest.fn().mockResolvedValue(undefined);
+const mockSynthesizerSpeakDialogue = jest.fn().mockResolvedValue(undefined);
+const mockSynthesizerSynthesize = jest.fn();
+const mockSynthesizerSynthesizeToFile = jest.fn();
 const mockSynthesizerStop = jest.fn();
 const mockSynthesizerPause = jest.fn();
 const mockSynthesizerResume = jest.fn();
 const mockSynthesizerIsSpeaking = jest.fn().mockResolvedValue(false);
+const mockSynthesizerSeekTo = jest.fn();
+const mockSynthesizerSeekToCharIndex = jest.fn();
+const mockSynthesizerSkipWords = jest.fn();
+const mockSynthesizerSkipSentences = jest.fn();
+const mockSynthesizerGetPosition = jest.fn().mockResolvedValue(0);
+const mockSynthesizerGetDuration = jest.fn().mockResolvedValue(0);
 
 jest.mock("../src/core/synthesizer", () => ({
   Synthesizer: jest.fn().mockImplementation(() => ({
     speak: mockSynthesizerSpeak,
+    speakDialogue: mockSynthesizerSpeakDialogue,
+    synthesize: mockSynthesizerSynthesize,
+    synthesizeToFile: mockSynthesizerSynthesizeToFile,
     stop: mockSynthesizerStop,
     pause: mockSynthesizerPause,
     resume: mockSynthesizerResume,
     isSpeakingAsync: mockSynthesizerIsSpeaking,
+    seekTo: mockSynthesizerSeekTo,
+    seekToCharIndex: mockSynthesizerSeekToCharIndex,
+    skipWords: mockSynthesizerSkipWords,
+    skipSentences: mockSynthesizerSkipSentences,
+    getPositionAsync: mockSynthesizerGetPosition,
+    getDurationAsync: mockSynthesizerGetDuration,
   })),
 }));
 
@@ -181,6 +214,61 @@ describe("Main Speech API Implementation", () => {
         );
       });
 
+      test("should pass SSML builder content to the synthesizer", async () => {
+        const content = ssml().text("Hello").emphasis("world", "strong");
+        expect(() => speak(content, validMinimalOptions)).not.toThrow();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(mockSynthesizerSpeak).toHaveBeenCalledWith(
+          content,
+          expect.objectContaining(validMinimalOptions),
+        );
+      });
+
+      test("should accept raw SSML longer than MAX_TEXT_LENGTH", async () => {
+        const rawSSML = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US"><voice name="en-US-AriaNeural"><prosody rate="+10%">${"word ".repeat(250)}</prosody></voice></speak>`;
+        await testSpeakCall(rawSSML, {
+          ...validMinimalOptions,
+          inputType: "ssml",
+        });
+        expect(mockSynthesizerSpeak).toHaveBeenCalledWith(
+          rawSSML,
+          expect.objectContaining({ inputType: "ssml" }),
+        );
+      });
+
+      test("should reject unknown input types", () => {
+        expect(() =>
+          speak("test", { ...validMinimalOptions, inputType: "rtf" as any }),
+        ).toThrow("Input type must be one of: text, ssml");
+      });
+
+      test("should validate speaking style options", () => {
+        expect(() =>
+          speak("test", { ...validMinimalOptions, role: "Wizard" as any }),
+        ).toThrow("Role must be one of:");
+        expect(() =>
+          speak("test", { ...validMinimalOptions, style: "<sad>" }),
+        ).toThrow("Style must be a style name");
+      });
+
+      test("should clamp style degree", async () => {
+        await testSpeakCall("test", {
+          ...validMinimalOptions,
+          style: "cheerful",
+          styleDegree: 5,
+        });
+        expect(mockSynthesizerSpeak).toHaveBeenCalledWith(
+          "test",
+          expect.objectContaining({ styleDegree: 2 }),
+        );
+      });
+
+      test("should reject SSML builder content without text", () => {
+        expect(() =>
+          speak(ssml().break({ time: 500 }), validMinimalOptions),
+        ).toThrow("Text to speak cannot be empty.");
+      });
+
       test("should accept valid text within length limits", async () => {
         const validText = "Hello, world!";
         await testSpeakCall(validText, validMinimalOptions);
@@ -471,6 +559,140 @@ describe("Main Speech API Implementation", () => {
     });
   });
 
+  describe("Dialogue", () => {
+    test("should pass normalized lines to the synthesizer", async () => {
+      const onDone = jest.fn();
+      expect(() =>
+        speakDialogue(
+          [
+            { voice: "en-US-GuyNeural", text: "Hello" },
+            { voice: "en-US-JennyNeural", text: "Hi", rate: 5 },
+          ],
+          { onDone },
+        ),
+      ).not.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockSynthesizerSpeakDialogue).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ voice: "en-US-GuyNeural", text: "Hello" }),
+          expect.objectContaining({
+            voice: "en-US-JennyNeural",
+            rate: PARAMETER_RANGES.rate.max,
+          }),
+        ],
+        expect.objectContaining({
+          onDone,
+          rate: PARAMETER_RANGES.rate.default,
+        }),
+      );
+    });
+
+    test("should reject invalid dialogues", () => {
+      expect(() => speakDialogue([])).toThrow(
+        "Dialogue must contain at least one line.",
+      );
+      expect(() => speakDialogue([{ voice: "", text: "Hi" }])).toThrow(
+        "Dialogue line 1 must have a voice.",
+      );
+      expect(() =>
+        speakDialogue([
+          { voice: "en-US-GuyNeural", text: "a".repeat(MAX_TEXT_LENGTH + 1) },
+        ]),
+      ).toThrow("Dialogue line 1 length");
+      expect(() =>
+        speakDialogue([{ voice: "en-US-GuyNeural", text: "Hi" }], {
+          outputFormat: "wav" as any,
+        }),
+      ).toThrow("Invalid speech parameters: Output format must be one of");
+    });
+
+    test("should report validation errors through onError", () => {
+      const onError = jest.fn();
+
+      speakDialogue([{ voice: "en-US-GuyNeural", text: " " }], { onError });
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Dialogue line 1 must have non-empty text.",
+        }),
+      );
+      expect(mockSynthesizerSpeakDialogue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Synthesize", () => {
+    test("should pass normalized options and the signal", async () => {
+      const result = {
+        audio: new Uint8Array([0x49, 0x44, 0x33]),
+        mimeType: "audio/mpeg",
+        durationMs: 600,
+        boundaries: [],
+      };
+      mockSynthesizerSynthesize.mockResolvedValueOnce(result);
+      const controller = new AbortController();
+
+      await expect(
+        synthesizeAsync("Hello", { pitch: -1, signal: controller.signal }),
+      ).resolves.toBe(result);
+      expect(mockSynthesizerSynthesize).toHaveBeenCalledWith(
+        "Hello",
+        expect.objectContaining({
+          voice: DEFAULT_VOICE,
+          pitch: PARAMETER_RANGES.pitch.min,
+          signal: controller.signal,
+        }),
+      );
+    });
+
+    test("should reject with SynthesisCancelled when aborted", async () => {
+      const cancelled = new SynthesisCancelled();
+      mockSynthesizerSynthesize.mockRejectedValueOnce(cancelled);
+
+      await expect(synthesizeAsync("Hello")).rejects.toBe(cancelled);
+    });
+  });
+
+  describe("Synthesize to File", () => {
+    test("should pass normalized options to the synthesizer", async () => {
+      const file = {
+        uri: "file:///documents/lesson-1.mp3",
+        durationMs: 1200,
+        byteLength: 7200,
+        format: "audio-24khz-48kbitrate-mono-mp3",
+        boundaries: [],
+      };
+      mockSynthesizerSynthesizeToFile.mockResolvedValueOnce(file);
+
+      await expect(
+        synthesizeToFileAsync("Lesson one", {
+          rate: 5,
+          fileUri: "file:///documents/lesson-1.mp3",
+        }),
+      ).resolves.toEqual(file);
+      expect(mockSynthesizerSynthesizeToFile).toHaveBeenCalledWith(
+        "Lesson one",
+        expect.objectContaining({
+          voice: DEFAULT_VOICE,
+          rate: PARAMETER_RANGES.rate.max,
+          fileUri: "file:///documents/lesson-1.mp3",
+        }),
+      );
+    });
+
+    test("should reject invalid input without synthesizing", async () => {
+      await expect(synthesizeToFileAsync("")).rejects.toThrow(
+        "Text to speak cannot be empty.",
+      );
+      await expect(
+        synthesizeToFileAsync("a".repeat(MAX_TEXT_LENGTH + 1), {
+          chunkLongText: true,
+        }),
+      ).rejects.toThrow("exceeds maximum allowed length");
+      expect(mockSynthesizerSynthesizeToFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Error Handling", () => {
     test("should call onError callback when synthesizer fails", async () => {
       const expectedError = new Error("Synthesizer speak failed");
@@ -591,6 +813,47 @@ describe("Main Speech API Implementation", () => {
       expect(mockSynthesizerIsSpeaking).toHaveBeenCalled();
       expect(result).toBe(true);
     });
+
+    test("seekTo should call Synthesizer.seekTo", async () => {
+      await seekTo(1500);
+      expect(mockSynthesizerSeekTo).toHaveBeenCalledWith(1500);
+    });
+
+    test("seekTo should wrap synthesizer errors", async () => {
+      mockSynthesizerSeekTo.mockRejectedValueOnce(
+        new Error("Session not found"),
+      );
+      await expect(seekTo(1500)).rejects.toThrow(
+        "Failed to seek speech: Session not found",
+      );
+    });
+
+    test("text position functions should call the Synthesizer", async () => {
+      await seekToCharIndex(12);
+      await skipWords(-2);
+      await skipSentences(1);
+      expect(mockSynthesizerSeekToCharIndex).toHaveBeenCalledWith(12);
+      expect(mockSynthesizerSkipWords).toHaveBeenCalledWith(-2);
+      expect(mockSynthesizerSkipSentences).toHaveBeenCalledWith(1);
+
+      mockSynthesizerSkipWords.mockRejectedValueOnce(
+        new Error("Text positions are not supported"),
+      );
+      await expect(skipWords(1)).rejects.toThrow(
+        "Failed to seek speech: Text positions are not supported",
+      );
+    });
+
+    test("getPositionAsync and getDurationAsync should report playback", async () => {
+      mockSynthesizerGetPosition.mockResolvedValueOnce(1200);
+      mockSynthesizerGetDuration.mockResolvedValueOnce(4800);
+      expect(await getPositionAsync()).toBe(1200);
+      expect(await getDurationAsync()).toBe(4800);
+
+      // Errors report no playback, like isSpeakingAsync
+      mockSynthesizerGetPosition.mockRejectedValueOnce(new Error("failed"));
+      expect(await getPositionAsync()).toBe(0);
+    });
   });
 
   describe("Type Compatibility", () => {
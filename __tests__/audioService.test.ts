@@ -44,7 +44,8 @@ jest.mock("react-native", () => ({
 
 // Mock Audio Utilities
 jest.mock("../src/utils/audioUtils", () => ({
-  validateEdgeTTSMP3: jest.fn().mockReturnValue(true),
+  ...jest.requireActual("../src/utils/audioUtils"),
+  validateAudioFormat: jest.fn().mockReturnValue(true),
 }));
 
 describe("AudioService", () => {
@@ -57,9 +58,9 @@ describe("AudioService", () => {
     // Reset all mocks
     jest.clearAllMocks();
 
-    // Mock the validateEdgeTTSMP3 function to return true by default
-    const { validateEdgeTTSMP3 } = require("../src/utils/audioUtils");
-    validateEdgeTTSMP3.mockReturnValue(true);
+    // Mock the validateAudioFormat function to return true by default
+    const { validateAudioFormat } = require("../src/utils/audioUtils");
+    validateAudioFormat.mockReturnValue(true);
 
     // Create mock sound object
     mockSound = {
@@ -67,6 +68,12 @@ describe("AudioService", () => {
       pauseAsync: jest.fn().mockResolvedValue(undefined),
       stopAsync: jest.fn().mockResolvedValue(undefined),
       unloadAsync: jest.fn().mockResolvedValue(undefined),
+      setPositionAsync: jest.fn().mockResolvedValue(undefined),
+      getStatusAsync: jest.fn().mockResolvedValue({
+        isLoaded: true,
+        positionMillis: 700,
+        durationMillis: 3000,
+      }),
       setOnPlaybackStatusUpdate: jest.fn(),
     };
 
@@ -222,16 +229,16 @@ describe("AudioService", () => {
 
   describe("Audio Utilities integration", () => {
     it("should validate MP3 format using Audio Utilities", async () => {
-      const { validateEdgeTTSMP3 } = require("../src/utils/audioUtils");
+      const { validateAudioFormat } = require("../src/utils/audioUtils");
 
       await audioService.speak(mockSpeechOptions, "test-connection");
 
-      expect(validateEdgeTTSMP3).toHaveBeenCalled();
+      expect(validateAudioFormat).toHaveBeenCalled();
     });
 
     it("should handle invalid MP3 format", async () => {
-      const { validateEdgeTTSMP3 } = require("../src/utils/audioUtils");
-      validateEdgeTTSMP3.mockReturnValue(false);
+      const { validateAudioFormat } = require("../src/utils/audioUtils");
+      validateAudioFormat.mockReturnValue(false);
 
       await audioService.speak(mockSpeechOptions, "test-connection");
 
@@ -241,6 +248,40 @@ describe("AudioService", () => {
         code: "AUDIO_PLAYBACK_FAILED",
       });
     });
+
+    it("should validate and store audio in the requested format", async () => {
+      const { validateAudioFormat } = require("../src/utils/audioUtils");
+      const FileSystem = require("expo-file-system");
+
+      await audioService.speak(
+        { ...mockSpeechOptions, outputFormat: "ogg-24khz-16bit-mono-opus" },
+        "test-connection",
+      );
+
+      expect(validateAudioFormat).toHaveBeenCalledWith(
+        expect.any(ArrayBuffer),
+        "ogg-24khz-16bit-mono-opus",
+      );
+      expect(
+        (FileSystem.writeAsStringAsync as jest.Mock).mock.calls[0][0],
+      ).toMatch(/\.ogg$/);
+    });
+
+    it("should name the container of an invalid format", async () => {
+      const { validateAudioFormat } = require("../src/utils/audioUtils");
+      validateAudioFormat.mockReturnValue(false);
+
+      await audioService.speak(
+        { ...mockSpeechOptions, outputFormat: "riff-24khz-16bit-mono-pcm" },
+        "test-connection",
+      );
+
+      expect(mockSpeechOptions.onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Audio playback failed: Error: Invalid RIFF audio format",
+        }),
+      );
+    });
   });
 
   // =============================================================================
@@ -353,6 +394,31 @@ describe("AudioService", () => {
       expect(mockSpeechOptions.onStopped).toHaveBeenCalled();
     });
 
+    it("should not trigger onStopped when stopped after completion", async () => {
+      await audioService.speak(mockSpeechOptions, "test-connection");
+      const statusUpdateCallback =
+        mockSound.setOnPlaybackStatusUpdate.mock.calls[0][0];
+      statusUpdateCallback({
+        isLoaded: true,
+        didJustFinish: true,
+      });
+
+      await audioService.stop();
+
+      expect(mockSpeechOptions.onDone).toHaveBeenCalledTimes(1);
+      expect(mockSpeechOptions.onStopped).not.toHaveBeenCalled();
+      expect(audioService.currentState).toBe(AudioPlaybackState.Stopped);
+    });
+
+    it("should not trigger onStopped when torn down after an error", async () => {
+      await audioService.speak(mockSpeechOptions, "test-connection");
+
+      await audioService.stop(false);
+
+      expect(mockSpeechOptions.onStopped).not.toHaveBeenCalled();
+      expect(audioService.currentState).toBe(AudioPlaybackState.Stopped);
+    });
+
     it("should trigger onError callback on playback failure", async () => {
       mockSound.playAsync.mockRejectedValue(new Error("Playback failed"));
 
@@ -374,6 +440,160 @@ describe("AudioService", () => {
     });
   });
 
+  // =============================================================================
+  // Word Boundary Playback Tests
+  // =============================================================================
+
+  describe("word boundary playback", () => {
+    const timedBoundary = (
+      charIndex: number,
+      offsetMs: number,
+      durationMs: number,
+    ) => ({
+      type: "word" as const,
+      boundary: { charIndex, charLength: 4 },
+      timing: {
+        rawOffset: offsetMs * 10000 + 8750000,
+        adjustedOffset: offsetMs * 10000,
+        offsetMs,
+        duration: durationMs * 10000,
+        durationMs,
+      },
+    });
+    const boundaries = [
+      timedBoundary(0, 0, 300),
+      timedBoundary(5, 400, 300),
+      timedBoundary(10, 800, 300),
+      timedBoundary(15, 2000, 300),
+    ];
+
+    const startPlayback = async (onBoundary: jest.Mock) => {
+      await audioService.speak(
+        { ...mockSpeechOptions, onBoundary },
+        "test-connection",
+        boundaries,
+      );
+      return mockSound.setOnPlaybackStatusUpdate.mock.calls[0][0];
+    };
+    const spokenIndexes = (onBoundary: jest.Mock) =>
+      onBoundary.mock.calls.map(([boundary]) => boundary.charIndex);
+
+    it("should fire onBoundary as the playback position reaches each word", async () => {
+      const onBoundary = jest.fn();
+      const statusUpdate = await startPlayback(onBoundary);
+
+      expect(onBoundary).not.toHaveBeenCalled();
+      expect(Audio.Sound.createAsync).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ progressUpdateIntervalMillis: 50 }),
+      );
+
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 10 });
+      expect(spokenIndexes(onBoundary)).toEqual([0]);
+
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 450 });
+      expect(spokenIndexes(onBoundary)).toEqual([0, 5]);
+
+      // A paused sound reports the same position and fires nothing new
+      await audioService.pause();
+      statusUpdate({ isLoaded: true, isPlaying: false, positionMillis: 450 });
+      expect(spokenIndexes(onBoundary)).toEqual([0, 5]);
+
+      await audioService.resume();
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 820 });
+      expect(spokenIndexes(onBoundary)).toEqual([0, 5, 10]);
+
+      // Words left when playback finishes are still reported
+      statusUpdate({
+        isLoaded: true,
+        didJustFinish: true,
+        positionMillis: 1900,
+      });
+      expect(spokenIndexes(onBoundary)).toEqual([0, 5, 10, 15]);
+      expect(mockSpeechOptions.onDone).toHaveBeenCalled();
+    });
+
+    it("should follow the playback position across seeks", async () => {
+      const onBoundary = jest.fn();
+      const statusUpdate = await startPlayback(onBoundary);
+
+      // Seeking forward skips the words in between
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 2050 });
+      expect(spokenIndexes(onBoundary)).toEqual([15]);
+
+      // Seeking back replays the words from the new position
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 600 });
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 810 });
+      expect(spokenIndexes(onBoundary)).toEqual([15, 5, 10]);
+    });
+
+    it("should fire onSentenceBoundary before the sentence's first word", async () => {
+      const onBoundary = jest.fn();
+      const onSentenceBoundary = jest.fn();
+      const sentence = {
+        type: "sentence" as const,
+        boundary: {
+          charIndex: 5,
+          charLength: 9,
+          offsetMs: 400,
+          durationMs: 700,
+        },
+        timing: { ...timedBoundary(5, 400, 700).timing },
+      };
+      const order: string[] = [];
+      onBoundary.mockImplementation(() => order.push("word"));
+      onSentenceBoundary.mockImplementation(() => order.push("sentence"));
+
+      await audioService.speak(
+        { ...mockSpeechOptions, onBoundary, onSentenceBoundary },
+        "test-connection",
+        [...boundaries, sentence],
+      );
+      const statusUpdate = mockSound.setOnPlaybackStatusUpdate.mock.calls[0][0];
+
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 100 });
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 420 });
+
+      expect(onSentenceBoundary).toHaveBeenCalledWith(sentence.boundary);
+      expect(order).toEqual(["word", "sentence", "word"]);
+    });
+
+    it("should fire onMark when playback reaches a bookmark", async () => {
+      const onMark = jest.fn();
+      const mark = { name: "flip", charIndex: 10, offsetMs: 800 };
+
+      await audioService.speak(
+        { ...mockSpeechOptions, onMark },
+        "test-connection",
+        [
+          ...boundaries,
+          {
+            type: "mark",
+            boundary: mark,
+            timing: timedBoundary(10, 800, 0).timing,
+          },
+        ],
+      );
+      const statusUpdate = mockSound.setOnPlaybackStatusUpdate.mock.calls[0][0];
+
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 500 });
+      expect(onMark).not.toHaveBeenCalled();
+
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 850 });
+      expect(onMark).toHaveBeenCalledWith(mark);
+    });
+
+    it("should stop firing onBoundary after stop", async () => {
+      const onBoundary = jest.fn();
+      const statusUpdate = await startPlayback(onBoundary);
+
+      await audioService.stop();
+      statusUpdate({ isLoaded: true, isPlaying: true, positionMillis: 500 });
+
+      expect(onBoundary).not.toHaveBeenCalled();
+    });
+  });
+
   // =============================================================================
   // Error Handling Tests
   // =============================================================================
@@ -561,6 +781,57 @@ describe("AudioService", () => {
     });
   });
 
+  // =============================================================================
+  // Seek, Position and Duration Tests
+  // =============================================================================
+
+  describe("seek, position and duration", () => {
+    it("should report progress with each status update", async () => {
+      const onProgress = jest.fn();
+      await audioService.speak(
+        { ...mockSpeechOptions, onProgress },
+        "test-connection",
+      );
+      const statusUpdate = mockSound.setOnPlaybackStatusUpdate.mock.calls[0][0];
+
+      statusUpdate({
+        isLoaded: true,
+        isPlaying: true,
+        positionMillis: 500,
+        durationMillis: 3000,
+      });
+
+      expect(onProgress).toHaveBeenCalledWith({
+        positionMs: 500,
+        durationMs: 3000,
+      });
+    });
+
+    it("should seek within the audio and report position and duration", async () => {
+      await audioService.speak(mockSpeechOptions, "test-connection");
+
+      await audioService.seekTo(1500);
+      expect(mockSound.setPositionAsync).toHaveBeenLastCalledWith(1500);
+
+      // Positions are clamped to the audio
+      await audioService.seekTo(5000);
+      expect(mockSound.setPositionAsync).toHaveBeenLastCalledWith(3000);
+      await audioService.seekTo(-100);
+      expect(mockSound.setPositionAsync).toHaveBeenLastCalledWith(0);
+
+      expect(await audioService.getPositionAsync()).toBe(700);
+      expect(await audioService.getDurationAsync()).toBe(3000);
+    });
+
+    it("should ignore seeks without playing audio", async () => {
+      await audioService.seekTo(1500);
+
+      expect(mockSound.setPositionAsync).not.toHaveBeenCalled();
+      expect(await audioService.getPositionAsync()).toBe(0);
+      expect(await audioService.getDurationAsync()).toBe(0);
+    });
+  });
+
   // =============================================================================
   // Streamed Audio Playback Tests
   // =============================================================================
@@ -596,6 +867,354 @@ describe("AudioService", () => {
     });
   });
 
+  // =============================================================================
+  // Progressive Playback Tests
+  // =============================================================================
+
+  describe("progressive playback", () => {
+    const FileSystem = require("expo-file-system");
+    // 144-byte frames of the default 24kHz 48kbps mono MP3, 24ms each
+    const mp3Frames = (count: number) => {
+      const data = new Uint8Array(count * 144);
+      for (let i = 0; i < count; i++) {
+        data.set([0xff, 0xf3, 0x64, 0xc4], i * 144);
+      }
+      return data;
+    };
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+    const writtenSegments = (): Uint8Array[] =>
+      (FileSystem.writeAsStringAsync as jest.Mock).mock.calls.map(
+        ([, base64]) => new Uint8Array(Buffer.from(base64, "base64")),
+      );
+    let sounds: any[];
+
+    beforeEach(() => {
+      sounds = [];
+      (Audio.Sound.createAsync as jest.Mock).mockImplementation(async () => {
+        const sound = {
+          playAsync: jest.fn().mockResolvedValue(undefined),
+          pauseAsync: jest.fn().mockResolvedValue(undefined),
+          stopAsync: jest.fn().mockResolvedValue(undefined),
+          unloadAsync: jest.fn().mockResolvedValue(undefined),
+          setPositionAsync: jest.fn().mockResolvedValue(undefined),
+          getStatusAsync: jest
+            .fn()
+            .mockResolvedValue({ isLoaded: true, positionMillis: 0 }),
+          setOnPlaybackStatusUpdate: jest.fn(),
+        };
+        sounds.push(sound);
+        return { sound };
+      });
+    });
+
+    const statusUpdate = (index: number, status: object) =>
+      sounds[index].setOnPlaybackStatusUpdate.mock.calls[0][0]({
+        isLoaded: true,
+        ...status,
+      });
+
+    it("should start playing once the buffer threshold has arrived", async () => {
+      await audioService.startProgressivePlayback(
+        mockSpeechOptions,
+        "stream-connection",
+      );
+
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(100));
+      await flush();
+      expect(Audio.Sound.createAsync).not.toHaveBeenCalled();
+
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(20));
+      await flush();
+      expect(Audio.Sound.createAsync).toHaveBeenCalledTimes(1);
+      expect(sounds[0].playAsync).toHaveBeenCalled();
+      expect(mockSpeechOptions.onStart).toHaveBeenCalledTimes(1);
+      expect(audioService.currentState).toBe(AudioPlaybackState.Playing);
+    });
+
+    it("should report segment failures outside the load as errors", async () => {
+      await audioService.startProgressivePlayback(
+        mockSpeechOptions,
+        "stream-connection",
+      );
+      (Audio.Sound.createAsync as jest.Mock).mockImplementationOnce(
+        async () => ({
+          sound: {
+            setOnPlaybackStatusUpdate: jest.fn(() => {
+              throw new Error("Player released");
+            }),
+          },
+        }),
+      );
+
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(120));
+      await flush();
+
+      expect(mockSpeechOptions.onError).toHaveBeenCalledWith({
+        name: "ProgressivePlaybackError",
+        message: "Progressive playback failed: Error: Player released",
+        code: "PROGRESSIVE_PLAYBACK_FAILED",
+      });
+      expect(audioService.currentState).toBe(AudioPlaybackState.Error);
+    });
+
+    it("should play later audio in segments and finish on turn end", async () => {
+      const onBoundary = jest.fn();
+      const audio = mp3Frames(130);
+      await audioService.startProgressivePlayback(
+        { ...mockSpeechOptions, onBoundary },
+        "stream-connection",
+      );
+
+      // The first segment ends before the frame that is still arriving
+      audioService.appendProgressiveAudio(
+        "stream-connection",
+        audio.subarray(0, 120 * 144 + 50),
+      );
+      await flush();
+      audioService.appendProgressiveAudio(
+        "stream-connection",
+        audio.subarray(120 * 144 + 50),
+      );
+      audioService.addProgressiveBoundary("stream-connection", {
+        type: "word",
+        boundary: { charIndex: 6, charLength: 5 },
+        timing: { offsetMs: 3000, durationMs: 200 },
+      } as any);
+      await audioService.finalizeProgressivePlayback("stream-connection");
+
+      // The last segment is loaded while the first plays
+      expect(sounds).toHaveLength(2);
+      expect(sounds[1].playAsync).not.toHaveBeenCalled();
+      expect(writtenSegments().map((segment) => segment.length)).toEqual([
+        120 * 144,
+        10 * 144,
+      ]);
+      expect(Buffer.concat(writtenSegments())).toEqual(Buffer.from(audio));
+
+      statusUpdate(0, { positionMillis: 2880 });
+      statusUpdate(0, {
+        positionMillis: 2880,
+        durationMillis: 2880,
+        didJustFinish: true,
+      });
+      await flush();
+      expect(sounds[1].playAsync).toHaveBeenCalled();
+      expect(sounds[0].unloadAsync).toHaveBeenCalled();
+      expect(mockSpeechOptions.onDone).not.toHaveBeenCalled();
+
+      // Positions of later segments continue from the end of the first
+      statusUpdate(1, { positionMillis: 150 });
+      expect(onBoundary).toHaveBeenCalledWith({ charIndex: 6, charLength: 5 });
+
+      statusUpdate(1, {
+        positionMillis: 240,
+        durationMillis: 240,
+        didJustFinish: true,
+      });
+      expect(mockSpeechOptions.onDone).toHaveBeenCalledTimes(1);
+      expect(mockSpeechOptions.onStart).toHaveBeenCalledTimes(1);
+      expect(audioService.currentState).toBe(AudioPlaybackState.Completed);
+    });
+
+    it("should time later segments by their frames, not the player", async () => {
+      const onProgress = jest.fn();
+      await audioService.startProgressivePlayback(
+        { ...mockSpeechOptions, onProgress },
+        "stream-connection",
+      );
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(120));
+      await flush();
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(10));
+      await audioService.finalizeProgressivePlayback("stream-connection");
+
+      // The player reports decoder padding as part of the segment
+      statusUpdate(0, {
+        positionMillis: 2905,
+        durationMillis: 2905,
+        didJustFinish: true,
+      });
+      await flush();
+      statusUpdate(1, { positionMillis: 100 });
+
+      expect(onProgress).toHaveBeenLastCalledWith({
+        positionMs: 2980,
+        durationMs: 3120,
+      });
+      expect(await audioService.getPositionAsync()).toBe(2880);
+    });
+
+    it("should start the next segment before the current one ends", async () => {
+      const onProgress = jest.fn();
+      const audio = mp3Frames(130);
+      // Frame 120 takes 100 bytes of main data from frame 119
+      audio[120 * 144 + 4] = 100;
+      await audioService.startProgressivePlayback(
+        { ...mockSpeechOptions, onProgress },
+        "stream-connection",
+      );
+      audioService.appendProgressiveAudio(
+        "stream-connection",
+        audio.subarray(0, 120 * 144),
+      );
+      await flush();
+      audioService.appendProgressiveAudio(
+        "stream-connection",
+        audio.subarray(120 * 144),
+      );
+      await audioService.finalizeProgressivePlayback("stream-connection");
+
+      // Frame 119 leads the last segment, muted
+      const lead = writtenSegments()[1].subarray(0, 144);
+      expect(writtenSegments()[1].subarray(144)).toEqual(
+        audio.subarray(120 * 144),
+      );
+      expect(lead.subarray(0, 4)).toEqual(
+        audio.subarray(119 * 144, 119 * 144 + 4),
+      );
+
+      // 50ms left: the next segment starts once 24ms are left, so its lead
+      // plays under the end of this one
+      statusUpdate(0, { positionMillis: 2830 });
+      expect(sounds[1].playAsync).not.toHaveBeenCalled();
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(sounds[1].playAsync).toHaveBeenCalled();
+      expect(sounds[0].unloadAsync).not.toHaveBeenCalled();
+
+      // The finished segment is released without ending the stream
+      statusUpdate(0, {
+        positionMillis: 2880,
+        durationMillis: 2880,
+        didJustFinish: true,
+      });
+      await flush();
+      expect(sounds[0].unloadAsync).toHaveBeenCalled();
+      expect(mockSpeechOptions.onDone).not.toHaveBeenCalled();
+
+      // Positions after the lead continue from the end of the first segment
+      statusUpdate(1, { positionMillis: 124 });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        positionMs: 2980,
+        durationMs: 3120,
+      });
+      statusUpdate(1, {
+        positionMillis: 264,
+        durationMillis: 264,
+        didJustFinish: true,
+      });
+      expect(mockSpeechOptions.onDone).toHaveBeenCalledTimes(1);
+    });
+
+    it("should play short audio once it has all arrived", async () => {
+      await audioService.startProgressivePlayback(
+        mockSpeechOptions,
+        "stream-connection",
+      );
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(10));
+      await flush();
+      expect(Audio.Sound.createAsync).not.toHaveBeenCalled();
+
+      await audioService.finalizeProgressivePlayback("stream-connection");
+
+      expect(sounds).toHaveLength(1);
+      expect(sounds[0].playAsync).toHaveBeenCalled();
+      statusUpdate(0, { positionMillis: 240, didJustFinish: true });
+      expect(mockSpeechOptions.onDone).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop audio not yet played when stopped", async () => {
+      await audioService.startProgressivePlayback(
+        mockSpeechOptions,
+        "stream-connection",
+      );
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(120));
+      await flush();
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(120));
+      await flush();
+      expect(sounds).toHaveLength(2);
+
+      await audioService.stop();
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(120));
+      await flush();
+
+      expect(sounds).toHaveLength(2);
+      expect(sounds[0].unloadAsync).toHaveBeenCalled();
+      expect(sounds[1].unloadAsync).toHaveBeenCalled();
+      expect(sounds[1].playAsync).not.toHaveBeenCalled();
+      expect(mockSpeechOptions.onStopped).toHaveBeenCalledTimes(1);
+    });
+
+    it("should seek within the playing segment", async () => {
+      await audioService.startProgressivePlayback(
+        mockSpeechOptions,
+        "stream-connection",
+      );
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(120));
+      await flush();
+      audioService.appendProgressiveAudio("stream-connection", mp3Frames(10));
+      await audioService.finalizeProgressivePlayback("stream-connection");
+      sounds[0].getStatusAsync.mockResolvedValue({
+        isLoaded: true,
+        positionMillis: 0,
+        durationMillis: 2880,
+      });
+
+      expect(await audioService.getDurationAsync()).toBe(3120);
+      await audioService.seekTo(1000);
+
+      expect(sounds[0].setPositionAsync).toHaveBeenCalledWith(1000);
+      expect(sounds).toHaveLength(2);
+    });
+
+    it("should cut the stream again from the frame at a seek position", async () => {
+      const onProgress = jest.fn();
+      const audio = mp3Frames(130);
+      await audioService.startProgressivePlayback(
+        { ...mockSpeechOptions, onProgress },
+        "stream-connection",
+      );
+      audioService.appendProgressiveAudio(
+        "stream-connection",
+        audio.subarray(0, 120 * 144),
+      );
+      await flush();
+      audioService.appendProgressiveAudio(
+        "stream-connection",
+        audio.subarray(120 * 144),
+      );
+      await audioService.finalizeProgressivePlayback("stream-connection");
+      sounds[0].getStatusAsync.mockResolvedValue({
+        isLoaded: true,
+        positionMillis: 0,
+        durationMillis: 2880,
+      });
+
+      // Past the first segment: its sound and the loaded next one are dropped
+      await audioService.seekTo(3010);
+      expect(sounds[0].unloadAsync).toHaveBeenCalled();
+      expect(sounds[1].unloadAsync).toHaveBeenCalled();
+      expect(sounds).toHaveLength(3);
+      expect(sounds[2].playAsync).toHaveBeenCalled();
+      expect(writtenSegments()[2]).toEqual(audio.slice(125 * 144));
+
+      statusUpdate(2, { positionMillis: 10 });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        positionMs: 3010,
+        durationMs: 3120,
+      });
+      expect(await audioService.getPositionAsync()).toBe(3000);
+
+      // Back to the start, from all the audio received
+      await audioService.seekTo(0);
+      expect(writtenSegments()[3]).toEqual(audio);
+      statusUpdate(3, {
+        positionMillis: 3120,
+        durationMillis: 3120,
+        didJustFinish: true,
+      });
+      expect(mockSpeechOptions.onDone).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // =============================================================================
   // Android Specific Tests
   // =============================================================================
@@ -713,8 +1332,8 @@ describe("AudioService", () => {
       const FileSystem = require("expo-file-system");
 
       // Mock validation to ensure it passes
-      const { validateEdgeTTSMP3 } = require("../src/utils/audioUtils");
-      validateEdgeTTSMP3.mockReturnValue(true);
+      const { validateAudioFormat } = require("../src/utils/audioUtils");
+      validateAudioFormat.mockReturnValue(true);
 
       // Ensure storageService returns valid data for the connection
       (storageService.getMergedAudioData as jest.Mock).mockReturnValue(
@@ -735,8 +1354,8 @@ describe("AudioService", () => {
     });
 
     it("should validate MP3 format before creating file", async () => {
-      const { validateEdgeTTSMP3 } = require("../src/utils/audioUtils");
-      validateEdgeTTSMP3.mockReturnValue(false);
+      const { validateAudioFormat } = require("../src/utils/audioUtils");
+      validateAudioFormat.mockReturnValue(false);
 
       await audioService.speak(mockSpeechOptions, "test-connection");
 
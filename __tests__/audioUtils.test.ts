@@ -17,6 +17,12 @@ import {
   isValidMP3Format,
   detectMP3Format,
   validateEdgeTTSMP3,
+  isSupportedAudioFormat,
+  getAudioFormatInfo,
+  validateAudioFormat,
+  getCompleteMP3Length,
+  findMP3FrameAt,
+  createMP3ChunkValidator,
 
   // Binary message parsing functions
   parseEdgeTTSBinaryMessage,
@@ -25,6 +31,10 @@ import {
   // Audio metadata extraction functions
   extractAudioMetadata,
   estimateMP3Duration,
+  estimateAudioDuration,
+  getAudioInfo,
+  concatenateMP3,
+  createMP3Segment,
 
   // Word boundary timing functions
   compensateWordBoundaryOffset,
@@ -109,6 +119,16 @@ function loadRealMP3File(): ArrayBuffer {
   return realEdgeTTSMP3;
 }
 
+// Helper function to create MP3 audio of 24kHz 48kbps mono frames
+// Each frame is 144 bytes and 24ms long
+function createMP3Frames(count: number): ArrayBuffer {
+  const data = new Uint8Array(count * 144);
+  for (let i = 0; i < count; i++) {
+    data.set([0xff, 0xf3, 0x64, 0xc4], i * 144);
+  }
+  return data.buffer;
+}
+
 // Helper function to create Edge TTS binary message with real MP3 data
 function createRealEdgeTTSBinaryMessage(): ArrayBuffer {
   const headerText =
@@ -157,6 +177,12 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
         expect(isValidMP3Format("invalid-format")).toBe(false);
       });
 
+      it("should validate the higher bit rate MP3 formats", () => {
+        expect(isValidMP3Format(AUDIO_FORMATS.MP3_24KHZ_96KBPS)).toBe(true);
+        expect(isValidMP3Format(AUDIO_FORMATS.MP3_48KHZ_192KBPS)).toBe(true);
+        expect(isValidMP3Format(AUDIO_FORMATS.OGG_24KHZ_OPUS)).toBe(false);
+      });
+
       it("should reject non-Edge-TTS MP3 formats", () => {
         expect(isValidMP3Format("audio-16khz-32kbitrate-mono-mp3")).toBe(false);
         expect(isValidMP3Format("audio-48khz-96kbitrate-stereo-mp3")).toBe(
@@ -192,14 +218,36 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
 
     describe("validateEdgeTTSMP3", () => {
       it("should validate complete Edge TTS MP3 data", () => {
-        const validMP3Data = new ArrayBuffer(1024);
-        const view = new Uint8Array(validMP3Data);
-        view[0] = 0xff;
-        view[1] = 0xe0;
-
+        const validMP3Data = createMP3Frames(7);
         expect(validateEdgeTTSMP3(validMP3Data)).toBe(true);
       });
 
+      it("should accept a last frame that is still arriving", () => {
+        const mp3Data = createMP3Frames(7).slice(0, 6 * 144 + 40);
+        expect(validateEdgeTTSMP3(mp3Data)).toBe(true);
+      });
+
+      it("should reject data whose frames do not follow each other", () => {
+        // Sync bits without a valid header
+        const syncOnly = new Uint8Array(1024);
+        syncOnly.set([0xff, 0xe0]);
+        expect(validateEdgeTTSMP3(syncOnly.buffer)).toBe(false);
+
+        // A second frame starting inside the first
+        const overlapping = new Uint8Array(createMP3Frames(7));
+        overlapping.set([0xff, 0xf3, 0x64, 0xc4], 100);
+        overlapping.fill(0, 144, 148);
+        expect(validateEdgeTTSMP3(overlapping.buffer)).toBe(false);
+      });
+
+      it("should skip an ID3v2 tag before the first frame", () => {
+        const tagged = new Uint8Array(20 + 3 * 144);
+        // 10 byte tag header, 10 bytes of tag data
+        tagged.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 10]);
+        tagged.set(new Uint8Array(createMP3Frames(3)), 20);
+        expect(validateEdgeTTSMP3(tagged.buffer)).toBe(true);
+      });
+
       it("should reject invalid Edge TTS MP3 data", () => {
         const invalidData = new ArrayBuffer(1024);
         expect(validateEdgeTTSMP3(invalidData)).toBe(false);
@@ -210,6 +258,183 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
         expect(validateEdgeTTSMP3(realMP3Data)).toBe(true);
       });
     });
+
+    describe("getCompleteMP3Length", () => {
+      it("should cover every frame of real Edge TTS MP3 data", () => {
+        const realMP3Data = new Uint8Array(loadRealMP3File());
+        expect(getCompleteMP3Length(realMP3Data)).toBe(realMP3Data.length);
+      });
+
+      it("should stop before a frame that is still arriving", () => {
+        const realMP3Data = new Uint8Array(loadRealMP3File());
+        // 24kHz 48kbps frames are 144 bytes long
+        expect(getCompleteMP3Length(realMP3Data.subarray(0, 300))).toBe(288);
+        expect(getCompleteMP3Length(realMP3Data.subarray(0, 100))).toBe(0);
+      });
+
+      it("should stop at data that is not a frame header", () => {
+        const data = new Uint8Array(300);
+        data.set([0xff, 0xf3, 0x64, 0xc4]);
+        expect(getCompleteMP3Length(data)).toBe(144);
+      });
+    });
+
+    describe("findMP3FrameAt", () => {
+      it("should find the frame playing at a position", () => {
+        const realMP3Data = new Uint8Array(loadRealMP3File());
+        // 24ms frames of 144 bytes
+        expect(findMP3FrameAt(realMP3Data, 0)).toEqual({
+          offset: 0,
+          positionMs: 0,
+        });
+        expect(findMP3FrameAt(realMP3Data, 500)).toEqual({
+          offset: 20 * 144,
+          positionMs: 480,
+        });
+      });
+
+      it("should stop at the end of the complete frames", () => {
+        const realMP3Data = new Uint8Array(loadRealMP3File());
+        expect(findMP3FrameAt(realMP3Data.subarray(0, 300), 500)).toEqual({
+          offset: 288,
+          positionMs: 48,
+        });
+      });
+    });
+
+    describe("createMP3ChunkValidator", () => {
+      it("should follow frames across chunks of any size", () => {
+        const realMP3Data = new Uint8Array(loadRealMP3File());
+        const validator = createMP3ChunkValidator();
+
+        // A header split after its first two bytes, then uneven chunks
+        expect(validator.validateChunk(realMP3Data.subarray(0, 2))).toBe(true);
+        for (let offset = 2; offset < realMP3Data.length; offset += 1000) {
+          const chunk = realMP3Data.subarray(offset, offset + 1000);
+          expect(validator.validateChunk(chunk)).toBe(true);
+        }
+      });
+
+      it("should reject a chunk that breaks the frame sequence", () => {
+        const validator = createMP3ChunkValidator();
+        const frames = new Uint8Array(createMP3Frames(2));
+
+        expect(validator.validateChunk(frames.subarray(0, 200))).toBe(true);
+        // Skips the last 88 bytes of the second frame
+        expect(validator.validateChunk(frames)).toBe(false);
+      });
+
+      it("should reject a first chunk that does not start with a frame", () => {
+        const validator = createMP3ChunkValidator();
+        expect(validator.validateChunk(new Uint8Array(100))).toBe(false);
+      });
+    });
+  });
+
+  describe("Output Format Selection", () => {
+    const bytes = (...values: (number | string)[]) =>
+      new Uint8Array(
+        values.flatMap((value) =>
+          typeof value === "string"
+            ? [...value].map((char) => char.charCodeAt(0))
+            : [value],
+        ),
+      ).buffer;
+
+    describe("isSupportedAudioFormat", () => {
+      it("should accept every Edge TTS output format", () => {
+        Object.values(AUDIO_FORMATS).forEach((format) => {
+          expect(isSupportedAudioFormat(format)).toBe(true);
+        });
+        expect(isSupportedAudioFormat("audio-16khz-32kbitrate-mono-mp3")).toBe(
+          false,
+        );
+      });
+    });
+
+    describe("getAudioFormatInfo", () => {
+      it("should describe the container of a format", () => {
+        expect(getAudioFormatInfo(AUDIO_FORMATS.OGG_24KHZ_OPUS)).toEqual({
+          container: "ogg",
+          mimeType: "audio/ogg",
+          extension: "ogg",
+          sampleRate: 24000,
+          bitRate: 32000,
+        });
+        expect(getAudioFormatInfo(AUDIO_FORMATS.RIFF_24KHZ_PCM)?.mimeType).toBe(
+          "audio/wav",
+        );
+        expect(getAudioFormatInfo("audio-wav")).toBeNull();
+      });
+    });
+
+    describe("validateAudioFormat", () => {
+      it("should check the container signature of each format", () => {
+        const webm = bytes(0x1a, 0x45, 0xdf, 0xa3, 0, 0, 0, 0);
+        const ogg = bytes("OggS", 0, 2);
+        const wav = bytes("RIFF", 0, 0, 0, 0, "WAVE");
+
+        expect(validateAudioFormat(webm, AUDIO_FORMATS.WEBM_24KHZ_OPUS)).toBe(
+          true,
+        );
+        expect(validateAudioFormat(ogg, AUDIO_FORMATS.OGG_24KHZ_OPUS)).toBe(
+          true,
+        );
+        expect(validateAudioFormat(wav, AUDIO_FORMATS.RIFF_24KHZ_PCM)).toBe(
+          true,
+        );
+        expect(validateAudioFormat(ogg, AUDIO_FORMATS.RIFF_24KHZ_PCM)).toBe(
+          false,
+        );
+        expect(validateAudioFormat(wav, "audio-wav")).toBe(false);
+      });
+
+      it("should validate MP3 data against the MP3 formats", () => {
+        const realMP3Data = loadRealMP3File();
+        expect(
+          validateAudioFormat(realMP3Data, AUDIO_FORMATS.MP3_24KHZ_96KBPS),
+        ).toBe(true);
+        expect(
+          validateAudioFormat(realMP3Data, AUDIO_FORMATS.OGG_24KHZ_OPUS),
+        ).toBe(false);
+      });
+    });
+
+    describe("estimateAudioDuration", () => {
+      it("should measure PCM exactly after the WAVE header", () => {
+        const wav = new Uint8Array(44 + 48000);
+        wav.set(new Uint8Array(bytes("RIFF", 0, 0, 0, 0, "WAVE")), 0);
+        wav.set(new Uint8Array(bytes("fmt ", 16, 0, 0, 0)), 12);
+        wav.set(new Uint8Array(bytes("data", 0x80, 0xbb, 0, 0)), 36);
+
+        expect(
+          estimateAudioDuration(wav.buffer, AUDIO_FORMATS.RIFF_24KHZ_PCM),
+        ).toBe(1000);
+      });
+
+      it("should read Ogg Opus duration from the last granule position", () => {
+        // OpusHead with a pre-skip of 312 samples, then a page at 96312
+        const ogg = new Uint8Array(64);
+        ogg.set(new Uint8Array(bytes("OpusHead", 1, 1, 0x38, 0x01)), 0);
+        ogg.set(new Uint8Array(bytes("OggS", 0, 4)), 20);
+        new DataView(ogg.buffer).setUint32(26, 96312, true);
+
+        expect(
+          estimateAudioDuration(ogg.buffer, AUDIO_FORMATS.OGG_24KHZ_OPUS),
+        ).toBe(2000);
+      });
+
+      it("should estimate MP3 duration from the format bit rate", () => {
+        const mp3 = new ArrayBuffer(12000);
+        expect(estimateAudioDuration(mp3, AUDIO_FORMATS.MP3_24KHZ_48KBPS)).toBe(
+          2000,
+        );
+        expect(estimateAudioDuration(mp3, AUDIO_FORMATS.MP3_24KHZ_96KBPS)).toBe(
+          1000,
+        );
+        expect(estimateAudioDuration(mp3, "audio-wav")).toBe(0);
+      });
+    });
   });
 
   // ============================================================================
@@ -282,11 +507,8 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
 
     describe("isAudioMessage", () => {
       it("should identify audio messages correctly", () => {
-        // Create audio data with valid MP3 header
-        const audioData = new ArrayBuffer(512);
-        const view = new Uint8Array(audioData);
-        view[0] = 0xff;
-        view[1] = 0xe0;
+        // Create audio data of valid MP3 frames
+        const audioData = createMP3Frames(3);
 
         const audioMessage: EdgeTTSBinaryMessage = {
           headerLength: 50,
@@ -324,11 +546,8 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
   describe("Audio Metadata Extraction", () => {
     describe("extractAudioMetadata", () => {
       it("should extract metadata from Edge TTS audio message", () => {
-        // Create audio data with valid MP3 header
-        const audioData = new ArrayBuffer(1024);
-        const view = new Uint8Array(audioData);
-        view[0] = 0xff;
-        view[1] = 0xe0;
+        // Create audio data of valid MP3 frames
+        const audioData = createMP3Frames(7);
 
         const audioMessage: EdgeTTSBinaryMessage = {
           headerLength: 50,
@@ -347,7 +566,7 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
         expect(metadata!.sampleRate).toBe(24000);
         expect(metadata!.bitRate).toBe(48);
         expect(metadata!.channels).toBe(1);
-        expect(metadata!.estimatedDuration).toBeGreaterThan(0);
+        expect(metadata!.estimatedDuration).toBe(168);
       });
 
       it("should return null for non-audio messages", () => {
@@ -381,16 +600,13 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
     });
 
     describe("estimateMP3Duration", () => {
-      it("should estimate duration for Edge TTS MP3 format", () => {
-        // Edge TTS: 24kHz, 48kbps = 6000 bytes per second
-        const mp3Data = new ArrayBuffer(6000); // Should be ~1 second
-        const view = new Uint8Array(mp3Data);
-        view[0] = 0xff;
-        view[1] = 0xe0;
+      it("should count the duration of Edge TTS MP3 frames", () => {
+        // Edge TTS: 24kHz, 576 samples per frame = 24ms per frame
+        const mp3Data = createMP3Frames(42);
 
         const duration = estimateMP3Duration(mp3Data);
 
-        expect(duration).toBeCloseTo(1000, 100); // Within 100ms tolerance
+        expect(duration).toBe(1008);
       });
 
       it("should handle empty audio data", () => {
@@ -399,25 +615,83 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
       });
 
       it("should handle small audio chunks", () => {
-        const smallData = new ArrayBuffer(300); // ~50ms of audio
-        const view = new Uint8Array(smallData);
-        view[0] = 0xff;
-        view[1] = 0xe0;
+        // Two complete frames and the start of a third
+        const smallData = createMP3Frames(3).slice(0, 300);
 
         const duration = estimateMP3Duration(smallData);
 
-        expect(duration).toBeGreaterThan(0);
-        expect(duration).toBeLessThan(100);
+        expect(duration).toBe(48);
       });
 
       it("should estimate duration for real Edge TTS MP3 file", () => {
         const realMP3Data = loadRealMP3File();
         const duration = estimateMP3Duration(realMP3Data);
 
-        // Real MP3 should have a meaningful duration
-        expect(duration).toBeGreaterThan(0);
-        expect(duration).toBeGreaterThan(100); // At least 100ms for "hello world"
-        expect(duration).toBeLessThan(10000); // Less than 10 seconds
+        // 54 frames of 24ms
+        expect(duration).toBe(1296);
+      });
+    });
+
+    describe("getAudioInfo", () => {
+      it("should describe real Edge TTS MP3 audio", () => {
+        const info = getAudioInfo(new Uint8Array(loadRealMP3File()));
+
+        expect(info).toEqual({
+          version: 2,
+          layer: 3,
+          sampleRate: 24000,
+          channels: 1,
+          bitRate: 48,
+          isVBR: false,
+          frameCount: 54,
+          durationMs: 1296,
+          audioOffset: 0,
+          audioLength: 7776,
+        });
+      });
+
+      it("should average the bit rate of variable bit rate frames", () => {
+        // 48kbps frames are 144 bytes, 64kbps frames 192 bytes
+        const data = new Uint8Array(144 + 192 + 144);
+        data.set([0xff, 0xf3, 0x64, 0xc4]);
+        data.set([0xff, 0xf3, 0x84, 0xc4], 144);
+        data.set([0xff, 0xf3, 0x64, 0xc4], 336);
+
+        const info = getAudioInfo(data.buffer);
+
+        expect(info!.isVBR).toBe(true);
+        expect(info!.frameCount).toBe(3);
+        expect(info!.durationMs).toBe(72);
+        expect(info!.bitRate).toBe(53);
+      });
+
+      it("should read an Info frame without counting it as audio", () => {
+        const data = new Uint8Array(createMP3Frames(4));
+        // Info tag after the side information of an MPEG-2 mono frame
+        const encode = (text: string) => [...text].map((c) => c.charCodeAt(0));
+        data.set([...encode("Info"), 0, 0, 0, 0x01, 0, 0, 0, 3], 13);
+        // LAME extension: encoder delay 576 and padding 288 samples
+        data.set(encode("LAME3.100"), 25);
+        data.set([0x24, 0x01, 0x20], 46);
+
+        const info = getAudioInfo(data);
+
+        expect(info).toMatchObject({
+          frameCount: 3,
+          durationMs: 72,
+          audioOffset: 144,
+          audioLength: 432,
+          infoTag: "Info",
+          declaredFrameCount: 3,
+          encoderDelay: 576,
+          encoderPadding: 288,
+        });
+      });
+
+      it("should return null for audio that is not MP3", () => {
+        const ogg = new TextEncoder().encode("OggS\0\x02");
+        expect(getAudioInfo(ogg)).toBeNull();
+        expect(getAudioInfo(new ArrayBuffer(0))).toBeNull();
       });
     });
   });
@@ -497,6 +771,129 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
     });
   });
 
+  // ============================================================================
+  // Gapless MP3 Concatenation Tests
+  // ============================================================================
+
+  describe("concatenateMP3", () => {
+    // Real clip: 46 frames of speech, then 8 frames without audio data
+    const realClip = () => new Uint8Array(loadRealMP3File());
+
+    it("should join clips without their trailing silence", () => {
+      const joined = concatenateMP3([realClip(), realClip()]);
+      const info = getAudioInfo(joined);
+
+      // 47 frames of each clip, one silent frame kept after its audio
+      expect(info).toMatchObject({
+        frameCount: 94,
+        durationMs: 2256,
+        infoTag: "Info",
+        declaredFrameCount: 94,
+        audioOffset: 144,
+      });
+      expect(validateEdgeTTSMP3(joined.buffer as ArrayBuffer)).toBe(true);
+    });
+
+    it("should keep every frame when silence is not trimmed", () => {
+      const joined = concatenateMP3([realClip(), realClip()], {
+        trimSilence: false,
+      });
+
+      expect(getAudioInfo(joined)!.durationMs).toBe(2 * 1296);
+      expect(joined.length).toBe(144 + 2 * 7776);
+    });
+
+    it("should insert whole frames of silence between clips", () => {
+      const clips = [realClip(), realClip(), realClip()];
+      const even = concatenateMP3(clips, { gapMs: 240 });
+      const perJoin = concatenateMP3(clips, { gapMs: [240, 0] });
+
+      // 240ms is ten 24ms frames per join
+      expect(getAudioInfo(even)!.frameCount).toBe(3 * 47 + 20);
+      expect(getAudioInfo(perJoin)!.frameCount).toBe(3 * 47 + 10);
+      const gap = even.subarray(144 + 47 * 144, 144 + 57 * 144);
+      for (let frame = 0; frame < 10; frame++) {
+        const bytes = gap.subarray(frame * 144, (frame + 1) * 144);
+        expect([...bytes.subarray(0, 4)]).toEqual([0xff, 0xf3, 0x64, 0xc4]);
+        expect(bytes.subarray(4).every((byte) => byte === 0)).toBe(true);
+      }
+    });
+
+    it("should keep only the first ID3v2 tag", () => {
+      const tagged = new Uint8Array(20 + 7776);
+      // 10 byte tag header, 10 bytes of tag data
+      tagged.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 10]);
+      tagged.set(realClip(), 20);
+
+      const joined = concatenateMP3([tagged, tagged]);
+
+      expect(getAudioInfo(joined)!.audioOffset).toBe(20 + 144);
+      expect(getAudioInfo(joined)!.audioLength).toBe(94 * 144);
+    });
+
+    it("should keep frames whose data later frames refer to", () => {
+      const clip = new Uint8Array(createMP3Frames(5));
+      // Frame 3 has audio data that begins 200 bytes back, in frames 1 and 2
+      clip[3 * 144 + 4] = 200;
+      clip[3 * 144 + 5] = 0x40;
+      clip[4 * 144 + 5] = 0x40;
+
+      const joined = concatenateMP3([clip]);
+
+      expect(getAudioInfo(joined)!.frameCount).toBe(4);
+    });
+
+    it("should reject clips of another format", () => {
+      // MPEG-1 Layer III, 128kbps, 48kHz, mono
+      const other = new Uint8Array(384);
+      other.set([0xff, 0xfb, 0x94, 0xc4]);
+
+      expect(() => concatenateMP3([realClip(), other])).toThrow(
+        "Clip 1 differs in format from the first clip",
+      );
+      expect(() => concatenateMP3([realClip(), new Uint8Array(10)])).toThrow(
+        "Clip 1 is not MP3 audio",
+      );
+    });
+  });
+
+  describe("createMP3Segment", () => {
+    const realClip = () => new Uint8Array(loadRealMP3File());
+
+    it("should put the muted frames the bit reservoir needs in front", () => {
+      const clip = realClip();
+      // Frame 20 takes 193 bytes of main data from the two frames before it
+      const { data, leadMs } = createMP3Segment(
+        clip.subarray(0, 20 * 144),
+        clip.subarray(20 * 144),
+      );
+
+      expect(leadMs).toBe(48);
+      expect(data.subarray(288)).toEqual(clip.subarray(20 * 144));
+      for (const frame of [18, 19]) {
+        const muted = data.subarray((frame - 18) * 144, (frame - 17) * 144);
+        expect(muted.subarray(0, 4)).toEqual(
+          clip.subarray(frame * 144, frame * 144 + 4),
+        );
+        // Side information zeroed, main data kept
+        expect(muted.subarray(4, 13).every((byte) => byte === 0)).toBe(true);
+        expect(muted.subarray(13)).toEqual(
+          clip.subarray(frame * 144 + 13, (frame + 1) * 144),
+        );
+      }
+      expect(getAudioInfo(data)?.frameCount).toBe(36);
+    });
+
+    it("should keep audio that needs nothing from before the cut", () => {
+      const clip = realClip();
+
+      expect(createMP3Segment(new Uint8Array(0), clip)).toEqual({
+        data: clip,
+        leadMs: 0,
+      });
+    });
+  });
+
   // ============================================================================
   // Audio Streaming Buffer Tests
   // ============================================================================
@@ -753,7 +1150,7 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
       // Create complete Edge TTS binary message
       const headerText =
         "Content-Type: audio/mpeg\r\nPath: audio\r\nX-RequestId: 12345678901234567890123456789012\r\nX-Timestamp: 2024-01-01T00:00:00.000Z\r\n\r\n";
-      const audioSize = 1024;
+      const audioSize = 7 * 144;
       const totalSize = 2 + headerText.length + audioSize;
 
       const binaryMessage = new ArrayBuffer(totalSize);
@@ -766,9 +1163,8 @@ describe("AudioUtils - Edge TTS Audio Processing Utilities", () => {
         uint8View[2 + i] = headerText.charCodeAt(i);
       }
 
-      // Add valid MP3 header
-      uint8View[2 + headerText.length] = 0xff;
-      uint8View[2 + headerText.length + 1] = 0xe0;
+      // Add valid MP3 frames
+      uint8View.set(new Uint8Array(createMP3Frames(7)), 2 + headerText.length);
 
       // Parse message
       const parsed = parseEdgeTTSBinaryMessage(binaryMessage);
@@ -1844,12 +2240,11 @@ function createValidMP3Data(): ArrayBuffer {
   const data = new ArrayBuffer(100);
   const view = new Uint8Array(data);
 
-  // Set MP3 frame sync header
-  view[0] = 0xff;
-  view[1] = 0xe0;
+  // Set MP3 frame header: MPEG-2 Layer III, 48kbps, 24kHz, mono
+  view.set([0xff, 0xf3, 0x64, 0xc4]);
 
-  // Fill with some dummy MP3-like data
-  for (let i = 2; i < 100; i++) {
+  // Fill the start of the frame with some dummy MP3-like data
+  for (let i = 4; i < 100; i++) {
     view[i] = i % 256;
   }
 
@@ -66,6 +66,45 @@ describe("Speech API Configuration", () => {
         "Configuration must be a valid SpeechAPIConfig object",
       );
     });
+
+    test("should accept a pronunciation lexicon", () => {
+      expect(() =>
+        configure({
+          lexicon: [
+            { match: "SQL", replacement: "sequel" },
+            { match: /\bv(\d+)\b/i, alias: "version" },
+            { match: "Nguyen", phoneme: "wɪn", alphabet: "ipa" },
+          ],
+        }),
+      ).not.toThrow();
+    });
+
+    test("should validate normalization options", () => {
+      expect(() =>
+        configure({ normalize: { locale: "de-DE", skip: ["units"] } }),
+      ).not.toThrow();
+      expect(() => configure({ normalize: { skip: "units" } as any })).toThrow(
+        "Invalid normalization options: Normalization skip must be an array of normalizer names",
+      );
+    });
+
+    test("should validate the output format", () => {
+      expect(() =>
+        configure({ outputFormat: "ogg-24khz-16bit-mono-opus" }),
+      ).not.toThrow();
+      expect(() => configure({ outputFormat: "audio-wav" as any })).toThrow(
+        "Invalid output format: Output format must be one of:",
+      );
+    });
+
+    test("should reject invalid lexicon entries", () => {
+      expect(() => configure({ lexicon: [{ match: "SQL" } as any] })).toThrow(
+        "Invalid lexicon: Lexicon entry 1 must have exactly one of replacement, phoneme or alias",
+      );
+      expect(() => configure({ lexicon: [{ match: "", alias: "x" }] })).toThrow(
+        "Lexicon entry 1 must match a non-empty string or a RegExp",
+      );
+    });
   });
 
   describe("configuration types", () => {
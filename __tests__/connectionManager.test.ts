@@ -9,7 +9,7 @@ import { StateManager, ApplicationState } from "../src/core/state";
 import { NetworkService } from "../src/services/networkService";
 import { AudioService, AudioPlaybackState } from "../src/services/audioService";
 import { StorageService } from "../src/services/storageService";
-import { SpeechOptions } from "../src/types";
+import { SpeechOptions, SynthesisCancelled } from "../src/types";
 import { AppState } from "react-native";
 
 // Mock React Native AppState
@@ -21,6 +21,23 @@ jest.mock("react-native", () => ({
   },
 }));
 
+// Mock expo-file-system for synthesis to file; the directories can be
+// removed, as on web
+const mockDirectories: { document: string | null; cache: string | null } = {
+  document: "file:///documents/",
+  cache: "file:///cache/",
+};
+jest.mock("expo-file-system", () => ({
+  get documentDirectory() {
+    return mockDirectories.document;
+  },
+  get cacheDirectory() {
+    return mockDirectories.cache;
+  },
+  writeAsStringAsync: jest.fn().mockResolvedValue(undefined),
+  EncodingType: { Base64: "base64" },
+}));
+
 // Mock services for comprehensive testing
 const createMockStateManager = () =>
   ({
@@ -39,6 +56,9 @@ const createMockNetworkService = () =>
       boundaries: [{ charIndex: 0, charLength: 4, audioOffset: 0 }],
     }),
     close: jest.fn().mockResolvedValue(undefined),
+    cancelSynthesis: jest.fn().mockReturnValue(false),
+    onAudioData: jest.fn(),
+    onBoundaryData: jest.fn(),
     getStats: jest.fn().mockReturnValue({
       activeSessions: 0,
       activeConnections: 0,
@@ -52,9 +72,15 @@ const createMockAudioService = () =>
     playStreamedAudio: jest.fn().mockResolvedValue(undefined),
     startProgressivePlayback: jest.fn().mockResolvedValue(undefined),
     finalizeProgressivePlayback: jest.fn().mockResolvedValue(undefined),
+    appendProgressiveAudio: jest.fn(),
+    addProgressiveBoundary: jest.fn(),
     stop: jest.fn().mockResolvedValue(undefined),
     pause: jest.fn().mockResolvedValue(undefined),
     resume: jest.fn().mockResolvedValue(undefined),
+    seekTo: jest.fn().mockResolvedValue(undefined),
+    getPositionAsync: jest.fn().mockResolvedValue(1200),
+    getDurationAsync: jest.fn().mockResolvedValue(4800),
+    currentBoundaries: [],
     getState: jest.fn().mockReturnValue(AudioPlaybackState.Idle),
   }) as unknown as AudioService;
 
@@ -209,7 +235,7 @@ describe("ConnectionManager", () => {
         "test-session-123",
         "test-connection-123",
       );
-      expect(mockAudioService.speak).toHaveBeenCalledWith(
+      expect(mockAudioService.startProgressivePlayback).toHaveBeenCalledWith(
         expect.objectContaining({
           voice: "en-US-AriaNeural",
           onDone: expect.any(Function),
@@ -217,6 +243,10 @@ describe("ConnectionManager", () => {
         }),
         "test-connection-123",
       );
+      expect(mockAudioService.finalizeProgressivePlayback).toHaveBeenCalledWith(
+        "test-connection-123",
+      );
+      expect(mockAudioService.speak).not.toHaveBeenCalled();
     });
 
     test("should stop synthesis for valid session", async () => {
@@ -272,6 +302,51 @@ describe("ConnectionManager", () => {
         connectionManager.resumeSynthesis("invalid-session"),
       ).rejects.toThrow("Session not found");
     });
+
+    test("should seek and report playback of the session playing", async () => {
+      const sessionId = await connectionManager.startSynthesis(
+        "Test synthesis",
+        testSpeechOptions,
+      );
+      (mockAudioService as any).currentConnectionId = "test-connection-123";
+
+      await connectionManager.seekSynthesis(sessionId, 2000);
+
+      expect(mockAudioService.seekTo).toHaveBeenCalledWith(2000);
+      expect(await connectionManager.getSynthesisPosition(sessionId)).toBe(
+        1200,
+      );
+      expect(await connectionManager.getSynthesisDuration(sessionId)).toBe(
+        4800,
+      );
+
+      const boundary = {
+        type: "word",
+        boundary: { charIndex: 0, charLength: 4 },
+        timing: { offsetMs: 0, durationMs: 300 },
+      };
+      (mockAudioService as any).currentBoundaries = [boundary];
+      expect(connectionManager.getSynthesisBoundaries(sessionId)).toEqual([
+        boundary,
+      ]);
+    });
+
+    test("should not seek audio of another connection", async () => {
+      const sessionId = await connectionManager.startSynthesis(
+        "Test synthesis",
+        testSpeechOptions,
+      );
+      (mockAudioService as any).currentConnectionId = "other-connection";
+
+      await connectionManager.seekSynthesis(sessionId, 2000);
+
+      expect(mockAudioService.seekTo).not.toHaveBeenCalled();
+      expect(await connectionManager.getSynthesisPosition(sessionId)).toBe(0);
+      expect(connectionManager.getSynthesisBoundaries(sessionId)).toEqual([]);
+      await expect(
+        connectionManager.seekSynthesis("invalid-session", 2000),
+      ).rejects.toThrow("Session not found");
+    });
   });
 
   describe("Connection Pool Management", () => {
@@ -480,6 +555,27 @@ describe("ConnectionManager", () => {
       expect(errorCallback).toHaveBeenCalled();
     });
 
+    test("should stop playback without reporting a stop on a network error", async () => {
+      const onError = jest.fn();
+      const onStopped = jest.fn();
+      (mockNetworkService.synthesizeText as jest.Mock).mockRejectedValue(
+        Object.assign(new Error("Authentication error"), { code: "AuthError" }),
+      );
+
+      await expect(
+        connectionManager.startSynthesis("Test error", {
+          ...testSpeechOptions,
+          onError,
+          onStopped,
+        }),
+      ).rejects.toThrow("Authentication error");
+
+      expect(mockAudioService.startProgressivePlayback).toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(mockAudioService.stop).toHaveBeenCalledWith(false);
+      expect(onStopped).not.toHaveBeenCalled();
+    });
+
     test("should stop retrying after max attempts", async () => {
       // Mock network service to always fail with retryable error
       (mockNetworkService.synthesizeText as jest.Mock).mockRejectedValue(
@@ -572,10 +668,29 @@ describe("ConnectionManager", () => {
   });
 
   describe("Service Integration", () => {
-    test("should handle boundary events from NetworkService", async () => {
+    test("should hand boundary events from NetworkService to AudioService", async () => {
+      const boundaries = [
+        {
+          type: "word",
+          boundary: { charIndex: 0, charLength: 4 },
+          timing: {
+            rawOffset: 8750000,
+            adjustedOffset: 0,
+            offsetMs: 0,
+            duration: 3000000,
+            durationMs: 300,
+          },
+        },
+      ];
+      (mockNetworkService.synthesizeText as jest.Mock).mockResolvedValue({
+        audioChunks: [new Uint8Array([1, 2, 3, 4])],
+        boundaries,
+      });
       const boundaryCallback = jest.fn();
+      // Formats other than MP3 are played once synthesis completes
       const optionsWithBoundary = {
         ...testSpeechOptions,
+        outputFormat: "ogg-24khz-16bit-mono-opus" as const,
         onBoundary: boundaryCallback,
       };
 
@@ -584,12 +699,14 @@ describe("ConnectionManager", () => {
         optionsWithBoundary,
       );
 
-      // Should have received boundary from mock network service
-      expect(boundaryCallback).toHaveBeenCalledWith({
-        charIndex: 0,
-        charLength: 4,
-        audioOffset: 0,
-      });
+      // Boundaries are fired during playback, not when synthesis completes
+      expect(boundaryCallback).not.toHaveBeenCalled();
+      expect(mockAudioService.startProgressivePlayback).not.toHaveBeenCalled();
+      expect(mockAudioService.speak).toHaveBeenCalledWith(
+        expect.objectContaining({ onBoundary: boundaryCallback }),
+        "test-connection-123",
+        boundaries,
+      );
     });
 
     test("should coordinate storage buffer management", async () => {
@@ -607,15 +724,18 @@ describe("ConnectionManager", () => {
         onDone: userOnDone,
       };
 
-      // Mock AudioService.speak to immediately call the onDone callback
-      (mockAudioService.speak as jest.Mock).mockImplementation(
-        async (options: any) => {
-          if (options.onDone) {
-            options.onDone();
-          }
-          return Promise.resolve();
-        },
-      );
+      // Mock streamed playback to call onDone as soon as the stream ends
+      let playbackOptions: any;
+      (
+        mockAudioService.startProgressivePlayback as jest.Mock
+      ).mockImplementation(async (options: any) => {
+        playbackOptions = options;
+      });
+      (
+        mockAudioService.finalizeProgressivePlayback as jest.Mock
+      ).mockImplementation(async () => {
+        playbackOptions.onDone();
+      });
 
       await connectionManager.startSynthesis(
         "Test callback",
@@ -630,6 +750,273 @@ describe("ConnectionManager", () => {
         "test-connection-123",
       );
     });
+
+    test("should release the connection before calling onDone", async () => {
+      let releasedBeforeDone = false;
+      const userOnDone = jest.fn(() => {
+        releasedBeforeDone =
+          mockStorageService.cleanupConnection.mock.calls.length > 0;
+      });
+
+      let playbackOptions: any;
+      (
+        mockAudioService.startProgressivePlayback as jest.Mock
+      ).mockImplementation(async (options: any) => {
+        playbackOptions = options;
+      });
+      (
+        mockAudioService.finalizeProgressivePlayback as jest.Mock
+      ).mockImplementation(async () => {
+        playbackOptions.onDone();
+      });
+
+      await connectionManager.startSynthesis("Test callback", {
+        ...testSpeechOptions,
+        onDone: userOnDone,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(userOnDone).toHaveBeenCalledTimes(1);
+      expect(releasedBeforeDone).toBe(true);
+    });
+  });
+
+  describe("Streamed Playback", () => {
+    const chunk = new Uint8Array([0xff, 0xf3, 0x64, 0xc4]);
+    const boundary = {
+      type: "word",
+      boundary: { charIndex: 0, charLength: 4 },
+      timing: { offsetMs: 0, durationMs: 300 },
+    };
+    let onAudioData: (connectionId: string, chunk: Uint8Array) => void;
+    let onBoundaryData: (connectionId: string, item: any) => void;
+
+    beforeEach(() => {
+      onAudioData = (mockNetworkService.onAudioData as jest.Mock).mock
+        .calls[0][0];
+      onBoundaryData = (mockNetworkService.onBoundaryData as jest.Mock).mock
+        .calls[0][0];
+    });
+
+    test("should play audio and boundaries as they arrive", async () => {
+      (mockNetworkService.synthesizeText as jest.Mock).mockImplementation(
+        async () => {
+          onBoundaryData("test-connection-123", boundary);
+          onAudioData("test-connection-123", chunk);
+          // Playback has its audio before synthesis completes
+          expect(mockAudioService.appendProgressiveAudio).toHaveBeenCalledWith(
+            "test-connection-123",
+            chunk,
+          );
+          expect(
+            mockAudioService.finalizeProgressivePlayback,
+          ).not.toHaveBeenCalled();
+          return { audioChunks: [chunk], boundaries: [boundary] };
+        },
+      );
+
+      await connectionManager.startSynthesis("Test stream", testSpeechOptions);
+
+      expect(mockAudioService.addProgressiveBoundary).toHaveBeenCalledWith(
+        "test-connection-123",
+        boundary,
+      );
+      expect(mockAudioService.finalizeProgressivePlayback).toHaveBeenCalledWith(
+        "test-connection-123",
+      );
+      expect(mockAudioService.speak).not.toHaveBeenCalled();
+    });
+
+    test("should ignore audio of other connections", () => {
+      onAudioData("unknown-connection", chunk);
+
+      expect(mockAudioService.appendProgressiveAudio).not.toHaveBeenCalled();
+    });
+
+    test("should not retry a stream whose audio has been played", async () => {
+      (mockNetworkService.synthesizeText as jest.Mock).mockImplementation(
+        async () => {
+          onAudioData("test-connection-123", chunk);
+          throw Object.assign(new Error("Network error"), {
+            code: "NetworkError",
+          });
+        },
+      );
+
+      await expect(
+        connectionManager.startSynthesis("Test stream", testSpeechOptions),
+      ).rejects.toThrow("Network error");
+      expect(mockNetworkService.synthesizeText).toHaveBeenCalledTimes(1);
+      expect(mockAudioService.stop).toHaveBeenCalled();
+    });
+  });
+
+  describe("Synthesis without Playback", () => {
+    const FileSystem = require("expo-file-system");
+
+    beforeEach(() => {
+      (mockNetworkService.synthesizeText as jest.Mock).mockResolvedValue({
+        audioChunks: [new Uint8Array([1, 2, 3])],
+        boundaries: [],
+        duration: 750,
+        completed: true,
+      });
+      (mockStorageService.getMergedAudioData as jest.Mock).mockReturnValue(
+        new Uint8Array([0x68, 0x69]),
+      );
+    });
+
+    test("should return the merged audio without playing it", async () => {
+      const result = await connectionManager.synthesizeAudio(
+        "<speak>test</speak>",
+        testSpeechOptions,
+      );
+
+      expect(result).toEqual({
+        audio: new Uint8Array([0x68, 0x69]),
+        mimeType: "audio/mpeg",
+        durationMs: 750,
+        boundaries: [],
+      });
+      expect(mockAudioService.speak).not.toHaveBeenCalled();
+      expect(mockAudioService.stop).not.toHaveBeenCalled();
+      expect(mockStorageService.cleanupConnection).toHaveBeenCalledWith(
+        "test-connection-123",
+      );
+    });
+
+    test("should retry retryable errors with the same SSML", async () => {
+      (mockNetworkService.synthesizeText as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error("Network error"), { code: "NetworkError" }),
+      );
+
+      const result = await connectionManager.synthesizeAudio(
+        "<speak>test</speak>",
+        testSpeechOptions,
+      );
+
+      expect(result.durationMs).toBe(750);
+      expect(mockNetworkService.synthesizeText).toHaveBeenCalledTimes(2);
+      expect(
+        (mockNetworkService.synthesizeText as jest.Mock).mock.calls[1][0],
+      ).toBe("<speak>test</speak>");
+      // The buffer of the failed attempt is replaced
+      expect(mockStorageService.createConnectionBuffer).toHaveBeenCalledTimes(
+        2,
+      );
+    });
+
+    test("should cancel synthesis when the signal is aborted", async () => {
+      let rejectSynthesis: (error: Error) => void = () => {};
+      (mockNetworkService.synthesizeText as jest.Mock).mockReturnValue(
+        new Promise((_, reject) => (rejectSynthesis = reject)),
+      );
+      (mockNetworkService.cancelSynthesis as jest.Mock).mockImplementation(
+        () => {
+          rejectSynthesis(new SynthesisCancelled());
+          return true;
+        },
+      );
+      const controller = new AbortController();
+
+      const promise = connectionManager.synthesizeAudio("<speak>test</speak>", {
+        ...testSpeechOptions,
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(SynthesisCancelled);
+      expect(mockNetworkService.cancelSynthesis).toHaveBeenCalledWith(
+        "test-session-123",
+      );
+      expect(testSpeechOptions.onError).not.toHaveBeenCalled();
+      expect(
+        connectionManager.getConnectionPoolStatus().activeConnections,
+      ).toBe(0);
+      await expect(
+        connectionManager.synthesizeAudio("<speak>test</speak>", {
+          ...testSpeechOptions,
+          signal: controller.signal,
+        }),
+      ).rejects.toBeInstanceOf(SynthesisCancelled);
+    });
+
+    test("should write the merged audio without playing it", async () => {
+      const result = await connectionManager.synthesizeToFile(
+        "<speak>test</speak>",
+        { ...testSpeechOptions, outputFormat: "ogg-24khz-16bit-mono-opus" },
+      );
+
+      expect(result).toEqual({
+        uri: "file:///documents/speech_test-connection-123.ogg",
+        durationMs: 750,
+        byteLength: 2,
+        format: "ogg-24khz-16bit-mono-opus",
+        boundaries: [],
+      });
+      expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith(
+        result.uri,
+        "aGk=",
+        { encoding: FileSystem.EncodingType.Base64 },
+      );
+      expect(mockAudioService.speak).not.toHaveBeenCalled();
+      expect(mockStorageService.cleanupConnection).toHaveBeenCalledWith(
+        "test-connection-123",
+      );
+      expect(
+        connectionManager.getConnectionPoolStatus().activeConnections,
+      ).toBe(0);
+    });
+
+    test("should write to the requested file", async () => {
+      const result = await connectionManager.synthesizeToFile(
+        "<speak>test</speak>",
+        { ...testSpeechOptions, fileUri: "file:///documents/lesson-1.mp3" },
+      );
+
+      expect(result.uri).toBe("file:///documents/lesson-1.mp3");
+      expect(result.format).toBe("audio-24khz-48kbitrate-mono-mp3");
+    });
+
+    test("should reject without a directory to write to", async () => {
+      mockDirectories.document = null;
+      mockDirectories.cache = null;
+
+      try {
+        await expect(
+          connectionManager.synthesizeToFile(
+            "<speak>test</speak>",
+            testSpeechOptions,
+          ),
+        ).rejects.toMatchObject({
+          name: "FileSystemUnavailable",
+          code: "FILE_SYSTEM_UNAVAILABLE",
+        });
+        expect(mockNetworkService.synthesizeText).not.toHaveBeenCalled();
+        expect(FileSystem.writeAsStringAsync).not.toHaveBeenCalled();
+      } finally {
+        mockDirectories.document = "file:///documents/";
+        mockDirectories.cache = "file:///cache/";
+      }
+    });
+
+    test("should release the connection when synthesis fails", async () => {
+      (mockNetworkService.synthesizeText as jest.Mock).mockRejectedValue(
+        new Error("Network failure"),
+      );
+
+      await expect(
+        connectionManager.synthesizeToFile(
+          "<speak>test</speak>",
+          testSpeechOptions,
+        ),
+      ).rejects.toThrow("Network failure");
+      expect(FileSystem.writeAsStringAsync).not.toHaveBeenCalled();
+      expect(mockStorageService.cleanupConnection).toHaveBeenCalled();
+      expect(
+        connectionManager.getConnectionPoolStatus().activeConnections,
+      ).toBe(0);
+    });
   });
 
   describe("Edge Cases and Error Scenarios", () => {
@@ -0,0 +1,112 @@
+/**
+ * html.test.ts
+ * Unit tests for HTML text extraction
+ */
+
+import {
+  renderHTML,
+  extractTextFromHTML,
+  getHTMLSegments,
+} from "../src/utils/html";
+
+describe("html", () => {
+  describe("renderHTML", () => {
+    it("should drop scripts, styles, navigation and hidden elements", () => {
+      const text = extractTextFromHTML(
+        '<html><head><title>Page</title><style>p { color: red }</style></head><body><nav><a href="/">Home</a></nav><p>Story</p><script>var p = "<p>";</script><div hidden>Secret</div><p aria-hidden="true">Icon</p></body></html>',
+      );
+
+      expect(text).toBe("Story");
+    });
+
+    it("should decode entities and collapse whitespace", () => {
+      expect(
+        extractTextFromHTML(
+          "<p>Tom &amp; Jerry&nbsp;&mdash; x &lt; y,\n   &#169; &#x263A; &bogus; 1 < 2</p>",
+        ),
+      ).toBe("Tom & Jerry — x < y, © ☺ &bogus; 1 < 2");
+    });
+
+    it("should decode accented letters and Greek entities", () => {
+      expect(
+        extractTextFromHTML(
+          '<p lang="fr">Caf&eacute; &agrave; la fran&ccedil;aise, &Uuml;ber, Espa&ntilde;a, &oelig;uvre, &alpha; &le; &Omega;</p>',
+        ),
+      ).toBe("Café à la française, Über, España, œuvre, α ≤ Ω");
+    });
+
+    it("should pause between blocks in reading order", () => {
+      const rendered = renderHTML(
+        "<h1>Title</h1><p>One<br>two</p><ul><li>A</li><li>B</li></ul><table><tr><td>C</td><td>D</td></tr></table>",
+      );
+
+      expect(rendered.text).toBe("Title\nOne\ntwo\nA\nB\nC\nD");
+      expect(getHTMLSegments(rendered)).toEqual([
+        {
+          language: undefined,
+          markup:
+            'Title\n<break strength="strong"/>One\n<break strength="weak"/>two\n<break strength="medium"/>A\n<break strength="medium"/>B\n<break strength="medium"/>C\n<break strength="weak"/>D',
+        },
+      ]);
+    });
+
+    it("should keep inline elements within a sentence", () => {
+      expect(
+        extractTextFromHTML("<p>A <em>very</em> <a href='#'>good</a>day</p>"),
+      ).toBe("A very goodday");
+    });
+
+    it("should split segments at lang attributes", () => {
+      const rendered = renderHTML(
+        '<html lang="en"><p>Say <span lang="fr_fr">bonjour</span> twice</p><p lang="">Hi</p></html>',
+      );
+
+      expect(getHTMLSegments(rendered)).toEqual([
+        { language: "en", markup: "Say " },
+        { language: "fr-FR", markup: "bonjour " },
+        { language: "en", markup: "twice\n" },
+        { language: undefined, markup: '<break strength="medium"/>Hi' },
+      ]);
+    });
+
+    it("should build segments for part of the text", () => {
+      const rendered = renderHTML("<p>First</p><p>Second</p><p>Third</p>");
+
+      expect(getHTMLSegments(rendered, 6, 12)).toEqual([
+        { language: undefined, markup: "Second" },
+      ]);
+      expect(getHTMLSegments(rendered, 0, 12)[0].markup).toBe(
+        'First\n<break strength="medium"/>Second',
+      );
+    });
+
+    it("should map extracted text to text nodes", () => {
+      const rendered = renderHTML(
+        "<title>T</title><p>Fish &amp; <b>chips</b>,\n  please</p>",
+      );
+      const { text, textNodes } = rendered;
+
+      expect(text).toBe("Fish & chips, please");
+      // Node 0 is the title
+      expect(textNodes.locate(text.indexOf("&"))).toEqual({
+        index: 1,
+        offset: 5,
+      });
+      expect(textNodes.locate(text.indexOf("chips"))).toEqual({
+        index: 2,
+        offset: 0,
+      });
+      expect(textNodes.locate(text.indexOf("please"))).toEqual({
+        index: 3,
+        offset: 4,
+      });
+    });
+
+    it("should not map block separators", () => {
+      const rendered = renderHTML("<p>A</p><p>B</p>");
+
+      expect(rendered.textNodes.locate(1)).toBeUndefined();
+      expect(rendered.textNodes.locate(2)).toEqual({ index: 1, offset: 0 });
+    });
+  });
+});
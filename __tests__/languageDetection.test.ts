@@ -0,0 +1,76 @@
+/**
+ * languageDetection.test.ts
+ * Unit tests for script-based language detection
+ */
+
+import { detectLanguageRuns } from "../src/utils/languageDetection";
+
+const detect = (text: string, defaultLanguage?: string) =>
+  detectLanguageRuns(text, defaultLanguage).map((run) => [
+    text.slice(run.start, run.end),
+    run.language,
+  ]);
+
+describe("languageDetection", () => {
+  describe("detectLanguageRuns", () => {
+    it("should keep single-script text in the default language", () => {
+      expect(detect("Bonjour, ça va ?", "fr-FR")).toEqual([
+        ["Bonjour, ça va ?", "fr"],
+      ]);
+      expect(detect("123 !")).toEqual([["123 !", "en"]]);
+      expect(detectLanguageRuns("")).toEqual([]);
+    });
+
+    it("should split runs by script", () => {
+      expect(detect("Hello 你好, 안녕 and Γειά", "en-US")).toEqual([
+        ["Hello ", "en"],
+        ["你好, ", "zh"],
+        ["안녕 ", "ko"],
+        ["and ", "en"],
+        ["Γειά", "el"],
+      ]);
+    });
+
+    it("should read Han next to kana as Japanese", () => {
+      expect(detect("東京に行きます and 北京", "en-US")).toEqual([
+        ["東京に行きます ", "ja"],
+        ["and ", "en"],
+        ["北京", "zh"],
+      ]);
+      expect(detect("北京", "ja-JP")).toEqual([["北京", "ja"]]);
+    });
+
+    it("should read Han sentences without kana in the default language", () => {
+      expect(detect("中文。日本語", "zh-CN")).toEqual([["中文。日本語", "zh"]]);
+      expect(detect("中文。日本語です。中文", "zh-CN")).toEqual([
+        ["中文。", "zh"],
+        ["日本語です。", "ja"],
+        ["中文", "zh"],
+      ]);
+      expect(detect("中文。日本語です", "ja-JP")).toEqual([
+        ["中文。日本語です", "ja"],
+      ]);
+    });
+
+    it("should read Latin text as English with a non-Latin default", () => {
+      expect(detect("你好 hello", "zh-CN")).toEqual([
+        ["你好 ", "zh"],
+        ["hello", "en"],
+      ]);
+    });
+
+    it("should leave short Latin words inside other text", () => {
+      expect(detect("我用iPhone拍照。Then we left.", "en-US")).toEqual([
+        ["我用iPhone拍照。", "zh"],
+        ["Then we left.", "en"],
+      ]);
+    });
+
+    it("should tell languages of one script apart by their letters", () => {
+      expect(detect("Привіт", "en-US")).toEqual([["Привіт", "uk"]]);
+      expect(detect("Привет", "en-US")).toEqual([["Привет", "ru"]]);
+      expect(detect("Привет", "bg-BG")).toEqual([["Привет", "bg"]]);
+      expect(detect("سلام، چطوری", "en-US")).toEqual([["سلام، چطوری", "fa"]]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * lexicon.test.ts
+ * Unit tests for pronunciation lexicon substitution
+ */
+
+import { applyLexicon } from "../src/utils/lexicon";
+
+describe("lexicon", () => {
+  describe("applyLexicon", () => {
+    it("should leave text without matches unchanged", () => {
+      const result = applyLexicon("Tom & Jerry", [
+        { match: "SQL", replacement: "sequel" },
+      ]);
+
+      expect(result.text).toBe("Tom & Jerry");
+      expect(result.markup).toBe("Tom &amp; Jerry");
+      expect(result.map.mapRange(6, 5)).toEqual({
+        charIndex: 6,
+        charLength: 5,
+      });
+    });
+
+    it("should replace whole words case-insensitively", () => {
+      const result = applyLexicon("Learn sql, not SQLite", [
+        { match: "SQL", replacement: "sequel" },
+      ]);
+
+      expect(result.text).toBe("Learn sequel, not SQLite");
+      expect(result.markup).toBe("Learn sequel, not SQLite");
+    });
+
+    it("should respect caseSensitive", () => {
+      expect(
+        applyLexicon("us and US", [
+          { match: "US", replacement: "United States", caseSensitive: true },
+        ]).text,
+      ).toBe("us and United States");
+    });
+
+    it("should emit phoneme and sub markup", () => {
+      const result = applyLexicon("Ask Nguyen about the WWW", [
+        { match: "Nguyen", phoneme: "wɪn" },
+        { match: "WWW", alias: "World Wide Web" },
+      ]);
+
+      expect(result.markup).toBe(
+        'Ask <phoneme alphabet="ipa" ph="wɪn">Nguyen</phoneme> about the <sub alias="World Wide Web">WWW</sub>',
+      );
+      expect(result.text).toBe("Ask Nguyen about the World Wide Web");
+    });
+
+    it("should support regular expressions", () => {
+      const result = applyLexicon("Upgrade to v2 or v10", [
+        { match: /\bv(?=\d)/, alias: "version " },
+      ]);
+
+      expect(result.text).toBe("Upgrade to version 2 or version 10");
+    });
+
+    it("should match non-ASCII words as whole words", () => {
+      expect(
+        applyLexicon("Straße und Straßen", [
+          { match: "Straße", replacement: "Strasse" },
+        ]).text,
+      ).toBe("Strasse und Straßen");
+    });
+
+    it("should prefer earlier entries for overlapping matches", () => {
+      expect(
+        applyLexicon("New York City", [
+          { match: "New York City", replacement: "NYC" },
+          { match: "York", replacement: "Yorkshire" },
+        ]).text,
+      ).toBe("NYC");
+    });
+
+    it("should map boundaries back to the original text", () => {
+      const original = "I love SQL databases";
+      const result = applyLexicon(original, [
+        { match: "SQL", replacement: "structured query language" },
+      ]);
+
+      // "query" lies inside the replacement
+      const query = result.text.indexOf("query");
+      expect(result.map.mapRange(query, 5)).toEqual({
+        charIndex: 7,
+        charLength: 3,
+      });
+
+      // "databases" follows the replacement
+      const databases = result.text.indexOf("databases");
+      const mapped = result.map.mapRange(databases, 9);
+      expect(original.substr(mapped.charIndex, mapped.charLength)).toBe(
+        "databases",
+      );
+    });
+  });
+});
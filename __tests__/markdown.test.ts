@@ -0,0 +1,92 @@
+/**
+ * markdown.test.ts
+ * Unit tests for Markdown rendering
+ */
+
+import { renderMarkdown } from "../src/utils/markdown";
+
+describe("markdown", () => {
+  describe("renderMarkdown", () => {
+    it("should leave plain text unchanged", () => {
+      const result = renderMarkdown("Tom & Jerry");
+
+      expect(result.text).toBe("Tom & Jerry");
+      expect(result.markup).toBe("Tom &amp; Jerry");
+    });
+
+    it("should pause around headings and between list items", () => {
+      const result = renderMarkdown("# Title\n\n- one\n- [x] two\n\n1. first");
+
+      expect(result.text).toBe("Title\none\ntwo\n1 first");
+      expect(result.markup).toBe(
+        'Title\n<break strength="strong"/>one\n<break strength="medium"/>two\n<break strength="medium"/>1 first',
+      );
+    });
+
+    it("should map emphasis to <emphasis>", () => {
+      const result = renderMarkdown("A *mild* and __bold__ claim");
+
+      expect(result.text).toBe("A mild and bold claim");
+      expect(result.markup).toBe(
+        'A <emphasis level="moderate">mild</emphasis> and <emphasis level="strong">bold</emphasis> claim',
+      );
+    });
+
+    it("should keep unpaired and intraword delimiters", () => {
+      expect(renderMarkdown("2 * 3 * 4 in snake_case_name").text).toBe(
+        "2 * 3 * 4 in snake_case_name",
+      );
+      expect(renderMarkdown("\\*not emphasis\\*").text).toBe("*not emphasis*");
+    });
+
+    it("should reduce links, images and URLs", () => {
+      const result = renderMarkdown(
+        "See [the docs](https://x.dev/a), ![a chart](c.png), <https://www.expo.dev/b> and https://github.com/expo.[^1]",
+      );
+
+      expect(result.text).toBe(
+        "See the docs, a chart, expo.dev and github.com.",
+      );
+    });
+
+    it("should read code verbatim without fences", () => {
+      const result = renderMarkdown(
+        "Run `yarn test`:\n\n```sh\nyarn test\n```",
+      );
+
+      expect(result.text).toBe("Run yarn test:\nyarn test\n");
+      expect(result.markup).toContain('<break strength="medium"/>yarn test');
+    });
+
+    it("should read tables row by row", () => {
+      const result = renderMarkdown("| A | B |\n|---|:-:|\n| 1 | 2 |");
+
+      expect(result.text).toBe("A B\n1 2");
+      expect(result.markup).toBe(
+        'A <break strength="weak"/>B\n<break strength="medium"/>1 <break strength="weak"/>2',
+      );
+    });
+
+    it("should drop quote markers, rules, HTML and definitions", () => {
+      const result = renderMarkdown(
+        "> Quoted <b>text</b>\n\n---\n\nEnd\n\n[docs]: https://x.dev",
+      );
+
+      expect(result.text).toBe("Quoted text\nEnd\n");
+      expect(result.markup).toBe(
+        'Quoted text\n<break strength="strong"/>End\n',
+      );
+    });
+
+    it("should map ranges back to the Markdown source", () => {
+      const source = "## Intro\n\nRead **[the guide](https://x.dev)** now";
+      const result = renderMarkdown(source);
+      const guide = result.text.indexOf("guide");
+      const mapped = result.map.mapRange(guide, 5);
+
+      expect(source.substr(mapped.charIndex, mapped.charLength)).toBe("guide");
+      const now = result.map.mapRange(result.text.indexOf("now"), 3);
+      expect(now.charIndex).toBe(source.indexOf("now"));
+    });
+  });
+});
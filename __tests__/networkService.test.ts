@@ -8,7 +8,7 @@ import {
   NetworkService,
   timingConverter,
 } from "../src/services/networkService";
-import { SpeechOptions } from "../src/types";
+import { SpeechOptions, SynthesisCancelled } from "../src/types";
 
 // Test constants for consistent session and connection IDs
 const TEST_SESSION_ID = "test-session-id";
@@ -71,16 +71,27 @@ jest.mock("../src/services/storageService", () => ({
     .mockImplementation(() => mockStorageServiceInstance),
 }));
 
+// Audio of seven 24kHz 48kbps MP3 frames, 144 bytes each
+function mockMP3Audio(): ArrayBuffer {
+  const audio = new Uint8Array(7 * 144);
+  for (let i = 0; i < 7; i++) {
+    audio.set([0xff, 0xf3, 0x64, 0xc4], i * 144);
+  }
+  return audio.buffer;
+}
+
 // Mock audio utilities
 jest.mock("../src/utils/audioUtils", () => ({
+  ...jest.requireActual("../src/utils/audioUtils"),
   parseEdgeTTSBinaryMessage: jest.fn().mockReturnValue({
     header: { "X-RequestId": "test123" },
-    audioData: new ArrayBuffer(1024),
+    audioData: mockMP3Audio(),
   }),
 }));
 
 // Mock SSML utilities
 jest.mock("../src/utils/ssmlUtils", () => ({
+  ...jest.requireActual("../src/utils/ssmlUtils"),
   generateSSML: jest.fn().mockReturnValue("<speak>Test SSML</speak>"),
 }));
 
@@ -427,6 +438,28 @@ describe("Network Service Implementation", () => {
       expect(mockWS.send).toHaveBeenCalled();
     });
 
+    it("should request the chosen output format", async () => {
+      networkService
+        .synthesizeText(
+          "test",
+          {
+            voice: "en-US-AriaNeural",
+            outputFormat: "webm-24khz-16bit-mono-opus",
+          },
+          "test-session",
+          "test-connection",
+        )
+        .catch(() => {});
+
+      // Wait for WebSocket creation and connection
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const config = (currentMockWebSocket.send as jest.Mock).mock.calls
+        .map(([message]) => String(message))
+        .find((message) => message.includes("Path:speech.config"));
+      expect(config).toContain('"outputFormat":"webm-24khz-16bit-mono-opus"');
+    });
+
     it("should handle text messages correctly", async () => {
       networkService
         .synthesizeText(
@@ -468,7 +501,7 @@ describe("Network Service Implementation", () => {
       const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
       parseEdgeTTSBinaryMessage.mockReturnValue({
         header: { "X-RequestId": "placeholder" }, // Will be updated with captured ID
-        audioData: new ArrayBuffer(1024),
+        audioData: mockMP3Audio(),
       });
 
       networkService
@@ -498,7 +531,7 @@ describe("Network Service Implementation", () => {
       if (capturedRequestId) {
         parseEdgeTTSBinaryMessage.mockReturnValue({
           header: { "X-RequestId": capturedRequestId },
-          audioData: new ArrayBuffer(1024),
+          audioData: mockMP3Audio(),
         });
       }
 
@@ -515,6 +548,40 @@ describe("Network Service Implementation", () => {
       expect(mockStorageService.addAudioChunk).toHaveBeenCalled();
     });
 
+    it("should reject synthesis when MP3 frames do not continue across chunks", async () => {
+      const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
+      const synthesisPromise = networkService.synthesizeText(
+        "test",
+        { voice: "en-US-AriaNeural" },
+        "test-session",
+        "test-connection",
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const mockWS = currentMockWebSocket;
+      const capturedRequestId = mockWS?.__capturedRequestId;
+
+      // Ends 40 bytes into its last frame
+      parseEdgeTTSBinaryMessage.mockReturnValue({
+        header: { "X-RequestId": capturedRequestId },
+        audioData: mockMP3Audio().slice(0, 6 * 144 + 40),
+      });
+      mockWS.onmessage({ data: new ArrayBuffer(1024) });
+      expect(mockStorageService.addAudioChunk).toHaveBeenCalledTimes(1);
+
+      // Starts with a new frame instead of the rest of that one
+      parseEdgeTTSBinaryMessage.mockReturnValue({
+        header: { "X-RequestId": capturedRequestId },
+        audioData: mockMP3Audio(),
+      });
+      mockWS.onmessage({ data: new ArrayBuffer(1024) });
+
+      await expect(synthesisPromise).rejects.toThrow(
+        "frames do not continue across chunks",
+      );
+      expect(mockStorageService.addAudioChunk).toHaveBeenCalledTimes(1);
+    });
+
     it("should handle turn.end message and complete synthesis", async () => {
       const synthesisPromise = networkService.synthesizeText(
         "test",
@@ -591,6 +658,178 @@ describe("Network Service Implementation", () => {
       // Boundary processing should work with timing conversion
       // This is verified by the fact that no errors are thrown
     });
+
+    it("should keep word and sentence timing for playback instead of firing callbacks", async () => {
+      const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
+      const onBoundary = jest.fn();
+      const onSentenceBoundary = jest.fn();
+
+      const synthesisPromise = networkService.synthesizeText(
+        "test",
+        { voice: "en-US-AriaNeural", onBoundary, onSentenceBoundary },
+        "test-session",
+        "test-connection",
+      );
+
+      // Wait for WebSocket creation and synthesis start
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const mockWS = currentMockWebSocket;
+      const capturedRequestId = mockWS?.__capturedRequestId;
+      expect(capturedRequestId).toBeTruthy();
+
+      parseEdgeTTSBinaryMessage.mockReturnValue({
+        header: { "X-RequestId": capturedRequestId },
+        audioData: mockMP3Audio(),
+      });
+
+      if (mockWS?.onmessage && capturedRequestId) {
+        mockWS.onmessage({
+          data:
+            `X-RequestId:${capturedRequestId}\r\nPath:audio.metadata\r\n\r\n` +
+            JSON.stringify({
+              Metadata: [
+                {
+                  Type: "SentenceBoundary",
+                  Data: {
+                    Offset: 10000000,
+                    Duration: 6000000,
+                    text: { Text: "test", Length: 4 },
+                  },
+                },
+                {
+                  Type: "WordBoundary",
+                  Data: {
+                    Offset: 10000000, // 125ms after padding compensation
+                    Duration: 5000000, // 500ms
+                    text: {
+                      Text: "test",
+                      Length: 4,
+                      BoundaryType: "WordBoundary",
+                    },
+                  },
+                },
+              ],
+            }),
+        });
+        mockWS.onmessage({ data: new ArrayBuffer(1024) });
+        mockWS.onmessage({
+          data: `X-RequestId:${capturedRequestId}\r\nPath:turn.end\r\n\r\n`,
+        });
+      }
+
+      const response = await synthesisPromise;
+
+      expect(response.boundaries).toEqual([
+        {
+          type: "sentence",
+          boundary: {
+            charIndex: 0,
+            charLength: 4,
+            confidence: 1,
+            text: "test",
+            audioOffsetMs: 125,
+            boundaryType: "SentenceBoundary",
+            offsetMs: 125,
+            durationMs: 600,
+          },
+          timing: {
+            rawOffset: 10000000,
+            adjustedOffset: 1250000,
+            offsetMs: 125,
+            duration: 6000000,
+            durationMs: 600,
+          },
+        },
+        {
+          type: "word",
+          boundary: {
+            charIndex: 0,
+            charLength: 4,
+            confidence: 1,
+            text: "test",
+            audioOffsetMs: 125,
+            durationMs: 500,
+            boundaryType: "WordBoundary",
+            wordIndex: 0,
+          },
+          timing: {
+            rawOffset: 10000000,
+            adjustedOffset: 1250000,
+            offsetMs: 125,
+            duration: 5000000,
+            durationMs: 500,
+          },
+        },
+      ]);
+      expect(onBoundary).not.toHaveBeenCalled();
+      expect(onSentenceBoundary).not.toHaveBeenCalled();
+    });
+
+    it("should place bookmark events at their position in the text", async () => {
+      const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
+      const onMark = jest.fn();
+
+      const synthesisPromise = networkService.synthesizeText(
+        "<speak>...</speak>",
+        {
+          voice: "en-US-AriaNeural",
+          boundaryText: "Turn the page",
+          bookmarks: [{ name: "flip", charIndex: 9 }],
+          onMark,
+        },
+        "test-session",
+        "test-connection",
+      );
+
+      // Wait for WebSocket creation and synthesis start
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const mockWS = currentMockWebSocket;
+      const capturedRequestId = mockWS?.__capturedRequestId;
+      expect(capturedRequestId).toBeTruthy();
+
+      parseEdgeTTSBinaryMessage.mockReturnValue({
+        header: { "X-RequestId": capturedRequestId },
+        audioData: mockMP3Audio(),
+      });
+
+      if (mockWS?.onmessage && capturedRequestId) {
+        mockWS.onmessage({
+          data:
+            `X-RequestId:${capturedRequestId}\r\nPath:audio.metadata\r\n\r\n` +
+            JSON.stringify({
+              Metadata: [
+                {
+                  Type: "Bookmark",
+                  Data: { Offset: 20000000, Bookmark: "flip" },
+                },
+              ],
+            }),
+        });
+        mockWS.onmessage({ data: new ArrayBuffer(1024) });
+        mockWS.onmessage({
+          data: `X-RequestId:${capturedRequestId}\r\nPath:turn.end\r\n\r\n`,
+        });
+      }
+
+      const response = await synthesisPromise;
+
+      expect(response.boundaries).toEqual([
+        {
+          type: "mark",
+          boundary: { name: "flip", charIndex: 9, offsetMs: 1125 },
+          timing: {
+            rawOffset: 20000000,
+            adjustedOffset: 11250000,
+            offsetMs: 1125,
+            duration: 0,
+            durationMs: 0,
+          },
+        },
+      ]);
+      expect(onMark).not.toHaveBeenCalled();
+    });
   });
 
   describe("Storage Service Integration", () => {
@@ -635,7 +874,7 @@ describe("Network Service Implementation", () => {
       const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
       parseEdgeTTSBinaryMessage.mockReturnValue({
         header: { "X-RequestId": "placeholder" },
-        audioData: new ArrayBuffer(1024),
+        audioData: mockMP3Audio(),
       });
 
       networkService
@@ -665,7 +904,7 @@ describe("Network Service Implementation", () => {
       if (capturedRequestId) {
         parseEdgeTTSBinaryMessage.mockReturnValue({
           header: { "X-RequestId": capturedRequestId },
-          audioData: new ArrayBuffer(1024),
+          audioData: mockMP3Audio(),
         });
       }
 
@@ -683,7 +922,7 @@ describe("Network Service Implementation", () => {
       const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
       parseEdgeTTSBinaryMessage.mockReturnValue({
         header: { "X-RequestId": "placeholder" },
-        audioData: new ArrayBuffer(1024),
+        audioData: mockMP3Audio(),
       });
 
       const synthesisPromise = networkService.synthesizeText(
@@ -713,7 +952,7 @@ describe("Network Service Implementation", () => {
       if (capturedRequestId) {
         parseEdgeTTSBinaryMessage.mockReturnValue({
           header: { "X-RequestId": capturedRequestId },
-          audioData: new ArrayBuffer(1024),
+          audioData: mockMP3Audio(),
         });
       }
 
@@ -737,6 +976,69 @@ describe("Network Service Implementation", () => {
 
       expect(mockStorageService.markConnectionCompleted).toHaveBeenCalled();
     });
+
+    it("should report audio and boundaries before synthesis completes", async () => {
+      const { parseEdgeTTSBinaryMessage } = require("../src/utils/audioUtils");
+      const onAudioData = jest.fn();
+      const onBoundaryData = jest.fn();
+      networkService.onAudioData(onAudioData);
+      networkService.onBoundaryData(onBoundaryData);
+
+      const synthesisPromise = networkService.synthesizeText(
+        "test",
+        { voice: "en-US-AriaNeural" },
+        "test-session",
+        "test-connection",
+      );
+
+      // Wait for WebSocket creation and synthesis start
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const mockWS = currentMockWebSocket;
+      const capturedRequestId = mockWS?.__capturedRequestId;
+      expect(capturedRequestId).toBeTruthy();
+
+      parseEdgeTTSBinaryMessage.mockReturnValue({
+        header: { "X-RequestId": capturedRequestId },
+        audioData: new Uint8Array([0xff, 0xf3, 0x64, 0xc4]).buffer,
+      });
+
+      mockWS.onmessage({
+        data:
+          `X-RequestId:${capturedRequestId}\r\nPath:audio.metadata\r\n\r\n` +
+          JSON.stringify({
+            Metadata: [
+              {
+                Type: "WordBoundary",
+                Data: {
+                  Offset: 10000000,
+                  Duration: 5000000,
+                  text: { Text: "test", Length: 4 },
+                },
+              },
+            ],
+          }),
+      });
+      mockWS.onmessage({ data: new ArrayBuffer(4) });
+
+      expect(onBoundaryData).toHaveBeenCalledWith(
+        "test-connection",
+        expect.objectContaining({ type: "word" }),
+      );
+      expect(onAudioData).toHaveBeenCalledWith(
+        "test-connection",
+        new Uint8Array([0xff, 0xf3, 0x64, 0xc4]),
+      );
+
+      mockWS.onmessage({
+        data: `X-RequestId:${capturedRequestId}\r\nPath:turn.end\r\n\r\n`,
+      });
+      const response = await synthesisPromise;
+
+      expect(onBoundaryData.mock.calls.map(([, item]) => item)).toEqual(
+        response.boundaries,
+      );
+    });
   });
 
   describe("Error Handling", () => {
@@ -880,6 +1182,23 @@ describe("Network Service Implementation", () => {
     });
   });
 
+  describe("Cancellation", () => {
+    it("should reject and close a cancelled synthesis", async () => {
+      const synthesisPromise = networkService.synthesizeText(
+        "test",
+        { voice: "en-US-AriaNeural" },
+        "test-session",
+        "test-connection",
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(networkService.cancelSynthesis("test-session")).toBe(true);
+      await expect(synthesisPromise).rejects.toBeInstanceOf(SynthesisCancelled);
+      expect(networkService.getStats().activeSessions).toBe(0);
+      expect(networkService.cancelSynthesis("test-session")).toBe(false);
+    });
+  });
+
   describe("SSML Integration", () => {
     it("should properly handle SSML input for synthesis", async () => {
       const { validateSpeechParameters } = require("../src/utils/commonUtils");
@@ -1164,7 +1483,7 @@ describe("Network Service Implementation", () => {
       if (capturedRequestId) {
         parseEdgeTTSBinaryMessage.mockReturnValue({
           header: { "X-RequestId": capturedRequestId },
-          audioData: new ArrayBuffer(1024),
+          audioData: mockMP3Audio(),
         });
       }
 
@@ -1243,7 +1562,7 @@ describe("Network Service Implementation", () => {
       if (capturedRequestId) {
         parseEdgeTTSBinaryMessage.mockReturnValue({
           header: { "X-RequestId": capturedRequestId },
-          audioData: new ArrayBuffer(1024),
+          audioData: mockMP3Audio(),
         });
       }
 
@@ -0,0 +1,110 @@
+/**
+ * numberWords.test.ts
+ * Unit tests for number spelling
+ */
+
+import {
+  cardinalToWords,
+  decimalToWords,
+  digitsToWords,
+  getNumberLanguage,
+  ordinalToWords,
+  yearToWords,
+} from "../src/utils/numberWords";
+
+describe("numberWords", () => {
+  describe("getNumberLanguage", () => {
+    it("should use the primary language subtag", () => {
+      expect(getNumberLanguage("en-US")).toBe("en");
+      expect(getNumberLanguage("zh_CN")).toBe("zh");
+      expect(getNumberLanguage("ja-JP")).toBeNull();
+    });
+  });
+
+  describe("cardinalToWords", () => {
+    it.each([
+      ["en", 21, "twenty-one"],
+      ["en", 1001, "one thousand one"],
+      ["en", 2000001, "two million one"],
+      ["de", 21, "einundzwanzig"],
+      ["de", 101, "einhunderteins"],
+      ["de", 2000001, "zwei Millionen eins"],
+      ["fr", 71, "soixante et onze"],
+      ["fr", 80, "quatre-vingts"],
+      ["fr", 80000, "quatre-vingt mille"],
+      ["fr", 200, "deux cents"],
+      ["es", 100, "cien"],
+      ["es", 101, "ciento uno"],
+      ["es", 21000, "veintiún mil"],
+      ["zh", 11, "十一"],
+      ["zh", 1001, "一千零一"],
+      ["zh", 2024, "两千零二十四"],
+      ["zh", 100010, "十万零一十"],
+    ] as const)("should spell %s %d", (language, value, expected) => {
+      expect(cardinalToWords(value, language)).toBe(expected);
+    });
+
+    it("should spell negative numbers", () => {
+      expect(cardinalToWords(-5, "en")).toBe("minus five");
+      expect(cardinalToWords(-5, "zh")).toBe("负五");
+    });
+
+    it("should use attributive forms before nouns", () => {
+      expect(cardinalToWords(1, "de", { attributive: true })).toBe("ein");
+      expect(cardinalToWords(21, "es", { attributive: true })).toBe("veintiún");
+      expect(
+        cardinalToWords(21, "fr", { attributive: true, feminine: true }),
+      ).toBe("vingt et une");
+    });
+  });
+
+  describe("ordinalToWords", () => {
+    it.each([
+      ["en", 1, "first"],
+      ["en", 22, "twenty-second"],
+      ["en", 40, "fortieth"],
+      ["de", 3, "dritte"],
+      ["de", 20, "zwanzigste"],
+      ["de", 101, "einhunderterste"],
+      ["fr", 5, "cinquième"],
+      ["fr", 21, "vingt et unième"],
+      ["es", 3, "tercero"],
+      ["es", 21, "vigésimo primero"],
+      ["zh", 3, "第三"],
+    ] as const)("should spell %s %d", (language, value, expected) => {
+      expect(ordinalToWords(value, language)).toBe(expected);
+    });
+
+    it("should spell feminine ordinals", () => {
+      expect(ordinalToWords(1, "fr", true)).toBe("première");
+      expect(ordinalToWords(2, "es", true)).toBe("segunda");
+    });
+  });
+
+  describe("yearToWords", () => {
+    it("should read years in pairs in English", () => {
+      expect(yearToWords(1999, "en")).toBe("nineteen ninety-nine");
+      expect(yearToWords(1905, "en")).toBe("nineteen oh five");
+      expect(yearToWords(2005, "en")).toBe("two thousand five");
+    });
+
+    it("should follow language conventions", () => {
+      expect(yearToWords(1999, "de")).toBe("neunzehnhundertneunundneunzig");
+      expect(yearToWords(2024, "fr")).toBe("deux mille vingt-quatre");
+      expect(yearToWords(2024, "zh")).toBe("二〇二四");
+    });
+  });
+
+  describe("digits and decimals", () => {
+    it("should read digits one by one", () => {
+      expect(digitsToWords("007", "en")).toBe("zero zero seven");
+      expect(digitsToWords("305", "zh")).toBe("三零五");
+    });
+
+    it("should read fraction digits one by one", () => {
+      expect(decimalToWords(3, "14", "en")).toBe("three point one four");
+      expect(decimalToWords(3, "14", "de")).toBe("drei Komma eins vier");
+      expect(decimalToWords(3, "14", "zh")).toBe("三点一四");
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * ssmlBuilder.test.ts
+ * Unit tests for the typed SSML builder
+ */
+
+import { ssml, SSMLBuilder } from "../src/utils/ssmlBuilder";
+import { validateSSML, generateSSMLFromMarkup } from "../src/utils/ssmlUtils";
+
+describe("ssmlBuilder", () => {
+  describe("ssml()", () => {
+    it("should create an empty builder", () => {
+      const builder = ssml();
+
+      expect(builder).toBeInstanceOf(SSMLBuilder);
+      expect(builder.isEmpty()).toBe(true);
+      expect(builder.toMarkup()).toBe("");
+    });
+  });
+
+  describe("elements", () => {
+    it("should chain text, break, emphasis and say-as", () => {
+      const builder = ssml()
+        .text("Hi")
+        .break({ time: 500 })
+        .emphasis("really", "strong")
+        .sayAs("2024-01-01", "date");
+
+      expect(builder.toMarkup()).toBe(
+        'Hi<break time="500ms"/> <emphasis level="strong">really</emphasis> <say-as interpret-as="date">2024-01-01</say-as>',
+      );
+      expect(builder.toPlainText()).toBe("Hi really 2024-01-01");
+    });
+
+    it("should not add spaces when text already has whitespace", () => {
+      const builder = ssml().text("Hello ").emphasis("world").text(" !");
+
+      expect(builder.toPlainText()).toBe("Hello world !");
+      expect(ssml().text("Hello ").text(" there").toPlainText()).toBe(
+        "Hello  there",
+      );
+    });
+
+    it("should not add spaces next to punctuation", () => {
+      const builder = ssml().text("Hello, ").emphasis("world").text("!");
+
+      expect(builder.toPlainText()).toBe("Hello, world!");
+      expect(builder.toMarkup()).toBe(
+        'Hello, <emphasis level="moderate">world</emphasis>!',
+      );
+      expect(
+        ssml().text("(").sayAs("42", "cardinal").text(")").toPlainText(),
+      ).toBe("(42)");
+      expect(ssml().text("Well").text("...").text("yes").toPlainText()).toBe(
+        "Well...yes",
+      );
+    });
+
+    it("should escape text exactly once", () => {
+      const builder = ssml()
+        .text("Tom & Jerry <3 ")
+        .emphasis('"quoted"')
+        .text(" ")
+        .sayAs("a&b", "characters");
+
+      expect(builder.toMarkup()).toBe(
+        'Tom &amp; Jerry &lt;3 <emphasis level="moderate">&quot;quoted&quot;</emphasis> <say-as interpret-as="characters">a&amp;b</say-as>',
+      );
+      expect(builder.toPlainText()).toBe('Tom & Jerry <3 "quoted" a&b');
+    });
+
+    it("should support break strengths and default breaks", () => {
+      expect(ssml().break({ strength: "x-strong" }).toMarkup()).toBe(
+        '<break strength="x-strong"/>',
+      );
+      expect(ssml().break().toMarkup()).toBe("<break/>");
+      expect(ssml().break({ time: "1.5s" }).toMarkup()).toBe(
+        '<break time="1.5s"/>',
+      );
+    });
+
+    it("should add say-as format and detail attributes", () => {
+      expect(
+        ssml().sayAs("01/02/2024", "date", { format: "mdy" }).toMarkup(),
+      ).toBe('<say-as interpret-as="date" format="mdy">01/02/2024</say-as>');
+    });
+
+    it("should reject invalid break times", () => {
+      expect(() => ssml().break({ time: -1 })).toThrow();
+      expect(() => ssml().break({ time: 25000 })).toThrow();
+      expect(() => ssml().break({ time: "30s" })).toThrow();
+      expect(() => ssml().break({ time: "soon" })).toThrow();
+    });
+
+    it("should reject invalid levels and interpretations", () => {
+      expect(() => ssml().emphasis("word", "loud" as any)).toThrow(
+        'Invalid emphasis level "loud".',
+      );
+      expect(() => ssml().sayAs("word", "emoji" as any)).toThrow(
+        'Invalid say-as interpretation "emoji".',
+      );
+      expect(() => ssml().break({ strength: "huge" as any })).toThrow();
+    });
+
+    it("should record bookmark positions in the plain text", () => {
+      const builder = ssml()
+        .bookmark("intro")
+        .text("Turn the")
+        .bookmark("flip")
+        .text("page");
+
+      expect(builder.toMarkup()).toBe(
+        '<bookmark mark="intro"/>Turn the<bookmark mark="flip"/> page',
+      );
+      expect(builder.toBookmarks()).toEqual([
+        { name: "intro", charIndex: 0 },
+        { name: "flip", charIndex: 9 },
+      ]);
+      expect(builder.toPlainText().slice(9)).toBe("page");
+      expect(() => ssml().bookmark("")).toThrow(
+        "Bookmark name must be a non-empty string.",
+      );
+    });
+
+    it("should reject empty element text", () => {
+      expect(() => ssml().emphasis("")).toThrow();
+      expect(() => ssml().sayAs(" ", "date")).toThrow();
+    });
+  });
+
+  describe("build", () => {
+    it("should produce a document accepted by validateSSML", () => {
+      const document = ssml()
+        .text("Hi")
+        .break({ time: 500 })
+        .emphasis("really", "strong")
+        .sayAs("2024-01-01", "date")
+        .build({ voice: "en-US-AriaNeural" });
+
+      expect(validateSSML(document)).toEqual(
+        expect.objectContaining({ isValid: true, errors: [] }),
+      );
+      expect(document).toContain(
+        '<prosody rate="+0%" pitch="+0%" volume="+0%">Hi<break time="500ms"/>',
+      );
+    });
+
+    it("should match generateSSMLFromMarkup output", () => {
+      const builder = ssml().text("Hello & goodbye");
+
+      expect(builder.build({ voice: "en-US-AriaNeural" })).toBe(
+        generateSSMLFromMarkup(builder.toMarkup(), {
+          voice: "en-US-AriaNeural",
+        }),
+      );
+      expect(builder.build()).toContain("Hello &amp; goodbye");
+    });
+  });
+});
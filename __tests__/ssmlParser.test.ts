@@ -0,0 +1,81 @@
+/**
+ * ssmlParser.test.ts
+ * Unit tests for the SSML tokenizer and parser
+ */
+
+import { parseSSML, getAttribute } from "../src/utils/ssmlParser";
+
+describe("ssmlParser", () => {
+  describe("parseSSML", () => {
+    it("should build an element tree with decoded text and attributes", () => {
+      const { root, errors } = parseSSML(
+        `<speak a='1' b="x &amp; y"><voice name="v">Tom &lt;3<break/></voice></speak>`,
+      );
+
+      expect(errors).toEqual([]);
+      expect(root?.name).toBe("speak");
+      expect(getAttribute(root!, "a")).toBe("1");
+      expect(getAttribute(root!, "b")).toBe("x & y");
+
+      const voice = root!.children[0];
+      expect(voice).toEqual(
+        expect.objectContaining({ type: "element", name: "voice" }),
+      );
+      if (voice.type !== "element") throw new Error("expected element");
+      expect(voice.children).toEqual([
+        expect.objectContaining({ type: "text", text: "Tom <3" }),
+        expect.objectContaining({ type: "element", name: "break" }),
+      ]);
+    });
+
+    it("should track line and column positions", () => {
+      const { root } = parseSSML(
+        "<speak>\n  <voice name='v'>Hi</voice>\n</speak>",
+      );
+      const voice = root!.children.find((child) => child.type === "element");
+
+      expect(voice?.position).toEqual({ line: 2, column: 3, offset: 10 });
+    });
+
+    it("should report mismatched and unclosed tags", () => {
+      expect(parseSSML("<speak><voice>Hi</speak>").errors).toEqual([
+        {
+          message: "Mismatched <voice> tags",
+          position: { line: 1, column: 17, offset: 16 },
+        },
+      ]);
+      expect(parseSSML("<speak><p>Hi").errors.map((e) => e.message)).toEqual([
+        "Unclosed <p> element",
+        "Unclosed <speak> element",
+      ]);
+      expect(parseSSML("<speak/></voice>").errors[0].message).toBe(
+        "Unexpected closing tag </voice>",
+      );
+    });
+
+    it("should report text and elements outside the root", () => {
+      expect(
+        parseSSML("Hi <speak/><speak/>").errors.map((e) => e.message),
+      ).toEqual([
+        "Text is not allowed outside the root element",
+        "Document must have a single root element",
+      ]);
+    });
+
+    it("should decode numeric character references", () => {
+      const { root, errors } = parseSSML("<s>&#65;&#x1F600;</s>");
+
+      expect(errors).toEqual([]);
+      expect(root!.children[0]).toEqual(
+        expect.objectContaining({ text: "A\u{1F600}" }),
+      );
+    });
+
+    it("should reject document type declarations", () => {
+      expect(
+        parseSSML('<!DOCTYPE speak [<!ENTITY x "y">]><speak/>').errors[0]
+          .message,
+      ).toBe("Document type declarations are not allowed");
+    });
+  });
+});
@@ -13,10 +13,19 @@ import {
   extractLanguageFromVoice,
   isValidSSML,
   extractTextFromSSML,
+  extractBookmarksFromSSML,
   normalizeSSML,
+  unescapeXML,
+  generateDialogueSSML,
+  splitDialogueIntoBatches,
+  generateMultiVoiceSSML,
 } from "../src/utils/ssmlUtils";
 
-import { MAX_TEXT_LENGTH, PARAMETER_RANGES } from "../src/constants";
+import {
+  MAX_TEXT_LENGTH,
+  PARAMETER_RANGES,
+  SSML_VALIDATION,
+} from "../src/constants";
 
 import { EdgeSpeechVoice, SpeechOptions } from "../src/types";
 
@@ -258,6 +267,128 @@ describe("ssmlUtils", () => {
     });
   });
 
+  describe("SSML structure (validateSSML)", () => {
+    const wrap = (content: string) =>
+      `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="en-US"><voice name="en-US-AriaNeural">${content}</voice></speak>`;
+
+    test("should report the line and column of errors", () => {
+      const ssml = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">
+  <voice name="en-US-AriaNeural">
+    <prosody rate="fast-ish">Hello</prosody>
+  </voice>
+</speak>`;
+      const result = validateSSML(ssml);
+
+      expect(result.issues).toEqual([
+        {
+          severity: "error",
+          message: 'Invalid prosody rate value "fast-ish"',
+          line: 3,
+          column: 14,
+        },
+      ]);
+    });
+
+    test("should accept supported elements", () => {
+      const ssml = wrap(
+        '<mstts:express-as style="cheerful"><s>Read <say-as interpret-as="date">2024-01-01</say-as>,' +
+          ' <sub alias="World Wide Web">WWW</sub> <phoneme alphabet="ipa" ph="təˈmeɪtoʊ">tomato</phoneme>' +
+          '<break time="1.5s"/><bookmark mark="end"/></s></mstts:express-as>',
+      );
+
+      expect(validateSSML(ssml)).toEqual(
+        expect.objectContaining({ isValid: true, errors: [] }),
+      );
+    });
+
+    test("should reject unknown elements and attributes", () => {
+      const result = validateSSML(
+        wrap('<whisper>Hi</whisper><prosody speed="fast">Hi</prosody>'),
+      );
+
+      expect(result.errors).toEqual([
+        "Unknown element <whisper>",
+        'Unknown attribute "speed" on <prosody>',
+      ]);
+    });
+
+    test("should require element-specific attributes", () => {
+      const result = validateSSML(
+        wrap(
+          '<say-as>1</say-as><sub>WWW</sub><phoneme alphabet="ipa">x</phoneme>',
+        ),
+      );
+
+      expect(result.errors).toEqual([
+        "Missing required interpret-as attribute in <say-as> element",
+        "Missing required alias attribute in <sub> element",
+        "Missing required ph attribute in <phoneme> element",
+      ]);
+    });
+
+    test("should reject invalid entities and bare ampersands", () => {
+      const result = validateSSML(wrap("Tom & Jerry &nbsp; &#0; &amp; &#x41;"));
+
+      expect(result.errors).toEqual([
+        "Unescaped '&' must be written as &amp;",
+        'Invalid entity reference "&nbsp;"',
+        'Invalid entity reference "&#0;"',
+      ]);
+    });
+
+    test("should reject content that is not well formed", () => {
+      const result = validateSSML(
+        wrap(
+          '<break time="1s" time="2s"/><emphasis level=strong>Hi</emphasis>',
+        ),
+      );
+
+      expect(result.errors).toContain('Duplicate attribute "time" on <break>');
+      expect(result.errors).toContain(
+        'Value of attribute "level" must be quoted',
+      );
+    });
+
+    test("should validate break and emphasis values", () => {
+      const result = validateSSML(
+        wrap(
+          '<break time="30s"/><break strength="huge"/><emphasis level="loud">Hi</emphasis>',
+        ),
+      );
+
+      expect(result.errors).toEqual([
+        'Invalid break time "30s", expected a duration up to 20000ms',
+        'Invalid break strength "huge"',
+        'Invalid emphasis level "loud"',
+      ]);
+    });
+
+    test("should require declared namespace prefixes", () => {
+      const ssml = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US"><voice name="v"><mstts:express-as style="sad">Hi</mstts:express-as></voice></speak>`;
+
+      expect(validateSSML(ssml).errors).toEqual([
+        'Undeclared namespace prefix "mstts" on <mstts:express-as>',
+      ]);
+    });
+
+    test("should reject text outside voice elements and nested voices", () => {
+      const ssml = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">Hi<voice name="a"><voice name="b">There</voice></voice></speak>`;
+
+      expect(validateSSML(ssml).errors).toEqual([
+        "Text must be inside a <voice> element",
+        "<voice> elements cannot be nested",
+      ]);
+    });
+
+    test("should accept XML declarations, comments and CDATA", () => {
+      const ssml = `<?xml version="1.0"?>
+<!-- greeting -->
+${wrap("<![CDATA[Tom & Jerry]]>")}`;
+
+      expect(validateSSML(ssml).isValid).toBe(true);
+    });
+  });
+
   describe("SSML Generation (generateSSML)", () => {
     test("should use default voice when no voice is provided in options", () => {
       const ssml = generateSSML("Hello World", {});
@@ -277,6 +408,26 @@ describe("ssmlUtils", () => {
       expect(ssml).toContain("Hello World");
     });
 
+    test("should wrap prosody in mstts:express-as for styles and roles", () => {
+      const ssml = generateSSML("Once upon a time", {
+        voice: defaultTestVoice,
+        style: "cheerful",
+        styleDegree: 1.5,
+        role: "Girl",
+      });
+
+      expect(ssml).toContain(
+        '<mstts:express-as style="cheerful" styledegree="1.5" role="Girl"><prosody rate="+0%" pitch="+0%" volume="+0%">Once upon a time</prosody></mstts:express-as>',
+      );
+      expect(validateSSML(ssml).isValid).toBe(true);
+    });
+
+    test("should omit mstts:express-as without a style or role", () => {
+      expect(
+        generateSSML("Hello", { voice: defaultTestVoice, styleDegree: 2 }),
+      ).not.toContain("express-as");
+    });
+
     test("should reject empty string voice when provided", () => {
       expect(() => generateSSML("Hello World", { voice: "" })).toThrow(
         "Failed to format voice name for Edge TTS:",
@@ -387,6 +538,96 @@ describe("ssmlUtils", () => {
     });
   });
 
+  describe("Dialogue SSML (generateDialogueSSML, splitDialogueIntoBatches)", () => {
+    const line = (voice: string, text: string) => ({ voice, text });
+
+    test("should emit one voice element per line", () => {
+      const ssml = generateDialogueSSML([
+        { voice: "en-US-GuyNeural", text: "Hi & bye", pitch: 1.2 },
+        { voice: "en-GB-SoniaNeural", text: "Cheers", style: "cheerful" },
+      ]);
+
+      expect(ssml).toBe(
+        '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="en-US">' +
+          '<voice name="Microsoft Server Speech Text to Speech Voice (en-US, GuyNeural)"><prosody rate="+0%" pitch="+20%" volume="+0%">Hi &amp; bye</prosody></voice>' +
+          '<voice name="Microsoft Server Speech Text to Speech Voice (en-GB, SoniaNeural)"><mstts:express-as style="cheerful"><prosody rate="+0%" pitch="+0%" volume="+0%">Cheers</prosody></mstts:express-as></voice>' +
+          "</speak>",
+      );
+      expect(validateSSML(ssml).isValid).toBe(true);
+    });
+
+    test("should reject empty dialogues and invalid lines", () => {
+      expect(() => generateDialogueSSML([])).toThrow(
+        "Dialogue must contain at least one line.",
+      );
+      expect(() => generateDialogueSSML([line("en-US-GuyNeural", "")])).toThrow(
+        "Dialogue line 1 must have non-empty text.",
+      );
+    });
+
+    test("should batch by MAX_VOICE_ELEMENTS", () => {
+      const lines = Array.from({ length: 12 }, (_, i) =>
+        line("en-US-GuyNeural", `Line ${i}`),
+      );
+      const batches = splitDialogueIntoBatches(lines);
+
+      expect(batches.map((batch) => batch.startIndex)).toEqual([0, 5, 10]);
+      expect(batches.map((batch) => batch.lines.length)).toEqual([5, 5, 2]);
+      batches.forEach((batch) =>
+        expect(validateSSML(batch.ssml).isValid).toBe(true),
+      );
+    });
+
+    test("should start a new batch before MAX_SSML_LENGTH is exceeded", () => {
+      const lines = Array.from({ length: 4 }, () =>
+        line("en-US-GuyNeural", "&".repeat(MAX_TEXT_LENGTH / 2)),
+      );
+      const batches = splitDialogueIntoBatches(lines);
+
+      // Each escaped line is about 2,700 characters of SSML
+      expect(batches.map((batch) => batch.lines.length)).toEqual([2, 2]);
+      batches.forEach((batch) =>
+        expect(batch.ssml.length).toBeLessThanOrEqual(
+          SSML_VALIDATION.TEXT_LIMITS.MAX_SSML_LENGTH,
+        ),
+      );
+    });
+
+    test("should reject a line that cannot fit into a document", () => {
+      expect(() =>
+        splitDialogueIntoBatches([
+          line("en-US-GuyNeural", "&".repeat(MAX_TEXT_LENGTH * 2)),
+        ]),
+      ).toThrow("Dialogue line 1 exceeds the maximum SSML length");
+    });
+  });
+
+  describe("Multi-voice SSML (generateMultiVoiceSSML)", () => {
+    test("should share prosody across voice segments", () => {
+      const ssml = generateMultiVoiceSSML(
+        [
+          { voice: "en-US-AriaNeural", markup: "Hello " },
+          { voice: "fr-FR-DeniseNeural", markup: "bonjour" },
+        ],
+        { rate: 1.5 },
+      );
+
+      expect(ssml).toBe(
+        '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="en-US">' +
+          '<voice name="Microsoft Server Speech Text to Speech Voice (en-US, AriaNeural)"><prosody rate="+50%" pitch="+0%" volume="+0%">Hello </prosody></voice>' +
+          '<voice name="Microsoft Server Speech Text to Speech Voice (fr-FR, DeniseNeural)"><prosody rate="+50%" pitch="+0%" volume="+0%">bonjour</prosody></voice>' +
+          "</speak>",
+      );
+      expect(validateSSML(ssml).isValid).toBe(true);
+    });
+
+    test("should reject empty segment lists", () => {
+      expect(() => generateMultiVoiceSSML([])).toThrow(
+        "SSML must contain at least one voice segment.",
+      );
+    });
+  });
+
   describe("Utility Functions (isValidSSML, extractTextFromSSML, normalizeSSML)", () => {
     test("isValidSSML should check SSML validity", () => {
       const validSSML = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US"><voice name="en-US-AriaNeural">Hello</voice></speak>`;
@@ -400,6 +641,50 @@ describe("ssmlUtils", () => {
       expect(extractTextFromSSML(ssml)).toBe("Hello World");
     });
 
+    test("extractTextFromSSML should decode entities and separate tags", () => {
+      const ssml = `<?xml version="1.0"?><speak><voice name="v">Tom &amp; Jerry<break time="1s"/>say &quot;hi&quot; &#x4F60;&#22909;</voice></speak>`;
+      expect(extractTextFromSSML(ssml)).toBe('Tom & Jerry say "hi" 你好');
+    });
+
+    test("extractBookmarksFromSSML should place bookmarks before the next word", () => {
+      const ssml = `<speak><voice name="v"><bookmark mark="start"/>Turn the <bookmark mark='p&amp;2'/>page<!-- <bookmark mark="skipped"/> --> now<bookmark mark="end"/></voice></speak>`;
+      const text = extractTextFromSSML(ssml);
+
+      expect(text).toBe("Turn the page now");
+      expect(extractBookmarksFromSSML(ssml)).toEqual([
+        { name: "start", charIndex: 0 },
+        { name: "p&2", charIndex: 9 },
+        { name: "end", charIndex: 17 },
+      ]);
+    });
+
+    test("extractTextFromSSML should read CDATA sections as text", () => {
+      const ssml = `<speak><voice name="v"><![CDATA[Tom & <Jerry>]]> say hi</voice></speak>`;
+      expect(extractTextFromSSML(ssml)).toBe("Tom & <Jerry> say hi");
+    });
+
+    test("extractTextFromSSML should allow > inside attribute values", () => {
+      const ssml = `<speak><voice name="v"><prosody rate="+10%" contour="(0%,+5Hz)>">Fast</prosody> <bookmark mark="a>b"/>words</voice></speak>`;
+      expect(extractTextFromSSML(ssml)).toBe("Fast words");
+      expect(extractBookmarksFromSSML(ssml)).toEqual([
+        { name: "a>b", charIndex: 5 },
+      ]);
+    });
+
+    test("extractTextFromSSML should not split words at inline tags", () => {
+      const ssml = `<speak><voice name="v">un<emphasis>believ</emphasis>able <bookmark mark="m"/>ta<prosody rate="slow">le</prosody>s</voice></speak>`;
+      expect(extractTextFromSSML(ssml)).toBe("unbelievable tales");
+      expect(extractBookmarksFromSSML(ssml)).toEqual([
+        { name: "m", charIndex: 13 },
+      ]);
+    });
+
+    test("unescapeXML should reverse escapeXML", () => {
+      const text = `<a href="x">Tom & 'Jerry'</a>`;
+      expect(unescapeXML(escapeXML(text))).toBe(text);
+      expect(unescapeXML("&unknown; &#128512;")).toBe("&unknown; 😀");
+    });
+
     test("normalizeSSML should normalize formatting", () => {
       const ssml = `<speak  version="1.0"><voice   name="test"> Hello    World </voice></speak>`;
       const normalized = normalizeSSML(ssml);
@@ -411,4 +696,62 @@ describe("ssmlUtils", () => {
       expect(normalized).toContain('<voice name="test">Hello World</voice>');
     });
   });
+
+  describe("SSML limits (validateSSML)", () => {
+    const wrap = (content: string) =>
+      `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">${content}</speak>`;
+
+    test("should accept documents within the limits", () => {
+      const ssml = wrap(
+        `<voice name="en-US-AriaNeural"><prosody rate="+10%" pitch="+5Hz" volume="loud">Hello</prosody></voice>`,
+      );
+      expect(validateSSML(ssml)).toEqual(
+        expect.objectContaining({ isValid: true, errors: [], warnings: [] }),
+      );
+    });
+
+    test("should reject documents longer than MAX_SSML_LENGTH", () => {
+      const ssml = wrap(
+        `<voice name="v">${"a".repeat(SSML_VALIDATION.TEXT_LIMITS.MAX_SSML_LENGTH)}</voice>`,
+      );
+      const result = validateSSML(ssml);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain("exceeds maximum");
+    });
+
+    test("should reject too many voice elements", () => {
+      const voices = `<voice name="v">Hi</voice>`.repeat(
+        SSML_VALIDATION.TEXT_LIMITS.MAX_VOICE_ELEMENTS + 1,
+      );
+      const result = validateSSML(wrap(voices));
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain("Too many <voice> elements");
+    });
+
+    test("should reject deeply nested prosody elements", () => {
+      const depth = SSML_VALIDATION.TEXT_LIMITS.MAX_PROSODY_NESTING + 1;
+      const ssml = wrap(
+        `<voice name="v">${'<prosody rate="+1%">'.repeat(depth)}Hi${"</prosody>".repeat(depth)}</voice>`,
+      );
+      const result = validateSSML(ssml);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain("nested");
+    });
+
+    test("should reject malformed prosody values", () => {
+      const ssml = wrap(
+        `<voice name="v"><prosody rate="fast-ish" pitch="10%">Hi</prosody></voice>`,
+      );
+      const result = validateSSML(ssml);
+      expect(result.errors).toEqual([
+        'Invalid prosody rate value "fast-ish"',
+        'Invalid prosody pitch value "10%"',
+      ]);
+    });
+
+    test("should accept generated SSML", () => {
+      const ssml = generateSSML("Hello", { rate: 0.1, pitch: 2, volume: 0 });
+      expect(validateSSML(ssml).isValid).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,154 @@
+/**
+ * subtitles.test.ts
+ * Unit tests for subtitle export from timed boundaries
+ */
+
+import { TimedBoundary } from "../src/types";
+import { createSubtitleCues, createSubtitles } from "../src/utils/subtitles";
+
+const PADDING_TICKS = 8_750_000;
+
+const timing = (offsetMs: number, durationMs: number) => ({
+  rawOffset: offsetMs * 10_000 + PADDING_TICKS,
+  adjustedOffset: offsetMs * 10_000,
+  offsetMs,
+  duration: durationMs * 10_000,
+  durationMs,
+});
+
+const text = "Hello there, world. How are you?";
+
+const word = (
+  charIndex: number,
+  charLength: number,
+  offsetMs: number,
+  durationMs: number,
+): TimedBoundary => ({
+  type: "word",
+  boundary: {
+    charIndex,
+    charLength,
+    text: text.slice(charIndex, charIndex + charLength),
+  },
+  timing: timing(offsetMs, durationMs),
+});
+
+const sentence = (
+  charIndex: number,
+  charLength: number,
+  offsetMs: number,
+  durationMs: number,
+): TimedBoundary => ({
+  type: "sentence",
+  boundary: { charIndex, charLength, offsetMs, durationMs },
+  timing: timing(offsetMs, durationMs),
+});
+
+const boundaries: TimedBoundary[] = [
+  sentence(0, 19, 0, 1100),
+  word(0, 5, 0, 300),
+  word(6, 5, 300, 300),
+  word(13, 5, 700, 400),
+  // Out of order: the sentence starts with the word at the same offset
+  word(20, 3, 1500, 200),
+  sentence(20, 12, 1500, 800),
+  word(24, 3, 1700, 200),
+  word(28, 3, 1900, 400),
+  {
+    type: "mark",
+    boundary: { name: "end", charIndex: 32, offsetMs: 2300 },
+    timing: timing(2300, 0),
+  },
+];
+
+describe("subtitles", () => {
+  describe("createSubtitleCues", () => {
+    it("should merge words into one cue per sentence", () => {
+      const cues = createSubtitleCues(boundaries, { text });
+      expect(
+        cues.map(({ index, startMs, endMs, text: cueText }) => ({
+          index,
+          startMs,
+          endMs,
+          text: cueText,
+        })),
+      ).toEqual([
+        { index: 1, startMs: 0, endMs: 1100, text: "Hello there, world." },
+        { index: 2, startMs: 1500, endMs: 2300, text: "How are you?" },
+      ]);
+      expect(cues[1].words[0]).toEqual({
+        text: "How",
+        charIndex: 20,
+        charLength: 3,
+        startMs: 1500,
+        endMs: 1700,
+      });
+    });
+
+    it("should join service words without source text", () => {
+      expect(
+        createSubtitleCues(boundaries, { splitSentences: false }).map(
+          (cue) => cue.text,
+        ),
+      ).toEqual(["Hello there world How are you"]);
+    });
+
+    it("should split cues by length and duration", () => {
+      expect(
+        createSubtitleCues(boundaries, { text, maxChars: 12 }).map(
+          (cue) => cue.text,
+        ),
+      ).toEqual(["Hello there,", "world.", "How are you?"]);
+      expect(
+        createSubtitleCues(boundaries, {
+          text,
+          maxDurationMs: 600,
+          splitSentences: false,
+        }).map((cue) => cue.text),
+      ).toEqual(["Hello there,", "world.", "How are", "you?"]);
+      expect(createSubtitleCues(boundaries, { maxChars: 0 })).toHaveLength(6);
+    });
+
+    it("should keep the service padding when compensation is off", () => {
+      const [cue] = createSubtitleCues(boundaries, { compensateOffset: false });
+      expect(cue.startMs).toBe(875);
+      expect(cue.endMs).toBe(1975);
+    });
+  });
+
+  describe("createSubtitles", () => {
+    it("should write SRT", () => {
+      expect(createSubtitles(boundaries, "srt", { text })).toBe(
+        "1\n00:00:00,000 --> 00:00:01,100\nHello there, world.\n\n" +
+          "2\n00:00:01,500 --> 00:00:02,300\nHow are you?\n",
+      );
+    });
+
+    it("should write WebVTT with escaped text", () => {
+      const vtt = createSubtitles([word(0, 7, 3_723_456, 100)], "vtt", {
+        text: "A & <b> text",
+      });
+      expect(vtt).toBe(
+        "WEBVTT\n\n01:02:03.456 --> 01:02:03.556\nA &amp; &lt;b&gt;\n",
+      );
+    });
+
+    it("should write JSON word alignment", () => {
+      const json = JSON.parse(createSubtitles(boundaries, "json", { text }));
+      expect(json).toHaveLength(2);
+      expect(json[0].words.map((w: { text: string }) => w.text)).toEqual([
+        "Hello",
+        "there",
+        "world",
+      ]);
+    });
+
+    it("should return an empty document without words", () => {
+      expect(createSubtitles([], "srt")).toBe("");
+      expect(createSubtitles([], "vtt")).toBe("WEBVTT\n");
+      expect(() =>
+        createSubtitles(boundaries, "ass" as unknown as "srt"),
+      ).toThrow("Unsupported subtitle format: ass");
+    });
+  });
+});
@@ -4,7 +4,9 @@ import { ConnectionManager } from "../src/core/connectionManager";
 import { AudioService, AudioPlaybackState } from "../src/services/audioService";
 import { VoiceService } from "../src/services/voiceService";
 import { NetworkService } from "../src/services/networkService";
-import { SpeechOptions, EdgeSpeechVoice } from "../src/types";
+import { SpeechOptions, EdgeSpeechVoice, TimedBoundary } from "../src/types";
+import { ssml } from "../src/utils/ssmlBuilder";
+import { MAX_TEXT_LENGTH } from "../src/constants";
 
 // Mock all dependencies
 jest.mock("../src/core/state");
@@ -57,9 +59,15 @@ describe("Synthesizer", () => {
 
     mockConnectionManager = {
       startSynthesis: jest.fn(),
+      synthesizeToFile: jest.fn(),
+      synthesizeAudio: jest.fn(),
       stopSynthesis: jest.fn(),
       pauseSynthesis: jest.fn(),
       resumeSynthesis: jest.fn(),
+      seekSynthesis: jest.fn(),
+      getSynthesisPosition: jest.fn().mockResolvedValue(1200),
+      getSynthesisDuration: jest.fn().mockResolvedValue(4800),
+      getSynthesisBoundaries: jest.fn().mockReturnValue([]),
       getConnectionPoolStatus: jest.fn(),
       shutdown: jest.fn(),
     } as unknown as jest.Mocked<ConnectionManager>;
@@ -441,6 +449,199 @@ describe("Synthesizer", () => {
     });
   });
 
+  describe("seek, position and duration", () => {
+    it("should seek and report playback of the current session", async () => {
+      await synthesizer.speak("Hello world");
+      const session = synthesizer.getCurrentSession()!;
+      session.state = ApplicationState.Paused;
+
+      await synthesizer.seekTo(2000);
+
+      expect(mockConnectionManager.seekSynthesis).toHaveBeenCalledWith(
+        session.id,
+        2000,
+      );
+      expect(await synthesizer.getPositionAsync()).toBe(1200);
+      expect(await synthesizer.getDurationAsync()).toBe(4800);
+    });
+
+    it("should do nothing before the audio plays", async () => {
+      await synthesizer.speak("Hello world");
+
+      await synthesizer.seekTo(2000);
+
+      expect(mockConnectionManager.seekSynthesis).not.toHaveBeenCalled();
+      expect(await synthesizer.getPositionAsync()).toBe(0);
+      expect(await synthesizer.getDurationAsync()).toBe(0);
+    });
+  });
+
+  describe("text positions", () => {
+    const text = "Hello world. Second sentence here.";
+    const timed = (
+      type: "word" | "sentence",
+      charIndex: number,
+      charLength: number,
+      offsetMs: number,
+    ): TimedBoundary =>
+      ({
+        type,
+        boundary: { charIndex, charLength, text: "" },
+        timing: { offsetMs, durationMs: 300 },
+      }) as TimedBoundary;
+
+    const speakPlaying = async (options: SpeechOptions = {}) => {
+      await synthesizer.speak(text, options);
+      const session = synthesizer.getCurrentSession()!;
+      session.state = ApplicationState.Playing;
+      mockConnectionManager.getSynthesisBoundaries.mockReturnValue([
+        timed("sentence", 0, 12, 0),
+        timed("word", 0, 5, 0),
+        timed("word", 6, 5, 400),
+      ]);
+      return session;
+    };
+
+    it("should seek to a word whose audio has arrived", async () => {
+      const session = await speakPlaying();
+
+      await synthesizer.seekToCharIndex(8);
+
+      expect(mockConnectionManager.getSynthesisBoundaries).toHaveBeenCalledWith(
+        session.id,
+      );
+      expect(mockConnectionManager.seekSynthesis).toHaveBeenCalledWith(
+        session.id,
+        400,
+      );
+    });
+
+    it("should skip words and sentences from the playback position", async () => {
+      const session = await speakPlaying();
+
+      await synthesizer.skipWords(-1);
+      await synthesizer.skipSentences(0);
+
+      expect(mockConnectionManager.seekSynthesis.mock.calls).toEqual([
+        [session.id, 0],
+        [session.id, 0],
+      ]);
+    });
+
+    it("should synthesize again from a word whose audio has not arrived", async () => {
+      const onStart = jest.fn();
+      const onStopped = jest.fn();
+      const onBoundary = jest.fn();
+      await speakPlaying({ onStart, onStopped, onBoundary });
+      const [, firstOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      mockConnectionManager.stopSynthesis.mockImplementation(() => {
+        firstOptions.onStopped?.();
+        return Promise.resolve();
+      });
+
+      await synthesizer.skipWords(1);
+
+      expect(mockConnectionManager.seekSynthesis).not.toHaveBeenCalled();
+      expect(mockConnectionManager.stopSynthesis).toHaveBeenCalled();
+      expect(onStopped).not.toHaveBeenCalled();
+      const [sentSSML, options] =
+        mockConnectionManager.startSynthesis.mock.calls[1];
+      expect(sentSSML).toContain("Second sentence here.");
+      expect(sentSSML).not.toContain("Hello");
+      expect(options.onStart).toBeUndefined();
+
+      // Boundaries keep their positions in the whole text
+      options.onBoundary?.({ charIndex: 7, charLength: 8, wordIndex: 1 });
+      expect(onBoundary).toHaveBeenCalledWith(
+        expect.objectContaining({ charIndex: 20, charLength: 8, wordIndex: 3 }),
+      );
+    });
+
+    it("should synthesize again from the next sentence", async () => {
+      await speakPlaying();
+
+      await synthesizer.skipSentences(1);
+
+      const [sentSSML] = mockConnectionManager.startSynthesis.mock.calls[1];
+      expect(sentSSML).toContain("Second sentence here.");
+      expect(sentSSML).not.toContain("world");
+    });
+
+    describe("in chunked text", () => {
+      const longText = Array.from(
+        { length: 120 },
+        (_, index) => `Sentence ${index} ends here.`,
+      ).join(" ");
+      const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+      it("should seek to a word of the chunk being played", async () => {
+        await synthesizer.speak(longText, { chunkLongText: true });
+        const [, firstOptions] =
+          mockConnectionManager.startSynthesis.mock.calls[0];
+        firstOptions.onDone?.();
+        await flush();
+        const session = synthesizer.getCurrentSession()!;
+        session.state = ApplicationState.Playing;
+        mockConnectionManager.getSynthesisBoundaries.mockReturnValue([
+          timed("word", 0, 8, 0),
+          timed("word", 9, 2, 500),
+        ]);
+
+        const [, secondOptions] =
+          mockConnectionManager.startSynthesis.mock.calls[1];
+        const chunkOffset = longText.indexOf(
+          (secondOptions as any).boundaryText,
+        );
+        await synthesizer.seekToCharIndex(chunkOffset + 9);
+
+        expect(mockConnectionManager.seekSynthesis).toHaveBeenCalledWith(
+          session.id,
+          500,
+        );
+      });
+
+      it("should synthesize again from a later chunk", async () => {
+        const onStart = jest.fn();
+        const onBoundary = jest.fn();
+        await synthesizer.speak(longText, {
+          chunkLongText: true,
+          onStart,
+          onBoundary,
+        });
+        synthesizer.getCurrentSession()!.state = ApplicationState.Playing;
+
+        const charIndex = longText.indexOf("Sentence 100 ");
+        await synthesizer.seekToCharIndex(charIndex);
+
+        expect(mockConnectionManager.stopSynthesis).toHaveBeenCalled();
+        const [sentSSML, options] =
+          mockConnectionManager.startSynthesis.mock.calls[1];
+        expect(sentSSML).toContain("Sentence 100 ends here.");
+        expect(sentSSML).not.toContain("Sentence 99 ");
+        expect(options.onStart).toBeUndefined();
+
+        // Boundaries keep their positions in the whole text
+        options.onBoundary?.({ charIndex: 0, charLength: 8, wordIndex: 0 });
+        expect(onBoundary).toHaveBeenCalledWith(
+          expect.objectContaining({ charIndex, charLength: 8, wordIndex: 400 }),
+        );
+      });
+    });
+
+    it("should reject text positions in dialogue", async () => {
+      await synthesizer.speakDialogue([
+        { voice: "en-US-GuyNeural", text: "Where were you?" },
+        { voice: "en-US-JennyNeural", text: "Out." },
+      ]);
+      synthesizer.getCurrentSession()!.state = ApplicationState.Playing;
+
+      await expect(synthesizer.skipWords(1)).rejects.toThrow(
+        "Text positions are not supported for dialogue or chunked Markdown or HTML",
+      );
+    });
+  });
+
   describe("session management", () => {
     it("should create unique session IDs", async () => {
       await synthesizer.speak("First text");
@@ -556,4 +757,849 @@ describe("Synthesizer", () => {
       expect(ssmlText).toContain('pitch="-90%"'); // pitch 0.1 with 0-2 range maps to -90%
     });
   });
+
+  describe("SSML builder input", () => {
+    it("should send builder markup without escaping it again", async () => {
+      const content = ssml()
+        .text("Tom & Jerry")
+        .break({ time: 300 })
+        .emphasis("really", "strong");
+
+      await synthesizer.speak(content, { rate: 1.5 });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain(
+        '<prosody rate="+50%" pitch="+0%" volume="+0%">Tom &amp; Jerry<break time="300ms"/> <emphasis level="strong">really</emphasis></prosody>',
+      );
+      expect(sentSSML).not.toContain("&amp;amp;");
+      expect(sentSSML).not.toContain("&lt;break");
+      expect((connectionOptions as any).boundaryText).toBe(
+        "Tom & Jerry really",
+      );
+    });
+
+    it("should send builder bookmarks with the session", async () => {
+      await synthesizer.speak(
+        ssml().text("Hello").bookmark("name").text("Ada"),
+      );
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain('Hello<bookmark mark="name"/> Ada');
+      expect((connectionOptions as any).bookmarks).toEqual([
+        { name: "name", charIndex: 6 },
+      ]);
+    });
+
+    it("should create the session with the spoken plain text", async () => {
+      await synthesizer.speak(ssml().text("Hello").sayAs("42", "ordinal"));
+
+      expect(mockStateManager.createSynthesisSession).toHaveBeenCalledWith(
+        "Hello 42",
+        {},
+      );
+    });
+  });
+
+  describe("raw SSML input", () => {
+    const rawSSML =
+      '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US"><voice name="en-GB-SoniaNeural">Tom &amp; Jerry<break time="500ms"/>run</voice></speak>';
+
+    it("should send the document as-is", async () => {
+      await synthesizer.speak(rawSSML, { inputType: "ssml" });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toBe(rawSSML);
+      expect((connectionOptions as any).boundaryText).toBe("Tom & Jerry run");
+      expect(mockVoiceService.findVoiceByIdentifier).not.toHaveBeenCalled();
+    });
+
+    it("should send bookmark positions for onMark", async () => {
+      const bookmarked = rawSSML.replace("run", '<bookmark mark="chase"/>run');
+
+      await synthesizer.speak(bookmarked, { inputType: "ssml" });
+
+      const [, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect((connectionOptions as any).bookmarks).toEqual([
+        { name: "chase", charIndex: 12 },
+      ]);
+    });
+
+    it("should reject invalid SSML before synthesis", async () => {
+      const onError = jest.fn();
+
+      await expect(
+        synthesizer.speak("<speak><voice>Hi</speak>", {
+          inputType: "ssml",
+          onError,
+        }),
+      ).rejects.toThrow("Invalid SSML");
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "SynthesisError" }),
+      );
+      expect(mockStateManager.createSynthesisSession).not.toHaveBeenCalled();
+      expect(mockConnectionManager.startSynthesis).not.toHaveBeenCalled();
+    });
+
+    it("should enforce SSML_VALIDATION limits", async () => {
+      const voices = '<voice name="en-US-AriaNeural">Hi</voice>'.repeat(6);
+      const ssmlDocument = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">${voices}</speak>`;
+
+      await expect(
+        synthesizer.speak(ssmlDocument, { inputType: "ssml" }),
+      ).rejects.toThrow("Too many <voice> elements");
+    });
+  });
+
+  describe("speaking styles", () => {
+    beforeEach(() => {
+      mockVoiceService.validateSpeakingStyle = jest
+        .fn()
+        .mockResolvedValue({ isValid: true, warnings: [] });
+    });
+
+    it("should send the style as mstts:express-as", async () => {
+      await synthesizer.speak("Hello", {
+        voice: "en-US-AriaNeural",
+        style: "sad",
+        styleDegree: 0.5,
+      });
+
+      const [sentSSML] = mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain(
+        '<mstts:express-as style="sad" styledegree="0.5">',
+      );
+      expect(mockVoiceService.validateSpeakingStyle).toHaveBeenCalledWith(
+        "en-US-AriaNeural",
+        { style: "sad", role: undefined },
+      );
+    });
+
+    it("should warn but still speak when the voice lacks the style", async () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+      mockVoiceService.validateSpeakingStyle.mockResolvedValue({
+        isValid: false,
+        warnings: ['Voice "en-US-AriaNeural" does not support style "sad"'],
+      });
+
+      await synthesizer.speak("Hello", {
+        voice: "en-US-AriaNeural",
+        style: "sad",
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[Synthesizer] Voice "en-US-AriaNeural" does not support style "sad"',
+      );
+      expect(mockConnectionManager.startSynthesis).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it("should not check styles when none is requested", async () => {
+      await synthesizer.speak("Hello", { voice: "en-US-AriaNeural" });
+
+      expect(mockVoiceService.validateSpeakingStyle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pronunciation lexicon", () => {
+    it("should send substitutions and map boundaries to the original text", async () => {
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak("Visit the WWW today", {
+        voice: "en-US-AriaNeural",
+        lexicon: [{ match: "WWW", alias: "World Wide Web" }],
+        onBoundary,
+      });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain(
+        'Visit the <sub alias="World Wide Web">WWW</sub> today',
+      );
+      expect((connectionOptions as any).boundaryText).toBe(
+        "Visit the World Wide Web today",
+      );
+
+      // "Wide" in the spoken text belongs to "WWW"
+      connectionOptions.onBoundary?.({ charIndex: 16, charLength: 4 });
+      // "today" follows the substitution
+      connectionOptions.onBoundary?.({ charIndex: 25, charLength: 5 });
+      expect(onBoundary.mock.calls).toEqual([
+        [{ charIndex: 10, charLength: 3 }],
+        [{ charIndex: 14, charLength: 5 }],
+      ]);
+    });
+
+    it("should apply the configured lexicon after per-call entries", async () => {
+      synthesizer = new Synthesizer(
+        mockStateManager,
+        mockConnectionManager,
+        mockAudioService,
+        mockVoiceService,
+        mockNetworkService,
+        { lexicon: [{ match: "SQL", replacement: "ess cue ell" }] },
+      );
+
+      await synthesizer.speak("SQL and NoSQL", {
+        voice: "en-US-AriaNeural",
+        lexicon: [{ match: "NoSQL", replacement: "no sequel" }],
+      });
+
+      const [, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect((connectionOptions as any).boundaryText).toBe(
+        "ess cue ell and no sequel",
+      );
+    });
+
+    it("should not apply the lexicon to raw SSML", async () => {
+      const document =
+        '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US"><voice name="en-US-AriaNeural">SQL</voice></speak>';
+
+      await synthesizer.speak(document, {
+        inputType: "ssml",
+        lexicon: [{ match: "SQL", replacement: "sequel" }],
+      });
+
+      expect(mockConnectionManager.startSynthesis.mock.calls[0][0]).toBe(
+        document,
+      );
+    });
+  });
+
+  describe("text normalization", () => {
+    it("should speak normalized text and map boundaries to the original", async () => {
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak("It costs $5 & more", {
+        voice: "en-US-AriaNeural",
+        normalize: true,
+        onBoundary,
+      });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain("It costs five dollars &amp; more");
+      expect((connectionOptions as any).boundaryText).toBe(
+        "It costs five dollars & more",
+      );
+
+      // "dollars" belongs to "$5"
+      connectionOptions.onBoundary?.({ charIndex: 14, charLength: 7 });
+      expect(onBoundary).toHaveBeenCalledWith({ charIndex: 9, charLength: 2 });
+    });
+
+    it("should map sentence boundaries to the original", async () => {
+      const onSentenceBoundary = jest.fn();
+
+      await synthesizer.speak("It costs $5 & more", {
+        voice: "en-US-AriaNeural",
+        normalize: true,
+        onSentenceBoundary,
+      });
+
+      const [, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      connectionOptions.onSentenceBoundary?.({
+        charIndex: 0,
+        charLength: 28,
+        offsetMs: 50,
+        durationMs: 2000,
+      });
+      expect(onSentenceBoundary).toHaveBeenCalledWith({
+        charIndex: 0,
+        charLength: 18,
+        offsetMs: 50,
+        durationMs: 2000,
+      });
+    });
+
+    it("should check the length of the normalized text", async () => {
+      const onError = jest.fn();
+      const text = "$1,234,567.89 ".repeat(70);
+
+      await synthesizer.speak(text, { normalize: true, onError });
+
+      expect(text.length).toBeLessThanOrEqual(MAX_TEXT_LENGTH);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining(
+            `exceeds maximum of ${MAX_TEXT_LENGTH} characters`,
+          ),
+        }),
+      );
+      expect(mockConnectionManager.startSynthesis).not.toHaveBeenCalled();
+    });
+
+    it("should use the locale of the voice", async () => {
+      await synthesizer.speak("3 Äpfel", {
+        voice: "de-DE-KatjaNeural",
+        normalize: true,
+      });
+
+      const [, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect((connectionOptions as any).boundaryText).toBe("drei Äpfel");
+    });
+
+    it("should apply the lexicon to normalized text", async () => {
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak("Dr. No", {
+        voice: "en-US-AriaNeural",
+        normalize: { locale: "en-GB" },
+        lexicon: [{ match: "Doctor", alias: "Doc" }],
+        onBoundary,
+      });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain('<sub alias="Doc">Doctor</sub> No');
+
+      // "Doc" maps through the lexicon and normalization back to "Dr."
+      connectionOptions.onBoundary?.({ charIndex: 0, charLength: 3 });
+      expect(onBoundary).toHaveBeenCalledWith({ charIndex: 0, charLength: 3 });
+    });
+
+    it("should let per-call options override the configured setting", async () => {
+      synthesizer = new Synthesizer(
+        mockStateManager,
+        mockConnectionManager,
+        mockAudioService,
+        mockVoiceService,
+        mockNetworkService,
+        { normalize: true },
+      );
+
+      await synthesizer.speak("2 cats", { voice: "en-US-AriaNeural" });
+      await synthesizer.speak("2 cats", {
+        voice: "en-US-AriaNeural",
+        normalize: false,
+      });
+
+      const calls = mockConnectionManager.startSynthesis.mock.calls;
+      expect((calls[0][1] as any).boundaryText).toBe("two cats");
+      expect((calls[1][1] as any).boundaryText).toBe("2 cats");
+    });
+  });
+
+  describe("markdown input", () => {
+    it("should speak rendered Markdown and map boundaries to the source", async () => {
+      const onBoundary = jest.fn();
+      const source = "# Hi\n\nA **big** [deal](https://x.dev)";
+
+      await synthesizer.speak(source, { inputType: "markdown", onBoundary });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain(
+        'Hi\n<break strength="strong"/>A <emphasis level="strong">big</emphasis> deal',
+      );
+      expect((connectionOptions as any).boundaryText).toBe("Hi\nA big deal");
+
+      // "deal" is the link label
+      connectionOptions.onBoundary?.({ charIndex: 9, charLength: 4 });
+      expect(onBoundary).toHaveBeenCalledWith({
+        charIndex: source.indexOf("deal"),
+        charLength: 4,
+      });
+    });
+
+    it("should not apply the lexicon to Markdown", async () => {
+      await synthesizer.speak("Use *SQL*", {
+        inputType: "markdown",
+        lexicon: [{ match: "SQL", replacement: "sequel" }],
+      });
+
+      const [, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect((connectionOptions as any).boundaryText).toBe("Use SQL");
+    });
+  });
+
+  describe("HTML input", () => {
+    it("should speak extracted text and report text nodes", async () => {
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak(
+        "<h1>News</h1><script>track()</script><p>Rain &amp; <b>wind</b></p>",
+        { inputType: "html", onBoundary },
+      );
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain(
+        'News\n<break strength="strong"/>Rain &amp; wind',
+      );
+      expect((connectionOptions as any).boundaryText).toBe("News\nRain & wind");
+
+      connectionOptions.onBoundary?.({ charIndex: 12, charLength: 4 });
+      expect(onBoundary).toHaveBeenCalledWith({
+        charIndex: 12,
+        charLength: 4,
+        textNode: { index: 3, offset: 0 },
+      });
+    });
+
+    it("should switch voices for lang attributes", async () => {
+      const frenchVoice = {
+        ...mockVoice,
+        identifier: "fr-FR-DeniseNeural",
+        language: "fr-FR",
+      };
+      const voices = [mockVoice, frenchVoice];
+      mockVoiceService.getVoicesByLanguage.mockImplementation(
+        async (language) =>
+          voices.filter((voice) => voice.language === language),
+      );
+
+      await synthesizer.speak(
+        '<p>Hello, <i lang="fr">bonjour</i> and <i lang="en-US">hi</i></p>',
+        { inputType: "html", voice: "en-US-AriaNeural" },
+      );
+
+      const [sentSSML] = mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML).toContain(
+        '(en-US, AriaNeural)"><prosody rate="+0%" pitch="+0%" volume="+0%">Hello, </prosody></voice>' +
+          '<voice name="Microsoft Server Speech Text to Speech Voice (fr-FR, DeniseNeural)"><prosody rate="+0%" pitch="+0%" volume="+0%">bonjour </prosody></voice>',
+      );
+      expect(sentSSML.match(/<voice /g)).toHaveLength(3);
+    });
+
+    it("should keep the session voice when no voice speaks a language", async () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+      await synthesizer.speak('<p>Hi <span lang="tlh">nuqneH</span></p>', {
+        inputType: "html",
+      });
+
+      const [sentSSML] = mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML.match(/<voice /g)).toHaveLength(1);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('No voice found for language "tlh"'),
+      );
+      warnSpy.mockRestore();
+    });
+
+    it("should chunk long extracted text", async () => {
+      const paragraph = `<p>${"Word ".repeat(150).trim()}.</p>`;
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak(`<div>${paragraph}${paragraph}</div>`, {
+        inputType: "html",
+        chunkLongText: true,
+        onBoundary,
+      });
+
+      const calls = mockConnectionManager.startSynthesis.mock.calls;
+      expect(calls).toHaveLength(1);
+      expect((calls[0][1] as any).boundaryText).toHaveLength(750);
+    });
+  });
+
+  describe("automatic language detection", () => {
+    const chineseVoice: EdgeSpeechVoice = {
+      ...mockVoice,
+      identifier: "zh-CN-XiaoxiaoNeural",
+      language: "zh-CN",
+    };
+
+    beforeEach(() => {
+      const voices = [mockVoice, chineseVoice];
+      mockVoiceService.getVoicesByLanguage.mockImplementation(
+        async (language) =>
+          voices.filter((voice) => voice.language === language),
+      );
+    });
+
+    it("should read each script with a voice for its language", async () => {
+      await synthesizer.speak("Say 你好 twice", {
+        voice: "en-US-AriaNeural",
+        autoLanguage: true,
+      });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(mockVoiceService.getVoicesByLanguage).toHaveBeenCalledWith(
+        "zh-CN",
+      );
+      expect(sentSSML).toContain(
+        '(en-US, AriaNeural)"><prosody rate="+0%" pitch="+0%" volume="+0%">Say </prosody></voice>' +
+          '<voice name="Microsoft Server Speech Text to Speech Voice (zh-CN, XiaoxiaoNeural)"><prosody rate="+0%" pitch="+0%" volume="+0%">你好 </prosody></voice>',
+      );
+      expect(sentSSML.match(/<voice /g)).toHaveLength(3);
+      expect((connectionOptions as any).boundaryText).toBe("Say 你好 twice");
+    });
+
+    it("should keep a single voice for single-language text", async () => {
+      await synthesizer.speak("Just English", {
+        voice: "en-US-AriaNeural",
+        autoLanguage: true,
+      });
+
+      const [sentSSML] = mockConnectionManager.startSynthesis.mock.calls[0];
+      expect(sentSSML.match(/<voice /g)).toHaveLength(1);
+    });
+
+    it("should normalize runs and map boundaries to the original", async () => {
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak("It costs $5 你好", {
+        voice: "en-US-AriaNeural",
+        autoLanguage: true,
+        normalize: true,
+        onBoundary,
+      });
+
+      const [, connectionOptions] =
+        mockConnectionManager.startSynthesis.mock.calls[0];
+      expect((connectionOptions as any).boundaryText).toBe(
+        "It costs five dollars 你好",
+      );
+
+      connectionOptions.onBoundary?.({ charIndex: 22, charLength: 2 });
+      expect(onBoundary).toHaveBeenCalledWith({
+        charIndex: 12,
+        charLength: 2,
+      });
+    });
+  });
+
+  describe("long text chunking", () => {
+    const sentence = "This sentence is part of a long article. ";
+    const longText = sentence.repeat(60).trim();
+
+    const captureChunkOptions = () => {
+      const calls: SpeechOptions[] = [];
+      mockConnectionManager.startSynthesis.mockImplementation(
+        async (ssml, options) => {
+          calls.push(options);
+          options.onStart?.();
+          return "session-id";
+        },
+      );
+      return calls;
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("should speak chunks in order as a single utterance", async () => {
+      const calls = captureChunkOptions();
+      const onStart = jest.fn();
+      const onDone = jest.fn();
+
+      await synthesizer.speak(longText, {
+        chunkLongText: true,
+        onStart,
+        onDone,
+      });
+
+      expect(mockConnectionManager.startSynthesis).toHaveBeenCalledTimes(1);
+
+      calls[0].onDone?.();
+      await flush();
+      calls[1].onDone?.();
+      await flush();
+      calls[2].onDone?.();
+      await flush();
+
+      expect(mockConnectionManager.startSynthesis).toHaveBeenCalledTimes(3);
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(onDone).toHaveBeenCalledTimes(1);
+
+      const spokenText = mockConnectionManager.startSynthesis.mock.calls
+        .map(([, options]) => (options as any).boundaryText)
+        .join(" ");
+      expect(spokenText).toBe(longText);
+    });
+
+    it("should map boundary char indices to the full text", async () => {
+      const calls = captureChunkOptions();
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak(longText, { chunkLongText: true, onBoundary });
+      calls[0].onDone?.();
+      await flush();
+
+      // Chunks are separated by a single space in the source text
+      const secondChunkOffset = (calls[0] as any).boundaryText.length + 1;
+      calls[1].onBoundary?.({ charIndex: 5, charLength: 8 });
+
+      expect(onBoundary).toHaveBeenCalledWith({
+        charIndex: secondChunkOffset + 5,
+        charLength: 8,
+      });
+      expect(longText.substr(onBoundary.mock.calls[0][0].charIndex, 8)).toBe(
+        "sentence",
+      );
+    });
+
+    it("should continue word indexes across chunks", async () => {
+      const calls = captureChunkOptions();
+      const onBoundary = jest.fn();
+
+      await synthesizer.speak(longText, { chunkLongText: true, onBoundary });
+      calls[0].onBoundary?.({ charIndex: 0, charLength: 4, wordIndex: 0 });
+      calls[0].onBoundary?.({ charIndex: 5, charLength: 2, wordIndex: 1 });
+      calls[0].onDone?.();
+      await flush();
+      calls[1].onBoundary?.({ charIndex: 0, charLength: 4, wordIndex: 0 });
+
+      expect(
+        onBoundary.mock.calls.map(([boundary]) => boundary.wordIndex),
+      ).toEqual([0, 1, 2]);
+    });
+
+    it("should map sentence boundaries to the full text", async () => {
+      const calls = captureChunkOptions();
+      const onSentenceBoundary = jest.fn();
+
+      await synthesizer.speak(longText, {
+        chunkLongText: true,
+        onSentenceBoundary,
+      });
+      calls[0].onDone?.();
+      await flush();
+
+      const secondChunkOffset = (calls[0] as any).boundaryText.length + 1;
+      calls[1].onSentenceBoundary?.({
+        charIndex: 0,
+        charLength: 20,
+        offsetMs: 0,
+        durationMs: 1500,
+      });
+
+      expect(onSentenceBoundary).toHaveBeenCalledWith({
+        charIndex: secondChunkOffset,
+        charLength: 20,
+        offsetMs: 0,
+        durationMs: 1500,
+      });
+    });
+
+    it("should chunk normalized text that outgrows the limit", async () => {
+      const calls = captureChunkOptions();
+      const onError = jest.fn();
+      const onDone = jest.fn();
+      const numbers = "1234567 and 7654321. ".repeat(45).trim();
+      expect(numbers.length).toBeLessThan(MAX_TEXT_LENGTH);
+
+      await synthesizer.speak(numbers, {
+        voice: "en-US-AriaNeural",
+        chunkLongText: true,
+        normalize: true,
+        onError,
+        onDone,
+      });
+      for (let index = 0; index < calls.length; index++) {
+        calls[index].onDone?.();
+        await flush();
+      }
+
+      expect(calls.length).toBeGreaterThan(1);
+      calls.forEach((options) => {
+        expect((options as any).boundaryText.length).toBeLessThanOrEqual(
+          MAX_TEXT_LENGTH,
+        );
+      });
+      expect(onError).not.toHaveBeenCalled();
+      expect(onDone).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not speak remaining chunks after stop", async () => {
+      const calls = captureChunkOptions();
+      const onDone = jest.fn();
+
+      await synthesizer.speak(longText, { chunkLongText: true, onDone });
+      await synthesizer.stop();
+
+      calls[0].onDone?.();
+      await flush();
+
+      expect(mockConnectionManager.startSynthesis).toHaveBeenCalledTimes(1);
+      expect(onDone).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("dialogue", () => {
+    const lines = [
+      { voice: "en-US-GuyNeural", text: "Where were you?" },
+      { voice: "en-US-JennyNeural", text: "Out.", rate: 1.5 },
+      { voice: "en-US-GuyNeural", text: "Out where?" },
+      { voice: "en-US-JennyNeural", text: "Just out." },
+      { voice: "en-US-GuyNeural", text: "Fine." },
+      { voice: "en-US-JennyNeural", text: "Good night." },
+      { voice: "en-US-GuyNeural", text: "Night." },
+    ];
+
+    const captureBatchOptions = () => {
+      const calls: SpeechOptions[] = [];
+      mockConnectionManager.startSynthesis.mockImplementation(
+        async (ssml, options) => {
+          calls.push(options);
+          options.onStart?.();
+          return "session-id";
+        },
+      );
+      return calls;
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("should send lines as multi-voice SSML batches", async () => {
+      const calls = captureBatchOptions();
+      const onStart = jest.fn();
+      const onDone = jest.fn();
+
+      await synthesizer.speakDialogue(lines, { onStart, onDone });
+      calls[0].onDone?.();
+      await flush();
+      calls[1].onDone?.();
+      await flush();
+
+      const sent = mockConnectionManager.startSynthesis.mock.calls;
+      expect(sent).toHaveLength(2);
+      expect(sent[0][0].match(/<voice /g)).toHaveLength(5);
+      expect(sent[1][0].match(/<voice /g)).toHaveLength(2);
+      expect(sent[0][0]).toContain(
+        '<voice name="Microsoft Server Speech Text to Speech Voice (en-US, JennyNeural)"><prosody rate="+50%"',
+      );
+      expect((sent[0][1] as any).boundaryText).toBe(
+        "Where were you?\nOut.\nOut where?\nJust out.\nFine.",
+      );
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(onDone).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report the line of each boundary", async () => {
+      const calls = captureBatchOptions();
+      const onBoundary = jest.fn();
+
+      await synthesizer.speakDialogue(lines, { onBoundary });
+      // "where" in "Where were you?\nOut.\nOut where?"
+      calls[0].onBoundary?.({ charIndex: 25, charLength: 5 });
+      calls[0].onDone?.();
+      await flush();
+      calls[1].onBoundary?.({ charIndex: 12, charLength: 5 });
+
+      expect(onBoundary).toHaveBeenNthCalledWith(1, {
+        charIndex: 4,
+        charLength: 5,
+        segmentIndex: 2,
+      });
+      expect(onBoundary).toHaveBeenNthCalledWith(2, {
+        charIndex: 0,
+        charLength: 5,
+        segmentIndex: 6,
+      });
+    });
+
+    it("should reject invalid dialogue lines", async () => {
+      const onError = jest.fn();
+
+      await expect(
+        synthesizer.speakDialogue([{ voice: "nope", text: "Hi" }], {
+          onError,
+        }),
+      ).rejects.toThrow("Failed to format voice name for dialogue line 1");
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "SynthesisError" }),
+      );
+      expect(mockConnectionManager.startSynthesis).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("synthesize to file", () => {
+    const timing = { offsetMs: 100, durationMs: 200, rawOffset: 0 } as any;
+
+    it("should synthesize without playback and map boundaries", async () => {
+      mockConnectionManager.synthesizeToFile.mockResolvedValue({
+        uri: "file:///documents/lesson.mp3",
+        durationMs: 1500,
+        byteLength: 9000,
+        format: "audio-24khz-48kbitrate-mono-mp3",
+        boundaries: [
+          {
+            type: "word",
+            boundary: { charIndex: 14, charLength: 7 },
+            timing,
+          },
+          { type: "mark", boundary: { name: "end" }, timing },
+        ],
+      });
+
+      const result = await synthesizer.synthesizeToFile("It costs $5 & more", {
+        voice: "en-US-AriaNeural",
+        normalize: true,
+        outputFormat: "ogg-24khz-16bit-mono-opus",
+        fileUri: "file:///documents/lesson.mp3",
+      });
+
+      const [sentSSML, connectionOptions] =
+        mockConnectionManager.synthesizeToFile.mock.calls[0];
+      expect(sentSSML).toContain("It costs five dollars &amp; more");
+      expect(connectionOptions).toEqual(
+        expect.objectContaining({
+          fileUri: "file:///documents/lesson.mp3",
+          outputFormat: "ogg-24khz-16bit-mono-opus",
+          connectionId: expect.any(String),
+        }),
+      );
+      // "dollars" belongs to "$5"; marks are passed through
+      expect(result.boundaries).toEqual([
+        { type: "word", boundary: { charIndex: 9, charLength: 2 }, timing },
+        { type: "mark", boundary: { name: "end" }, timing },
+      ]);
+      expect(result.durationMs).toBe(1500);
+      expect(mockConnectionManager.startSynthesis).not.toHaveBeenCalled();
+      expect(mockStateManager.createSynthesisSession).not.toHaveBeenCalled();
+      expect(synthesizer.getCurrentSession()).toBeNull();
+    });
+
+    it("should reject empty text", async () => {
+      await expect(synthesizer.synthesizeToFile("   ")).rejects.toThrow(
+        "Text cannot be empty",
+      );
+      expect(mockConnectionManager.synthesizeToFile).not.toHaveBeenCalled();
+    });
+
+    it("should return audio bytes and pass the abort signal", async () => {
+      const audio = new Uint8Array([0x49, 0x44, 0x33]);
+      mockConnectionManager.synthesizeAudio.mockResolvedValue({
+        audio,
+        mimeType: "audio/mpeg",
+        durationMs: 800,
+        boundaries: [
+          {
+            type: "word",
+            boundary: { charIndex: 0, charLength: 5 },
+            timing,
+          },
+        ],
+      });
+      const controller = new AbortController();
+
+      const result = await synthesizer.synthesize("Hello world", {
+        voice: "en-US-AriaNeural",
+        signal: controller.signal,
+      });
+
+      expect(mockConnectionManager.synthesizeAudio.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ signal: controller.signal }),
+      );
+      expect(result).toEqual({
+        audio,
+        mimeType: "audio/mpeg",
+        durationMs: 800,
+        boundaries: [
+          { type: "word", boundary: { charIndex: 0, charLength: 5 }, timing },
+        ],
+      });
+      expect(mockConnectionManager.startSynthesis).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,117 @@
+/**
+ * textAlignment.test.ts
+ * Unit tests for aligning boundary words with the spoken text
+ */
+
+import { TextAligner } from "../src/utils/textAlignment";
+
+const align = (text: string, words: string[], locale?: string) => {
+  const aligner = new TextAligner(text, locale);
+  return words.map((word) => {
+    const { charIndex, charLength, confidence } = aligner.align(word);
+    return [text.slice(charIndex, charIndex + charLength), confidence];
+  });
+};
+
+describe("textAlignment", () => {
+  describe("TextAligner", () => {
+    it("should match words in order, ignoring case and punctuation", () => {
+      expect(align("Hello, hello world!", ["hello", "Hello", "world"])).toEqual(
+        [
+          ["Hello", 1],
+          ["hello", 1],
+          ["world", 1],
+        ],
+      );
+    });
+
+    it("should match across Unicode normalization forms and diacritics", () => {
+      expect(align("café ﬁne Ça", ["café", "fine", "ca"])).toEqual([
+        ["café", 1],
+        ["ﬁne", 0.9],
+        ["Ça", 0.9],
+      ]);
+    });
+
+    it("should align scripts without spaces", () => {
+      expect(
+        align("你好世界。今天很好", ["你好", "世界", "今天", "很", "好"]),
+      ).toEqual([
+        ["你好", 1],
+        ["世界", 1],
+        ["今天", 1],
+        ["很", 1],
+        ["好", 1],
+      ]);
+      expect(align("สวัสดีครับ", ["สวัสดี", "ครับ"])).toEqual([
+        ["สวัสดี", 1],
+        ["ครับ", 1],
+      ]);
+    });
+
+    it("should keep surrogate pairs whole", () => {
+      const aligner = new TextAligner("😀 𝒜𝒷𝒸 test");
+      expect(aligner.align("abc")).toEqual({
+        charIndex: 3,
+        charLength: 6,
+        confidence: 0.9,
+      });
+      expect(aligner.align("test").charIndex).toBe(10);
+    });
+
+    it("should follow numbers, symbols and abbreviations read as words", () => {
+      expect(
+        align("Dr. Lee has 25 cats & 1 dog", [
+          "Doctor",
+          "Lee",
+          "has",
+          "twenty",
+          "five",
+          "cats",
+          "and",
+          "one",
+          "dog",
+        ]),
+      ).toEqual([
+        ["Dr.", 0.5],
+        ["Lee", 1],
+        ["has", 1],
+        ["25", 0.8],
+        ["25", 0.8],
+        ["cats", 1],
+        ["&", 0.5],
+        ["1", 0.8],
+        ["dog", 1],
+      ]);
+      expect(align("Am 3. Mai", ["am", "dritten", "Mai"], "de-DE")).toEqual([
+        ["Am", 1],
+        ["3", 0.8],
+        ["Mai", 1],
+      ]);
+    });
+
+    it("should skip text the service did not read", () => {
+      expect(align("Hello (aside) world", ["Hello", "world"])).toEqual([
+        ["Hello", 1],
+        ["world", 0.6],
+      ]);
+    });
+
+    it("should report zero confidence without moving on", () => {
+      const aligner = new TextAligner("Hello world");
+      aligner.align("Hello");
+      expect(aligner.align("banana")).toEqual({
+        charIndex: 5,
+        charLength: 0,
+        confidence: 0,
+      });
+      expect(aligner.position).toBe(5);
+      expect(aligner.align("world")).toEqual({
+        charIndex: 6,
+        charLength: 5,
+        confidence: 1,
+      });
+      expect(aligner.align("again").confidence).toBe(0);
+    });
+  });
+});
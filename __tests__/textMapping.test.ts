@@ -0,0 +1,97 @@
+/**
+ * textMapping.test.ts
+ * Unit tests for offset maps of transformed text
+ */
+
+import {
+  MappedTextBuilder,
+  TextOffsetMap,
+  chainRangeMappers,
+  joinRangeMappers,
+} from "../src/utils/textMapping";
+
+describe("textMapping", () => {
+  describe("TextOffsetMap", () => {
+    it("should map identity ranges one-to-one", () => {
+      expect(TextOffsetMap.identity(10).mapRange(3, 4)).toEqual({
+        charIndex: 3,
+        charLength: 4,
+      });
+    });
+
+    it("should clamp ranges past the end of the text", () => {
+      expect(TextOffsetMap.identity(5).mapRange(3, 10)).toEqual({
+        charIndex: 3,
+        charLength: 2,
+      });
+    });
+  });
+
+  describe("MappedTextBuilder", () => {
+    it("should build text, escaped markup and map", () => {
+      // "Dr. <b>" -> "Doctor <b>"
+      const result = new MappedTextBuilder()
+        .replace("Doctor", 0, 3)
+        .keep(" <b>", 3)
+        .build();
+
+      expect(result.text).toBe("Doctor <b>");
+      expect(result.markup).toBe("Doctor &lt;b&gt;");
+      expect(result.map.mapRange(0, 6)).toEqual({
+        charIndex: 0,
+        charLength: 3,
+      });
+      expect(result.map.mapRange(7, 3)).toEqual({
+        charIndex: 4,
+        charLength: 3,
+      });
+    });
+
+    it("should expand ranges that touch a replacement", () => {
+      const map = new MappedTextBuilder()
+        .keep("a ", 0)
+        .replace("twenty one", 2, 4)
+        .build().map;
+
+      // "one" is part of the replacement for "21"
+      expect(map.mapRange(9, 3)).toEqual({ charIndex: 2, charLength: 2 });
+      // "a twenty" spans identity text and the replacement
+      expect(map.mapRange(0, 8)).toEqual({ charIndex: 0, charLength: 4 });
+    });
+  });
+
+  describe("joinRangeMappers", () => {
+    it("should map each part relative to its source offset", () => {
+      // "$5 你好" -> "five dollars 你好", transformed in two parts
+      const first = new MappedTextBuilder()
+        .replace("five dollars", 0, 2)
+        .keep(" ", 2)
+        .build();
+      const joined = joinRangeMappers([
+        { outputStart: 0, sourceStart: 0, map: first.map },
+        { outputStart: 13, sourceStart: 3 },
+      ]);
+
+      expect(joined.mapRange(5, 7)).toEqual({ charIndex: 0, charLength: 2 });
+      expect(joined.mapRange(13, 2)).toEqual({ charIndex: 3, charLength: 2 });
+    });
+  });
+
+  describe("chainRangeMappers", () => {
+    it("should map through transforms from last to first", () => {
+      // "1st Dr." -> "first Dr." -> "first Doctor"
+      const first = new MappedTextBuilder()
+        .replace("first", 0, 3)
+        .keep(" Dr.", 3)
+        .build();
+      const second = new MappedTextBuilder()
+        .keep("first ", 0)
+        .replace("Doctor", 6, 9)
+        .build();
+
+      const chained = chainRangeMappers(first.map, undefined, second.map);
+      expect(chained.mapRange(6, 6)).toEqual({ charIndex: 4, charLength: 3 });
+      expect(chained.mapRange(0, 5)).toEqual({ charIndex: 0, charLength: 3 });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * textNormalization.test.ts
+ * Unit tests for locale-aware text normalization
+ */
+
+import {
+  normalizeText,
+  registerNormalizer,
+  unregisterNormalizer,
+} from "../src/utils/textNormalization";
+
+describe("textNormalization", () => {
+  describe("built-in normalizers", () => {
+    it.each([
+      [
+        "en-US",
+        "Dr. Smith paid $12.50 on 3/15/2024 at 2:30 pm.",
+        "Doctor Smith paid twelve dollars and fifty cents on March fifteenth, twenty twenty-four at two thirty PM.",
+      ],
+      [
+        "en-GB",
+        "On 15/03/2024, 5 km and 20 °C, the 3rd of 1,234 people",
+        "On the fifteenth of March twenty twenty-four, five kilometers and twenty degrees Celsius, the third of one thousand two hundred thirty-four people",
+      ],
+      [
+        "de-DE",
+        "Am 15.03.2024 um 14:30 Uhr kostet es 12,50 €, z.B. der 3. Platz.",
+        "Am fünfzehnten März zweitausendvierundzwanzig um vierzehn Uhr dreißig kostet es zwölf Euro und fünfzig Cent, zum Beispiel der dritte Platz.",
+      ],
+      [
+        "fr-FR",
+        "Le 1er mars à 14h30, 1 234 personnes et 80 %",
+        "Le premier mars à quatorze heures trente, mille deux cent trente-quatre personnes et quatre-vingts pour cent",
+      ],
+      [
+        "es-ES",
+        "El 15 de marzo a las 14:30, 21 kg y 1 £, el 1º",
+        "El quince de marzo a las catorce y treinta, veintiún kilogramos y una libra, el primero",
+      ],
+      [
+        "zh-CN",
+        "2024年3月15日14:30，¥12.50，第3名，50%",
+        "二〇二四年三月十五日十四点三十分，十二点五零元，第三名，百分之五十",
+      ],
+    ])("should normalize %s text", (locale, text, expected) => {
+      expect(normalizeText(text, locale).text).toBe(expected);
+    });
+
+    it("should leave versions, codes and words with digits alone", () => {
+      expect(normalizeText("Update to v1.2.3 on MP3 players", "en").text).toBe(
+        "Update to v1.2.3 on MP3 players",
+      );
+    });
+
+    it("should read phone numbers digit by digit, not as years", () => {
+      expect(
+        normalizeText("Call 555-1234 or 1-800-555-0199", "en-US").text,
+      ).toBe(
+        "Call five five five, one two three four or one, eight zero zero, five five five, zero one nine nine",
+      );
+      expect(normalizeText("In 1990-1995, pages 10-20", "en-US").text).toBe(
+        "In nineteen ninety-nineteen ninety-five, pages ten-twenty",
+      );
+    });
+
+    it("should read numbers around a slash as dates or fractions", () => {
+      expect(
+        normalizeText("On 12/25 add 3/4 cup and 1/2 tsp", "en-US").text,
+      ).toBe(
+        "On December twenty-fifth add three quarters cup and one half tsp",
+      );
+      expect(normalizeText("On 25/12, 2/3 of them", "en-GB").text).toBe(
+        "On the twenty-fifth of December, two thirds of them",
+      );
+    });
+
+    it("should read minutes", () => {
+      expect(normalizeText("Wait 5 min or 1 min.", "en-US").text).toBe(
+        "Wait five minutes or one minute.",
+      );
+      expect(normalizeText("Noch 5 min", "de-DE").text).toBe(
+        "Noch fünf Minuten",
+      );
+    });
+
+    it("should read negative numbers and decimals", () => {
+      expect(normalizeText("from -5 to 3.5", "en-US").text).toBe(
+        "from minus five to three point five",
+      );
+    });
+
+    it("should keep the full stop of a final abbreviation", () => {
+      expect(normalizeText("apples, pears etc.", "en").text).toBe(
+        "apples, pears et cetera.",
+      );
+    });
+
+    it("should skip normalizers by name", () => {
+      expect(
+        normalizeText("Dr. Who has 3 hearts", "en", ["abbreviations"]).text,
+      ).toBe("Dr. Who has three hearts");
+    });
+
+    it("should leave text in unsupported locales unchanged", () => {
+      const result = normalizeText("3 個", "ja-JP");
+      expect(result.text).toBe("3 個");
+      expect(result.map.mapRange(0, 1)).toEqual({
+        charIndex: 0,
+        charLength: 1,
+      });
+    });
+
+    it("should escape the markup", () => {
+      expect(normalizeText("Tom & 2 friends", "en").markup).toBe(
+        "Tom &amp; two friends",
+      );
+    });
+  });
+
+  describe("offset mapping", () => {
+    it("should map words of a normalized span to the original span", () => {
+      const original = "Pay $12.50 now";
+      const result = normalizeText(original, "en-US");
+      expect(result.text).toBe("Pay twelve dollars and fifty cents now");
+
+      const fifty = result.map.mapRange(result.text.indexOf("fifty"), 5);
+      expect(original.substr(fifty.charIndex, fifty.charLength)).toBe("$12.50");
+
+      const now = result.map.mapRange(result.text.indexOf("now"), 3);
+      expect(now).toEqual({ charIndex: 11, charLength: 3 });
+    });
+
+    it("should map through several stages", () => {
+      const original = "Dr. Lee ran 5 km";
+      const result = normalizeText(original, "en");
+      expect(result.text).toBe("Doctor Lee ran five kilometers");
+
+      const lee = result.map.mapRange(result.text.indexOf("Lee"), 3);
+      expect(lee).toEqual({ charIndex: 4, charLength: 3 });
+      const km = result.map.mapRange(result.text.indexOf("kilometers"), 10);
+      expect(original.substr(km.charIndex, km.charLength)).toBe("5 km");
+    });
+  });
+
+  describe("custom normalizers", () => {
+    afterEach(() => {
+      unregisterNormalizer("ticket");
+    });
+
+    it("should run registered normalizers before the built-in ones", () => {
+      registerNormalizer({
+        name: "ticket",
+        locales: ["en"],
+        pattern: /#(\d+)/,
+        normalize: (match) => `ticket ${match[1].split("").join(" ")}`,
+      });
+
+      expect(normalizeText("See #42", "en-US").text).toBe(
+        "See ticket four two",
+      );
+      expect(normalizeText("Voir #42", "fr-FR").text).toBe(
+        "Voir #quarante-deux",
+      );
+    });
+
+    it("should replace a normalizer registered under the same name", () => {
+      registerNormalizer({
+        name: "ticket",
+        pattern: /#\d+/,
+        normalize: () => "first",
+      });
+      registerNormalizer({
+        name: "ticket",
+        pattern: /#\d+/,
+        normalize: () => "second",
+      });
+
+      expect(normalizeText("#1", "en").text).toBe("second");
+      expect(unregisterNormalizer("ticket")).toBe(true);
+      expect(unregisterNormalizer("ticket")).toBe(false);
+    });
+
+    it("should skip a normalizer that throws", () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+      registerNormalizer({
+        name: "ticket",
+        pattern: /#\d+/,
+        normalize: () => {
+          throw new Error("boom");
+        },
+      });
+
+      expect(normalizeText("#1", "en").text).toBe("#one");
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[TextNormalization] Normalizer "ticket" failed, skipping it:',
+        expect.any(Error),
+      );
+      warnSpy.mockRestore();
+    });
+
+    it("should reject invalid normalizers", () => {
+      expect(() =>
+        registerNormalizer({
+          name: "numbers",
+          pattern: /\d/,
+          normalize: () => "",
+        }),
+      ).toThrow('Normalizer name "numbers" is reserved');
+      expect(() =>
+        registerNormalizer({
+          name: "ticket",
+          pattern: "#" as any,
+          normalize: () => "",
+        }),
+      ).toThrow('Normalizer "ticket" must have a RegExp pattern');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * textUtils.test.ts
+ * Unit tests for long text chunking and word and sentence utilities
+ */
+
+import {
+  findSentences,
+  findWords,
+  splitTextIntoChunks,
+  TextChunk,
+} from "../src/utils/textUtils";
+import { MAX_TEXT_LENGTH } from "../src/constants";
+
+describe("textUtils", () => {
+  const expectChunksToMatchSource = (text: string, chunks: TextChunk[]) => {
+    for (const chunk of chunks) {
+      expect(text.substr(chunk.offset, chunk.text.length)).toBe(chunk.text);
+    }
+  };
+
+  describe("splitTextIntoChunks", () => {
+    it("should return a single chunk for short text", () => {
+      expect(splitTextIntoChunks("Hello world.")).toEqual([
+        { text: "Hello world.", offset: 0 },
+      ]);
+    });
+
+    it("should return no chunks for empty or whitespace-only text", () => {
+      expect(splitTextIntoChunks("")).toEqual([]);
+      expect(splitTextIntoChunks("   \n  ")).toEqual([]);
+    });
+
+    it("should default to MAX_TEXT_LENGTH", () => {
+      const text = "Word. ".repeat(400);
+      const chunks = splitTextIntoChunks(text);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) =>
+        expect(chunk.text.length).toBeLessThanOrEqual(MAX_TEXT_LENGTH),
+      );
+    });
+
+    it("should split at sentence boundaries", () => {
+      const text = "First sentence here. Second sentence here. Third one.";
+      const chunks = splitTextIntoChunks(text, 45);
+
+      expect(chunks).toEqual([
+        { text: "First sentence here. Second sentence here.", offset: 0 },
+        { text: "Third one.", offset: 43 },
+      ]);
+    });
+
+    it("should keep closing quotes with the sentence", () => {
+      const text = 'He said "stop." Then he left the room.';
+      const chunks = splitTextIntoChunks(text, 20);
+
+      expect(chunks[0].text).toBe('He said "stop."');
+      expectChunksToMatchSource(text, chunks);
+    });
+
+    it("should not treat abbreviation-like dots inside words as sentence ends", () => {
+      const text = "Version 1.5 is out now and works fine";
+      const chunks = splitTextIntoChunks(text, 12);
+
+      chunks.forEach((chunk) => expect(chunk.text).not.toMatch(/^5/));
+      expectChunksToMatchSource(text, chunks);
+    });
+
+    it("should prefer clause boundaries over plain spaces", () => {
+      const text = "One two three, four five six seven eight";
+      const chunks = splitTextIntoChunks(text, 30);
+
+      expect(chunks[0].text).toBe("One two three,");
+    });
+
+    it("should never split inside a word when whitespace is available", () => {
+      const text = "alpha beta gamma delta epsilon zeta eta theta";
+      const chunks = splitTextIntoChunks(text, 12);
+      const words = text.split(" ");
+
+      chunks.forEach((chunk) =>
+        chunk.text.split(" ").forEach((word) => expect(words).toContain(word)),
+      );
+      expectChunksToMatchSource(text, chunks);
+    });
+
+    it("should split CJK text after full-width punctuation", () => {
+      const text = "今天天气很好。我们去公园散步吧。";
+      const chunks = splitTextIntoChunks(text, 10);
+
+      expect(chunks).toEqual([
+        { text: "今天天气很好。", offset: 0 },
+        { text: "我们去公园散步吧。", offset: 7 },
+      ]);
+    });
+
+    it("should not split surrogate pairs", () => {
+      const text = "😀".repeat(10);
+      const chunks = splitTextIntoChunks(text, 5);
+
+      chunks.forEach((chunk) => {
+        expect(chunk.text.length % 2).toBe(0);
+        expect(chunk.text.length).toBeLessThanOrEqual(5);
+      });
+      expect(chunks.map((chunk) => chunk.text).join("")).toBe(text);
+    });
+
+    it("should not split XML entities", () => {
+      const text = "abc&amp;defghij";
+      const chunks = splitTextIntoChunks(text, 6);
+
+      expect(chunks[0].text).toBe("abc");
+      expect(chunks[1].text.startsWith("&amp;")).toBe(true);
+      expect(chunks.map((chunk) => chunk.text).join("")).toBe(text);
+    });
+
+    it("should hard split words longer than the limit", () => {
+      const text = "a".repeat(25);
+      const chunks = splitTextIntoChunks(text, 10);
+
+      expect(chunks.map((chunk) => chunk.text.length)).toEqual([10, 10, 5]);
+      expect(chunks.map((chunk) => chunk.offset)).toEqual([0, 10, 20]);
+    });
+
+    it("should report offsets into the original text", () => {
+      const text =
+        "  Leading space. Some more text here!   Trailing words follow. ";
+      const chunks = splitTextIntoChunks(text, 20);
+
+      expect(chunks[0].offset).toBe(2);
+      expectChunksToMatchSource(text, chunks);
+    });
+
+    it("should reject invalid maximum lengths", () => {
+      expect(() => splitTextIntoChunks("text", 0)).toThrow();
+    });
+  });
+
+  describe("findWords", () => {
+    it("should find words with their offsets", () => {
+      const text = "It's 42 degrees, isn't it?";
+      const words = findWords(text).map(({ start, end }) =>
+        text.slice(start, end),
+      );
+
+      expect(words).toEqual(["It's", "42", "degrees", "isn't", "it"]);
+    });
+  });
+
+  describe("findSentences", () => {
+    it("should find sentences from their first to last word", () => {
+      const text = "Hello world.  Is it 3.5 degrees? Yes! Trailing";
+      const sentences = findSentences(text).map(({ start, end }) =>
+        text.slice(start, end),
+      );
+
+      expect(sentences).toEqual([
+        "Hello world",
+        "Is it 3.5 degrees",
+        "Yes",
+        "Trailing",
+      ]);
+    });
+
+    it("should split at CJK sentence terminators", () => {
+      const text = "今天天气很好。我们去公园吧！";
+      const sentences = findSentences(text).map(({ start, end }) =>
+        text.slice(start, end),
+      );
+
+      expect(sentences).toEqual(["今天天气很好", "我们去公园吧"]);
+    });
+  });
+});
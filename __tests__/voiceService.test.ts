@@ -337,6 +337,69 @@ describe("VoiceService", () => {
     });
   });
 
+  describe("Speaking style validation", () => {
+    beforeEach(async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => [
+          ...realSampleVoices,
+          {
+            Name: "Microsoft Server Speech Text to Speech Voice (en-US, JennyNeural)",
+            ShortName: "en-US-JennyNeural",
+            Gender: "Female",
+            Locale: "en-US",
+            StyleList: ["cheerful", "sad", "whispering"],
+            RolePlayList: ["Girl"],
+          },
+        ],
+      } as Response);
+
+      await voiceService.getAvailableVoices();
+    });
+
+    it("should read styles and roles from the voice list", async () => {
+      const voice =
+        await voiceService.findVoiceByIdentifier("en-US-JennyNeural");
+
+      expect(voice?.styles).toEqual(["cheerful", "sad", "whispering"]);
+      expect(voice?.roles).toEqual(["Girl"]);
+    });
+
+    it("should accept supported styles and roles", async () => {
+      await expect(
+        voiceService.validateSpeakingStyle("en-US-JennyNeural", {
+          style: "Cheerful",
+          role: "Girl",
+        }),
+      ).resolves.toEqual({ isValid: true, warnings: [] });
+    });
+
+    it("should warn about unsupported styles and roles", async () => {
+      const result = await voiceService.validateSpeakingStyle(
+        "en-US-JennyNeural",
+        { style: "angry", role: "Boy" },
+      );
+
+      expect(result).toEqual({
+        isValid: false,
+        warnings: [
+          'Voice "en-US-JennyNeural" does not support style "angry"',
+          'Voice "en-US-JennyNeural" does not support role "Boy"',
+        ],
+      });
+    });
+
+    it("should not warn when the voice does not list styles or roles", async () => {
+      await expect(
+        voiceService.validateSpeakingStyle("en-US-AndrewNeural", {
+          style: "cheerful",
+          role: "Boy",
+        }),
+      ).resolves.toEqual({ isValid: true, warnings: [] });
+    });
+  });
+
   describe("Voice utilities", () => {
     beforeEach(async () => {
       mockFetch.mockResolvedValue({
@@ -12,12 +12,25 @@ import { AudioService } from "./services/audioService";
 import { NetworkService } from "./services/networkService";
 import { StorageService } from "./services/storageService";
 import { VoiceService } from "./services/voiceService";
-import { validateSpeechParameters } from "./utils/commonUtils";
+import {
+  validateSpeechParameters,
+  validateLexiconEntries,
+  validateNormalizationOptions,
+  validateOutputFormat,
+} from "./utils/commonUtils";
+import { SSMLBuilder } from "./utils/ssmlBuilder";
 import {
   SpeechOptions,
   SpeechError,
   EdgeSpeechVoice,
   SpeechAPIConfig,
+  DialogueLine,
+  DialogueOptions,
+  SynthesizeOptions,
+  SynthesizeToFileOptions,
+  SynthesisResult,
+  SynthesisFileResult,
+  SynthesisCancelled,
 } from "./types";
 
 /**
@@ -84,7 +97,12 @@ class SpeechAPI {
    *       ios: { playsInSilentModeIOS: true },
    *       android: { shouldDuckAndroid: true }
    *     }
-   *   }
+   *   },
+   *   lexicon: [
+   *     { match: 'SQL', replacement: 'sequel' },
+   *     { match: 'Nguyen', phoneme: 'wɪn' },
+   *   ],
+   *   normalize: true
    * });
    *
    * // Now use Speech API with custom configuration
@@ -103,6 +121,29 @@ class SpeechAPI {
       throw new Error("Configuration must be a valid SpeechAPIConfig object");
     }
 
+    if (config.lexicon !== undefined) {
+      const lexiconErrors = validateLexiconEntries(config.lexicon);
+      if (lexiconErrors.length > 0) {
+        throw new Error(`Invalid lexicon: ${lexiconErrors.join(", ")}`);
+      }
+    }
+
+    if (config.normalize !== undefined) {
+      const normalizeErrors = validateNormalizationOptions(config.normalize);
+      if (normalizeErrors.length > 0) {
+        throw new Error(
+          `Invalid normalization options: ${normalizeErrors.join(", ")}`,
+        );
+      }
+    }
+
+    if (config.outputFormat !== undefined) {
+      const formatErrors = validateOutputFormat(config.outputFormat);
+      if (formatErrors.length > 0) {
+        throw new Error(`Invalid output format: ${formatErrors.join(", ")}`);
+      }
+    }
+
     // Store the configuration for use during initialization
     SpeechAPI.globalConfig = { ...config };
   }
@@ -169,6 +210,11 @@ class SpeechAPI {
         this.audioService,
         this.voiceService,
         networkService,
+        {
+          lexicon: config?.lexicon,
+          normalize: config?.normalize,
+          outputFormat: config?.outputFormat,
+        },
       );
 
       this.initialized = true;
@@ -182,10 +228,13 @@ class SpeechAPI {
   /**
    * Internal speak method that orchestrates speech synthesis.
    * Assumes parameters have been validated by the public-facing API.
-   * @param text The text to speak.
+   * @param text The text or SSML builder content to speak.
    * @param options Validated and normalized speech options.
    */
-  async speak(text: string, options: SpeechOptions): Promise<void> {
+  async speak(
+    text: string | SSMLBuilder,
+    options: SpeechOptions,
+  ): Promise<void> {
     try {
       await this.initializeServices();
       if (!this.synthesizer) {
@@ -214,6 +263,96 @@ class SpeechAPI {
     }
   }
 
+  /**
+   * Internal dialogue method that orchestrates multi-voice synthesis.
+   * Assumes lines and options have been validated by the public-facing API.
+   * @param lines Validated dialogue lines.
+   * @param options Dialogue options.
+   */
+  async speakDialogue(
+    lines: DialogueLine[],
+    options: DialogueOptions,
+  ): Promise<void> {
+    try {
+      await this.initializeServices();
+      if (!this.synthesizer) {
+        throw new Error("Synthesizer not initialized");
+      }
+      await this.synthesizer.speakDialogue(lines, options);
+    } catch (error) {
+      const speechError: SpeechError = {
+        name: "SpeechError",
+        message:
+          error instanceof Error ? error.message : "Unknown speech error",
+        code: "SPEECH_ERROR",
+      };
+
+      console.error("Speech error:", speechError);
+      throw speechError;
+    }
+  }
+
+  /**
+   * Internal method that synthesizes to audio in memory without playback.
+   * Assumes parameters have been validated by the public-facing API.
+   * @param text The text or SSML builder content to synthesize.
+   * @param options Validated and normalized options.
+   */
+  async synthesize(
+    text: string | SSMLBuilder,
+    options: SynthesizeOptions,
+  ): Promise<SynthesisResult> {
+    try {
+      await this.initializeServices();
+      if (!this.synthesizer) {
+        throw new Error("Synthesizer not initialized");
+      }
+      return await this.synthesizer.synthesize(text, options);
+    } catch (error) {
+      throw this.toSynthesisError(error);
+    }
+  }
+
+  /**
+   * Internal method that synthesizes to an audio file without playback.
+   * Assumes parameters have been validated by the public-facing API.
+   * @param text The text or SSML builder content to synthesize.
+   * @param options Validated and normalized options.
+   */
+  async synthesizeToFile(
+    text: string | SSMLBuilder,
+    options: SynthesizeToFileOptions,
+  ): Promise<SynthesisFileResult> {
+    try {
+      await this.initializeServices();
+      if (!this.synthesizer) {
+        throw new Error("Synthesizer not initialized");
+      }
+      return await this.synthesizer.synthesizeToFile(text, options);
+    } catch (error) {
+      throw this.toSynthesisError(error);
+    }
+  }
+
+  /**
+   * Error to reject synthesizeAsync() or synthesizeToFileAsync() with.
+   * Cancellation keeps its SynthesisCancelled error and is not logged.
+   */
+  private toSynthesisError(error: unknown): SpeechError | SynthesisCancelled {
+    if (error instanceof SynthesisCancelled) {
+      return error;
+    }
+
+    const speechError: SpeechError = {
+      name: "SpeechError",
+      message: error instanceof Error ? error.message : "Unknown speech error",
+      code: "SPEECH_ERROR",
+    };
+
+    console.error("Speech error:", speechError);
+    return speechError;
+  }
+
   /**
    * Get list of all available voices from Microsoft Edge TTS service
    *
@@ -432,6 +571,147 @@ class SpeechAPI {
     }
   }
 
+  /**
+   * Move playback of the current utterance to a position in its audio
+   * (EdgeSpeech extension)
+   *
+   * Only playing or paused speech can be moved; otherwise this does nothing.
+   * Paused speech stays paused at the new position. While audio is still
+   * arriving, a position past the audio received so far plays once it
+   * arrives.
+   *
+   * @param positionMs - Position in milliseconds, clamped to the audio
+   * @returns Promise that resolves when playback has moved
+   * @throws {Error} If seeking fails
+   *
+   * @example
+   * ```typescript
+   * // Skip back 5 seconds
+   * const position = await Speech.getPositionAsync();
+   * await Speech.seekTo(position - 5000);
+   * ```
+   */
+  async seekTo(positionMs: number): Promise<void> {
+    await this.navigate((synthesizer) => synthesizer.seekTo(positionMs));
+  }
+
+  /**
+   * Move playback of the current utterance to the word at a text position
+   * (EdgeSpeech extension)
+   *
+   * Positions are those onBoundary reports. When the audio of that word has
+   * not arrived yet, plain text is synthesized again from the word and plays
+   * as the same utterance: onStart and onStopped are not called and
+   * boundaries keep their positions in the whole text. Not available for
+   * chunked long text or dialogue.
+   *
+   * @param charIndex - Position in the text; the word there, or the next one
+   * @returns Promise that resolves when playback has moved
+   * @throws {Error} If the position cannot be reached
+   *
+   * @example
+   * ```typescript
+   * // Start reading from the word the user tapped
+   * await Speech.seekToCharIndex(tappedCharIndex);
+   * ```
+   */
+  async seekToCharIndex(charIndex: number): Promise<void> {
+    await this.navigate((synthesizer) =>
+      synthesizer.seekToCharIndex(charIndex),
+    );
+  }
+
+  /**
+   * Move playback of the current utterance by whole words, backwards for a
+   * negative count (EdgeSpeech extension)
+   *
+   * Works like seekToCharIndex(); the count stops at the first and last word.
+   *
+   * @param count - Words to move by
+   * @returns Promise that resolves when playback has moved
+   * @throws {Error} If the word cannot be reached
+   */
+  async skipWords(count: number): Promise<void> {
+    await this.navigate((synthesizer) => synthesizer.skipWords(count));
+  }
+
+  /**
+   * Move playback of the current utterance by whole sentences, backwards for
+   * a negative count (EdgeSpeech extension)
+   *
+   * Works like seekToCharIndex(); 0 restarts the current sentence.
+   *
+   * @param count - Sentences to move by
+   * @returns Promise that resolves when playback has moved
+   * @throws {Error} If the sentence cannot be reached
+   *
+   * @example
+   * ```typescript
+   * // Previous and next buttons
+   * await Speech.skipSentences(-1);
+   * await Speech.skipSentences(1);
+   * ```
+   */
+  async skipSentences(count: number): Promise<void> {
+    await this.navigate((synthesizer) => synthesizer.skipSentences(count));
+  }
+
+  /**
+   * Run a seek on the synthesizer with the error message of seekTo()
+   */
+  private async navigate(
+    move: (synthesizer: Synthesizer) => Promise<void>,
+  ): Promise<void> {
+    try {
+      // Initialize services if needed
+      await this.initializeServices();
+
+      // Ensure synthesizer is available
+      if (!this.synthesizer) {
+        throw new Error("Synthesizer not initialized");
+      }
+
+      await move(this.synthesizer);
+    } catch (error) {
+      throw new Error(
+        `Failed to seek speech: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Get the playback position of the current utterance (EdgeSpeech extension)
+   *
+   * @returns Promise that resolves with the position in milliseconds, 0 when
+   * no speech is playing
+   */
+  async getPositionAsync(): Promise<number> {
+    try {
+      await this.initializeServices();
+      return (await this.synthesizer?.getPositionAsync()) ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Get the audio duration of the current utterance (EdgeSpeech extension)
+   *
+   * While audio is still arriving this is the duration received so far, so
+   * it grows until the whole utterance has been synthesized.
+   *
+   * @returns Promise that resolves with the duration in milliseconds, 0 when
+   * no speech is playing
+   */
+  async getDurationAsync(): Promise<number> {
+    try {
+      await this.initializeServices();
+      return (await this.synthesizer?.getDurationAsync()) ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Cleanup all resources and stop services
    *
@@ -545,13 +825,56 @@ export const configure = (config: SpeechAPIConfig): void => {
   SpeechAPI.configure(config); // Changed Speech to SpeechAPI
 };
 
+/**
+ * Validate the text and options passed to speak() or the synthesize functions
+ *
+ * @returns Options with defaults applied and prosody values clamped
+ * @throws {Error} If the text or options are invalid
+ */
+const validateSpeechInput = <T extends SpeechOptions>(
+  text: string | SSMLBuilder,
+  options: T,
+): T => {
+  // Type check for text parameter
+  const isBuilder = text instanceof SSMLBuilder;
+  if (typeof text !== "string" && !isBuilder) {
+    throw new Error("Text to speak must be a string.");
+  }
+
+  const spokenText = isBuilder ? text.toPlainText() : text;
+  if (!spokenText || spokenText.trim().length === 0) {
+    throw new Error("Text to speak cannot be empty.");
+  }
+  // Raw SSML documents are limited by SSML_VALIDATION instead, and HTML
+  // is checked once its text has been extracted
+  if (
+    spokenText.length > MAX_TEXT_LENGTH &&
+    (isBuilder ||
+      (!options.chunkLongText &&
+        options.inputType !== "ssml" &&
+        options.inputType !== "html"))
+  ) {
+    throw new Error(
+      `Text length (${spokenText.length}) exceeds maximum allowed length (${MAX_TEXT_LENGTH})`,
+    );
+  }
+
+  const paramValidation = validateSpeechParameters(options);
+  if (!paramValidation.result.isValid) {
+    throw new Error(
+      `Invalid speech parameters: ${paramValidation.result.errors.join(", ")}`,
+    );
+  }
+  return paramValidation.normalizedOptions as T;
+};
+
 /**
  * Speaks the given text with the specified options.
  *
  * Calling this when another text is being spoken adds an utterance to queue.
  * This is the main entry point for text-to-speech functionality.
  *
- * @param text - The text to be spoken
+ * @param text - The text to be spoken, or typed SSML content built with `ssml()`
  * @param options - Configuration options for speech synthesis (optional)
  *
  * @example
@@ -565,38 +888,70 @@ export const configure = (config: SpeechAPIConfig): void => {
  *   rate: 1.2,
  *   onDone: () => console.log('Finished speaking')
  * });
+ *
+ * // Typed SSML content
+ * Speech.speak(ssml().text('Hi').break({ time: 500 }).emphasis('really', 'strong'));
+ *
+ * // Bookmarks fire onMark when playback reaches them
+ * Speech.speak(ssml().text('Page one.').bookmark('page-2').text('Page two.'), {
+ *   onMark: ({ name }) => flipPage(name),
+ * });
+ *
+ * // Raw SSML document sent as-is
+ * Speech.speak(
+ *   '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">' +
+ *     '<voice name="en-US-AriaNeural">Hello <break time="300ms"/> there</voice></speak>',
+ *   { inputType: 'ssml' }
+ * );
+ *
+ * // Markdown from a chat reply, with pauses between blocks
+ * Speech.speak('## Summary\n\n- **Fast** startup\n- See [the docs](https://docs.expo.dev)', {
+ *   inputType: 'markdown',
+ * });
+ *
+ * // Mixed English and Chinese, each read with a matching voice
+ * Speech.speak('Say 你好 to everyone', { autoLanguage: true });
+ *
+ * // Article HTML, read without scripts and navigation
+ * Speech.speak(articleHtml, { inputType: 'html', chunkLongText: true });
+ *
+ * // Long text beyond maxSpeechInputLength, spoken as one utterance
+ * Speech.speak(articleText, {
+ *   chunkLongText: true,
+ *   onBoundary: ({ charIndex }) => highlight(charIndex),
+ * });
+ *
+ * // Sentence highlighting as each sentence starts playing
+ * Speech.speak(chapterText, {
+ *   onSentenceBoundary: ({ charIndex, charLength }) =>
+ *     highlightSentence(charIndex, charLength),
+ * });
+ *
+ * // Pronunciation lexicon; boundaries still point at "WWW"
+ * Speech.speak('Visit the WWW', {
+ *   lexicon: [{ match: 'WWW', alias: 'World Wide Web' }],
+ * });
+ *
+ * // Spoken as "zwölf Euro und fünfzig Cent am fünfzehnten März"
+ * Speech.speak('12,50 € am 15.03.2024', {
+ *   voice: 'de-DE-KatjaNeural',
+ *   normalize: true,
+ * });
  * ```
  */
-export const speak = (text: string, options?: SpeechOptions): void => {
+export const speak = (
+  text: string | SSMLBuilder,
+  options?: SpeechOptions,
+): void => {
   const speechOptions = options || {};
 
   try {
-    // Type check for text parameter
-    if (typeof text !== "string") {
-      throw new Error("Text to speak must be a string.");
-    }
-
-    if (!text || text.trim().length === 0) {
-      throw new Error("Text to speak cannot be empty.");
-    }
-    if (text.length > MAX_TEXT_LENGTH) {
-      throw new Error(
-        `Text length (${text.length}) exceeds maximum allowed length (${MAX_TEXT_LENGTH})`,
-      );
-    }
-
-    // Corrected call to validateSpeechParameters
-    const paramValidation = validateSpeechParameters(speechOptions);
-    if (!paramValidation.result.isValid) {
-      throw new Error(
-        `Invalid speech parameters: ${paramValidation.result.errors.join(", ")}`,
-      );
-    }
+    const normalizedOptions = validateSpeechInput(text, speechOptions);
 
     const speechInstance = SpeechAPI.getInstance();
     // Use normalizedOptions from validation
     speechInstance
-      .speak(text, paramValidation.normalizedOptions)
+      .speak(text, normalizedOptions)
       .catch((error: SpeechError) => {
         // SpeechAPI.speak already calls onError and logs the error.
         // This catch is for any unhandled promise rejections from the speak call.
@@ -618,6 +973,169 @@ export const speak = (text: string, options?: SpeechOptions): void => {
   }
 };
 
+/**
+ * Synthesize text to audio in memory without playing it
+ *
+ * Runs the same synthesis as speak(), with its retries and circuit breaker,
+ * and resolves with the encoded audio instead of playing it, e.g. to upload
+ * it or hand it to a custom player. Playback callbacks are not called; use
+ * the returned boundaries for word timings. Text cannot be longer than
+ * `maxSpeechInputLength`.
+ *
+ * @param text - The text to synthesize, or typed SSML content built with `ssml()`
+ * @param options - Speech options plus an AbortSignal to cancel (optional)
+ * @returns A promise that resolves with the audio bytes, MIME type, duration
+ * and boundaries, or rejects with SynthesisCancelled once aborted
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const { audio, mimeType } = await Speech.synthesizeAsync('Hello there', {
+ *   voice: 'en-US-AriaNeural',
+ *   signal: controller.signal,
+ * });
+ * await fetch(uploadUrl, {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': mimeType },
+ *   body: audio,
+ * });
+ * ```
+ */
+export const synthesizeAsync = async (
+  text: string | SSMLBuilder,
+  options?: SynthesizeOptions,
+): Promise<SynthesisResult> => {
+  const normalizedOptions = validateSpeechInput(text, {
+    ...options,
+    chunkLongText: false,
+  });
+  return SpeechAPI.getInstance().synthesize(text, normalizedOptions);
+};
+
+/**
+ * Synthesize text to an audio file without playing it
+ *
+ * Runs the same synthesis as speak() and writes the audio to `fileUri`, or
+ * to a new file in the document directory, for playback later with any
+ * player. Playback callbacks are not called; use the returned boundaries for
+ * word timings. Text cannot be longer than `maxSpeechInputLength`.
+ *
+ * @param text - The text to synthesize, or typed SSML content built with `ssml()`
+ * @param options - Speech options plus the file to write (optional)
+ * @returns A promise that resolves with the file and its duration, size,
+ * format and boundaries
+ *
+ * @example
+ * ```typescript
+ * const { uri, durationMs, boundaries } = await Speech.synthesizeToFileAsync(
+ *   'Lesson one: greetings.',
+ *   {
+ *     voice: 'en-US-AriaNeural',
+ *     fileUri: `${FileSystem.documentDirectory}lesson-1.mp3`,
+ *   },
+ * );
+ * ```
+ */
+export const synthesizeToFileAsync = async (
+  text: string | SSMLBuilder,
+  options?: SynthesizeToFileOptions,
+): Promise<SynthesisFileResult> => {
+  const normalizedOptions = validateSpeechInput(text, {
+    ...options,
+    chunkLongText: false,
+  });
+  return SpeechAPI.getInstance().synthesizeToFile(text, normalizedOptions);
+};
+
+/**
+ * Speak a dialogue with a different voice per line
+ *
+ * Lines are combined into as few SSML documents as the service allows (up to
+ * five voices each), so consecutive lines play without a new connection or
+ * gap. Callbacks describe the whole dialogue: onStart fires once, onDone after
+ * the last line.
+ *
+ * @param lines - Lines to speak, each with its own voice and optional prosody
+ * @param options - Callbacks and language shared by all lines
+ *
+ * @example
+ * ```typescript
+ * Speech.speakDialogue(
+ *   [
+ *     { voice: 'en-US-GuyNeural', text: 'Where were you last night?' },
+ *     { voice: 'en-US-JennyNeural', text: 'Out.', rate: 0.9 },
+ *   ],
+ *   {
+ *     onBoundary: ({ segmentIndex, charIndex, charLength }) =>
+ *       highlight(segmentIndex, charIndex, charLength),
+ *   }
+ * );
+ * ```
+ */
+export const speakDialogue = (
+  lines: DialogueLine[],
+  options?: DialogueOptions,
+): void => {
+  const dialogueOptions = options || {};
+
+  try {
+    if (!Array.isArray(lines) || lines.length === 0) {
+      throw new Error("Dialogue must contain at least one line.");
+    }
+
+    lines.forEach((line, index) => {
+      if (!line || typeof line.text !== "string" || !line.text.trim()) {
+        throw new Error(`Dialogue line ${index + 1} must have non-empty text.`);
+      }
+      if (line.text.length > MAX_TEXT_LENGTH) {
+        throw new Error(
+          `Dialogue line ${index + 1} length (${line.text.length}) exceeds maximum allowed length (${MAX_TEXT_LENGTH})`,
+        );
+      }
+      if (typeof line.voice !== "string" || !line.voice.trim()) {
+        throw new Error(`Dialogue line ${index + 1} must have a voice.`);
+      }
+    });
+
+    const normalizedLines = lines.map((line, index) => {
+      const { result, normalizedOptions } = validateSpeechParameters(line);
+      if (!result.isValid) {
+        throw new Error(
+          `Invalid parameters for dialogue line ${index + 1}: ${result.errors.join(", ")}`,
+        );
+      }
+      return { ...line, ...normalizedOptions } as DialogueLine;
+    });
+
+    const paramValidation = validateSpeechParameters(dialogueOptions);
+    if (!paramValidation.result.isValid) {
+      throw new Error(
+        `Invalid speech parameters: ${paramValidation.result.errors.join(", ")}`,
+      );
+    }
+
+    SpeechAPI.getInstance()
+      .speakDialogue(
+        normalizedLines,
+        paramValidation.normalizedOptions as DialogueOptions,
+      )
+      .catch((error: SpeechError) => {
+        // Synthesizer already reported the error through onError
+        console.error(
+          "Unhandled promise rejection in speakDialogue:",
+          error.message,
+        );
+      });
+  } catch (error) {
+    console.error("Speech validation error:", error);
+    if (typeof dialogueOptions.onError === "function") {
+      dialogueOptions.onError(error as Error);
+    } else {
+      throw error;
+    }
+  }
+};
+
 /**
  * Get all available voices from Microsoft Edge TTS service
  *
@@ -724,6 +1242,101 @@ export const isSpeakingAsync = (): Promise<boolean> => {
   return speechInstance.isSpeakingAsync();
 };
 
+/**
+ * Move playback of the current utterance to a position (EdgeSpeech extension)
+ *
+ * Only playing or paused speech can be moved. Use it with onProgress or
+ * getPositionAsync() and getDurationAsync() to build a scrubber.
+ *
+ * @param positionMs - Position in milliseconds, clamped to the audio
+ * @returns A promise that resolves when playback has moved.
+ *
+ * @example
+ * ```typescript
+ * Speech.speak(text, {
+ *   onProgress: ({ positionMs, durationMs }) =>
+ *     setScrubber(positionMs / durationMs),
+ * });
+ *
+ * // When the user releases the scrubber
+ * await Speech.seekTo(fraction * (await Speech.getDurationAsync()));
+ * ```
+ */
+export const seekTo = (positionMs: number): Promise<void> => {
+  const speechInstance = SpeechAPI.getInstance();
+  return speechInstance.seekTo(positionMs);
+};
+
+/**
+ * Move playback of the current utterance to the word at a text position
+ * (EdgeSpeech extension)
+ *
+ * Positions are those onBoundary reports. When the audio of that word has not
+ * arrived yet, plain text is synthesized again from there.
+ *
+ * @param charIndex - Position in the text; the word there, or the next one
+ * @returns A promise that resolves when playback has moved.
+ *
+ * @example
+ * ```typescript
+ * <Text onPress={() => Speech.seekToCharIndex(word.charIndex)}>
+ *   {word.text}
+ * </Text>
+ * ```
+ */
+export const seekToCharIndex = (charIndex: number): Promise<void> => {
+  const speechInstance = SpeechAPI.getInstance();
+  return speechInstance.seekToCharIndex(charIndex);
+};
+
+/**
+ * Move playback of the current utterance by whole words (EdgeSpeech extension)
+ *
+ * @param count - Words to move by, negative to go back
+ * @returns A promise that resolves when playback has moved.
+ */
+export const skipWords = (count: number): Promise<void> => {
+  const speechInstance = SpeechAPI.getInstance();
+  return speechInstance.skipWords(count);
+};
+
+/**
+ * Move playback of the current utterance by whole sentences
+ * (EdgeSpeech extension)
+ *
+ * @param count - Sentences to move by, negative to go back; 0 restarts the
+ * current sentence
+ * @returns A promise that resolves when playback has moved.
+ */
+export const skipSentences = (count: number): Promise<void> => {
+  const speechInstance = SpeechAPI.getInstance();
+  return speechInstance.skipSentences(count);
+};
+
+/**
+ * Get the playback position of the current utterance (EdgeSpeech extension)
+ *
+ * @returns A promise that resolves with the position in milliseconds, 0 when
+ * no speech is playing.
+ */
+export const getPositionAsync = (): Promise<number> => {
+  const speechInstance = SpeechAPI.getInstance();
+  return speechInstance.getPositionAsync();
+};
+
+/**
+ * Get the audio duration of the current utterance (EdgeSpeech extension)
+ *
+ * While audio is still arriving this is the duration received so far.
+ *
+ * @returns A promise that resolves with the duration in milliseconds, 0 when
+ * no speech is playing.
+ */
+export const getDurationAsync = (): Promise<number> => {
+  const speechInstance = SpeechAPI.getInstance();
+  return speechInstance.getDurationAsync();
+};
+
 /**
  * Cleanup all resources and stop services
  *
@@ -747,7 +1360,8 @@ export const cleanup = (): Promise<void> => {
 
 /**
  * Maximum text length for speech input.
- * This constant defines the character limit for text input to the speak function.
+ * This constant defines the character limit for text input to the speak function,
+ * unless `chunkLongText` is enabled.
  */
 export const maxSpeechInputLength = MAX_TEXT_LENGTH;
 
@@ -31,6 +31,46 @@ export const PARAMETER_RANGES = Object.freeze({
  */
 export const DEFAULT_VOICE = "en-US-EmmaMultilingualNeural";
 
+/**
+ * Locale whose voices read a bare language code, used when a voice is picked
+ * for a `lang` attribute or a detected language (e.g., "zh" -> "zh-CN")
+ */
+export const DEFAULT_LANGUAGE_LOCALES: Readonly<Record<string, string>> =
+  Object.freeze({
+    am: "am-ET",
+    ar: "ar-SA",
+    bn: "bn-IN",
+    de: "de-DE",
+    el: "el-GR",
+    en: "en-US",
+    es: "es-ES",
+    fa: "fa-IR",
+    fr: "fr-FR",
+    gu: "gu-IN",
+    he: "he-IL",
+    hi: "hi-IN",
+    hy: "hy-AM",
+    it: "it-IT",
+    ja: "ja-JP",
+    ka: "ka-GE",
+    km: "km-KH",
+    kn: "kn-IN",
+    ko: "ko-KR",
+    lo: "lo-LA",
+    ml: "ml-IN",
+    my: "my-MM",
+    pa: "pa-IN",
+    pt: "pt-BR",
+    ru: "ru-RU",
+    si: "si-LK",
+    ta: "ta-IN",
+    te: "te-IN",
+    th: "th-TH",
+    uk: "uk-UA",
+    ur: "ur-PK",
+    zh: "zh-CN",
+  });
+
 // =============================================================================
 // Basic Default Values
 // =============================================================================
@@ -130,16 +170,76 @@ export const CONTENT_TYPES = Object.freeze({
 
 /**
  * Default audio format for Edge TTS
- * This is the only format supported by Edge TTS for this endpoint.
  */
 export const DEFAULT_AUDIO_FORMAT = "audio-24khz-48kbitrate-mono-mp3";
 
 /**
- * Supported audio formats for Edge TTS
- * Edge TTS only supports MP3 at 24kHz 48kbps mono
+ * Audio output formats supported by the Edge TTS endpoint
  */
 export const AUDIO_FORMATS = Object.freeze({
   MP3_24KHZ_48KBPS: "audio-24khz-48kbitrate-mono-mp3",
+  MP3_24KHZ_96KBPS: "audio-24khz-96kbitrate-mono-mp3",
+  MP3_48KHZ_96KBPS: "audio-48khz-96kbitrate-mono-mp3",
+  MP3_48KHZ_192KBPS: "audio-48khz-192kbitrate-mono-mp3",
+  WEBM_24KHZ_OPUS: "webm-24khz-16bit-mono-opus",
+  OGG_24KHZ_OPUS: "ogg-24khz-16bit-mono-opus",
+  RIFF_24KHZ_PCM: "riff-24khz-16bit-mono-pcm",
+});
+
+/**
+ * Container, MIME type and encoding of each output format.
+ * Bit rates are in bits per second; Opus bit rates are nominal.
+ */
+export const AUDIO_FORMAT_DETAILS = Object.freeze({
+  [AUDIO_FORMATS.MP3_24KHZ_48KBPS]: {
+    container: "mp3",
+    mimeType: "audio/mpeg",
+    extension: "mp3",
+    sampleRate: 24000,
+    bitRate: 48000,
+  },
+  [AUDIO_FORMATS.MP3_24KHZ_96KBPS]: {
+    container: "mp3",
+    mimeType: "audio/mpeg",
+    extension: "mp3",
+    sampleRate: 24000,
+    bitRate: 96000,
+  },
+  [AUDIO_FORMATS.MP3_48KHZ_96KBPS]: {
+    container: "mp3",
+    mimeType: "audio/mpeg",
+    extension: "mp3",
+    sampleRate: 48000,
+    bitRate: 96000,
+  },
+  [AUDIO_FORMATS.MP3_48KHZ_192KBPS]: {
+    container: "mp3",
+    mimeType: "audio/mpeg",
+    extension: "mp3",
+    sampleRate: 48000,
+    bitRate: 192000,
+  },
+  [AUDIO_FORMATS.WEBM_24KHZ_OPUS]: {
+    container: "webm",
+    mimeType: "audio/webm",
+    extension: "webm",
+    sampleRate: 24000,
+    bitRate: 32000,
+  },
+  [AUDIO_FORMATS.OGG_24KHZ_OPUS]: {
+    container: "ogg",
+    mimeType: "audio/ogg",
+    extension: "ogg",
+    sampleRate: 24000,
+    bitRate: 32000,
+  },
+  [AUDIO_FORMATS.RIFF_24KHZ_PCM]: {
+    container: "riff",
+    mimeType: "audio/wav",
+    extension: "wav",
+    sampleRate: 24000,
+    bitRate: 384000, // 16-bit samples at 24kHz
+  },
 });
 
 /**
@@ -201,13 +301,14 @@ export const WEBSOCKET_CONFIG = Object.freeze({
 export const AUDIO_CONFIG = Object.freeze({
   defaultFormat: DEFAULT_AUDIO_FORMAT,
   enableWordBoundary: true,
-  enableSentenceBoundary: false,
+  enableSentenceBoundary: true,
+  enableBookmark: true,
   bufferSize: 4096, // Default buffer size for audio chunks
   maxBufferSize: 65536, // 64KB maximum buffer size
   minBufferSize: 1024, // 1KB minimum buffer size
   streamingChunkSize: 8192, // Preferred chunk size for streaming
-  sampleRate: 24000, // Edge TTS fixed sample rate (24kHz)
-  bitRate: 48000, // Edge TTS fixed bit rate (48kbps)
+  sampleRate: 24000, // Sample rate of the default format (24kHz)
+  bitRate: 48000, // Bit rate of the default format (48kbps)
   channels: 1, // Edge TTS mono audio
 });
 
@@ -408,6 +509,24 @@ export const SSML_VALIDATION = Object.freeze({
     MAX_VOICE_ELEMENTS: 5, // Maximum number of voice elements
     MAX_PROSODY_NESTING: 3, // Maximum prosody element nesting depth
   },
+  BREAK_LIMITS: {
+    MAX_TIME_MS: 20000, // Longest pause accepted by the service
+    TIME_PATTERN: /^\d+(\.\d+)?(ms|s)$/, // e.g. "500ms" or "1.5s"
+  },
+  EXPRESS_AS: {
+    MIN_STYLE_DEGREE: 0.01, // Weakest style intensity
+    MAX_STYLE_DEGREE: 2, // Doubles the default style intensity
+    ROLES: [
+      "Girl",
+      "Boy",
+      "YoungAdultFemale",
+      "YoungAdultMale",
+      "OlderAdultFemale",
+      "OlderAdultMale",
+      "SeniorFemale",
+      "SeniorMale",
+    ], // Role-play values for <mstts:express-as role>
+  },
 });
 
 /**
@@ -440,6 +559,14 @@ export const TIMING_CONVERSION = Object.freeze({
   TICKS_TO_MS_DIVISOR: 10000,
 });
 
+/**
+ * Playback synchronization of word boundary events
+ */
+export const BOUNDARY_PLAYBACK = Object.freeze({
+  PROGRESS_UPDATE_INTERVAL: 50, // expo-av status update interval (ms)
+  MAX_LATENESS: 250, // Words that ended longer ago are skipped, e.g. after a seek (ms)
+});
+
 /**
  * Edge TTS Exception types
  */
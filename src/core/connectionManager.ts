@@ -4,23 +4,31 @@
  * manages concurrent connections using State Management, and implements circuit breaker pattern.
  */
 
-import { ConnectionState } from "../types";
+import { ConnectionState, NoAudioReceived, SynthesisCancelled } from "../types";
 import type {
-  SpeechOptions,
   SpeechError,
-  WordBoundary,
+  TimedBoundary,
   SpeechConnectionConfig,
   CircuitBreakerConfig,
+  SynthesisResult,
+  SynthesisFileResult,
 } from "../types";
 
 import { AppState, NativeEventSubscription } from "react-native";
+import * as FileSystem from "expo-file-system";
 
 import { StateManager } from "./state";
 import { NetworkService } from "../services/networkService";
+import type {
+  SynthesisOptions,
+  SynthesisResponse,
+} from "../services/networkService";
 import { AudioService } from "../services/audioService";
 import { StorageService } from "../services/storageService";
 
-import { CONNECTION_LIFECYCLE } from "../constants";
+import { getAudioFormatInfo, isValidMP3Format } from "../utils/audioUtils";
+
+import { CONNECTION_LIFECYCLE, DEFAULT_AUDIO_FORMAT } from "../constants";
 
 // =============================================================================
 // Connection Manager Configuration and Types
@@ -48,16 +56,24 @@ interface StreamingCoordinator {
   /** Total audio size */
   totalAudioSize: number;
   /** Speech options */
-  options: SpeechOptions;
+  options: SynthesisOptions;
   /** Retry count for error recovery */
   retryCount?: number;
+  /** SSML document, sent again on retry */
+  ssml?: string;
+  /** Keep the response for the caller instead of playing it */
+  audioOnly?: boolean;
+  /** Response of the last successful attempt, when audioOnly */
+  response?: SynthesisResponse;
+  /** Audio is played while it arrives */
+  streaming?: boolean;
 }
 
 /**
  * Connection queue entry
  */
 interface QueuedConnection {
-  options: SpeechOptions & {
+  options: SynthesisOptions & {
     ssml?: string;
     clientSessionId: string;
     connectionId: string;
@@ -148,7 +164,7 @@ export class ConnectionManager {
    */
   async startSynthesis(
     ssml: string, // Changed from text to ssml
-    options: SpeechOptions & {
+    options: SynthesisOptions & {
       clientSessionId: string;
       connectionId: string;
     },
@@ -193,6 +209,131 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Synthesize to audio in memory without playing it.
+   * Retries and the circuit breaker apply as for playback. The connection
+   * counts against maxConnections while synthesis runs, but is never queued.
+   * Aborting `signal` closes the connection and rejects with
+   * SynthesisCancelled.
+   */
+  async synthesizeAudio(
+    ssml: string,
+    options: SynthesisOptions & {
+      clientSessionId: string;
+      connectionId: string;
+      signal?: AbortSignal;
+    },
+  ): Promise<SynthesisResult> {
+    if (!this.isCircuitClosed()) {
+      throw this.createSpeechError(
+        "CircuitBreakerOpen",
+        "Service temporarily unavailable due to repeated failures",
+        "CONNECTION_CIRCUIT_BREAKER_OPEN",
+      );
+    }
+    if (this.activeConnections.size >= this.config.maxConnections) {
+      throw this.createSpeechError(
+        "ConnectionLimitExceeded",
+        "Maximum concurrent connections reached",
+        "CONNECTION_LIMIT_EXCEEDED",
+      );
+    }
+
+    const { connectionId, clientSessionId, signal } = options;
+    if (signal?.aborted) {
+      throw new SynthesisCancelled();
+    }
+
+    const coordinator: StreamingCoordinator = {
+      connectionId,
+      state: ConnectionState.Connecting,
+      audioChunks: [],
+      totalAudioSize: 0,
+      options,
+      ssml,
+      audioOnly: true,
+    };
+    this.activeConnections.set(connectionId, coordinator);
+    this.activeSessions.set(clientSessionId, connectionId);
+
+    const cancel = () => this.networkService.cancelSynthesis(clientSessionId);
+    signal?.addEventListener("abort", cancel);
+
+    try {
+      this.storageService.createConnectionBuffer(connectionId);
+      try {
+        await this.establishNetworkConnection(connectionId, ssml, options);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new SynthesisCancelled();
+        }
+        await this.handleConnectionError(connectionId, error as SpeechError);
+      }
+      // Aborted while waiting to retry
+      if (signal?.aborted) {
+        throw new SynthesisCancelled();
+      }
+
+      const audio = this.storageService.getMergedAudioData(connectionId);
+      if (!coordinator.response || !audio || audio.length === 0) {
+        throw new NoAudioReceived();
+      }
+
+      this.recordSuccess();
+      const format = options.outputFormat ?? DEFAULT_AUDIO_FORMAT;
+      return {
+        audio,
+        mimeType: getAudioFormatInfo(format)?.mimeType ?? "audio/mpeg",
+        durationMs: coordinator.response.duration,
+        boundaries: coordinator.response.boundaries,
+      };
+    } catch (error) {
+      if (!(error instanceof SynthesisCancelled)) {
+        this.recordFailure();
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", cancel);
+      this.activeSessions.delete(clientSessionId);
+      this.storageService.cleanupConnection(connectionId);
+      await this.cleanupConnection(connectionId);
+    }
+  }
+
+  /**
+   * Synthesize to an audio file without playing it, as synthesizeAudio()
+   */
+  async synthesizeToFile(
+    ssml: string,
+    options: SynthesisOptions & {
+      clientSessionId: string;
+      connectionId: string;
+      signal?: AbortSignal;
+      fileUri?: string;
+    },
+  ): Promise<SynthesisFileResult> {
+    // Fail before synthesizing when there is nowhere to write
+    const format = options.outputFormat ?? DEFAULT_AUDIO_FORMAT;
+    const uri =
+      options.fileUri ?? this.createAudioFileUri(options.connectionId, format);
+    const { audio, durationMs, boundaries } = await this.synthesizeAudio(
+      ssml,
+      options,
+    );
+
+    await FileSystem.writeAsStringAsync(uri, this.uint8ArrayToBase64(audio), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    return {
+      uri,
+      durationMs,
+      byteLength: audio.length,
+      format,
+      boundaries,
+    };
+  }
+
   /**
    * Stop speech synthesis for a specific session
    */
@@ -262,6 +403,60 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Move playback of a specific session to a position in its audio
+   */
+  async seekSynthesis(sessionId: string, positionMs: number): Promise<void> {
+    if (this.isPlayingSession(sessionId)) {
+      await this.audioService.seekTo(positionMs);
+    }
+  }
+
+  /**
+   * Get the playback position of a specific session in milliseconds,
+   * 0 before its audio plays
+   */
+  async getSynthesisPosition(sessionId: string): Promise<number> {
+    return this.isPlayingSession(sessionId)
+      ? this.audioService.getPositionAsync()
+      : 0;
+  }
+
+  /**
+   * Get the audio duration of a specific session in milliseconds,
+   * 0 before its audio plays
+   */
+  async getSynthesisDuration(sessionId: string): Promise<number> {
+    return this.isPlayingSession(sessionId)
+      ? this.audioService.getDurationAsync()
+      : 0;
+  }
+
+  /**
+   * Get the timed boundaries of a specific session received so far,
+   * none before its audio plays
+   */
+  getSynthesisBoundaries(sessionId: string): TimedBoundary[] {
+    return this.isPlayingSession(sessionId)
+      ? [...this.audioService.currentBoundaries]
+      : [];
+  }
+
+  /**
+   * Whether the audio loaded in Audio Service belongs to a session
+   */
+  private isPlayingSession(sessionId: string): boolean {
+    const connectionId = this.activeSessions.get(sessionId);
+    if (!connectionId) {
+      throw this.createSpeechError(
+        "SessionNotFound",
+        "Session not found",
+        "SESSION_NOT_FOUND",
+      );
+    }
+    return this.audioService.currentConnectionId === connectionId;
+  }
+
   /**
    * Get connection pool status
    */
@@ -360,7 +555,7 @@ export class ConnectionManager {
    */
   private async createAndManageConnection(
     ssml: string,
-    options: SpeechOptions & {
+    options: SynthesisOptions & {
       clientSessionId: string;
       connectionId: string;
     },
@@ -397,7 +592,7 @@ export class ConnectionManager {
       await this.establishNetworkConnection(
         connectionId,
         ssml,
-        options, // options already of type SpeechOptions & { clientSessionId: string; connectionId: string }
+        options, // options already of type SynthesisOptions & { clientSessionId: string; connectionId: string }
       );
 
       coordinator.state = ConnectionState.Connected;
@@ -455,12 +650,24 @@ export class ConnectionManager {
   private async establishNetworkConnection(
     connectionId: string,
     ssml: string,
-    options: SpeechOptions & {
+    options: SynthesisOptions & {
       clientSessionId: string;
       connectionId: string; // This is the same as the connectionId parameter
     },
   ): Promise<void> {
-    // Process synthesis using traditional batch processing approach
+    const coordinator = this.activeConnections.get(connectionId);
+
+    // MP3 can be cut at frame boundaries, so it is played while it arrives;
+    // other formats are played once synthesis completes
+    const format = options.outputFormat ?? DEFAULT_AUDIO_FORMAT;
+    if (coordinator && !coordinator.audioOnly && isValidMP3Format(format)) {
+      coordinator.streaming = true;
+      await this.audioService.startProgressivePlayback(
+        this.createPlaybackOptions(coordinator),
+        connectionId,
+      );
+    }
+
     const response = await this.networkService.synthesizeText(
       ssml,
       options,
@@ -468,25 +675,36 @@ export class ConnectionManager {
       connectionId,
     );
 
-    // Process any word boundaries
-    for (const boundary of response.boundaries) {
-      this.handleBoundaryEvent(connectionId, boundary);
+    if (coordinator?.audioOnly) {
+      coordinator.response = response;
+      return;
+    }
+
+    if (coordinator?.streaming) {
+      await this.audioService.finalizeProgressivePlayback(connectionId);
+      return;
     }
 
-    // After all chunks are collected, trigger batch audio processing
-    await this.streamAudioToService(connectionId);
+    // Word boundaries are fired by Audio Service as playback reaches them
+    await this.streamAudioToService(connectionId, response.boundaries);
   }
 
   /**
    * Terminate connection and cleanup
    */
-  private async terminateConnection(connectionId: string): Promise<void> {
+  private async terminateConnection(
+    connectionId: string,
+    failed: boolean = false,
+  ): Promise<void> {
     const coordinator = this.activeConnections.get(connectionId);
     if (!coordinator) return;
 
     try {
-      // Stop audio playback
-      await this.audioService.stop();
+      // Stop audio playback; audio-only synthesis never started any. A failed
+      // utterance has reported onError and does not report a stop as well.
+      if (!coordinator.audioOnly) {
+        await this.audioService.stop(!failed);
+      }
 
       // Network Service cleanup happens automatically in synthesize method
 
@@ -524,17 +742,13 @@ export class ConnectionManager {
 
   /**
    * Handle incoming audio data from Network Service
-   * Coordinates data flow between Network Service, Storage Service, and Audio Service
+   * Network Service has already stored the chunk in Storage Service; streamed
+   * playback is given each chunk as it arrives
    */
-  private async handleAudioData(
-    connectionId: string,
-    audioData: Uint8Array,
-  ): Promise<void> {
+  private handleAudioData(connectionId: string, audioData: Uint8Array): void {
     const coordinator = this.activeConnections.get(connectionId);
     if (!coordinator) {
-      console.warn(
-        `Received audio data for unknown connection: ${connectionId}`,
-      );
+      // Stopped while audio was still arriving
       return;
     }
 
@@ -543,15 +757,9 @@ export class ConnectionManager {
       coordinator.audioChunks.push(audioData);
       coordinator.totalAudioSize += audioData.length;
 
-      // Store audio data in StorageService.
-      // The actual mechanism for this depends on StorageService's API.
-      // For now, we assume StorageService is aware of the coordinator.audioChunks
-      // or there's a direct method like:
-      // this.storageService.addAudioChunk(connectionId, audioData);
-
-      // DO NOT stream to Audio Service for playback on every chunk.
-      // Playback will be triggered once all chunks are received.
-      // await this.streamAudioToService(connectionId);
+      if (coordinator.streaming) {
+        this.audioService.appendProgressiveAudio(connectionId, audioData);
+      }
     } catch (error) {
       console.error(
         `Error handling audio data for connection ${connectionId}:`,
@@ -566,6 +774,16 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Handle a boundary event from Network Service while audio is streamed
+   */
+  private handleBoundaryData(connectionId: string, item: TimedBoundary): void {
+    const coordinator = this.activeConnections.get(connectionId);
+    if (coordinator?.streaming) {
+      this.audioService.addProgressiveBoundary(connectionId, item);
+    }
+  }
+
   /**
    * Store audio data (new helper method)
    */
@@ -602,27 +820,46 @@ export class ConnectionManager {
   /**
    * Stream audio data to Audio Service
    */
-  private async streamAudioToService(connectionId: string): Promise<void> {
+  private async streamAudioToService(
+    connectionId: string,
+    boundaries: TimedBoundary[] = [],
+  ): Promise<void> {
     const coordinator = this.activeConnections.get(connectionId);
     if (!coordinator) return;
 
-    // In batch processing mode, we use AudioService.speak() which supports callbacks
-    // Wrap the user's onDone callback to include connection cleanup
-    const wrappedOptions = {
+    // Use the full AudioService.speak() method which handles callbacks properly
+    await this.audioService.speak(
+      this.createPlaybackOptions(coordinator),
+      connectionId,
+      boundaries,
+    );
+  }
+
+  /**
+   * Speech options for Audio Service, with onDone and onError wrapped to
+   * include connection cleanup
+   */
+  private createPlaybackOptions(
+    coordinator: StreamingCoordinator,
+  ): SynthesisOptions {
+    const { connectionId } = coordinator;
+    return {
       ...coordinator.options,
       onDone: () => {
-        // Call user's callback first
-        if (coordinator.options.onDone) {
-          coordinator.options.onDone();
-        }
-
-        // Then clean up the connection to enable pooling
-        this.terminateConnection(connectionId).catch((error) => {
-          console.error(
-            `[ConnectionManager] Failed to cleanup connection ${connectionId}:`,
-            error,
-          );
-        });
+        // Release the connection before calling the user's callback so that
+        // an utterance started from onDone is not rejected by the pool limit
+        this.terminateConnection(connectionId)
+          .catch((error) => {
+            console.error(
+              `[ConnectionManager] Failed to cleanup connection ${connectionId}:`,
+              error,
+            );
+          })
+          .finally(() => {
+            if (coordinator.options.onDone) {
+              coordinator.options.onDone();
+            }
+          });
       },
       onError: (error: Error) => {
         // Call user's callback first
@@ -639,25 +876,6 @@ export class ConnectionManager {
         });
       },
     };
-
-    // Use the full AudioService.speak() method which handles callbacks properly
-    await this.audioService.speak(wrappedOptions, connectionId);
-  }
-
-  /**
-   * Handle boundary events from Network Service
-   */
-  private handleBoundaryEvent(
-    connectionId: string,
-    boundary: WordBoundary,
-  ): void {
-    const coordinator = this.activeConnections.get(connectionId);
-    if (!coordinator) return;
-
-    // Trigger user callbacks if available
-    if (coordinator.options.onBoundary) {
-      coordinator.options.onBoundary(boundary);
-    }
   }
 
   // =============================================================================
@@ -684,12 +902,15 @@ export class ConnectionManager {
       coordinator.options.onError(new Error(error.message));
     }
 
-    // Attempt recovery based on error type
-    const shouldRetry = this.shouldRetryConnection(error);
+    // Attempt recovery based on error type. Streamed audio may already have
+    // been heard, and a new attempt would play it again.
+    const shouldRetry =
+      this.shouldRetryConnection(error) &&
+      !(coordinator.streaming && coordinator.totalAudioSize > 0);
 
     // For non-retryable errors, terminate immediately and re-throw
     if (!shouldRetry) {
-      await this.terminateConnection(connectionId);
+      await this.terminateConnection(connectionId, true);
       // Ensure we throw a proper Error instance
       if (error instanceof Error) {
         throw error;
@@ -704,7 +925,7 @@ export class ConnectionManager {
 
     // For retryable errors, check circuit breaker and retry count
     if (!this.isCircuitClosed()) {
-      await this.terminateConnection(connectionId);
+      await this.terminateConnection(connectionId, true);
       throw this.createSpeechError(
         "CircuitBreakerOpen",
         "Circuit breaker is open",
@@ -717,7 +938,7 @@ export class ConnectionManager {
     const maxRetries = 3;
 
     if (currentRetries >= maxRetries) {
-      await this.terminateConnection(connectionId);
+      await this.terminateConnection(connectionId, true);
       throw this.createSpeechError(
         "MaxRetriesExceeded",
         `Maximum retry attempts (${maxRetries}) exceeded`,
@@ -730,7 +951,7 @@ export class ConnectionManager {
       await this.retryConnection(connectionId);
     } catch (retryError) {
       // Retry failed, terminate and re-throw
-      await this.terminateConnection(connectionId);
+      await this.terminateConnection(connectionId, true);
       throw retryError;
     }
   }
@@ -772,17 +993,23 @@ export class ConnectionManager {
     coordinator.state = ConnectionState.Connecting;
     coordinator.audioChunks = [];
     coordinator.totalAudioSize = 0;
+    if (coordinator.audioOnly) {
+      // Drop the audio of the failed attempt
+      this.storageService.cleanupConnection(connectionId);
+      this.storageService.createConnectionBuffer(connectionId);
+    }
 
     // Attempt to re-establish connection directly through Network Service
     const { options: coordinatorOptions } = coordinator; // Renamed to avoid conflict
-    const ssmlToRetry = (coordinatorOptions as any).ssml || "";
+    const ssmlToRetry =
+      coordinator.ssml ?? ((coordinatorOptions as any).ssml || "");
 
     try {
       // Re-establish the network connection
       await this.establishNetworkConnection(
         connectionId,
         ssmlToRetry,
-        coordinatorOptions as SpeechOptions & {
+        coordinatorOptions as SynthesisOptions & {
           clientSessionId: string;
           connectionId: string;
         },
@@ -886,7 +1113,7 @@ export class ConnectionManager {
         const ssmlToSynthesize = (queuedOptions as any).ssml || "";
         const result = await this.createAndManageConnection(
           ssmlToSynthesize,
-          queuedOptions as SpeechOptions & {
+          queuedOptions as SynthesisOptions & {
             clientSessionId: string;
             connectionId: string;
           },
@@ -934,6 +1161,14 @@ export class ConnectionManager {
    * Setup event handlers for service coordination
    */
   private setupEventHandlers(): void {
+    // Streamed playback receives audio and boundaries as they arrive
+    this.networkService.onAudioData((connectionId, chunk) => {
+      this.handleAudioData(connectionId, chunk);
+    });
+    this.networkService.onBoundaryData((connectionId, item) => {
+      this.handleBoundaryData(connectionId, item);
+    });
+
     // Setup state change listener for service coordination
     this.stateManager.addStateChangeListener((event) => {
       // Handle state changes for connection management coordination
@@ -995,6 +1230,23 @@ export class ConnectionManager {
     return error;
   }
 
+  /**
+   * Default location of a synthesized audio file
+   */
+  private createAudioFileUri(connectionId: string, format: string): string {
+    const directory = FileSystem.documentDirectory ?? FileSystem.cacheDirectory;
+    // Both are null where there is no file system, e.g. on web
+    if (!directory) {
+      throw this.createSpeechError(
+        "FileSystemUnavailable",
+        "No document or cache directory to write the audio file to; pass fileUri",
+        "FILE_SYSTEM_UNAVAILABLE",
+      );
+    }
+    const extension = getAudioFormatInfo(format)?.extension ?? "mp3";
+    return `${directory}speech_${connectionId}.${extension}`;
+  }
+
   /**
    * Convert Uint8Array to base64 string
    */
@@ -14,6 +14,9 @@ import { EDGE_TTS_CONFIG } from "../constants"; // Added import
 
 import { AudioPlaybackState } from "../services/audioService";
 import { generateConnectionId, generateSessionId } from "../utils/commonUtils";
+import type { TextRangeMapper } from "../utils/textMapping";
+import type { TextNodeMapper } from "../utils/html";
+import type { LanguageSegment, SSMLBookmark } from "../utils/ssmlUtils";
 
 import { StorageService } from "../services/storageService";
 import { NetworkService } from "../services/networkService";
@@ -49,6 +52,27 @@ export interface SynthesisSession {
   connectionId: string;
   /** Text being synthesized */
   text: string;
+  /** Escaped SSML markup to send instead of text (typed SSML builder input) */
+  ssmlMarkup?: string;
+  /** Complete SSML document sent as-is (raw SSML input) */
+  ssmlDocument?: string;
+  /** Text the service speaks when it differs from `text` (lexicon substitution) */
+  spokenText?: string;
+  /** Maps boundary ranges in `spokenText` back to `text` */
+  boundaryMap?: TextRangeMapper;
+  /** Markup per language run, each read with a voice for its language */
+  ssmlSegments?: LanguageSegment[];
+  /** Maps boundary positions in `text` to DOM text nodes (HTML input) */
+  textNodeMap?: TextNodeMapper;
+  /** Positions of the SSML bookmarks in `text` */
+  bookmarks?: SSMLBookmark[];
+  /**
+   * Plain text passed to speak(), which can be synthesized again from a
+   * seek position. The session speaks `text` from `charIndex` on, to its
+   * end or the end of a chunk of long text, and its first word is word
+   * `wordIndex`.
+   */
+  source?: { text: string; charIndex: number; wordIndex: number };
   /** Speech options for this session */
   options: SpeechOptions;
   /** Session state */
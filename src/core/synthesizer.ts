@@ -2,15 +2,135 @@ import type {
   SpeechOptions,
   EdgeSpeechVoice,
   WordBoundary,
+  SentenceBoundary,
   SpeechError,
+  DialogueLine,
+  DialogueOptions,
+  LexiconEntry,
+  NormalizationOptions,
+  AudioOutputFormat,
+  SynthesizeOptions,
+  SynthesizeToFileOptions,
+  SynthesisResult,
+  SynthesisFileResult,
+  TimedBoundary,
+  TimedWordBoundary,
+  TimedSentenceBoundary,
 } from "../types";
-import { generateSessionId } from "../utils/commonUtils";
-import { generateSSML } from "../utils/ssmlUtils";
+import { generateConnectionId, generateSessionId } from "../utils/commonUtils";
+import {
+  generateSSML,
+  generateSSMLFromMarkup,
+  extractTextFromSSML,
+  extractBookmarksFromSSML,
+  validateSSML,
+  generateMultiVoiceSSML,
+  splitDialogueIntoBatches,
+  extractLanguageFromVoice,
+  DialogueBatch,
+  SSMLVoiceSegment,
+  LanguageSegment,
+  escapeXML,
+} from "../utils/ssmlUtils";
+import { SSMLBuilder } from "../utils/ssmlBuilder";
+import {
+  findSentences,
+  findWords,
+  splitTextIntoChunks,
+  TextChunk,
+  TextRange,
+} from "../utils/textUtils";
+import { applyLexicon } from "../utils/lexicon";
+import { renderMarkdown } from "../utils/markdown";
+import { RenderedHTML, renderHTML, getHTMLSegments } from "../utils/html";
+import {
+  normalizeText,
+  hasBuiltInNormalization,
+} from "../utils/textNormalization";
+import { detectLanguageRuns } from "../utils/languageDetection";
+import {
+  MappedText,
+  MappedTextPart,
+  chainRangeMappers,
+  joinRangeMappers,
+} from "../utils/textMapping";
+import {
+  MAX_TEXT_LENGTH,
+  DEFAULT_VOICE,
+  DEFAULT_LANGUAGE_LOCALES,
+  SSML_VALIDATION,
+} from "../constants";
 import { StateManager, ApplicationState, SynthesisSession } from "./state";
 import { ConnectionManager } from "./connectionManager";
 import { AudioService, AudioPlaybackState } from "../services/audioService";
 import { VoiceService } from "../services/voiceService";
 import { NetworkService } from "../services/networkService";
+import type { SynthesisOptions } from "../services/networkService";
+
+/**
+ * One utterance of a multi-part run (long text chunk or dialogue batch)
+ */
+interface SequencePart {
+  speak(options: SpeechOptions): Promise<void>;
+  /** Translate a word or sentence boundary of this part to the caller's text */
+  mapBoundary<T extends WordBoundary>(boundary: T): T;
+}
+
+/**
+ * Parts of one utterance being spoken one after another
+ */
+interface SequenceRun {
+  cancelled: boolean;
+  /** Options of the whole run, without chunkLongText */
+  options: SpeechOptions;
+  /** Word index of the first word of the part being spoken */
+  firstWordIndex: number;
+  /** Plain text of a run of chunks, in which text positions can move */
+  text?: string;
+}
+
+/**
+ * What a session sends instead of escaped plain text
+ */
+type SessionContent = Pick<
+  SynthesisSession,
+  | "ssmlMarkup"
+  | "ssmlDocument"
+  | "spokenText"
+  | "boundaryMap"
+  | "ssmlSegments"
+  | "textNodeMap"
+  | "bookmarks"
+  | "source"
+>;
+
+/**
+ * Word or sentence to move playback to: its range in the caller's text and,
+ * once the service has reported it, its timing
+ */
+interface PlaybackTarget extends TextRange {
+  timed?: TimedBoundary;
+}
+
+/**
+ * SSML document and connection options for one session
+ */
+interface SynthesisRequest {
+  ssml: string;
+  options: SynthesisOptions & { clientSessionId: string; connectionId: string };
+}
+
+/**
+ * Synthesizer configuration from SpeechAPIConfig
+ */
+export interface SynthesizerConfig {
+  /** Pronunciation lexicon applied to plain text input */
+  lexicon?: LexiconEntry[];
+  /** Text normalization applied to plain text input */
+  normalize?: boolean | NormalizationOptions;
+  /** Audio format used when speak() does not set one */
+  outputFormat?: AudioOutputFormat;
+}
 
 /**
  * Main synthesizer that coordinates complete speech synthesis workflow.
@@ -22,9 +142,13 @@ export class Synthesizer {
   private audioService: AudioService;
   private voiceService: VoiceService;
   private networkService: NetworkService;
+  private config: SynthesizerConfig;
 
   private sessions: Map<string, SynthesisSession> = new Map();
   private currentSession: SynthesisSession | null = null;
+  private sequenceRun: SequenceRun | null = null;
+  /** Session being stopped to synthesize its text again from a position */
+  private replacedSession: SynthesisSession | null = null;
 
   constructor(
     stateManager: StateManager,
@@ -32,7 +156,9 @@ export class Synthesizer {
     audioService: AudioService,
     voiceService: VoiceService,
     networkService: NetworkService,
+    config: SynthesizerConfig = {},
   ) {
+    this.config = config;
     this.stateManager = stateManager;
     this.connectionManager = connectionManager;
     this.audioService = audioService;
@@ -76,10 +202,389 @@ export class Synthesizer {
 
   /**
    * Main speech synthesis function - expo-speech compatible
+   * Accepts plain text, Markdown, HTML, raw SSML or typed SSML content from
+   * an SSMLBuilder
    */
-  async speak(text: string, options: SpeechOptions = {}): Promise<void> {
+  async speak(
+    input: string | SSMLBuilder,
+    options: SpeechOptions = {},
+  ): Promise<void> {
+    const isBuilder = input instanceof SSMLBuilder;
+    if (!isBuilder && options.inputType === "html") {
+      return this.speakHTML(input, options);
+    }
+
+    // Normalized text can outgrow MAX_TEXT_LENGTH too
+    if (
+      !isBuilder &&
+      options.inputType !== "ssml" &&
+      options.chunkLongText &&
+      input &&
+      this.splitSpokenChunks(input, options).length > 1
+    ) {
+      return this.speakLongText(input, options);
+    }
+
+    const { text, content } = this.createSessionInput(input, options);
+    if (!isBuilder && (options.inputType ?? "text") === "text") {
+      content.source = { text, charIndex: 0, wordIndex: 0 };
+    }
+    await this.startSession(text, options, content);
+  }
+
+  /**
+   * Synthesize input to audio in memory without playing it.
+   * Accepts the same input as speak() except text longer than
+   * MAX_TEXT_LENGTH; boundaries refer to the caller's text.
+   */
+  async synthesize(
+    input: string | SSMLBuilder,
+    options: SynthesizeOptions = {},
+  ): Promise<SynthesisResult> {
+    const { session, request } = await this.createStandaloneRequest(
+      input,
+      options,
+    );
+    const result = await this.connectionManager.synthesizeAudio(request.ssml, {
+      ...request.options,
+      signal: options.signal,
+    });
+    return {
+      ...result,
+      boundaries: this.mapTimedBoundaries(session, result.boundaries),
+    };
+  }
+
+  /**
+   * Synthesize input to an audio file without playing it, as synthesize()
+   */
+  async synthesizeToFile(
+    input: string | SSMLBuilder,
+    options: SynthesizeToFileOptions = {},
+  ): Promise<SynthesisFileResult> {
+    const { session, request } = await this.createStandaloneRequest(
+      input,
+      options,
+    );
+    const result = await this.connectionManager.synthesizeToFile(request.ssml, {
+      ...request.options,
+      signal: options.signal,
+      fileUri: options.fileUri,
+    });
+    return {
+      ...result,
+      boundaries: this.mapTimedBoundaries(session, result.boundaries),
+    };
+  }
+
+  /**
+   * Session and synthesis request for audio that is returned, not played.
+   * The session is not tracked as the current session: stop() and pause()
+   * only affect playback.
+   */
+  private async createStandaloneRequest(
+    input: string | SSMLBuilder,
+    options: SpeechOptions,
+  ): Promise<{ session: SynthesisSession; request: SynthesisRequest }> {
+    const { text, content } = this.createSessionInput(input, options);
+    if (content.ssmlDocument !== undefined) {
+      this.validateRawSSML(content.ssmlDocument);
+    }
+    if (!text || text.trim().length === 0) {
+      throw new Error("Text cannot be empty");
+    }
+
+    const session = Object.assign(this.createSession(text, options), content);
+    return { session, request: await this.createSynthesisRequest(session) };
+  }
+
+  /**
+   * Text and session content of a single utterance
+   */
+  private createSessionInput(
+    input: string | SSMLBuilder,
+    options: SpeechOptions,
+  ): { text: string; content: SessionContent } {
+    if (input instanceof SSMLBuilder) {
+      return {
+        text: input.toPlainText(),
+        content: {
+          ssmlMarkup: input.toMarkup(),
+          bookmarks: input.toBookmarks(),
+        },
+      };
+    }
+
+    switch (options.inputType) {
+      case "ssml":
+        return {
+          text: extractTextFromSSML(input),
+          content: {
+            ssmlDocument: input,
+            bookmarks: extractBookmarksFromSSML(input),
+          },
+        };
+      case "markdown": {
+        // Boundaries map back to the Markdown source
+        const rendered = renderMarkdown(input);
+        return {
+          text: input,
+          content: {
+            ssmlMarkup: rendered.markup,
+            spokenText: rendered.text,
+            boundaryMap: rendered.map,
+          },
+        };
+      }
+      case "html": {
+        const rendered = renderHTML(input);
+        return {
+          text: rendered.text,
+          content: this.createHTMLContent(rendered, 0, rendered.text.length),
+        };
+      }
+      default:
+        return {
+          text: input,
+          content: options.autoLanguage
+            ? this.createAutoLanguageContent(input, options)
+            : this.applyTextTransforms(input, options),
+        };
+    }
+  }
+
+  /**
+   * Speak the text extracted from HTML.
+   * Boundaries are reported relative to the extracted text; long text is
+   * split into chunks when chunkLongText is set.
+   */
+  private async speakHTML(html: string, options: SpeechOptions): Promise<void> {
+    const rendered = renderHTML(html);
+    const { text } = rendered;
+    if (!options.chunkLongText || text.length <= MAX_TEXT_LENGTH) {
+      return this.startSession(
+        text,
+        options,
+        this.createHTMLContent(rendered, 0, text.length),
+      );
+    }
+
+    const parts = splitTextIntoChunks(text, MAX_TEXT_LENGTH).map(
+      (chunk): SequencePart => ({
+        speak: (partOptions) =>
+          this.startSession(
+            chunk.text,
+            partOptions,
+            this.createHTMLContent(
+              rendered,
+              chunk.offset,
+              chunk.offset + chunk.text.length,
+            ),
+          ),
+        mapBoundary: (boundary) => ({
+          ...boundary,
+          charIndex: boundary.charIndex + chunk.offset,
+        }),
+      }),
+    );
+
+    return this.speakSequence(
+      parts,
+      { ...options, chunkLongText: false },
+      "chunk",
+    );
+  }
+
+  /**
+   * Session content for part of the text extracted from HTML.
+   * Language runs only need separate voices when a `lang` attribute applies.
+   */
+  private createHTMLContent(
+    rendered: RenderedHTML,
+    start: number,
+    end: number,
+  ): SessionContent {
+    const segments = getHTMLSegments(rendered, start, end);
+    const textNodeMap = {
+      locate: (charIndex: number) =>
+        rendered.textNodes.locate(charIndex + start),
+    };
+    if (segments.some((segment) => segment.language !== undefined)) {
+      return { ssmlSegments: segments, textNodeMap };
+    }
+    return {
+      ssmlMarkup: segments.map((segment) => segment.markup).join(""),
+      textNodeMap,
+    };
+  }
+
+  /**
+   * Split plain text into language runs, each read with a voice for its
+   * language. Text transforms are applied per run, in the run's language.
+   */
+  private createAutoLanguageContent(
+    text: string,
+    options: SpeechOptions,
+  ): SessionContent {
+    const locale =
+      options.language ||
+      extractLanguageFromVoice(options.voice ?? DEFAULT_VOICE);
+    const runs = detectLanguageRuns(text, locale);
+    if (runs.length <= 1) {
+      return this.applyTextTransforms(text, options);
+    }
+
+    const defaultLanguage = locale.split("-")[0].toLowerCase();
+    const segments: LanguageSegment[] = [];
+    const parts: MappedTextPart[] = [];
+    let spokenText = "";
+    runs.forEach((run) => {
+      const runText = text.slice(run.start, run.end);
+      const isDefault = run.language === defaultLanguage;
+      const content = this.applyTextTransforms(
+        runText,
+        isDefault
+          ? options
+          : {
+              ...options,
+              language: DEFAULT_LANGUAGE_LOCALES[run.language] ?? run.language,
+            },
+      );
+
+      segments.push({
+        language: isDefault ? undefined : run.language,
+        markup: content.ssmlMarkup ?? escapeXML(runText),
+      });
+      parts.push({
+        outputStart: spokenText.length,
+        sourceStart: run.start,
+        map: content.boundaryMap,
+      });
+      spokenText += content.spokenText ?? runText;
+    });
+
+    if (spokenText === text) {
+      return { ssmlSegments: segments };
+    }
+    return {
+      ssmlSegments: segments,
+      spokenText,
+      boundaryMap: joinRangeMappers(parts),
+    };
+  }
+
+  /**
+   * Normalize plain text, then apply the per-call and configured lexicons.
+   * The lexicon sees normalized text because it emits SSML markup.
+   */
+  private applyTextTransforms(
+    text: string,
+    options: SpeechOptions,
+  ): SessionContent {
+    const normalization = options.normalize ?? this.config.normalize ?? false;
+    const lexicon = [
+      ...(options.lexicon ?? []),
+      ...(this.config.lexicon ?? []),
+    ];
+    if (!text || (normalization === false && lexicon.length === 0)) {
+      return {};
+    }
+
+    let normalized: MappedText | undefined;
+    if (normalization !== false) {
+      const settings = normalization === true ? {} : normalization;
+      const locale =
+        settings.locale ||
+        options.language ||
+        extractLanguageFromVoice(options.voice ?? DEFAULT_VOICE);
+      if (!hasBuiltInNormalization(locale)) {
+        console.warn(
+          `[Synthesizer] No built-in text normalization for locale "${locale}"`,
+        );
+      }
+      normalized = normalizeText(text, locale, settings.skip);
+    }
+
+    const lexicalized =
+      lexicon.length > 0
+        ? applyLexicon(normalized?.text ?? text, lexicon)
+        : undefined;
+    const result = (lexicalized ?? normalized)!;
+    return {
+      ssmlMarkup: result.markup,
+      spokenText: result.text,
+      boundaryMap: chainRangeMappers(normalized?.map, lexicalized?.map),
+    };
+  }
+
+  /**
+   * Speak a dialogue with one voice per line.
+   * Lines are sent as few SSML documents as SSML_VALIDATION allows; boundaries
+   * carry the index of their line and a charIndex relative to its text.
+   */
+  async speakDialogue(
+    lines: DialogueLine[],
+    options: DialogueOptions = {},
+  ): Promise<void> {
+    let batches: DialogueBatch[];
+    try {
+      batches = splitDialogueIntoBatches(lines, options);
+    } catch (error) {
+      const speechError: SpeechError = {
+        name: "SynthesisError",
+        code: "synthesis_error",
+        message:
+          error instanceof Error ? error.message : "Unknown synthesis error",
+      };
+      options.onError?.(speechError);
+      throw error;
+    }
+
+    const parts = batches.map((batch): SequencePart => {
+      // Lines are joined with newlines so word alignment never spans two lines
+      const lineOffsets: number[] = [];
+      let text = "";
+      batch.lines.forEach((line, index) => {
+        if (index > 0) {
+          text += "\n";
+        }
+        lineOffsets.push(text.length);
+        text += line.text;
+      });
+
+      return {
+        speak: (partOptions) =>
+          this.startSession(text, partOptions, { ssmlDocument: batch.ssml }),
+        mapBoundary: (boundary) => {
+          let line = lineOffsets.length - 1;
+          while (line > 0 && lineOffsets[line] > boundary.charIndex) {
+            line--;
+          }
+          return {
+            ...boundary,
+            charIndex: boundary.charIndex - lineOffsets[line],
+            segmentIndex: batch.startIndex + line,
+          };
+        },
+      };
+    });
+
+    return this.speakSequence(parts, options, "dialogue batch");
+  }
+
+  /**
+   * Create a synthesis session and start speaking it
+   */
+  private async startSession(
+    text: string,
+    options: SpeechOptions,
+    content: SessionContent,
+  ): Promise<void> {
     try {
       // Validate input
+      if (content.ssmlDocument !== undefined) {
+        this.validateRawSSML(content.ssmlDocument);
+      }
       if (!text || text.trim().length === 0) {
         throw new Error("Text cannot be empty");
       }
@@ -89,6 +594,7 @@ export class Synthesizer {
         text,
         options,
       );
+      Object.assign(session, content);
 
       // Store this authoritative session locally in the Synthesizer's session map
       // Note: this.sessions is a Map<string, SynthesisSession> in Synthesizer
@@ -124,6 +630,168 @@ export class Synthesizer {
     }
   }
 
+  /**
+   * Speak text longer than MAX_TEXT_LENGTH as a sequence of chunks, from
+   * `start` when it is synthesized again from a position.
+   * Boundaries are reported relative to the full text.
+   */
+  private async speakLongText(
+    text: string,
+    options: SpeechOptions,
+    start: { charIndex: number; wordIndex: number } = {
+      charIndex: 0,
+      wordIndex: 0,
+    },
+  ): Promise<void> {
+    const isPlainText = (options.inputType ?? "text") === "text";
+    const chunks = this.splitSpokenChunks(text.slice(start.charIndex), options);
+    const parts = chunks.map((chunk): SequencePart => {
+      const offset = start.charIndex + chunk.offset;
+      return {
+        speak: async (partOptions) => {
+          const input = this.createSessionInput(chunk.text, partOptions);
+          // Sessions of plain text map their boundaries to the full text
+          if (isPlainText) {
+            input.content.source = { text, charIndex: offset, wordIndex: 0 };
+          }
+          await this.startSession(input.text, partOptions, input.content);
+        },
+        mapBoundary: (boundary) =>
+          isPlainText
+            ? boundary
+            : { ...boundary, charIndex: boundary.charIndex + offset },
+      };
+    });
+
+    return this.speakSequence(
+      parts,
+      { ...options, chunkLongText: false },
+      "chunk",
+      isPlainText ? { text, wordIndex: start.wordIndex } : undefined,
+    );
+  }
+
+  /**
+   * Split text into chunks whose spoken text, after normalization and the
+   * lexicon, stays within MAX_TEXT_LENGTH. Chunks that grow past it are
+   * split again in proportion.
+   */
+  private splitSpokenChunks(
+    text: string,
+    options: SpeechOptions,
+    maxLength: number = MAX_TEXT_LENGTH,
+  ): TextChunk[] {
+    return splitTextIntoChunks(text, maxLength).flatMap((chunk) => {
+      const { content } = this.createSessionInput(chunk.text, options);
+      const spokenLength = content.spokenText?.length ?? chunk.text.length;
+      if (spokenLength <= MAX_TEXT_LENGTH) {
+        return [chunk];
+      }
+      const size = Math.floor(
+        (chunk.text.length * MAX_TEXT_LENGTH) / spokenLength,
+      );
+      const parts = size >= 1 ? splitTextIntoChunks(chunk.text, size) : [];
+      // A single word that cannot be split fails its length check later
+      if (parts.length <= 1) {
+        return [chunk];
+      }
+      return parts.flatMap((part) =>
+        this.splitSpokenChunks(part.text, options, size).map((piece) => ({
+          text: piece.text,
+          offset: chunk.offset + part.offset + piece.offset,
+        })),
+      );
+    });
+  }
+
+  /**
+   * Speak parts one after another as a single utterance: onStart fires for
+   * the first part, onDone after the last one, and stop() cancels the rest.
+   * `text` is the plain text of chunks, which text positions can move in.
+   */
+  private async speakSequence(
+    parts: SequencePart[],
+    options: SpeechOptions,
+    label: string,
+    text?: { text: string; wordIndex: number },
+  ): Promise<void> {
+    const run: SequenceRun = {
+      cancelled: false,
+      options,
+      firstWordIndex: text?.wordIndex ?? 0,
+      text: text?.text,
+    };
+    this.sequenceRun = run;
+    // Word indexes continue across parts
+    let wordCount = run.firstWordIndex;
+
+    const finishRun = () => {
+      if (this.sequenceRun === run) {
+        this.sequenceRun = null;
+      }
+    };
+
+    const speakPart = async (index: number): Promise<void> => {
+      if (run.cancelled) {
+        return;
+      }
+
+      const part = parts[index];
+      const isLast = index === parts.length - 1;
+      const firstWordIndex = wordCount;
+      run.firstWordIndex = firstWordIndex;
+      const partOptions: SpeechOptions = {
+        ...options,
+        onStart: index === 0 ? options.onStart : undefined,
+        onDone: () => {
+          if (run.cancelled) {
+            return;
+          }
+          if (isLast) {
+            finishRun();
+            options.onDone?.();
+            return;
+          }
+          speakPart(index + 1).catch((error) => {
+            finishRun();
+            console.error(
+              `[Synthesizer] Failed to speak ${label} ${index + 2}/${parts.length}:`,
+              error,
+            );
+          });
+        },
+        onBoundary: options.onBoundary
+          ? (boundary: WordBoundary) => {
+              const mapped = part.mapBoundary(boundary);
+              if (mapped.wordIndex !== undefined) {
+                mapped.wordIndex += firstWordIndex;
+                wordCount = Math.max(wordCount, mapped.wordIndex + 1);
+              }
+              options.onBoundary?.(mapped);
+            }
+          : undefined,
+        onSentenceBoundary: options.onSentenceBoundary
+          ? (boundary: SentenceBoundary) =>
+              options.onSentenceBoundary?.(part.mapBoundary(boundary))
+          : undefined,
+      };
+
+      await part.speak(partOptions);
+
+      // stop() may have been called while this part was being synthesized
+      if (run.cancelled && this.currentSession?.options === partOptions) {
+        await this.stop();
+      }
+    };
+
+    try {
+      await speakPart(0);
+    } catch (error) {
+      finishRun();
+      throw error;
+    }
+  }
+
   /**
    * Get available voices - expo-speech compatible
    */
@@ -154,6 +822,12 @@ export class Synthesizer {
    * Stop current speech synthesis and playback
    */
   async stop(): Promise<void> {
+    // Prevent the remaining chunks or dialogue batches from being spoken
+    if (this.sequenceRun) {
+      this.sequenceRun.cancelled = true;
+      this.sequenceRun = null;
+    }
+
     if (this.currentSession) {
       try {
         // Use ConnectionManager to properly coordinate session termination
@@ -260,6 +934,247 @@ export class Synthesizer {
     }
   }
 
+  /**
+   * Move playback of the current utterance to a position in its audio.
+   * Only playing or paused audio can be moved.
+   */
+  async seekTo(positionMs: number): Promise<void> {
+    const session = this.getPlaybackSession();
+    if (!session) {
+      console.log(
+        `[Synthesizer] Seek not available - session state is ${this.currentSession?.state ?? "none"}`,
+      );
+      return;
+    }
+    await this.connectionManager.seekSynthesis(session.id, positionMs);
+  }
+
+  /**
+   * Get the playback position of the current utterance in milliseconds,
+   * 0 when nothing is playing
+   */
+  async getPositionAsync(): Promise<number> {
+    const session = this.getPlaybackSession();
+    return session
+      ? this.connectionManager.getSynthesisPosition(session.id)
+      : 0;
+  }
+
+  /**
+   * Get the audio duration of the current utterance in milliseconds,
+   * 0 when nothing is playing
+   */
+  async getDurationAsync(): Promise<number> {
+    const session = this.getPlaybackSession();
+    return session
+      ? this.connectionManager.getSynthesisDuration(session.id)
+      : 0;
+  }
+
+  /**
+   * Move playback of the current utterance to the word at a position of its
+   * text, as reported by onBoundary. Plain text whose audio at that word has
+   * not arrived yet is synthesized again from there.
+   */
+  async seekToCharIndex(charIndex: number): Promise<void> {
+    const session = this.getNavigableSession();
+    if (!session) {
+      return;
+    }
+    const targets = this.getPlaybackTargets(session, "word");
+    const target =
+      targets.find((word) => word.end > charIndex) ??
+      targets[targets.length - 1];
+    if (target) {
+      await this.moveToTarget(session, target);
+    }
+  }
+
+  /**
+   * Move playback of the current utterance by whole words, backwards for a
+   * negative count, as seekToCharIndex()
+   */
+  async skipWords(count: number): Promise<void> {
+    await this.skipTargets("word", count);
+  }
+
+  /**
+   * Move playback of the current utterance by whole sentences, as
+   * seekToCharIndex(); 0 moves to the start of the current sentence
+   */
+  async skipSentences(count: number): Promise<void> {
+    await this.skipTargets("sentence", count);
+  }
+
+  /**
+   * Current session if its audio is playing or paused
+   */
+  private getPlaybackSession(): SynthesisSession | null {
+    const state = this.currentSession?.state;
+    return state === ApplicationState.Playing ||
+      state === ApplicationState.Paused
+      ? this.currentSession
+      : null;
+  }
+
+  /**
+   * Current session for moving playback by text position.
+   * Chunks of plain text refer to the full text; dialogue lines and chunks
+   * of Markdown or HTML have no single text to move in.
+   */
+  private getNavigableSession(): SynthesisSession | null {
+    const session = this.getPlaybackSession();
+    if (session && this.sequenceRun && this.sequenceRun.text === undefined) {
+      throw new Error(
+        "Text positions are not supported for dialogue or chunked Markdown or HTML",
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Words or sentences of the session's text in reading order, with the
+   * timings the service has reported so far. Plain text adds those it has
+   * not reported: before a position it was synthesized again from, and
+   * after the last one that arrived.
+   */
+  private getPlaybackTargets(
+    session: SynthesisSession,
+    type: "word" | "sentence",
+  ): PlaybackTarget[] {
+    const timed = this.mapTimedBoundaries(
+      session,
+      this.connectionManager.getSynthesisBoundaries(session.id),
+    )
+      .filter(
+        (item): item is TimedWordBoundary | TimedSentenceBoundary =>
+          item.type === type,
+      )
+      .map((item): PlaybackTarget => ({
+        start: item.boundary.charIndex,
+        end: item.boundary.charIndex + item.boundary.charLength,
+        timed: item,
+      }));
+
+    const { source } = session;
+    if (!source) {
+      return timed;
+    }
+    const ranges =
+      type === "word" ? findWords(source.text) : findSentences(source.text);
+    const reportedEnd = timed[timed.length - 1]?.end ?? source.charIndex;
+    return [
+      ...ranges.filter((range) => range.end <= source.charIndex),
+      ...timed,
+      ...ranges.filter((range) => range.start >= reportedEnd),
+    ];
+  }
+
+  /**
+   * Move playback from the current word or sentence by `count` of them
+   */
+  private async skipTargets(
+    type: "word" | "sentence",
+    count: number,
+  ): Promise<void> {
+    const session = this.getNavigableSession();
+    if (!session) {
+      return;
+    }
+    const targets = this.getPlaybackTargets(session, type);
+    const position = await this.connectionManager.getSynthesisPosition(
+      session.id,
+    );
+
+    // Before the first reported one, the first of the session is current
+    let current = Math.max(
+      targets.findIndex(
+        (target) => target.start >= (session.source?.charIndex ?? 0),
+      ),
+      0,
+    );
+    targets.forEach((target, index) => {
+      if (target.timed && target.timed.timing.offsetMs <= position) {
+        current = index;
+      }
+    });
+
+    const target =
+      targets[Math.min(Math.max(current + count, 0), targets.length - 1)];
+    if (target) {
+      await this.moveToTarget(session, target);
+    }
+  }
+
+  /**
+   * Seek to a word or sentence whose audio has arrived, otherwise
+   * synthesize the text again from it
+   */
+  private async moveToTarget(
+    session: SynthesisSession,
+    target: PlaybackTarget,
+  ): Promise<void> {
+    const durationMs = await this.connectionManager.getSynthesisDuration(
+      session.id,
+    );
+    if (target.timed && target.timed.timing.offsetMs < durationMs) {
+      await this.connectionManager.seekSynthesis(
+        session.id,
+        target.timed.timing.offsetMs,
+      );
+      return;
+    }
+    await this.resynthesizeFrom(session, target);
+  }
+
+  /**
+   * Stop the session and speak its text again from a word or sentence as
+   * the same utterance: onStart and onStopped are not called again and
+   * boundaries keep their positions in the whole text
+   */
+  private async resynthesizeFrom(
+    session: SynthesisSession,
+    target: PlaybackTarget,
+  ): Promise<void> {
+    const { source } = session;
+    if (!source) {
+      throw new Error(
+        "The audio at this position has not arrived yet; only plain text can be synthesized again from a position",
+      );
+    }
+
+    // Chunks count their words from the first word of the chunk
+    const run = this.sequenceRun;
+    const { timed } = target;
+    const wordIndex =
+      timed?.type === "word" && timed.boundary.wordIndex !== undefined
+        ? timed.boundary.wordIndex + (run?.firstWordIndex ?? 0)
+        : findWords(source.text.slice(0, target.start)).length;
+
+    this.replacedSession = session;
+    try {
+      await this.stop();
+    } finally {
+      this.replacedSession = null;
+    }
+
+    // Chunked text is chunked again from the position
+    if (run) {
+      await this.speakLongText(
+        source.text,
+        { ...run.options, onStart: undefined },
+        { charIndex: target.start, wordIndex },
+      );
+      return;
+    }
+
+    const text = source.text.slice(target.start);
+    const options: SpeechOptions = { ...session.options, onStart: undefined };
+    const { content } = this.createSessionInput(text, options);
+    content.source = { text: source.text, charIndex: target.start, wordIndex };
+    await this.startSession(text, options, content);
+  }
+
   /**
    * Create a new synthesis session using universal session ID format
    */
@@ -272,7 +1187,7 @@ export class Synthesizer {
 
     return {
       id: sessionId,
-      connectionId: "", // Will be set when establishing connection
+      connectionId: generateConnectionId(),
       text,
       options,
       state: ApplicationState.Idle,
@@ -288,20 +1203,7 @@ export class Synthesizer {
     try {
       this.currentSession = session;
 
-      // Resolve voice for synthesis
-      const voice = await this.resolveVoice(
-        session.options.voice, // User-requested voice identifier (optional)
-        session.options.language,
-      );
-
-      // Generate SSML at Synthesizer level per architecture.md
-      const ssml = generateSSML(session.text, {
-        voice: voice.identifier, // Resolved voice identifier
-        rate: session.options.rate,
-        pitch: session.options.pitch,
-        volume: session.options.volume,
-        language: session.options.language || voice.language,
-      });
+      const { ssml, options } = await this.createSynthesisRequest(session);
 
       // Update StateManager with the fact that synthesis has started
       await this.stateManager.updateSynthesisSession(session.id, {
@@ -313,14 +1215,7 @@ export class Synthesizer {
 
       // Use ConnectionManager to coordinate synthesis per architecture.md
       // ConnectionManager will handle NetworkService, StorageService, and AudioService coordination
-      const connectionOptions = {
-        voice: voice.identifier,
-        ...session.options,
-        clientSessionId: session.id,
-        connectionId: session.connectionId,
-      };
-
-      await this.connectionManager.startSynthesis(ssml, connectionOptions);
+      await this.connectionManager.startSynthesis(ssml, options);
 
       // The following lines were removed because they caused premature completion
       // notification. The onDone callback is now correctly handled by the
@@ -332,6 +1227,316 @@ export class Synthesizer {
     }
   }
 
+  /**
+   * Resolve the voice, generate the SSML document and build the connection
+   * options of a session
+   */
+  private async createSynthesisRequest(
+    session: SynthesisSession,
+  ): Promise<SynthesisRequest> {
+    let ssml: string;
+    let voiceIdentifier = session.options.voice;
+    if (session.ssmlDocument !== undefined) {
+      // Raw SSML declares its own voices and is sent as-is
+      ssml = session.ssmlDocument;
+    } else {
+      // Resolve voice for synthesis
+      const voice = await this.resolveVoice(
+        session.options.voice, // User-requested voice identifier (optional)
+        session.options.language,
+      );
+      voiceIdentifier = voice.identifier;
+
+      if (session.options.style || session.options.role) {
+        await this.warnUnsupportedSpeakingStyle(voice, session.options);
+      }
+
+      // Generate SSML at Synthesizer level per architecture.md
+      ssml = session.ssmlSegments
+        ? await this.generateMultilingualSSML(session, voice)
+        : this.generateSessionSSML(session, voice);
+    }
+
+    return {
+      ssml,
+      options: {
+        voice: voiceIdentifier,
+        ...session.options,
+        clientSessionId: session.id,
+        connectionId: session.connectionId,
+        boundaryText: session.spokenText ?? session.text,
+        bookmarks: session.bookmarks,
+        outputFormat: session.options.outputFormat ?? this.config.outputFormat,
+        onBoundary: this.createBoundaryHandler(
+          session,
+          session.options.onBoundary,
+        ),
+        onSentenceBoundary: this.createBoundaryHandler(
+          session,
+          session.options.onSentenceBoundary,
+        ),
+        // Synthesizing the text again from a position continues the utterance
+        onStopped: session.options.onStopped
+          ? () => {
+              if (this.replacedSession !== session) {
+                session.options.onStopped?.();
+              }
+            }
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * Report boundaries relative to the session's original text
+   */
+  private createBoundaryHandler<T extends WordBoundary>(
+    session: SynthesisSession,
+    onBoundary: ((boundary: T) => void) | undefined,
+  ): ((boundary: T) => void) | undefined {
+    if (
+      !onBoundary ||
+      (!session.boundaryMap &&
+        !session.textNodeMap &&
+        !session.source?.charIndex)
+    ) {
+      return onBoundary;
+    }
+    return (boundary: T) => onBoundary(this.mapBoundary(session, boundary));
+  }
+
+  /**
+   * Translate the word and sentence boundaries of a synthesis result to the
+   * session's original text
+   */
+  private mapTimedBoundaries(
+    session: SynthesisSession,
+    boundaries: TimedBoundary[],
+  ): TimedBoundary[] {
+    return boundaries.map((item) =>
+      item.type === "mark"
+        ? item
+        : ({
+            ...item,
+            boundary: this.mapBoundary(session, item.boundary),
+          } as TimedBoundary),
+    );
+  }
+
+  /**
+   * Translate a boundary of the spoken text to the session's original text
+   */
+  private mapBoundary<T extends WordBoundary>(
+    session: SynthesisSession,
+    boundary: T,
+  ): T {
+    const { boundaryMap, textNodeMap } = session;
+    const mapped: T = boundaryMap
+      ? {
+          ...boundary,
+          ...boundaryMap.mapRange(boundary.charIndex, boundary.charLength),
+        }
+      : { ...boundary };
+    const textNode = textNodeMap?.locate(boundary.charIndex);
+    if (textNode) {
+      mapped.textNode = textNode;
+    }
+    // Text synthesized again from a position starts part way into the source
+    if (session.source?.charIndex) {
+      mapped.charIndex += session.source.charIndex;
+      if (mapped.wordIndex !== undefined) {
+        mapped.wordIndex += session.source.wordIndex;
+      }
+    }
+    return mapped;
+  }
+
+  /**
+   * Generate the SSML document for a text or SSML builder session
+   */
+  private generateSessionSSML(
+    session: SynthesisSession,
+    voice: EdgeSpeechVoice,
+  ): string {
+    const ssmlOptions = this.getSSMLOptions(session, voice);
+
+    if (session.ssmlMarkup === undefined) {
+      return generateSSML(session.text, ssmlOptions);
+    }
+
+    // Builder markup is already escaped
+    this.validateMarkupTextLength(session);
+    return generateSSMLFromMarkup(session.ssmlMarkup, ssmlOptions);
+  }
+
+  /**
+   * Generate the SSML document for text with language runs (HTML `lang`
+   * attributes or autoLanguage).
+   * Runs switch voices until SSML_VALIDATION allows no more <voice>
+   * elements; later runs stay with the current voice.
+   */
+  private async generateMultilingualSSML(
+    session: SynthesisSession,
+    voice: EdgeSpeechVoice,
+  ): Promise<string> {
+    this.validateMarkupTextLength(session);
+
+    const runs = session.ssmlSegments ?? [];
+    const languages = [
+      ...new Set(runs.map((run) => run.language).filter(Boolean)),
+    ] as string[];
+    const voiceByLanguage = new Map(
+      await Promise.all(
+        languages.map(
+          async (language) =>
+            [
+              language,
+              await this.resolveLanguageVoice(language, voice),
+            ] as const,
+        ),
+      ),
+    );
+
+    const { MAX_VOICE_ELEMENTS } = SSML_VALIDATION.TEXT_LIMITS;
+    const segments: SSMLVoiceSegment[] = [];
+    runs.forEach((run) => {
+      const previous = segments[segments.length - 1];
+      let runVoice = run.language
+        ? voiceByLanguage.get(run.language)!
+        : voice.identifier;
+      if (
+        previous &&
+        previous.voice !== runVoice &&
+        segments.length >= MAX_VOICE_ELEMENTS
+      ) {
+        console.warn(
+          `[Synthesizer] More than ${MAX_VOICE_ELEMENTS} voice changes, reading "${run.language ?? "default"}" text with ${previous.voice}`,
+        );
+        runVoice = previous.voice;
+      }
+
+      if (previous && previous.voice === runVoice) {
+        previous.markup += run.markup;
+      } else {
+        segments.push({ voice: runVoice, markup: run.markup });
+      }
+    });
+
+    return generateMultiVoiceSSML(
+      segments,
+      this.getSSMLOptions(session, voice),
+    );
+  }
+
+  /**
+   * Voice for a language run: the session voice if it speaks the language,
+   * otherwise the first voice for its locale (DEFAULT_LANGUAGE_LOCALES for a
+   * bare language code such as "fr"), or for any locale of the language
+   */
+  private async resolveLanguageVoice(
+    language: string,
+    voice: EdgeSpeechVoice,
+  ): Promise<string> {
+    const matches = (locale: string) =>
+      language.includes("-")
+        ? locale.toLowerCase() === language.toLowerCase()
+        : locale.split("-")[0].toLowerCase() === language;
+    if (matches(voice.language)) {
+      return voice.identifier;
+    }
+
+    try {
+      const locale = language.includes("-")
+        ? language
+        : DEFAULT_LANGUAGE_LOCALES[language];
+      const localeVoices = locale
+        ? await this.voiceService.getVoicesByLanguage(locale)
+        : [];
+      const match =
+        localeVoices[0] ??
+        (await this.voiceService.getAvailableVoices()).find((candidate) =>
+          matches(candidate.language),
+        );
+      if (match) {
+        return match.identifier;
+      }
+    } catch (error) {
+      console.warn("[Synthesizer] Failed to load voices:", error);
+    }
+
+    console.warn(
+      `[Synthesizer] No voice found for language "${language}", reading it with ${voice.identifier}`,
+    );
+    return voice.identifier;
+  }
+
+  /**
+   * Prosody, style and language for SSML generation with a resolved voice
+   */
+  private getSSMLOptions(
+    session: SynthesisSession,
+    voice: EdgeSpeechVoice,
+  ): SpeechOptions {
+    return {
+      voice: voice.identifier, // Resolved voice identifier
+      rate: session.options.rate,
+      pitch: session.options.pitch,
+      volume: session.options.volume,
+      language: session.options.language || voice.language,
+      style: session.options.style,
+      styleDegree: session.options.styleDegree,
+      role: session.options.role,
+    };
+  }
+
+  /**
+   * Markup bypasses generateSSML(), which checks the text length itself.
+   * Normalized text is checked as it is spoken, which can be longer than
+   * the caller's text.
+   */
+  private validateMarkupTextLength(session: SynthesisSession): void {
+    const text = session.spokenText ?? session.text;
+    if (text.length > MAX_TEXT_LENGTH) {
+      throw new Error(
+        `Text length (${text.length}) exceeds maximum of ${MAX_TEXT_LENGTH} characters.`,
+      );
+    }
+  }
+
+  /**
+   * Warn when the voice lists its styles or roles and the requested one is
+   * not among them.
+   * The service ignores unsupported values, so synthesis still proceeds.
+   */
+  private async warnUnsupportedSpeakingStyle(
+    voice: EdgeSpeechVoice,
+    options: SpeechOptions,
+  ): Promise<void> {
+    const { warnings } = await this.voiceService.validateSpeakingStyle(
+      voice.identifier,
+      { style: options.style, role: options.role },
+    );
+    warnings.forEach((warning) => console.warn(`[Synthesizer] ${warning}`));
+  }
+
+  /**
+   * Validate a user-supplied SSML document before it is sent as-is
+   */
+  private validateRawSSML(ssml: string): void {
+    const validation = validateSSML(ssml);
+    if (validation.isValid) {
+      return;
+    }
+
+    const errors = (validation.issues ?? [])
+      .filter((issue) => issue.severity === "error")
+      .map(
+        (issue) =>
+          `${issue.message} (line ${issue.line}, column ${issue.column})`,
+      );
+    throw new Error(`Invalid SSML: ${errors.join("; ")}`);
+  }
+
   /**
    * Resolve voice for synthesis
    */
@@ -372,29 +1577,6 @@ export class Synthesizer {
     }
   }
 
-  /**
-   * Process boundary events from synthesis
-   */
-  private processBoundaryEvents(
-    session: SynthesisSession,
-    boundaryData: WordBoundary[],
-  ): void {
-    if (!session.options.onBoundary) {
-      return;
-    }
-
-    // Process boundary data and schedule callbacks with proper timing
-    boundaryData.forEach((boundary) => {
-      // The boundary data is already in the correct WordBoundary format
-      // Schedule boundary callback - using charIndex as a rough timing estimate (in ms)
-      const timing = boundary.charIndex * 100; // @FIXME: Adjust timing calculation as needed
-
-      setTimeout(() => {
-        session.options.onBoundary?.(boundary);
-      }, timing);
-    });
-  }
-
   /**
    * Handle session completion
    */
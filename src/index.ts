@@ -8,11 +8,20 @@
 export {
   configure,
   speak,
+  speakDialogue,
+  synthesizeAsync,
+  synthesizeToFileAsync,
   getAvailableVoicesAsync,
   stop,
   pause,
   resume,
   isSpeakingAsync,
+  seekTo,
+  seekToCharIndex,
+  skipWords,
+  skipSentences,
+  getPositionAsync,
+  getDurationAsync,
   cleanup,
   maxSpeechInputLength,
   default as Speech,
@@ -20,9 +29,33 @@ export {
 
 export type {
   SpeechOptions,
+  SynthesizeOptions,
+  SynthesizeToFileOptions,
+  SynthesisResult,
+  SynthesisFileResult,
+  SpeechInputType,
+  AudioOutputFormat,
+  SpeechRole,
+  DialogueLine,
+  DialogueOptions,
+  LexiconEntry,
+  LexiconEntryBase,
+  NormalizationOptions,
+  BuiltInNormalizerName,
+  TextNormalizer,
   EdgeSpeechVoice,
   SpeechError,
   WordBoundary,
+  SentenceBoundary,
+  BoundaryType,
+  SpeechMark,
+  SpeechProgress,
+  TextNodePosition,
+  TimedBoundary,
+  TimedWordBoundary,
+  TimedSentenceBoundary,
+  TimedMark,
+  WordBoundaryTiming,
   SpeechEventCallback,
   SpeechAPIConfig,
   SpeechAudioConfig,
@@ -32,14 +65,46 @@ export type {
   SpeechConnectionConfig,
   CircuitBreakerConfig,
   PlatformAudioConfig,
+  SSMLBreakOptions,
+  SSMLBreakStrength,
+  SSMLEmphasisLevel,
+  SSMLSayAsInterpretation,
+  SSMLSayAsOptions,
 } from "./types";
 
+export { SynthesisCancelled } from "./types";
+
+export { ssml, SSMLBuilder } from "./utils/ssmlBuilder";
+export { extractTextFromSSML, validateSSML } from "./utils/ssmlUtils";
+export type {
+  SSMLValidationResult,
+  SSMLValidationIssue,
+} from "./utils/ssmlUtils";
+export {
+  normalizeText,
+  registerNormalizer,
+  unregisterNormalizer,
+} from "./utils/textNormalization";
+export { renderMarkdown } from "./utils/markdown";
+export { extractTextFromHTML } from "./utils/html";
+export { detectLanguageRuns } from "./utils/languageDetection";
+export { createSubtitles, createSubtitleCues } from "./utils/subtitles";
+export { concatenateMP3, getAudioInfo } from "./utils/audioUtils";
+export type { AudioInfo, MP3ConcatOptions } from "./utils/audioUtils";
+export type {
+  SubtitleFormat,
+  SubtitleOptions,
+  SubtitleCue,
+  SubtitleWord,
+} from "./utils/subtitles";
+
 export { AudioPlaybackState, UserActionState } from "./services/audioService";
 
 export {
   PARAMETER_RANGES,
   DEFAULT_TIMEOUT,
   MAX_TEXT_LENGTH,
+  AUDIO_FORMATS,
 } from "./constants";
 
 export { default } from "./Speech";
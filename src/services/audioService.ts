@@ -12,10 +12,27 @@ import type {
   SpeechEventCallback,
   SpeechError,
   SpeechAudioConfig,
+  TimedBoundary,
 } from "../types";
-import { EDGE_TTS_CONFIG } from "../constants";
+import {
+  AUDIO_STREAMING,
+  BOUNDARY_PLAYBACK,
+  DEFAULT_AUDIO_FORMAT,
+  EDGE_TTS_CONFIG,
+} from "../constants";
 import { StorageService } from "./storageService";
-import { validateEdgeTTSMP3 } from "../utils/audioUtils";
+import {
+  addAudioChunk,
+  AudioStreamBuffer,
+  combineAudioChunks,
+  createAudioStreamBuffer,
+  createMP3Segment,
+  findMP3FrameAt,
+  getAudioFormatInfo,
+  getAudioInfo,
+  getCompleteMP3Length,
+  validateAudioFormat,
+} from "../utils/audioUtils";
 
 // =============================================================================
 // Audio Service Configuration and Types
@@ -44,6 +61,27 @@ export enum UserActionState {
   StopRequested = "stop-requested",
 }
 
+/**
+ * Part of streamed audio loaded from its own file
+ */
+interface AudioSegment {
+  sound: Audio.Sound;
+  uri: string;
+  /** Duration of its frames in milliseconds */
+  durationMs: number;
+  /** Muted frames in front of its audio, in milliseconds */
+  leadMs: number;
+}
+
+/**
+ * Order boundaries by offset, sentences and bookmarks before a word at the
+ * same offset
+ */
+function compareBoundaries(a: TimedBoundary, b: TimedBoundary): number {
+  const rank = (item: TimedBoundary) => (item.type === "word" ? 1 : 0);
+  return a.timing.offsetMs - b.timing.offsetMs || rank(a) - rank(b);
+}
+
 // =============================================================================
 // Audio Service Implementation
 // =============================================================================
@@ -78,6 +116,66 @@ export class AudioService {
   /** Current temporary audio file path */
   private tempAudioFilePath: string | null = null;
 
+  /** Boundaries and bookmarks of the current audio, ordered by offset */
+  private boundaries: TimedBoundary[] = [];
+
+  /** Index of the next boundary to fire */
+  private nextBoundaryIndex = 0;
+
+  /** Output format of the current audio */
+  private outputFormat: string = DEFAULT_AUDIO_FORMAT;
+
+  /** Playback position of the last boundary dispatch */
+  private boundaryPosition = 0;
+
+  /** Whether the current audio is played in segments while it arrives */
+  private streaming = false;
+
+  /**
+   * Incremented when a stream ends or restarts after a seek, so late segment
+   * loads are discarded
+   */
+  private streamId = 0;
+
+  /** Streamed audio not yet written to a segment */
+  private pendingAudio = new Uint8Array(0);
+
+  /** Whether all audio of the stream has arrived */
+  private streamCompleted = false;
+
+  /** Segment loaded to play when the current one finishes */
+  private nextSegment: AudioSegment | null = null;
+
+  /** Whether a segment is being written and loaded */
+  private segmentLoading = false;
+
+  /** Start of the current segment in the whole audio, in milliseconds */
+  private segmentOffset = 0;
+
+  /**
+   * Duration of the current segment from its frames, in milliseconds, on
+   * the same clock as the boundary offsets
+   */
+  private segmentDuration = 0;
+
+  /** Muted frames in front of the current segment's audio, in milliseconds */
+  private segmentLead = 0;
+
+  /** Timer starting the next segment before the current one ends */
+  private handoffTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Previous segment playing its last frames under the current one's lead */
+  private endingSegment: AudioSegment | null = null;
+
+  /** Audio of the last segment cut, whose frames the next one may need */
+  private cutAudio = new Uint8Array(0);
+
+  /** Start of the pending audio in the whole audio, in milliseconds */
+  private pendingOffset = 0;
+
+  /** All audio of the stream received so far, kept for seeking */
+  private streamedAudio: AudioStreamBuffer = createAudioStreamBuffer();
+
   // Callback handlers matching expo-speech API
   private onStartCallback: SpeechEventCallback | null = null;
   private onDoneCallback: SpeechEventCallback | null = null;
@@ -85,6 +183,11 @@ export class AudioService {
   private onPauseCallback: SpeechEventCallback | null = null;
   private onResumeCallback: SpeechEventCallback | null = null;
   private onErrorCallback: ((error: SpeechError) => void) | null = null;
+  private onBoundaryCallback: SpeechOptions["onBoundary"] | null = null;
+  private onSentenceBoundaryCallback:
+    SpeechOptions["onSentenceBoundary"] | null = null;
+  private onMarkCallback: SpeechOptions["onMark"] = null;
+  private onProgressCallback: SpeechOptions["onProgress"] | null = null;
 
   // State change callback for StateManager integration
   private onPlaybackStateChangeCallback:
@@ -139,7 +242,11 @@ export class AudioService {
       this.onPauseCallback = null;
       this.onResumeCallback = null;
       this.onErrorCallback = null;
+      this.onBoundaryCallback = null;
+      this.onSentenceBoundaryCallback = null;
+      this.onMarkCallback = null;
       this.onPlaybackStateChangeCallback = null;
+      this.setBoundaries([]);
 
       this.connectionId = null;
       this.audioSessionInitialized = false;
@@ -163,12 +270,20 @@ export class AudioService {
   // =============================================================================
 
   /**
-   * Play audio from Storage Service buffer using connection ID
+   * Play audio from Storage Service buffer using connection ID.
+   * Boundaries fire onBoundary, onSentenceBoundary and onMark as the
+   * playback position reaches them.
    */
-  async speak(options: SpeechOptions, connectionId: string): Promise<void> {
+  async speak(
+    options: SpeechOptions,
+    connectionId: string,
+    boundaries: TimedBoundary[] = [],
+  ): Promise<void> {
     try {
       this.connectionId = connectionId;
+      this.outputFormat = options.outputFormat ?? DEFAULT_AUDIO_FORMAT;
       this.setCallbacks(options);
+      this.setBoundaries(boundaries);
 
       // Ensure audio session is configured for the platform
       await this.initializeAudioSession();
@@ -184,10 +299,7 @@ export class AudioService {
         throw new Error("No audio data available for playback");
       }
 
-      // Validate MP3 format using Audio Utilities
-      if (!validateEdgeTTSMP3(audioBuffer.buffer as ArrayBuffer)) {
-        throw new Error("Invalid MP3 audio format");
-      }
+      this.validateAudioBuffer(audioBuffer);
 
       // Create temporary audio file and write buffer
       const tempFileUri = await this.createTempAudioFile(audioBuffer);
@@ -263,9 +375,15 @@ export class AudioService {
     this.userActionState = UserActionState.PauseRequested;
 
     try {
-      if (this.sound && this.state === AudioPlaybackState.Playing) {
+      // A stream waiting for its next segment has no sound to pause
+      if (
+        (this.sound || this.streaming) &&
+        this.state === AudioPlaybackState.Playing
+      ) {
         console.log(`[${timestamp}] [AudioService] Pausing audio playback`);
-        await this.sound.pauseAsync();
+        await this.sound?.pauseAsync();
+        this.cancelSegmentHandoff();
+        await this.endingSegment?.sound.pauseAsync();
         this.setState(AudioPlaybackState.Paused);
         console.log(
           `[${timestamp}] [AudioService] Audio paused successfully, state set to Paused`,
@@ -316,9 +434,13 @@ export class AudioService {
     this.userActionState = UserActionState.ResumeRequested;
 
     try {
-      if (this.sound && this.state === AudioPlaybackState.Paused) {
+      if (
+        (this.sound || this.streaming) &&
+        this.state === AudioPlaybackState.Paused
+      ) {
         console.log(`[${timestamp}] [AudioService] Resuming audio playback`);
-        await this.sound.playAsync();
+        await this.endingSegment?.sound.playAsync();
+        await this.sound?.playAsync();
         this.setState(AudioPlaybackState.Playing);
         console.log(
           `[${timestamp}] [AudioService] Audio resumed successfully, state set to Playing`,
@@ -358,8 +480,14 @@ export class AudioService {
 
   /**
    * Stop audio playback and cleanup
+   *
+   * @param reportStopped - Call onStopped; false when playback is torn down
+   * after an error that onError has already reported
    */
-  async stop(): Promise<void> {
+  async stop(reportStopped: boolean = true): Promise<void> {
+    // Playback that already finished is cleaned up without reporting a stop
+    const wasCompleted = this.state === AudioPlaybackState.Completed;
+
     try {
       if (this.sound) {
         await this.sound.stopAsync();
@@ -371,7 +499,7 @@ export class AudioService {
       // Set final state after cleanup
       this.setState(AudioPlaybackState.Stopped);
 
-      if (this.onStoppedCallback) {
+      if (this.onStoppedCallback && reportStopped && !wasCompleted) {
         this.onStoppedCallback();
       }
 
@@ -388,87 +516,165 @@ export class AudioService {
   }
 
   /**
-   * Start progressive audio playback as chunks arrive (for streaming)
+   * Move playback to a position in the current audio.
+   * Streamed audio outside the playing segment is cut again from the frame
+   * at the position; a position past the audio received so far plays once
+   * that audio arrives.
+   *
+   * @param positionMs - Position in milliseconds, clamped to the audio
    */
-  async startProgressivePlayback(connectionId: string): Promise<void> {
-    try {
+  async seekTo(positionMs: number): Promise<void> {
+    if (
+      this.state !== AudioPlaybackState.Playing &&
+      this.state !== AudioPlaybackState.Paused
+    ) {
       console.log(
-        `[AudioService] Starting progressive playback for connectionId: ${connectionId}`,
+        `[AudioService] Seek not available - current state is ${this.state}`,
       );
-      this.connectionId = connectionId;
-
-      // Ensure audio session is configured for the platform
-      await this.initializeAudioSession();
-
-      // Get current available audio data from Storage Service
-      const audioBuffer = this.storageService.getMergedAudioData(connectionId);
+      return;
+    }
 
-      if (!audioBuffer || audioBuffer.length === 0) {
-        console.log(
-          `[AudioService] No audio data yet for progressive playback, waiting...`,
+    try {
+      const target = Math.max(
+        0,
+        Math.min(positionMs, await this.getDurationAsync()),
+      );
+      const segmentEnd = this.segmentOffset + this.segmentDuration;
+
+      if (
+        this.sound &&
+        (!this.streaming ||
+          (target >= this.segmentOffset && target < segmentEnd))
+      ) {
+        this.cancelSegmentHandoff();
+        await this.releaseEndingSegment();
+        await this.sound.setPositionAsync(
+          target - this.segmentOffset + this.segmentLead,
         );
-        return; // This is normal for progressive loading - data will come later
+      } else if (this.streaming) {
+        await this.restartStream(target);
       }
+    } catch (error) {
+      this.handleError({
+        name: "AudioSeekError",
+        message: `Failed to seek audio: ${error}`,
+        code: "AUDIO_SEEK_FAILED",
+      });
+    }
+  }
 
-      // Create temporary audio file and write current buffer
-      const tempFileUri = await this.createTempAudioFile(audioBuffer);
-      this.tempAudioFilePath = tempFileUri;
-      this.audioURI = tempFileUri;
+  /**
+   * Get the playback position in the current audio
+   *
+   * @returns Position in milliseconds, 0 when no audio is loaded
+   */
+  async getPositionAsync(): Promise<number> {
+    // A stream waiting for its next segment is at the start of it
+    if (!this.sound) {
+      return this.segmentOffset;
+    }
+    const status = await this.sound.getStatusAsync();
+    return status.isLoaded
+      ? this.toAudioPosition(status.positionMillis)
+      : this.segmentOffset;
+  }
 
-      // Load and start playing the partial audio
-      await this.loadAudio(this.audioURI);
-      await this.playAudio();
+  /**
+   * Get the duration of the current audio. While audio is streaming this is
+   * the duration received so far.
+   *
+   * @returns Duration in milliseconds, 0 when no audio is loaded
+   */
+  async getDurationAsync(): Promise<number> {
+    if (this.streaming) {
+      return this.getStreamDuration();
+    }
+    if (!this.sound) {
+      return 0;
+    }
+    const status = await this.sound.getStatusAsync();
+    return status.isLoaded ? (status.durationMillis ?? 0) : 0;
+  }
 
-      console.log(
-        `[AudioService] Progressive playback started for connectionId: ${connectionId}`,
-      );
-    } catch (error) {
-      console.error(
-        `[AudioService] Failed to start progressive playback for connectionId: ${connectionId}`,
-        error,
-      );
-      const audioError: SpeechError = {
-        name: "ProgressivePlaybackError",
-        message: `Progressive playback failed: ${error}`,
-        code: "PROGRESSIVE_PLAYBACK_FAILED",
-      };
-      this.handleError(audioError);
+  /**
+   * Start playing MP3 audio while it is still arriving.
+   * Playback begins once AUDIO_STREAMING.CHUNK_PROCESSING.BUFFER_THRESHOLD
+   * bytes have arrived. Later audio is cut at frame boundaries into segment
+   * files, each loaded while the one before plays. A segment starts with
+   * the frames its bit reservoir needs, muted, and is started that long
+   * before the one before ends, so no audio is skipped, repeated or split
+   * by a gap.
+   */
+  async startProgressivePlayback(
+    options: SpeechOptions,
+    connectionId: string,
+  ): Promise<void> {
+    console.log(
+      `[AudioService] Starting progressive playback for connectionId: ${connectionId}`,
+    );
+    await this.unloadAudio();
+
+    this.connectionId = connectionId;
+    this.outputFormat = options.outputFormat ?? DEFAULT_AUDIO_FORMAT;
+    this.setCallbacks(options);
+    this.setBoundaries([]);
+    this.streaming = true;
+
+    // Ensure audio session is configured for the platform
+    await this.initializeAudioSession();
+  }
+
+  /**
+   * Add audio that arrived for progressive playback
+   */
+  appendProgressiveAudio(connectionId: string, chunk: Uint8Array): void {
+    if (!this.streaming || connectionId !== this.connectionId) {
+      return;
     }
+
+    const pending = new Uint8Array(this.pendingAudio.length + chunk.length);
+    pending.set(this.pendingAudio);
+    pending.set(chunk, this.pendingAudio.length);
+    this.pendingAudio = pending;
+    addAudioChunk(this.streamedAudio, chunk.slice().buffer);
+
+    void this.loadNextSegment().catch((error) => this.reportStreamError(error));
   }
 
   /**
-   * Finalize progressive playback after all chunks have been received
+   * Add a boundary that arrived for progressive playback
    */
-  async finalizeProgressivePlayback(connectionId: string): Promise<void> {
-    try {
-      console.log(
-        `[AudioService] Finalizing progressive playback for connectionId: ${connectionId}`,
-      );
+  addProgressiveBoundary(connectionId: string, item: TimedBoundary): void {
+    if (!this.streaming || connectionId !== this.connectionId) {
+      return;
+    }
 
-      // If audio is currently playing, we need to handle the transition smoothly
-      if (this.sound && this.state === AudioPlaybackState.Playing) {
-        // Get the final complete audio data
-        const finalAudioBuffer =
-          this.storageService.getMergedAudioData(connectionId);
-
-        if (finalAudioBuffer && finalAudioBuffer.length > 0) {
-          // For now, we'll let the current playback continue
-          // In a more sophisticated implementation, we might:
-          // 1. Check current playback position
-          // 2. Create a new file with complete data
-          // 3. Seamlessly transition to the complete file
-          console.log(
-            `[AudioService] Progressive playback finalized with ${finalAudioBuffer.length} total bytes`,
-          );
-        }
-      }
-    } catch (error) {
-      console.error(
-        `[AudioService] Failed to finalize progressive playback for connectionId: ${connectionId}`,
-        error,
-      );
-      // Don't throw here - the main playback should continue even if finalization fails
+    // Events arrive in order, ahead of the audio they describe
+    let index = this.boundaries.length;
+    while (
+      index > this.nextBoundaryIndex &&
+      compareBoundaries(this.boundaries[index - 1], item) > 0
+    ) {
+      index--;
+    }
+    this.boundaries.splice(index, 0, item);
+  }
+
+  /**
+   * Finalize progressive playback after all chunks have been received.
+   * The remaining audio becomes the last segment; onDone is called once it
+   * has played.
+   */
+  async finalizeProgressivePlayback(connectionId: string): Promise<void> {
+    if (!this.streaming || connectionId !== this.connectionId) {
+      return;
     }
+
+    console.log(
+      `[AudioService] Finalizing progressive playback for connectionId: ${connectionId}`,
+    );
+    this.streamCompleted = true;
+    await this.loadNextSegment();
   }
 
   // =============================================================================
@@ -481,10 +687,7 @@ export class AudioService {
   private async processAudioBuffer(
     audioBuffer: Uint8Array,
   ): Promise<Uint8Array> {
-    // Validate MP3 format using Audio Utilities
-    if (!validateEdgeTTSMP3(audioBuffer.buffer as ArrayBuffer)) {
-      throw new Error("Invalid MP3 audio format");
-    }
+    this.validateAudioBuffer(audioBuffer);
 
     // Return validated buffer
     return audioBuffer;
@@ -532,10 +735,7 @@ export class AudioService {
    * Play audio from buffer data
    */
   private async playAudioFromBuffer(buffer: Uint8Array): Promise<void> {
-    // Validate MP3 format using Audio Utilities
-    if (!validateEdgeTTSMP3(buffer.buffer as ArrayBuffer)) {
-      throw new Error("Invalid MP3 audio format");
-    }
+    this.validateAudioBuffer(buffer);
 
     // Create temporary audio file and write buffer
     const tempFileUri = await this.createTempAudioFile(buffer);
@@ -545,6 +745,20 @@ export class AudioService {
     await this.playAudio();
   }
 
+  /**
+   * Validate audio data against the current output format
+   */
+  private validateAudioBuffer(audioBuffer: Uint8Array): void {
+    if (
+      !validateAudioFormat(audioBuffer.buffer as ArrayBuffer, this.outputFormat)
+    ) {
+      const container = getAudioFormatInfo(this.outputFormat)?.container;
+      throw new Error(
+        `Invalid ${container?.toUpperCase() ?? this.outputFormat} audio format`,
+      );
+    }
+  }
+
   /**
    * Create temporary audio file from buffer
    */
@@ -553,7 +767,9 @@ export class AudioService {
       // Generate a unique filename for the temporary audio file
       const timestamp = Date.now();
       const randomId = Math.random().toString(36).substring(2, 8);
-      const filename = `audio_${timestamp}_${randomId}.mp3`;
+      const extension =
+        getAudioFormatInfo(this.outputFormat)?.extension ?? "mp3";
+      const filename = `audio_${timestamp}_${randomId}.${extension}`;
 
       // Use cache directory for temporary files (auto-managed by system)
       const tempFileUri = `${FileSystem.cacheDirectory}${filename}`;
@@ -588,6 +804,8 @@ export class AudioService {
    * Unload current audio and free resources
    */
   private async unloadAudio(): Promise<void> {
+    await this.resetStream();
+
     if (this.sound) {
       await this.sound.unloadAsync();
       this.sound = null;
@@ -671,6 +889,8 @@ export class AudioService {
       volume: 1.0,
       isLooping: false,
       isMuted: false,
+      // Frequent updates keep onBoundary close to the spoken word
+      progressUpdateIntervalMillis: BOUNDARY_PLAYBACK.PROGRESS_UPDATE_INTERVAL,
     };
   }
 
@@ -679,16 +899,27 @@ export class AudioService {
    */
   private handlePlaybackStatusUpdate(status: any): void {
     if (status.isLoaded) {
-      if (status.didJustFinish) {
-        this.setState(AudioPlaybackState.Completed);
+      const position = this.toAudioPosition(status.positionMillis || 0);
+      this.dispatchBoundaries(position);
+      this.onProgressCallback?.({
+        positionMs: position,
+        durationMs: this.streaming
+          ? this.getStreamDuration()
+          : (status.durationMillis ?? 0),
+      });
 
-        if (this.onDoneCallback) {
-          this.onDoneCallback();
-        }
+      if (this.streaming && this.state === AudioPlaybackState.Playing) {
+        this.scheduleSegmentHandoff(status.positionMillis || 0);
+      }
 
-        this.unloadAudio().then(() => {
-          this.setState(AudioPlaybackState.Idle);
-        });
+      if (status.didJustFinish) {
+        if (this.streaming && !this.isStreamFinished()) {
+          void this.finishSegment().catch((error) =>
+            this.reportStreamError(error),
+          );
+        } else {
+          this.completePlayback();
+        }
       }
 
       // Enhanced interruption detection without timeouts
@@ -708,6 +939,398 @@ export class AudioService {
     }
   }
 
+  /**
+   * Report the end of playback and release the audio
+   */
+  private completePlayback(): void {
+    // Words past the last reported position still belong to this audio
+    this.flushBoundaries();
+    this.setState(AudioPlaybackState.Completed);
+
+    if (this.onDoneCallback) {
+      this.onDoneCallback();
+    }
+
+    this.unloadAudio().then(() => {
+      this.setState(AudioPlaybackState.Idle);
+    });
+  }
+
+  /**
+   * Whether every segment of the stream has been played or started
+   */
+  private isStreamFinished(): boolean {
+    return (
+      this.streamCompleted &&
+      !this.segmentLoading &&
+      !this.nextSegment &&
+      this.pendingAudio.length === 0
+    );
+  }
+
+  /**
+   * Write the next segment of the stream to a file and load it.
+   * A segment is cut once BUFFER_THRESHOLD bytes are pending, or from the
+   * rest of the audio once the stream has completed. It plays at once when
+   * no segment is playing, otherwise when the current one finishes.
+   */
+  private async loadNextSegment(): Promise<void> {
+    if (!this.streaming || this.segmentLoading || this.nextSegment) {
+      return;
+    }
+
+    let length = 0;
+    if (this.streamCompleted) {
+      length = this.pendingAudio.length;
+    } else if (
+      this.pendingAudio.length >=
+      AUDIO_STREAMING.CHUNK_PROCESSING.BUFFER_THRESHOLD
+    ) {
+      length = getCompleteMP3Length(this.pendingAudio);
+    }
+    if (length === 0) {
+      // The stream ended while waiting for more audio
+      if (this.isStreamFinished() && !this.sound) {
+        this.completePlayback();
+      }
+      return;
+    }
+
+    const streamId = this.streamId;
+    const audio = this.pendingAudio.subarray(0, length);
+    const durationMs = getAudioInfo(audio)?.durationMs ?? 0;
+    const { data, leadMs } = createMP3Segment(this.cutAudio, audio);
+    this.cutAudio = audio;
+    this.pendingAudio = this.pendingAudio.slice(length);
+    this.pendingOffset += durationMs;
+    this.segmentLoading = true;
+
+    let segment: AudioSegment;
+    try {
+      const isFirst =
+        this.state !== AudioPlaybackState.Playing &&
+        this.state !== AudioPlaybackState.Paused;
+      if (isFirst) {
+        this.validateAudioBuffer(audio);
+        this.setState(AudioPlaybackState.Loading);
+      }
+      const uri = await this.createTempAudioFile(data);
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        this.createLoadingOptions(),
+      );
+      segment = { sound, uri, durationMs, leadMs };
+    } catch (error) {
+      if (streamId === this.streamId) {
+        this.segmentLoading = false;
+        this.reportStreamError(error);
+      }
+      return;
+    }
+
+    // Stopped while the segment was loading
+    if (streamId !== this.streamId) {
+      await this.releaseSegment(segment);
+      return;
+    }
+    this.segmentLoading = false;
+
+    // Only the playing segment reports its status
+    segment.sound.setOnPlaybackStatusUpdate((status) => {
+      if (this.sound === segment.sound) {
+        this.handlePlaybackStatusUpdate(status);
+      } else if (
+        this.endingSegment?.sound === segment.sound &&
+        status.isLoaded &&
+        status.didJustFinish
+      ) {
+        void this.releaseEndingSegment();
+      }
+    });
+    this.nextSegment = segment;
+
+    if (!this.sound) {
+      await this.playNextSegment();
+    }
+    await this.loadNextSegment();
+  }
+
+  /**
+   * Play the loaded segment in place of the current one. At a handoff the
+   * current one is still playing its last frames under the muted lead of
+   * the next, and is released once it finishes.
+   */
+  private async playNextSegment(handoff: boolean = false): Promise<void> {
+    const segment = this.nextSegment;
+    if (!segment) {
+      return;
+    }
+    this.nextSegment = null;
+    this.cancelSegmentHandoff();
+
+    const previous = this.takeCurrentSegment();
+    if (previous) {
+      this.segmentOffset += previous.durationMs;
+    }
+    this.sound = segment.sound;
+    this.tempAudioFilePath = segment.uri;
+    this.audioURI = segment.uri;
+    this.segmentDuration = segment.durationMs;
+    this.segmentLead = segment.leadMs;
+
+    try {
+      if (this.state === AudioPlaybackState.Loading) {
+        await this.playAudio();
+      } else if (this.state === AudioPlaybackState.Playing) {
+        await this.sound.playAsync();
+      }
+      // A stream paused while waiting for audio starts on resume()
+    } catch (error) {
+      this.reportStreamError(error);
+    }
+
+    if (previous && handoff) {
+      await this.releaseEndingSegment();
+      this.endingSegment = previous;
+    } else if (previous) {
+      await this.releaseSegment(previous);
+    }
+  }
+
+  /**
+   * Start the loaded next segment so that its audio follows the current one
+   * without a gap, its muted lead playing under the last frames of this
+   * one. didJustFinish arrives up to a status interval late, so the start
+   * is timed from the position instead.
+   */
+  private scheduleSegmentHandoff(positionMillis: number): void {
+    const next = this.nextSegment;
+    if (!next || this.handoffTimer) {
+      return;
+    }
+    const remaining = this.segmentLead + this.segmentDuration - positionMillis;
+    const delay = remaining - next.leadMs;
+    if (delay > BOUNDARY_PLAYBACK.PROGRESS_UPDATE_INTERVAL) {
+      return;
+    }
+
+    const sound = this.sound;
+    this.handoffTimer = setTimeout(
+      () => {
+        this.handoffTimer = null;
+        if (
+          this.sound === sound &&
+          this.nextSegment === next &&
+          this.state === AudioPlaybackState.Playing
+        ) {
+          void this.playNextSegment(true).catch((error) =>
+            this.reportStreamError(error),
+          );
+        }
+      },
+      Math.max(delay, 0),
+    );
+  }
+
+  private cancelSegmentHandoff(): void {
+    if (this.handoffTimer) {
+      clearTimeout(this.handoffTimer);
+      this.handoffTimer = null;
+    }
+  }
+
+  /**
+   * Release the previous segment if it is still playing its last frames
+   */
+  private async releaseEndingSegment(): Promise<void> {
+    const segment = this.endingSegment;
+    this.endingSegment = null;
+    if (segment) {
+      await this.releaseSegment(segment);
+    }
+  }
+
+  /**
+   * Position in the whole audio of a position in the current segment
+   */
+  private toAudioPosition(positionMillis: number): number {
+    return this.segmentOffset + Math.max(positionMillis - this.segmentLead, 0);
+  }
+
+  /**
+   * Move on from a segment that finished playing
+   */
+  private async finishSegment(): Promise<void> {
+    if (this.nextSegment) {
+      await this.playNextSegment();
+      return;
+    }
+
+    // The next segment plays as soon as its audio has arrived and loaded
+    const finished = this.takeCurrentSegment();
+    if (finished) {
+      this.segmentOffset += finished.durationMs;
+      await this.releaseSegment(finished);
+    }
+    await this.loadNextSegment();
+  }
+
+  /**
+   * Take the playing segment out of the current audio
+   */
+  private takeCurrentSegment(): AudioSegment | null {
+    const segment =
+      this.sound && this.tempAudioFilePath
+        ? {
+            sound: this.sound,
+            uri: this.tempAudioFilePath,
+            durationMs: this.segmentDuration,
+            leadMs: this.segmentLead,
+          }
+        : null;
+    this.sound = null;
+    this.tempAudioFilePath = null;
+    this.audioURI = null;
+    this.segmentDuration = 0;
+    this.segmentLead = 0;
+    return segment;
+  }
+
+  /**
+   * Unload a segment and delete its file
+   */
+  private async releaseSegment(segment: AudioSegment): Promise<void> {
+    try {
+      await segment.sound.unloadAsync();
+      await FileSystem.deleteAsync(segment.uri, { idempotent: true });
+    } catch (error) {
+      console.warn(`[AudioService] Failed to release audio segment: ${error}`);
+    }
+  }
+
+  /**
+   * End progressive playback and drop audio not yet played
+   */
+  private async resetStream(): Promise<void> {
+    const nextSegment = this.nextSegment;
+    this.streaming = false;
+    this.streamId++;
+    this.pendingAudio = new Uint8Array(0);
+    this.streamCompleted = false;
+    this.nextSegment = null;
+    this.segmentLoading = false;
+    this.segmentOffset = 0;
+    this.segmentDuration = 0;
+    this.segmentLead = 0;
+    this.pendingOffset = 0;
+    this.streamedAudio = createAudioStreamBuffer();
+    this.cutAudio = new Uint8Array(0);
+    this.cancelSegmentHandoff();
+    await this.releaseEndingSegment();
+    if (nextSegment) {
+      await this.releaseSegment(nextSegment);
+    }
+  }
+
+  /**
+   * Play the stream again from the frame at a position, dropping the
+   * segments cut so far
+   */
+  private async restartStream(positionMs: number): Promise<void> {
+    const audio = new Uint8Array(combineAudioChunks(this.streamedAudio));
+    const frame = findMP3FrameAt(audio, positionMs);
+    const segments = [
+      this.nextSegment,
+      this.takeCurrentSegment(),
+      this.endingSegment,
+    ];
+
+    // Segments still loading were cut for the old position
+    this.streamId++;
+    this.segmentLoading = false;
+    this.nextSegment = null;
+    this.endingSegment = null;
+    this.cancelSegmentHandoff();
+    this.pendingAudio = audio.slice(frame.offset);
+    this.cutAudio = audio.subarray(0, frame.offset);
+    this.pendingOffset = frame.positionMs;
+    this.segmentOffset = frame.positionMs;
+
+    for (const segment of segments) {
+      if (segment) {
+        await this.releaseSegment(segment);
+      }
+    }
+    await this.loadNextSegment();
+  }
+
+  /**
+   * Duration of the streamed audio received so far, in milliseconds
+   */
+  private getStreamDuration(): number {
+    return (
+      this.pendingOffset + (getAudioInfo(this.pendingAudio)?.durationMs ?? 0)
+    );
+  }
+
+  /**
+   * Replace the boundaries of the current audio
+   */
+  private setBoundaries(boundaries: TimedBoundary[]): void {
+    this.boundaries = [...boundaries].sort(compareBoundaries);
+    this.nextBoundaryIndex = 0;
+    this.boundaryPosition = 0;
+  }
+
+  /**
+   * Fire boundaries the playback position has reached.
+   * A position behind the last one is a seek back and rewinds the words;
+   * words that ended well before the position, e.g. after seeking
+   * forward, are skipped so only the current word and sentence are reported.
+   */
+  private dispatchBoundaries(position: number): void {
+    if (position < this.boundaryPosition) {
+      this.nextBoundaryIndex = 0;
+    }
+    this.boundaryPosition = position;
+
+    while (this.nextBoundaryIndex < this.boundaries.length) {
+      const item = this.boundaries[this.nextBoundaryIndex];
+      const { timing } = item;
+      if (timing.offsetMs > position) {
+        break;
+      }
+      this.nextBoundaryIndex++;
+
+      const end = timing.offsetMs + timing.durationMs;
+      if (end >= position - BOUNDARY_PLAYBACK.MAX_LATENESS) {
+        this.fireBoundary(item);
+      }
+    }
+  }
+
+  /**
+   * Fire the boundaries left when playback finishes
+   */
+  private flushBoundaries(): void {
+    const remaining = this.boundaries.slice(this.nextBoundaryIndex);
+    this.nextBoundaryIndex = this.boundaries.length;
+    remaining.forEach((item) => this.fireBoundary(item));
+  }
+
+  /**
+   * Pass a boundary to the callback for its type
+   */
+  private fireBoundary(item: TimedBoundary): void {
+    if (item.type === "sentence") {
+      this.onSentenceBoundaryCallback?.(item.boundary);
+    } else if (item.type === "mark") {
+      this.onMarkCallback?.(item.boundary);
+    } else {
+      this.onBoundaryCallback?.(item.boundary);
+    }
+  }
+
   /**
    * Set audio playback state
    */
@@ -765,6 +1388,10 @@ export class AudioService {
     this.onPauseCallback = options.onPause || null;
     this.onResumeCallback = options.onResume || null;
     this.onErrorCallback = options.onError || null;
+    this.onBoundaryCallback = options.onBoundary || null;
+    this.onSentenceBoundaryCallback = options.onSentenceBoundary || null;
+    this.onMarkCallback = options.onMark || null;
+    this.onProgressCallback = options.onProgress || null;
   }
 
   /**
@@ -777,6 +1404,11 @@ export class AudioService {
     this.onPauseCallback = null;
     this.onResumeCallback = null;
     this.onErrorCallback = null;
+    this.onBoundaryCallback = null;
+    this.onSentenceBoundaryCallback = null;
+    this.onMarkCallback = null;
+    this.onProgressCallback = null;
+    this.setBoundaries([]);
   }
 
   /**
@@ -818,6 +1450,17 @@ export class AudioService {
     }
   }
 
+  /**
+   * Report a failure of progressive playback
+   */
+  private reportStreamError(error: unknown): void {
+    this.handleError({
+      name: "ProgressivePlaybackError",
+      message: `Progressive playback failed: ${error}`,
+      code: "PROGRESSIVE_PLAYBACK_FAILED",
+    });
+  }
+
   // =============================================================================
   // Public Getters
   // =============================================================================
@@ -829,6 +1472,14 @@ export class AudioService {
     return this.state;
   }
 
+  /**
+   * Get the boundaries and bookmarks of the current audio received so far,
+   * ordered by offset
+   */
+  get currentBoundaries(): readonly TimedBoundary[] {
+    return this.boundaries;
+  }
+
   /**
    * Get current connection ID
    */
@@ -8,9 +8,13 @@ import * as Crypto from "expo-crypto";
 import {
   type SpeechOptions,
   type WordBoundary,
+  type WordBoundaryTiming,
+  type TimedBoundary,
   type BoundaryEventData,
+  type BookmarkEventData,
   ConnectionState,
   NoAudioReceived,
+  SynthesisCancelled,
   UnexpectedResponse,
   WebSocketError,
   type TimingConverter,
@@ -29,9 +33,18 @@ import {
   MESSAGE_FORMAT,
 } from "../constants";
 
-import { parseEdgeTTSBinaryMessage } from "../utils/audioUtils";
+import {
+  createMP3ChunkValidator,
+  estimateAudioDuration,
+  isValidMP3Format,
+  MP3ChunkValidator,
+  parseEdgeTTSBinaryMessage,
+} from "../utils/audioUtils";
 import { StorageService } from "./storageService";
 import { generateTimestamp } from "../utils/commonUtils";
+import type { SSMLBookmark } from "../utils/ssmlUtils";
+import { extractLanguageFromVoice } from "../utils/ssmlUtils";
+import { TextAligner } from "../utils/textAlignment";
 
 // WebSocket Ready State Constants
 // Define these locally to avoid dependency on global WebSocket in test environments
@@ -63,14 +76,24 @@ interface EdgeTTSHeaders {
   [key: string]: string;
 }
 
+/**
+ * Speech options accepted by synthesizeText
+ */
+export type SynthesisOptions = SpeechOptions & {
+  /** Plain text the SSML was generated from, used for boundary alignment */
+  boundaryText?: string;
+  /** Positions of the SSML bookmarks in the plain text */
+  bookmarks?: SSMLBookmark[];
+};
+
 /**
  * Synthesis request parameters
  */
 interface SynthesisRequest {
-  /** text to synthesize (in non-SSML format) */
+  /** SSML document sent to the service */
   text: string;
   /** Speech options */
-  options: SpeechOptions;
+  options: SynthesisOptions;
   /** Request ID for tracking */
   requestId: string;
   /** Connection ID */
@@ -80,11 +103,11 @@ interface SynthesisRequest {
 /**
  * Synthesis response data
  */
-interface SynthesisResponse {
+export interface SynthesisResponse {
   /** Audio data chunks */
   audioChunks: Uint8Array[];
-  /** Word boundary events */
-  boundaries: WordBoundary[];
+  /** Word and sentence boundary events with their timing in the audio */
+  boundaries: TimedBoundary[];
   /** Total audio duration in milliseconds */
   duration: number;
   /** Synthesis completion status */
@@ -108,8 +131,16 @@ interface SynthesisSession {
   };
   /** Timeout handle */
   timeoutHandle?: ReturnType<typeof setTimeout>;
-  /** Current position in original text for boundary event mapping */
-  lastBoundaryPosition?: number;
+  /** Aligns word boundary events with the original text */
+  wordAligner?: TextAligner;
+  /** Aligns sentence boundary events, which overlap words, separately */
+  sentenceAligner?: TextAligner;
+  /** Index of the next unmatched entry of the request's bookmarks */
+  nextBookmarkIndex?: number;
+  /** Number of word boundaries received, used as the running word index */
+  wordCount?: number;
+  /** Follows the frames of MP3 audio across chunks */
+  mp3Validator?: MP3ChunkValidator;
 }
 
 // =============================================================================
@@ -209,7 +240,7 @@ export class NetworkService {
    */
   async synthesizeText(
     ssml: string,
-    options: SpeechOptions,
+    options: SynthesisOptions,
     // Add clientSessionId and connectionId parameters
     clientSessionId: string,
     connectionId: string,
@@ -251,6 +282,11 @@ export class NetworkService {
         },
         createdAt: new Date(),
         promise: { resolve, reject },
+        mp3Validator: isValidMP3Format(
+          options.outputFormat ?? AUDIO_CONFIG.defaultFormat,
+        )
+          ? createMP3ChunkValidator()
+          : undefined,
       };
 
       // Set timeout for total synthesis
@@ -268,6 +304,22 @@ export class NetworkService {
     });
   }
 
+  /**
+   * Cancel a running synthesis request and close its connection.
+   * Its promise rejects with SynthesisCancelled.
+   *
+   * @returns True if the request was still running
+   */
+  cancelSynthesis(requestId: string): boolean {
+    const session = this.activeSessions.get(requestId);
+    if (!session) return false;
+
+    this.log(`Cancelling synthesis for request ${requestId}`);
+    session.promise.reject(new SynthesisCancelled());
+    this.cleanupSession(requestId);
+    return true;
+  }
+
   /**
    * Close all connections and cleanup
    */
@@ -520,6 +572,7 @@ export class NetworkService {
   private async sendSpeechConfig(
     connection: EdgeTTSConnection,
     requestId: string,
+    outputFormat: string = AUDIO_CONFIG.defaultFormat,
   ): Promise<void> {
     this.log(`Sending speech config for request ${requestId}`);
 
@@ -535,10 +588,11 @@ export class NetworkService {
         synthesis: {
           audio: {
             metadataoptions: {
-              sentenceBoundaryEnabled: false,
-              wordBoundaryEnabled: true,
+              bookmarkEnabled: AUDIO_CONFIG.enableBookmark,
+              sentenceBoundaryEnabled: AUDIO_CONFIG.enableSentenceBoundary,
+              wordBoundaryEnabled: AUDIO_CONFIG.enableWordBoundary,
             },
-            outputFormat: AUDIO_CONFIG.defaultFormat,
+            outputFormat,
           },
         },
       },
@@ -751,6 +805,14 @@ export class NetworkService {
 
       // Add audio chunk to session
       const audioChunk = new Uint8Array(binaryMessage.audioData);
+      if (
+        session.mp3Validator &&
+        !session.mp3Validator.validateChunk(audioChunk)
+      ) {
+        throw new UnexpectedResponse(
+          `Invalid MP3 audio for request ${requestId}: frames do not continue across chunks`,
+        );
+      }
       session.response.audioChunks.push(audioChunk);
 
       // Add audio chunk to storage buffer (ConnectionManager creates buffer)
@@ -759,6 +821,11 @@ export class NetworkService {
         audioChunk,
       );
 
+      // Streamed playback starts before the synthesis promise resolves
+      if (this.onAudioDataCallback) {
+        this.onAudioDataCallback(session.request.connectionId, audioChunk);
+      }
+
       // this.log(
       //   `Added audio chunk for session ${requestId}, size: ${audioChunk.length}`,
       // );
@@ -799,7 +866,7 @@ export class NetworkService {
   }
 
   /**
-   * Handle audio metadata (boundary events)
+   * Handle audio metadata (word, sentence and bookmark events)
    */
   private handleAudioMetadata(
     requestId: string,
@@ -824,29 +891,54 @@ export class NetworkService {
       if (metadata.Metadata && Array.isArray(metadata.Metadata)) {
         for (const boundaryData of metadata.Metadata) {
           if (boundaryData.Type === "WordBoundary") {
-            // Initialize boundary position tracking if not set
-            if (session.lastBoundaryPosition === undefined) {
-              session.lastBoundaryPosition = 0;
+            if (!session.wordAligner) {
+              session.wordAligner = this.createAligner(session);
             }
-
-            // Process boundary event with original text and current position
-            const result = this.processBoundaryEvent(
+            const { boundary, timing } = this.processBoundaryEvent(
               boundaryData,
-              session.request.text,
-              session.lastBoundaryPosition,
+              session.wordAligner,
             );
-
-            // Extract the boundary and update position tracking
-            const { boundary, nextPosition } = result;
-            session.lastBoundaryPosition = nextPosition;
-
-            // Add to session boundaries
-            session.response.boundaries.push(boundary);
-
-            // Call boundary callback if provided
-            if (session.request.options.onBoundary) {
-              session.request.options.onBoundary(boundary);
+            boundary.wordIndex = session.wordCount ?? 0;
+            session.wordCount = boundary.wordIndex + 1;
+
+            // Metadata arrives ahead of playback, so onBoundary is fired by
+            // AudioService once the word is heard
+            this.addBoundary(session, {
+              type: "word",
+              boundary,
+              timing,
+            });
+          } else if (boundaryData.Type === "SentenceBoundary") {
+            if (!session.sentenceAligner) {
+              session.sentenceAligner = this.createAligner(session);
             }
+            const { boundary, timing } = this.processBoundaryEvent(
+              boundaryData,
+              session.sentenceAligner,
+            );
+
+            this.addBoundary(session, {
+              type: "sentence",
+              boundary: {
+                ...boundary,
+                offsetMs: timing.offsetMs,
+                durationMs: timing.durationMs,
+              },
+              timing,
+            });
+          } else if (boundaryData.Type === "Bookmark") {
+            const data = (boundaryData as BookmarkEventData).Data;
+            const timing = this.createBoundaryTiming(data);
+
+            this.addBoundary(session, {
+              type: "mark",
+              boundary: {
+                name: data.Bookmark,
+                charIndex: this.locateBookmark(session, data.Bookmark),
+                offsetMs: timing.offsetMs,
+              },
+              timing,
+            });
           }
         }
       }
@@ -855,6 +947,16 @@ export class NetworkService {
     }
   }
 
+  /**
+   * Add a boundary to the response and pass it on to streamed playback
+   */
+  private addBoundary(session: SynthesisSession, item: TimedBoundary): void {
+    session.response.boundaries.push(item);
+    if (this.onBoundaryDataCallback) {
+      this.onBoundaryDataCallback(session.request.connectionId, item);
+    }
+  }
+
   /**
    * Handle response message
    */
@@ -927,98 +1029,112 @@ export class NetworkService {
     // Calculate total duration
     session.response.duration = this.calculateAudioDuration(
       session.response.audioChunks,
+      session.request.options.outputFormat ?? AUDIO_CONFIG.defaultFormat,
     );
 
     // Complete the synthesis
     this.completeSynthesis(requestId);
   }
 
+  /**
+   * Aligner for the boundary events of a session. Aligns against the plain
+   * text when known, not the SSML markup.
+   */
+  private createAligner(session: SynthesisSession): TextAligner {
+    const { text, options } = session.request;
+    return new TextAligner(
+      options.boundaryText ?? text,
+      options.language || extractLanguageFromVoice(options.voice ?? ""),
+    );
+  }
+
   /**
    * Process boundary event data
    */
   private processBoundaryEvent(
     boundaryData: BoundaryEventData,
-    originalText: string,
-    currentPosition: number = 0,
-  ): { boundary: WordBoundary; nextPosition: number } {
+    aligner: TextAligner,
+  ): {
+    boundary: WordBoundary;
+    timing: WordBoundaryTiming;
+  } {
     // Extract word text from boundary data
     const wordText = boundaryData.Data.text?.Text || "";
-    const wordLength = boundaryData.Data.text?.Length || wordText.length;
 
-    // Find the word in the original text starting from current position
-    const charIndex = this.findWordInText(
-      originalText,
-      wordText,
-      currentPosition,
-    );
-
-    // Use the actual word length, but ensure it doesn't exceed text boundaries
-    const charLength = Math.min(wordLength, originalText.length - charIndex);
-
-    // Calculate next search position (after this word)
-    const nextPosition = charIndex + charLength;
+    // Unmatched words keep the current position with zero confidence
+    const { charIndex, charLength, confidence } = aligner.align(wordText);
+    const timing = this.createBoundaryTiming(boundaryData.Data);
 
     return {
       boundary: {
         charIndex,
         charLength,
+        confidence,
+        text: wordText,
+        audioOffsetMs: timing.offsetMs,
+        durationMs: timing.durationMs,
+        boundaryType: boundaryData.Data.text?.BoundaryType ?? boundaryData.Type,
       },
-      nextPosition,
+      timing,
     };
   }
 
   /**
-   * Find the next occurrence of a word in text starting from a given position
+   * Convert the Offset/Duration ticks of a metadata event to milliseconds
    */
-  private findWordInText(
-    text: string,
-    word: string,
-    startPosition: number,
-  ): number {
-    if (!word || startPosition >= text.length) {
-      return startPosition;
-    }
-
-    // Convert both to lowercase for case-insensitive matching
-    const lowerText = text.toLowerCase();
-    const lowerWord = word.toLowerCase();
-
-    // Find the word starting from the current position
-    const index = lowerText.indexOf(lowerWord, startPosition);
-
-    if (index !== -1) {
-      return index;
-    }
+  private createBoundaryTiming(data: {
+    Offset: number;
+    Duration?: number;
+  }): WordBoundaryTiming {
+    const rawOffset = data.Offset || 0;
+    const duration = data.Duration || 0;
+    const adjustedOffset = timingConverter.compensateOffset(rawOffset);
 
-    // If exact match fails, try to find the word ignoring punctuation
-    // This handles cases where Edge TTS normalizes text differently
-    for (let i = startPosition; i <= text.length - word.length; i++) {
-      const textSegment = text.slice(i, i + word.length).toLowerCase();
-      // Remove punctuation and whitespace for comparison
-      const cleanTextSegment = textSegment.replace(/[^\w]/g, "");
-      const cleanWord = lowerWord.replace(/[^\w]/g, "");
+    return {
+      rawOffset,
+      adjustedOffset,
+      offsetMs: timingConverter.ticksToMs(adjustedOffset),
+      duration,
+      durationMs: timingConverter.ticksToMs(duration),
+    };
+  }
 
-      if (cleanTextSegment === cleanWord) {
-        return i;
-      }
+  /**
+   * Find the text position of a bookmark. Bookmarks are matched by name in
+   * document order; unknown names fall back to the last aligned word.
+   */
+  private locateBookmark(session: SynthesisSession, name: string): number {
+    const bookmarks = session.request.options.bookmarks ?? [];
+    const start = session.nextBookmarkIndex ?? 0;
+    const index = bookmarks.findIndex(
+      (bookmark, position) => position >= start && bookmark.name === name,
+    );
+    if (index === -1) {
+      return session.wordAligner?.position ?? 0;
     }
-
-    // If still no match found, return current position to avoid errors
-    return startPosition;
+    session.nextBookmarkIndex = index + 1;
+    return bookmarks[index].charIndex;
   }
 
   /**
    * Calculate total audio duration
    */
-  private calculateAudioDuration(audioChunks: Uint8Array[]): number {
-    // Estimate duration based on audio format (MP3 24kHz)
+  private calculateAudioDuration(
+    audioChunks: Uint8Array[],
+    outputFormat: string,
+  ): number {
     const totalBytes = audioChunks.reduce(
       (sum, chunk) => sum + chunk.length,
       0,
     );
-    const bitRate = AUDIO_CONFIG.bitRate * 1000; // Convert to bits per second
-    const durationSeconds = (totalBytes * 8) / bitRate;
-    return Math.round(durationSeconds * 1000); // Convert to milliseconds
+    // Containers such as Ogg and RIFF are read whole, not per chunk
+    const audio = new Uint8Array(totalBytes);
+    let offset = 0;
+    for (const chunk of audioChunks) {
+      audio.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return estimateAudioDuration(audio.buffer, outputFormat);
   }
 
   // ===========================================================================
@@ -1074,7 +1190,11 @@ export class NetworkService {
       }
 
       // Send speech config message
-      await this.sendSpeechConfig(connection, requestId);
+      await this.sendSpeechConfig(
+        connection,
+        requestId,
+        session.request.options.outputFormat,
+      );
 
       // Send SSML request
       await this.sendSSMLRequest(connection, session);
@@ -1101,7 +1221,11 @@ export class NetworkService {
       const connection = await this.createConnection(request.connectionId);
 
       // Send speech configuration
-      await this.sendSpeechConfig(connection, request.requestId);
+      await this.sendSpeechConfig(
+        connection,
+        request.requestId,
+        request.options.outputFormat,
+      );
 
       // Send SSML request
       await this.sendSSMLRequest(connection, session);
@@ -1143,14 +1267,7 @@ export class NetworkService {
     // Complete storage coordination
     this.storageService.markConnectionCompleted(session.request.connectionId);
 
-    // Call completion callback
-    if (session.request.options.onDone) {
-      try {
-        session.request.options.onDone();
-      } catch (error) {
-        this.log(`Error in onDone callback:`, error);
-      }
-    }
+    // onDone is reported by AudioService once playback has finished
 
     // Resolve synthesis promise
     session.promise.resolve(session.response);
@@ -1295,6 +1412,30 @@ export class NetworkService {
     | ((connectionId: string, state: ConnectionState) => void)
     | null = null;
 
+  /**
+   * Register callback for audio chunks as they arrive, before synthesis completes
+   */
+  onAudioData(
+    callback: (connectionId: string, chunk: Uint8Array) => void,
+  ): void {
+    this.onAudioDataCallback = callback;
+  }
+
+  /**
+   * Register callback for word, sentence and bookmark events as they arrive
+   */
+  onBoundaryData(
+    callback: (connectionId: string, item: TimedBoundary) => void,
+  ): void {
+    this.onBoundaryDataCallback = callback;
+  }
+
+  // Callbacks for streamed playback
+  private onAudioDataCallback:
+    ((connectionId: string, chunk: Uint8Array) => void) | null = null;
+  private onBoundaryDataCallback:
+    ((connectionId: string, item: TimedBoundary) => void) | null = null;
+
   /**
    * Set connection state and trigger StateManager callback
    */
@@ -235,6 +235,47 @@ export class VoiceService {
     };
   }
 
+  /**
+   * Check a speaking style and role against a voice's capabilities.
+   * Only voices that list their styles or roles are checked; the Edge voice
+   * list usually omits them, so an unknown capability is not reported.
+   */
+  async validateSpeakingStyle(
+    voiceIdentifier: string,
+    options: { style?: string; role?: string },
+  ): Promise<{ isValid: boolean; warnings: string[] }> {
+    this.log(`Validating speaking style for voice: ${voiceIdentifier}`);
+
+    const warnings: string[] = [];
+    const voice = await this.findVoiceByIdentifier(voiceIdentifier);
+    if (!voice) {
+      warnings.push(
+        `Voice "${voiceIdentifier}" not found, cannot check speaking style support`,
+      );
+      return { isValid: false, warnings };
+    }
+
+    const { style, role } = options;
+    if (
+      style &&
+      voice.styles &&
+      !voice.styles.some(
+        (supported) => supported.toLowerCase() === style.toLowerCase(),
+      )
+    ) {
+      warnings.push(
+        `Voice "${voiceIdentifier}" does not support style "${style}"`,
+      );
+    }
+    if (role && voice.roles && !voice.roles.includes(role)) {
+      warnings.push(
+        `Voice "${voiceIdentifier}" does not support role "${role}"`,
+      );
+    }
+
+    return { isValid: warnings.length === 0, warnings };
+  }
+
   /**
    * Get voices by language
    */
@@ -404,6 +445,9 @@ export class VoiceService {
           gender,
           contentCategories,
           voicePersonalities,
+          // Speaking styles and roles are only listed by some voice endpoints
+          ...(edgeVoice.StyleList && { styles: edgeVoice.StyleList }),
+          ...(edgeVoice.RolePlayList && { roles: edgeVoice.RolePlayList }),
         };
       })
       .filter((voice) => {
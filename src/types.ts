@@ -29,6 +29,85 @@ export type SpeechEventCallback = () => void;
 export interface WordBoundary {
   charIndex: number;
   charLength: number;
+  /**
+   * speakDialogue() only: index of the line the word belongs to.
+   * charIndex is then relative to that line's text.
+   */
+  segmentIndex?: number;
+  /**
+   * HTML input only: the text node the word starts in.
+   * Undefined for separators added between blocks.
+   */
+  textNode?: TextNodePosition;
+  /** Word as sent by the service, which may differ from the source text */
+  text?: string;
+  /** Start of the word in the audio, in milliseconds */
+  audioOffsetMs?: number;
+  /** Spoken length of the word, in milliseconds */
+  durationMs?: number;
+  /** Boundary type reported by the service */
+  boundaryType?: BoundaryType;
+  /** Zero-based index of the word in the utterance */
+  wordIndex?: number;
+  /**
+   * How surely charIndex points at the word, from 1 for an exact match to 0
+   * when the word was not found in the text; charLength is then 0
+   */
+  confidence?: number;
+}
+
+/**
+ * Boundary types reported in Edge TTS metadata
+ */
+export type BoundaryType =
+  "WordBoundary" | "PunctuationBoundary" | "SentenceBoundary";
+
+/**
+ * Sentence boundary event data (EdgeSpeech extension)
+ */
+export interface SentenceBoundary extends Omit<WordBoundary, "wordIndex"> {
+  /** Start of the sentence in the audio, in milliseconds */
+  offsetMs: number;
+  /** Spoken length of the sentence, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Playback progress passed to onProgress (EdgeSpeech extension)
+ */
+export interface SpeechProgress {
+  /** Playback position in the utterance, in milliseconds */
+  positionMs: number;
+  /**
+   * Duration of the utterance in milliseconds. While the audio is streaming
+   * it is the duration received so far.
+   */
+  durationMs: number;
+}
+
+/**
+ * SSML bookmark reached during playback, passed to onMark
+ */
+export interface SpeechMark {
+  /** Value of the bookmark's mark attribute */
+  name: string;
+  /** Index in the text of the word following the bookmark */
+  charIndex: number;
+  /** Position of the bookmark in the audio, in milliseconds */
+  offsetMs: number;
+}
+
+/**
+ * Position in a DOM text node of HTML input
+ */
+export interface TextNodePosition {
+  /**
+   * Index of the text node in document order, counting every text node of
+   * the source, including whitespace-only nodes and those of skipped elements
+   */
+  index: number;
+  /** Offset in the node's decoded data */
+  offset: number;
 }
 
 /**
@@ -41,6 +120,55 @@ export interface SpeechError {
   code?: string | number;
 }
 
+/**
+ * How the text passed to speak() is interpreted
+ * - "text": plain text, escaped before SSML generation (default)
+ * - "ssml": a complete SSML document sent as-is
+ * - "markdown": Markdown read as speech, with block pauses and emphasis;
+ *   boundaries refer to the Markdown source
+ * - "html": text extracted from HTML, with block pauses and a voice per
+ *   `lang`; boundaries refer to the extracted text
+ */
+export type SpeechInputType = "text" | "ssml" | "markdown" | "html";
+
+/**
+ * Audio format requested from the service (EdgeSpeech extension)
+ */
+export type AudioOutputFormat =
+  | "audio-24khz-48kbitrate-mono-mp3"
+  | "audio-24khz-96kbitrate-mono-mp3"
+  | "audio-48khz-96kbitrate-mono-mp3"
+  | "audio-48khz-192kbitrate-mono-mp3"
+  | "webm-24khz-16bit-mono-opus"
+  | "ogg-24khz-16bit-mono-opus"
+  | "riff-24khz-16bit-mono-pcm";
+
+/**
+ * Container and encoding of an audio output format
+ */
+export interface AudioFormatInfo {
+  container: "mp3" | "webm" | "ogg" | "riff";
+  mimeType: string;
+  /** File extension without the dot */
+  extension: string;
+  sampleRate: number;
+  /** Bits per second; nominal for Opus */
+  bitRate: number;
+}
+
+/**
+ * Role-play value for <mstts:express-as role="...">
+ */
+export type SpeechRole =
+  | "Girl"
+  | "Boy"
+  | "YoungAdultFemale"
+  | "YoungAdultMale"
+  | "OlderAdultFemale"
+  | "OlderAdultMale"
+  | "SeniorFemale"
+  | "SeniorMale";
+
 /**
  * Speech options interface
  * Matches expo-speech SpeechOptions interface exactly
@@ -56,11 +184,134 @@ export interface SpeechOptions {
   onError?: ((error: Error) => void) | SpeechEventCallback;
   onStopped?: (() => void) | SpeechEventCallback;
   onBoundary?: ((boundary: WordBoundary) => void) | SpeechEventCallback;
-  onMark?: SpeechEventCallback | null;
+  /** Called as each sentence starts playing (EdgeSpeech extension) */
+  onSentenceBoundary?: (boundary: SentenceBoundary) => void;
+  /** Called as playback reaches each SSML <bookmark> */
+  onMark?: ((mark: SpeechMark) => void) | SpeechEventCallback | null;
   onPause?: SpeechEventCallback | null;
   onResume?: SpeechEventCallback | null;
+  /**
+   * Called with the playback position and duration as the audio plays,
+   * e.g. to drive a scrubber (EdgeSpeech extension)
+   */
+  onProgress?: (progress: SpeechProgress) => void;
+  /**
+   * Split text longer than MAX_TEXT_LENGTH into chunks and play them as a
+   * single utterance (EdgeSpeech extension)
+   */
+  chunkLongText?: boolean;
+  /** Input format of the text passed to speak() (EdgeSpeech extension) */
+  inputType?: SpeechInputType;
+  /**
+   * Speaking style such as "cheerful", "sad" or "whispering", sent as
+   * <mstts:express-as style> (EdgeSpeech extension)
+   */
+  style?: string;
+  /** Style intensity from 0.01 to 2, default 1 (EdgeSpeech extension) */
+  styleDegree?: number;
+  /** Age and gender the voice imitates (EdgeSpeech extension) */
+  role?: SpeechRole;
+  /**
+   * Pronunciation lexicon for this call, applied before the lexicon passed
+   * to configure() (EdgeSpeech extension)
+   */
+  lexicon?: LexiconEntry[];
+  /**
+   * Spell out numbers, dates, times, currencies, units and abbreviations
+   * before synthesis. Overrides the normalize setting passed to configure()
+   * (EdgeSpeech extension)
+   */
+  normalize?: boolean | NormalizationOptions;
+  /**
+   * Detect the language of each run of plain text from its script and read
+   * it with a voice for that language, e.g. Chinese in English text
+   * (EdgeSpeech extension)
+   */
+  autoLanguage?: boolean;
+  /**
+   * Audio format to synthesize, overriding the outputFormat passed to
+   * configure(). Default "audio-24khz-48kbitrate-mono-mp3"
+   * (EdgeSpeech extension)
+   */
+  outputFormat?: AudioOutputFormat;
+}
+
+/**
+ * Options for synthesizeAsync() (EdgeSpeech extension)
+ * Playback callbacks such as onStart, onDone and onBoundary are not called.
+ */
+export interface SynthesizeOptions extends SpeechOptions {
+  /** Cancels synthesis when aborted; the promise rejects with SynthesisCancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Audio returned by synthesizeAsync()
+ */
+export interface SynthesisResult {
+  audio: Uint8Array;
+  /** MIME type of the output format, e.g. "audio/mpeg" */
+  mimeType: string;
+  durationMs: number;
+  /** Word, sentence and bookmark timings, positions relative to the input text */
+  boundaries: TimedBoundary[];
+}
+
+/**
+ * Options for synthesizeToFileAsync() (EdgeSpeech extension)
+ */
+export interface SynthesizeToFileOptions extends SynthesizeOptions {
+  /**
+   * File to write, e.g. `${FileSystem.documentDirectory}lesson-1.mp3`.
+   * Default: a new file in the document directory, or the cache directory
+   * where there is none
+   */
+  fileUri?: string;
+}
+
+/**
+ * Audio file written by synthesizeToFileAsync()
+ */
+export interface SynthesisFileResult {
+  uri: string;
+  durationMs: number;
+  byteLength: number;
+  format: AudioOutputFormat;
+  /** Word, sentence and bookmark timings, positions relative to the input text */
+  boundaries: TimedBoundary[];
+}
+
+/**
+ * One line of a dialogue passed to speakDialogue()
+ */
+export interface DialogueLine extends Pick<
+  SpeechOptions,
+  "rate" | "pitch" | "volume" | "style" | "styleDegree" | "role"
+> {
+  /** Voice identifier (e.g., "en-US-GuyNeural") */
+  voice: string;
+  text: string;
 }
 
+/**
+ * Options for speakDialogue(); voice and prosody are set per line
+ */
+export type DialogueOptions = Omit<
+  SpeechOptions,
+  | "voice"
+  | "rate"
+  | "pitch"
+  | "volume"
+  | "style"
+  | "styleDegree"
+  | "role"
+  | "inputType"
+  | "chunkLongText"
+  | "lexicon"
+  | "normalize"
+  | "autoLanguage"
+>;
+
 /**
  * Edge Speech Voice interface for Microsoft Edge TTS
  * Enhanced interface representing a voice available from the Edge Speech service
@@ -84,6 +335,12 @@ export interface EdgeSpeechVoice {
 
   /** Voice personality traits */
   voicePersonalities: string[];
+
+  /** Speaking styles for <mstts:express-as>, when listed by the service */
+  styles?: string[];
+
+  /** Role-play values for <mstts:express-as>, when listed by the service */
+  roles?: string[];
 }
 
 // ============================================================================
@@ -95,18 +352,30 @@ export interface EdgeSpeechVoice {
  * Based on actual Edge TTS structure
  */
 export interface BoundaryEventData {
-  Type: "WordBoundary";
+  Type: "WordBoundary" | "SentenceBoundary";
   Data: {
     Offset: number;
     Duration: number;
     text: {
       Text: string;
       Length: number;
-      BoundaryType: "WordBoundary";
+      BoundaryType: BoundaryType;
     };
   };
 }
 
+/**
+ * Bookmark event data interface
+ * Sent for each <bookmark> element of the SSML
+ */
+export interface BookmarkEventData {
+  Type: "Bookmark";
+  Data: {
+    Offset: number;
+    Bookmark: string;
+  };
+}
+
 /**
  * Speech configuration interface
  * Edge TTS specific configuration sections
@@ -225,6 +494,16 @@ export class SkewAdjustmentError extends Error {
   }
 }
 
+/**
+ * Synthesis cancelled through the AbortSignal passed to synthesizeAsync()
+ */
+export class SynthesisCancelled extends Error {
+  constructor(message = "Synthesis was cancelled") {
+    super(message);
+    this.name = "SynthesisCancelled";
+  }
+}
+
 // ============================================================================
 // Edge TTS Voice Types
 // ============================================================================
@@ -297,6 +576,131 @@ export interface SSMLProsody {
   volume?: string; // e.g., "+10%", "loud", "soft"
 }
 
+/**
+ * Emphasis levels supported by the SSML <emphasis> element
+ */
+export type SSMLEmphasisLevel = "strong" | "moderate" | "reduced" | "none";
+
+/**
+ * Pause strengths supported by the SSML <break> element
+ */
+export type SSMLBreakStrength =
+  "none" | "x-weak" | "weak" | "medium" | "strong" | "x-strong";
+
+/**
+ * Options for an SSML <break> element
+ */
+export interface SSMLBreakOptions {
+  /** Pause duration in milliseconds, or a duration string such as "2s" */
+  time?: number | string;
+  /** Relative pause strength, used when time is not given */
+  strength?: SSMLBreakStrength;
+}
+
+/**
+ * interpret-as values supported by the SSML <say-as> element
+ */
+export type SSMLSayAsInterpretation =
+  | "address"
+  | "cardinal"
+  | "characters"
+  | "date"
+  | "digits"
+  | "duration"
+  | "fraction"
+  | "name"
+  | "number"
+  | "ordinal"
+  | "spell-out"
+  | "telephone"
+  | "time";
+
+/**
+ * Additional attributes for an SSML <say-as> element
+ */
+export interface SSMLSayAsOptions {
+  /** Format hint, e.g. "mdy" for dates or "hms12" for times */
+  format?: string;
+  /** Level of detail to read */
+  detail?: string;
+}
+
+/**
+ * Pronunciation lexicon entry.
+ * A string `match` is matched as a whole word, case-insensitively unless
+ * `caseSensitive` is set; a RegExp is used as given.
+ */
+export type LexiconEntry =
+  | (LexiconEntryBase & {
+      /** Plain text spoken instead of the match */
+      replacement: string;
+    })
+  | (LexiconEntryBase & {
+      /** Pronunciation sent as <phoneme ph="..."> */
+      phoneme: string;
+      /** Phonetic alphabet of `phoneme` (default "ipa") */
+      alphabet?: "ipa" | "sapi" | "ups";
+    })
+  | (LexiconEntryBase & {
+      /** Text spoken instead of the match, sent as <sub alias="..."> */
+      alias: string;
+    });
+
+/**
+ * Fields shared by all lexicon entries
+ */
+export interface LexiconEntryBase {
+  /** Word or regular expression to match */
+  match: string | RegExp;
+  /** Match string words case-sensitively (default false) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Names of the built-in normalizers, in the order they run
+ */
+export type BuiltInNormalizerName =
+  | "abbreviations"
+  | "dates"
+  | "times"
+  | "currencies"
+  | "units"
+  | "ordinals"
+  | "numbers";
+
+/**
+ * Text normalization settings
+ */
+export interface NormalizationOptions {
+  /**
+   * Locale of the text, e.g. "de-DE". Defaults to the language option or the
+   * locale of the voice.
+   */
+  locale?: string;
+  /** Names of built-in or registered normalizers to skip */
+  skip?: (BuiltInNormalizerName | string)[];
+}
+
+/**
+ * Rewrites parts of plain text into the words the voice should say.
+ * Registered normalizers run before the built-in ones.
+ */
+export interface TextNormalizer {
+  /** Unique name; registering the same name again replaces the normalizer */
+  name: string;
+  /**
+   * Locales the normalizer applies to. "en" matches every English locale,
+   * "en-GB" only British English. Applies to all locales if omitted.
+   */
+  locales?: string[];
+  /** Text to rewrite; a global copy is used */
+  pattern: RegExp;
+  /**
+   * Words to speak for a match, or undefined to leave the match unchanged
+   */
+  normalize(match: RegExpExecArray, locale: string): string | undefined;
+}
+
 // ============================================================================
 // Word Boundary Timing Types
 // ============================================================================
@@ -317,6 +721,39 @@ export interface WordBoundaryTiming {
   durationMs: number;
 }
 
+/**
+ * Word boundary with its timing in the synthesized audio
+ */
+export interface TimedWordBoundary {
+  type: "word";
+  boundary: WordBoundary;
+  timing: WordBoundaryTiming;
+}
+
+/**
+ * Sentence boundary with its timing in the synthesized audio
+ */
+export interface TimedSentenceBoundary {
+  type: "sentence";
+  boundary: SentenceBoundary;
+  timing: WordBoundaryTiming;
+}
+
+/**
+ * SSML bookmark with its timing in the synthesized audio
+ */
+export interface TimedMark {
+  type: "mark";
+  boundary: SpeechMark;
+  timing: WordBoundaryTiming;
+}
+
+/**
+ * Boundary event scheduled against the audio playback position
+ */
+export type TimedBoundary =
+  TimedWordBoundary | TimedSentenceBoundary | TimedMark;
+
 /**
  * Timing conversion utilities
  */
@@ -388,6 +825,8 @@ export enum ContentType {
  * Metadata options for audio synthesis
  */
 export interface MetadataOptions {
+  /** Enable bookmark events */
+  bookmarkEnabled: boolean;
   /** Enable sentence boundary events */
   sentenceBoundaryEnabled: boolean;
   /** Enable word boundary events */
@@ -549,6 +988,12 @@ export interface SpeechAPIConfig {
   voice?: SpeechVoiceConfig;
   /** Optional state configuration */
   state?: SpeechStateConfig;
+  /** Pronunciation lexicon applied to plain text passed to speak() */
+  lexicon?: LexiconEntry[];
+  /** Text normalization applied to plain text passed to speak() */
+  normalize?: boolean | NormalizationOptions;
+  /** Audio format of every utterance unless speak() sets its own */
+  outputFormat?: AudioOutputFormat;
 }
 
 /**
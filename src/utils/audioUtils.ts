@@ -4,7 +4,9 @@
  * and audio streaming buffer management.
  */
 
+import type { AudioFormatInfo, AudioOutputFormat } from "../types";
 import {
+  AUDIO_FORMAT_DETAILS,
   AUDIO_FORMATS,
   DEFAULT_AUDIO_FORMAT,
   WORD_BOUNDARY_OFFSET_COMPENSATION,
@@ -85,14 +87,37 @@ export interface AudioStreamBuffer {
 // ============================================================================
 
 /**
- * Validates if the provided format string matches Edge TTS MP3 format
- * Edge TTS only supports: "audio-24khz-48kbitrate-mono-mp3"
+ * Validates if the provided format string is one of the Edge TTS MP3 formats
  *
  * @param format - Audio format string to validate
- * @returns True if format is the supported Edge TTS MP3 format
+ * @returns True if format is a supported Edge TTS MP3 format
  */
 export function isValidMP3Format(format: string): boolean {
-  return format === AUDIO_FORMATS.MP3_24KHZ_48KBPS;
+  return getAudioFormatInfo(format)?.container === "mp3";
+}
+
+/**
+ * Checks that a format string is one of the supported output formats
+ *
+ * @param format - Audio format string to check
+ * @returns True if the format can be requested from Edge TTS
+ */
+export function isSupportedAudioFormat(
+  format: string,
+): format is AudioOutputFormat {
+  return (Object.values(AUDIO_FORMATS) as string[]).includes(format);
+}
+
+/**
+ * Returns container, MIME type and encoding of an output format
+ *
+ * @param format - Audio format string
+ * @returns Format details or null if the format is not supported
+ */
+export function getAudioFormatInfo(format: string): AudioFormatInfo | null {
+  return isSupportedAudioFormat(format)
+    ? (AUDIO_FORMAT_DETAILS[format] as AudioFormatInfo)
+    : null;
 }
 
 /**
@@ -116,12 +141,455 @@ export function detectMP3Format(data: ArrayBuffer): boolean {
 
 /**
  * Validates that audio data conforms to Edge TTS MP3 specifications
+ * Every frame header is parsed: the data must start with a frame, after any
+ * ID3v2 tags, and each frame must be followed by another of the same stream.
+ * The data may end in a frame that is still arriving or an ID3v1 tag.
  *
  * @param data - Audio data to validate
  * @returns True if data is valid Edge TTS MP3 format
  */
 export function validateEdgeTTSMP3(data: ArrayBuffer): boolean {
-  return detectMP3Format(data);
+  const bytes = new Uint8Array(data);
+  const start = skipID3v2Tags(bytes);
+  const first = parseMP3FrameHeader(bytes, start);
+  if (!first) {
+    return false;
+  }
+
+  let end = start;
+  for (const frame of readMP3Frames(bytes, start)) {
+    end = frame.offset + frame.header.frameLength;
+  }
+  return end === bytes.length || isMP3Remainder(bytes, end, first);
+}
+
+/**
+ * Header fields of an MPEG audio frame
+ */
+export interface MP3FrameHeader {
+  /** MPEG version: 1, 2 or 2.5 */
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  /** Bit rate in kbps */
+  bitRate: number;
+  /** Sample rate in Hz */
+  sampleRate: number;
+  channels: 1 | 2;
+  padding: boolean;
+  /** Length of the frame in bytes, header included */
+  frameLength: number;
+  /** Samples per channel in the frame */
+  samples: number;
+}
+
+/**
+ * Bit rates in kbps by bit rate index, for Layers I, II and III of MPEG-1
+ * and of MPEG-2/2.5
+ */
+const MP3_BIT_RATES = {
+  mpeg1: [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  mpeg2: [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+};
+
+/** MPEG-1 sample rates by index; MPEG-2 halves and MPEG-2.5 quarters them */
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/** Length of an ID3v1 tag, which may follow the last frame */
+const ID3V1_LENGTH = 128;
+
+/**
+ * Parses the MPEG audio frame header at `offset`
+ *
+ * @param data - Audio data
+ * @param offset - Offset of the header in the data
+ * @returns Header fields, or null if there is no valid header at `offset`
+ */
+export function parseMP3FrameHeader(
+  data: Uint8Array,
+  offset: number = 0,
+): MP3FrameHeader | null {
+  if (
+    offset + 4 > data.length ||
+    data[offset] !== 0xff ||
+    (data[offset + 1] & 0xe0) !== 0xe0
+  ) {
+    return null;
+  }
+  // Version bits: 3 is MPEG-1, 2 is MPEG-2, 0 is MPEG-2.5, 1 is reserved
+  const versionBits = (data[offset + 1] >> 3) & 0x03;
+  const layerBits = (data[offset + 1] >> 1) & 0x03;
+  const bitRateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  // Free format frames (bit rate index 0) do not give their length
+  if (
+    versionBits === 1 ||
+    layerBits === 0 ||
+    bitRateIndex === 0 ||
+    bitRateIndex === 15 ||
+    sampleRateIndex === 3
+  ) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitRate =
+    MP3_BIT_RATES[version === 1 ? "mpeg1" : "mpeg2"][layer - 1][bitRateIndex];
+  const sampleRate =
+    MP3_SAMPLE_RATES[sampleRateIndex] /
+    (version === 1 ? 1 : version === 2 ? 2 : 4);
+  const padding = (data[offset + 2] & 0x02) !== 0;
+  const samples = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+  const frameLength =
+    layer === 1
+      ? (Math.floor((12 * bitRate * 1000) / sampleRate) + (padding ? 1 : 0)) * 4
+      : Math.floor(((samples / 8) * bitRate * 1000) / sampleRate) +
+        (padding ? 1 : 0);
+
+  return {
+    version,
+    layer,
+    bitRate,
+    sampleRate,
+    // Channel mode 3 is mono; stereo, joint stereo and dual channel are 2
+    channels: data[offset + 3] >> 6 === 3 ? 1 : 2,
+    padding,
+    frameLength,
+    samples,
+  };
+}
+
+/**
+ * Complete frame of an MP3 stream
+ */
+interface MP3Frame {
+  offset: number;
+  header: MP3FrameHeader;
+}
+
+/**
+ * Walks the complete frames from `offset` while they belong to the stream
+ * of the first one: same version, layer and sample rate
+ */
+function* readMP3Frames(data: Uint8Array, offset: number): Generator<MP3Frame> {
+  const first = parseMP3FrameHeader(data, offset);
+  let header = first;
+  while (
+    first &&
+    header &&
+    header.version === first.version &&
+    header.layer === first.layer &&
+    header.sampleRate === first.sampleRate &&
+    offset + header.frameLength <= data.length
+  ) {
+    yield { offset, header };
+    offset += header.frameLength;
+    header = parseMP3FrameHeader(data, offset);
+  }
+}
+
+/**
+ * Whether the bytes after the last complete frame are a frame still
+ * arriving or an ID3v1 tag
+ */
+function isMP3Remainder(
+  data: Uint8Array,
+  offset: number,
+  first: MP3FrameHeader,
+): boolean {
+  const rest = data.length - offset;
+  if (rest < 4) {
+    // Too short for a header; only its sync byte can be checked
+    return rest === 0 || data[offset] === 0xff;
+  }
+  const next = parseMP3FrameHeader(data, offset);
+  if (next) {
+    return (
+      next.version === first.version &&
+      next.layer === first.layer &&
+      next.sampleRate === first.sampleRate &&
+      offset + next.frameLength > data.length
+    );
+  }
+  return rest === ID3V1_LENGTH && readASCII(data, offset, 3) === "TAG";
+}
+
+function readASCII(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] << 24) |
+      (data[offset + 1] << 16) |
+      (data[offset + 2] << 8) |
+      data[offset + 3]) >>>
+    0
+  );
+}
+
+/**
+ * Offset after the ID3v2 tags at the start of the data, 0 if there are none
+ */
+function skipID3v2Tags(data: Uint8Array): number {
+  let offset = 0;
+  while (offset + 10 <= data.length && readASCII(data, offset, 3) === "ID3") {
+    // The size is syncsafe: 7 bits per byte, without header and footer
+    const size =
+      ((data[offset + 6] & 0x7f) << 21) |
+      ((data[offset + 7] & 0x7f) << 14) |
+      ((data[offset + 8] & 0x7f) << 7) |
+      (data[offset + 9] & 0x7f);
+    const footer = data[offset + 5] & 0x10 ? 10 : 0;
+    offset += 10 + size + footer;
+  }
+  return offset;
+}
+
+/**
+ * Header of a Xing, Info or VBRI frame, which describes the stream and
+ * holds no audio
+ */
+interface MP3InfoTag {
+  type: "Xing" | "Info" | "VBRI";
+  /** Audio frames in the stream, when given */
+  frameCount?: number;
+  encoderDelay?: number;
+  encoderPadding?: number;
+}
+
+/**
+ * Reads the Xing, Info or VBRI header of the first frame, if it has one
+ */
+function readMP3InfoTag(
+  data: Uint8Array,
+  offset: number,
+  header: MP3FrameHeader,
+): MP3InfoTag | null {
+  const end = offset + header.frameLength;
+  // Xing and Info tags follow the side information of the frame
+  let position = offset + 4 + getSideInfoLayout(header).length;
+  const xing = readASCII(data, position, 4);
+
+  if ((xing === "Xing" || xing === "Info") && position + 8 <= end) {
+    const tag: MP3InfoTag = { type: xing };
+    const flags = readUint32(data, position + 4);
+    position += 8;
+    if (flags & 0x01) {
+      tag.frameCount = readUint32(data, position);
+      position += 4;
+    }
+    // Byte count, table of contents and quality
+    position += (flags & 0x02 ? 4 : 0) + (flags & 0x04 ? 100 : 0);
+    position += flags & 0x08 ? 4 : 0;
+
+    // A LAME or FFmpeg extension gives the padding added around the audio
+    const encoder = readASCII(data, position, 4);
+    if (
+      (encoder === "LAME" || encoder === "Lavc" || encoder === "Lavf") &&
+      position + 24 <= end
+    ) {
+      tag.encoderDelay =
+        (data[position + 21] << 4) | (data[position + 22] >> 4);
+      tag.encoderPadding =
+        ((data[position + 22] & 0x0f) << 8) | data[position + 23];
+    }
+    return tag;
+  }
+
+  // VBRI always starts 32 bytes after the header
+  position = offset + 4 + 32;
+  if (readASCII(data, position, 4) === "VBRI" && position + 18 <= end) {
+    return {
+      type: "VBRI",
+      frameCount: readUint32(data, position + 14),
+    };
+  }
+  return null;
+}
+
+/**
+ * Description of MP3 audio read from its frames
+ */
+export interface AudioInfo {
+  /** MPEG version: 1, 2 or 2.5 */
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  /** Sample rate in Hz */
+  sampleRate: number;
+  channels: 1 | 2;
+  /** Average bit rate in kbps */
+  bitRate: number;
+  /** Whether the frames differ in bit rate */
+  isVBR: boolean;
+  /** Number of complete audio frames */
+  frameCount: number;
+  /** Duration of the audio frames in milliseconds */
+  durationMs: number;
+  /** Offset of the first audio frame, after ID3v2 tags and any Xing, Info or VBRI frame */
+  audioOffset: number;
+  /** Length in bytes of the complete audio frames */
+  audioLength: number;
+  /** Xing, Info or VBRI header, which encoders write in the first frame */
+  infoTag?: "Xing" | "Info" | "VBRI";
+  /** Frames of the whole stream according to the info header */
+  declaredFrameCount?: number;
+  /** Silent samples the encoder added before the audio */
+  encoderDelay?: number;
+  /** Silent samples the encoder added after the audio */
+  encoderPadding?: number;
+}
+
+/**
+ * Reads the format and exact duration of MP3 audio from its frames.
+ * ID3v2 tags are skipped, and a Xing, Info or VBRI frame is reported
+ * but not counted as audio.
+ *
+ * @param buffer - MP3 audio, e.g. `SynthesisResult.audio`
+ * @returns Audio description, or null if the data is not MP3 audio
+ */
+export function getAudioInfo(
+  buffer: ArrayBuffer | Uint8Array,
+): AudioInfo | null {
+  const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let audioOffset = skipID3v2Tags(data);
+  const first = parseMP3FrameHeader(data, audioOffset);
+  if (!first) {
+    return null;
+  }
+
+  const tag = readMP3InfoTag(data, audioOffset, first);
+  if (tag) {
+    audioOffset += first.frameLength;
+  }
+  let frameCount = 0;
+  let audioLength = 0;
+  let samples = 0;
+  let isVBR = tag?.type === "Xing" || tag?.type === "VBRI";
+  for (const { header } of readMP3Frames(data, audioOffset)) {
+    isVBR = isVBR || header.bitRate !== first.bitRate;
+    frameCount++;
+    audioLength += header.frameLength;
+    samples += header.samples;
+  }
+
+  const durationMs = (samples * 1000) / first.sampleRate;
+  return {
+    version: first.version,
+    layer: first.layer,
+    sampleRate: first.sampleRate,
+    channels: first.channels,
+    bitRate:
+      durationMs > 0
+        ? Math.round((audioLength * 8) / durationMs)
+        : first.bitRate,
+    isVBR,
+    frameCount,
+    durationMs: Math.round(durationMs),
+    audioOffset,
+    audioLength,
+    infoTag: tag?.type,
+    declaredFrameCount: tag?.frameCount,
+    encoderDelay: tag?.encoderDelay,
+    encoderPadding: tag?.encoderPadding,
+  };
+}
+
+/**
+ * Length of the complete MP3 frames at the start of the data.
+ * Audio up to this length plays on its own; the rest is a frame that is
+ * still arriving.
+ *
+ * @param data - MP3 data starting at a frame header or ID3v2 tag
+ * @returns Length in bytes of the leading tags and complete frames
+ */
+export function getCompleteMP3Length(data: Uint8Array): number {
+  const start = skipID3v2Tags(data);
+  let end = 0;
+  for (const frame of readMP3Frames(data, start)) {
+    end = frame.offset + frame.header.frameLength;
+  }
+  return end;
+}
+
+/**
+ * Finds the frame playing at a position, to start playback from there
+ *
+ * @param data - MP3 data starting at a frame header or ID3v2 tag
+ * @param positionMs - Position in the audio in milliseconds
+ * @returns Offset of the frame and the time it starts at; past the last
+ * complete frame, the offset and time where those frames end
+ */
+export function findMP3FrameAt(
+  data: Uint8Array,
+  positionMs: number,
+): { offset: number; positionMs: number } {
+  let offset = skipID3v2Tags(data);
+  const first = parseMP3FrameHeader(data, offset);
+  if (first && readMP3InfoTag(data, offset, first)) {
+    offset += first.frameLength;
+  }
+
+  let startMs = 0;
+  for (const frame of readMP3Frames(data, offset)) {
+    const { header } = frame;
+    const endMs = startMs + (header.samples * 1000) / header.sampleRate;
+    if (endMs > positionMs) {
+      return { offset: frame.offset, positionMs: startMs };
+    }
+    startMs = endMs;
+    offset = frame.offset + header.frameLength;
+  }
+  return { offset, positionMs: startMs };
+}
+
+/**
+ * Checks whether binary data starts with the given ASCII signature
+ */
+function hasSignature(
+  data: ArrayBuffer,
+  signature: string,
+  offset: number = 0,
+): boolean {
+  if (data.byteLength < offset + signature.length) {
+    return false;
+  }
+  const view = new Uint8Array(data, offset, signature.length);
+  return [...signature].every((char, i) => view[i] === char.charCodeAt(0));
+}
+
+/**
+ * Validates that audio data starts with the container of an output format
+ * MP3 frame sync, WebM EBML header, Ogg page or RIFF/WAVE header
+ *
+ * @param data - Audio data to validate
+ * @param format - Output format the data was requested in
+ * @returns True if the data matches the format
+ */
+export function validateAudioFormat(
+  data: ArrayBuffer,
+  format: string,
+): boolean {
+  switch (getAudioFormatInfo(format)?.container) {
+    case "mp3":
+      return validateEdgeTTSMP3(data);
+    case "webm":
+      return hasSignature(data, "\x1a\x45\xdf\xa3");
+    case "ogg":
+      return hasSignature(data, "OggS");
+    case "riff":
+      return hasSignature(data, "RIFF") && hasSignature(data, "WAVE", 8);
+    default:
+      return false;
+  }
 }
 
 // ============================================================================
@@ -219,7 +687,7 @@ export function isAudioMessage(message: EdgeTTSBinaryMessage): boolean {
 
 /**
  * Extracts audio metadata from Edge TTS binary message
- * Based on Edge TTS specification: 24kHz, 48kbps, mono MP3
+ * Sample rate, bit rate and channels are read from the MP3 frame headers
  *
  * @param message - Parsed Edge TTS binary message
  * @returns Audio metadata or null if not an audio message
@@ -231,35 +699,112 @@ export function extractAudioMetadata(
     return null;
   }
 
-  // Edge TTS uses fixed audio format specifications
+  const info = getAudioInfo(message.audioData);
+  if (!info) {
+    return null;
+  }
   return {
     format: DEFAULT_AUDIO_FORMAT,
-    sampleRate: 24000, // 24kHz
-    bitRate: 48, // 48kbps
-    channels: 1, // mono
-    estimatedDuration: estimateMP3Duration(message.audioData),
+    sampleRate: info.sampleRate,
+    bitRate: info.bitRate,
+    channels: info.channels,
+    estimatedDuration: info.durationMs,
   };
 }
 
 /**
- * Estimates MP3 audio duration from binary data
- * Uses frame counting approach for MP3 duration calculation
+ * Calculates MP3 audio duration from binary data
+ * Counts the samples of each complete frame, so the duration is exact
+ * whatever the bit rate; a frame still arriving is not counted
  *
  * @param mp3Data - MP3 audio data
- * @returns Estimated duration in milliseconds
+ * @returns Duration in milliseconds, 0 if the data is not MP3 audio
  */
 export function estimateMP3Duration(mp3Data: ArrayBuffer): number {
-  if (!detectMP3Format(mp3Data)) {
+  return getAudioInfo(mp3Data)?.durationMs ?? 0;
+}
+
+/**
+ * Offset of the sample data in a RIFF/WAVE file, or 0 for headerless PCM
+ */
+function findWaveDataOffset(data: ArrayBuffer): number {
+  if (!hasSignature(data, "RIFF")) {
     return 0;
   }
+  const view = new DataView(data);
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    if (hasSignature(data, "data", offset)) {
+      return offset + 8;
+    }
+    offset += 8 + view.getUint32(offset + 4, true);
+  }
+  return data.byteLength;
+}
 
-  // For Edge TTS fixed format (24kHz, 48kbps, mono)
-  // Simple estimation: fileSize (bytes) / bitRate (bytes/sec) = duration (sec)
-  const fileSizeBytes = mp3Data.byteLength;
-  const bitRateBytesPerSecond = (48 * 1000) / 8; // 48kbps to bytes/sec
-  const durationSeconds = fileSizeBytes / bitRateBytesPerSecond;
+/**
+ * Duration of an Ogg Opus stream from the granule position of its last
+ * page, which counts 48kHz samples including the pre-skip
+ */
+function readOggOpusDuration(data: ArrayBuffer): number | null {
+  const view = new DataView(data);
+  let preSkip = 0;
+  for (let i = 0; i + 12 <= Math.min(data.byteLength, 512); i++) {
+    if (hasSignature(data, "OpusHead", i)) {
+      preSkip = view.getUint16(i + 10, true);
+      break;
+    }
+  }
+  for (let i = data.byteLength - 27; i >= 0; i--) {
+    if (!hasSignature(data, "OggS", i)) {
+      continue;
+    }
+    const low = view.getUint32(i + 6, true);
+    const high = view.getUint32(i + 10, true);
+    // -1 marks pages on which no packet ends
+    if (low === 0xffffffff && high === 0xffffffff) {
+      continue;
+    }
+    const samples = high * 0x100000000 + low - preSkip;
+    return Math.round((Math.max(0, samples) / 48000) * 1000);
+  }
+  return null;
+}
 
-  return Math.round(durationSeconds * 1000); // Convert to milliseconds
+/**
+ * Estimates the duration of audio in an output format
+ * PCM is exact, MP3 is counted from its frames, Ogg Opus is read from the
+ * last page's granule position and WebM is estimated from the bit rate.
+ *
+ * @param data - Complete audio data
+ * @param format - Output format the data was requested in
+ * @returns Duration in milliseconds
+ */
+export function estimateAudioDuration(
+  data: ArrayBuffer,
+  format: string,
+): number {
+  const info = getAudioFormatInfo(format);
+  if (!info || data.byteLength === 0) {
+    return 0;
+  }
+  if (info.container === "riff") {
+    const bytes = data.byteLength - findWaveDataOffset(data);
+    return Math.round((bytes * 8 * 1000) / info.bitRate);
+  }
+  if (info.container === "mp3") {
+    const mp3Info = getAudioInfo(data);
+    if (mp3Info) {
+      return mp3Info.durationMs;
+    }
+  }
+  if (info.container === "ogg") {
+    const duration = readOggOpusDuration(data);
+    if (duration !== null) {
+      return duration;
+    }
+  }
+  return Math.round((data.byteLength * 8 * 1000) / info.bitRate);
 }
 
 // ============================================================================
@@ -410,6 +955,385 @@ export function hasAudioData(buffer: AudioStreamBuffer): boolean {
   return buffer.chunks.length > 0 && buffer.totalSize > 0;
 }
 
+// ============================================================================
+// Gapless MP3 Concatenation
+// ============================================================================
+
+/**
+ * Options for joining MP3 clips
+ */
+export interface MP3ConcatOptions {
+  /**
+   * Silence between clips in milliseconds, one value for every join or one
+   * per join (default: 0). Rounded to whole frames of silence.
+   */
+  gapMs?: number | readonly number[];
+  /**
+   * Remove frames without audio data from the start and end of each clip
+   * (default: true). Layer III only.
+   */
+  trimSilence?: boolean;
+}
+
+/**
+ * Frames of one clip to join and the tags around them
+ */
+interface MP3Clip {
+  data: Uint8Array;
+  frames: MP3Frame[];
+  /** Length of the leading ID3v2 tags */
+  tagLength: number;
+  /** Trailing ID3v1 tag, if any */
+  id3v1: Uint8Array | null;
+}
+
+function readBits(data: Uint8Array, bitOffset: number, count: number): number {
+  let value = 0;
+  for (let i = bitOffset; i < bitOffset + count; i++) {
+    value = (value << 1) | ((data[i >> 3] >> (7 - (i & 7))) & 1);
+  }
+  return value;
+}
+
+/**
+ * Layout of the side information of a Layer III frame
+ */
+function getSideInfoLayout(header: MP3FrameHeader) {
+  const isMPEG1 = header.version === 1;
+  const mono = header.channels === 1;
+  return {
+    length: isMPEG1 ? (mono ? 17 : 32) : mono ? 9 : 17,
+    mainDataBeginBits: isMPEG1 ? 9 : 8,
+    // Bits before the first granule: main_data_begin, private bits, scfsi
+    granulesStart: isMPEG1 ? (mono ? 18 : 20) : mono ? 9 : 10,
+    granuleBits: isMPEG1 ? 59 : 63,
+    granules: isMPEG1 ? 2 : 1,
+  };
+}
+
+/**
+ * Reads what the bit reservoir of a Layer III frame needs: how far back in
+ * earlier frames its main data begins, and how much main data it holds
+ */
+function readMainData(
+  data: Uint8Array,
+  frame: MP3Frame,
+): { begin: number; length: number; silent: boolean } {
+  const { header } = frame;
+  // The protection bit is 0 when a 16 bit CRC follows the header
+  const sideInfo = frame.offset + 4 + (data[frame.offset + 1] & 0x01 ? 0 : 2);
+  const layout = getSideInfoLayout(header);
+  const bit = sideInfo * 8;
+
+  let silent = true;
+  for (let i = 0; i < layout.granules * header.channels; i++) {
+    const part2And3Length = readBits(
+      data,
+      bit + layout.granulesStart + i * layout.granuleBits,
+      12,
+    );
+    silent = silent && part2And3Length === 0;
+  }
+  return {
+    begin: readBits(data, bit, layout.mainDataBeginBits),
+    length: frame.offset + header.frameLength - sideInfo - layout.length,
+    silent,
+  };
+}
+
+/**
+ * Index range of the frames of a clip that hold audio.
+ * The first kept frame is moved back until no kept frame takes main data
+ * from a dropped one, as decoders would otherwise play noise.
+ */
+function findAudibleFrames(
+  data: Uint8Array,
+  frames: MP3Frame[],
+): { start: number; end: number } {
+  const mainData = frames.map((frame) => readMainData(data, frame));
+  const first = mainData.findIndex((frame) => !frame.silent);
+  if (first === -1) {
+    // Silence only, e.g. a clip of a single break
+    return { start: 0, end: frames.length };
+  }
+  let end = frames.length;
+  while (mainData[end - 1].silent) {
+    end--;
+  }
+  // One silent frame lets the decoder finish the overlap of the last one
+  end = Math.min(end + 1, frames.length);
+
+  // Position of each frame's main data in the reservoir stream
+  const dataOffsets: number[] = [];
+  let offset = 0;
+  for (const frame of mainData) {
+    dataOffsets.push(offset);
+    offset += frame.length;
+  }
+  let start = first;
+  let earliest = Infinity;
+  for (let i = end - 1; i >= first; i--) {
+    earliest = Math.min(earliest, dataOffsets[i] - mainData[i].begin);
+  }
+  while (start > 0 && earliest < dataOffsets[start]) {
+    start--;
+    earliest = Math.min(earliest, dataOffsets[start] - mainData[start].begin);
+  }
+  return { start, end };
+}
+
+/**
+ * Builds a frame that decodes to silence, in the format of `header`:
+ * no CRC, no padding and all side information and audio data zero
+ */
+function createSilentMP3Frame(header: Uint8Array): Uint8Array {
+  const bytes = header.slice(0, 4);
+  bytes[1] |= 0x01;
+  bytes[2] &= ~0x02;
+  const frame = new Uint8Array(parseMP3FrameHeader(bytes)!.frameLength);
+  frame.set(bytes);
+  return frame;
+}
+
+/**
+ * Builds a Xing or Info frame giving the frame and byte count of the
+ * joined audio, so players read its exact duration without scanning it
+ */
+function createMP3InfoFrame(
+  header: Uint8Array,
+  frameCount: number,
+  byteCount: number,
+  isVBR: boolean,
+): Uint8Array | null {
+  const frame = createSilentMP3Frame(header);
+  const offset = 4 + getSideInfoLayout(parseMP3FrameHeader(frame)!).length;
+  if (offset + 16 > frame.length) {
+    return null;
+  }
+  const view = new DataView(frame.buffer);
+  frame.set(
+    [...(isVBR ? "Xing" : "Info")].map((char) => char.charCodeAt(0)),
+    offset,
+  );
+  // Flags: frame count and byte count follow
+  view.setUint32(offset + 4, 0x03);
+  view.setUint32(offset + 8, frameCount);
+  view.setUint32(offset + 12, byteCount + frame.length);
+  return frame;
+}
+
+function readMP3Clip(buffer: ArrayBuffer | Uint8Array, index: number): MP3Clip {
+  const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const tagLength = skipID3v2Tags(data);
+  let start = tagLength;
+  const first = parseMP3FrameHeader(data, start);
+  if (!first) {
+    throw new Error(`Clip ${index} is not MP3 audio`);
+  }
+  // The info frame of a clip is wrong for the joined audio
+  if (readMP3InfoTag(data, start, first)) {
+    start += first.frameLength;
+  }
+
+  const frames = [...readMP3Frames(data, start)];
+  const end = frames.length
+    ? frames[frames.length - 1].offset +
+      frames[frames.length - 1].header.frameLength
+    : start;
+  const isID3v1 =
+    data.length - end === ID3V1_LENGTH && readASCII(data, end, 3) === "TAG";
+  return {
+    data,
+    frames,
+    tagLength,
+    id3v1: isID3v1 ? data.subarray(end) : null,
+  };
+}
+
+/**
+ * Joins MP3 clips, such as several synthesized utterances, into one MP3.
+ * Clips are cut at frame boundaries, without their info frames and, unless
+ * `trimSilence` is false, the silent frames around their audio. Gaps are
+ * filled with silent frames, and a new Info or Xing frame gives the total
+ * duration. Only the first clip's ID3v2 tag and the last clip's ID3v1 tag
+ * are kept.
+ *
+ * @param clips - MP3 audio of one format, e.g. `SynthesisResult.audio`
+ * @param options - Gap and trimming options
+ * @returns The joined MP3 audio
+ * @throws Error if a clip is not MP3 or differs in version, layer, sample
+ * rate or channels from the first
+ */
+export function concatenateMP3(
+  clips: readonly (ArrayBuffer | Uint8Array)[],
+  options: MP3ConcatOptions = {},
+): Uint8Array {
+  const parsed = clips.map(readMP3Clip);
+  const reference = parsed.find((clip) => clip.frames.length > 0);
+  if (!reference) {
+    return new Uint8Array(0);
+  }
+  const format = reference.frames[0].header;
+  const headerBytes = reference.data.subarray(
+    reference.frames[0].offset,
+    reference.frames[0].offset + 4,
+  );
+  const silentFrame = createSilentMP3Frame(headerBytes);
+  const frameMs = (format.samples * 1000) / format.sampleRate;
+
+  const parts: Uint8Array[] = [];
+  let frameCount = 0;
+  let isVBR = false;
+  parsed.forEach((clip, index) => {
+    if (index > 0) {
+      const gaps = options.gapMs ?? 0;
+      const gapMs = typeof gaps === "number" ? gaps : (gaps[index - 1] ?? 0);
+      const silentFrames = Math.max(0, Math.round(gapMs / frameMs));
+      for (let i = 0; i < silentFrames; i++) {
+        parts.push(silentFrame);
+      }
+      frameCount += silentFrames;
+    }
+    if (clip.frames.length === 0) {
+      return;
+    }
+
+    const { header } = clip.frames[0];
+    if (
+      header.version !== format.version ||
+      header.layer !== format.layer ||
+      header.sampleRate !== format.sampleRate ||
+      header.channels !== format.channels
+    ) {
+      throw new Error(
+        `Clip ${index} differs in format from the first clip: ${header.sampleRate}Hz, ${header.channels} channels`,
+      );
+    }
+    const { start, end } =
+      options.trimSilence !== false && format.layer === 3
+        ? findAudibleFrames(clip.data, clip.frames)
+        : { start: 0, end: clip.frames.length };
+    for (const frame of clip.frames.slice(start, end)) {
+      isVBR = isVBR || frame.header.bitRate !== format.bitRate;
+    }
+    parts.push(
+      clip.data.subarray(
+        clip.frames[start].offset,
+        clip.frames[end - 1].offset + clip.frames[end - 1].header.frameLength,
+      ),
+    );
+    frameCount += end - start;
+  });
+
+  const audioLength = parts.reduce((sum, part) => sum + part.length, 0);
+  const infoFrame = createMP3InfoFrame(
+    headerBytes,
+    frameCount,
+    audioLength,
+    isVBR,
+  );
+  const id3v2 = parsed[0].data.subarray(0, parsed[0].tagLength);
+  const id3v1 = parsed[parsed.length - 1].id3v1;
+  const output = [id3v2, ...(infoFrame ? [infoFrame] : []), ...parts];
+  if (id3v1) {
+    output.push(id3v1);
+  }
+
+  const result = new Uint8Array(
+    output.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of output) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// ============================================================================
+// Streamed MP3 Segments
+// ============================================================================
+
+/**
+ * MP3 audio cut from a stream, ready to play on its own
+ */
+export interface MP3Segment {
+  data: Uint8Array;
+  /** Duration of the muted frames in front of the audio, in milliseconds */
+  leadMs: number;
+}
+
+/**
+ * Copies a Layer III frame with its side information zeroed: it decodes to
+ * silence, but its main data still fills the bit reservoir
+ */
+function muteMP3Frame(data: Uint8Array, frame: MP3Frame): Uint8Array {
+  const muted = data.slice(
+    frame.offset,
+    frame.offset + frame.header.frameLength,
+  );
+  const sideInfo = 4 + (muted[1] & 0x01 ? 0 : 2);
+  muted.fill(0, sideInfo, sideInfo + getSideInfoLayout(frame.header).length);
+  return muted;
+}
+
+/**
+ * Prepares MP3 audio cut from a stream at a frame boundary to play on its
+ * own. Layer III frames may take main data from the frames before them
+ * (the bit reservoir), so the first frames after a cut would decode as
+ * noise; the earlier frames they take it from are put in front, muted.
+ *
+ * @param before - Audio of the stream before the cut, ending at a frame
+ * @param audio - Complete frames of the stream from the cut on
+ * @returns The audio to play, starting with the muted frames if any
+ */
+export function createMP3Segment(
+  before: Uint8Array,
+  audio: Uint8Array,
+): MP3Segment {
+  const frames = [...readMP3Frames(audio, skipID3v2Tags(audio))];
+  const format = frames[0]?.header;
+  if (!format || format.layer !== 3) {
+    return { data: audio, leadMs: 0 };
+  }
+
+  // Main data the frames after the cut take from before it, in bytes
+  let needed = 0;
+  let dataOffset = 0;
+  for (const frame of frames) {
+    const mainData = readMainData(audio, frame);
+    needed = Math.max(needed, mainData.begin - dataOffset);
+    dataOffset += mainData.length;
+  }
+  if (needed === 0) {
+    return { data: audio, leadMs: 0 };
+  }
+
+  let start = skipID3v2Tags(before);
+  const first = parseMP3FrameHeader(before, start);
+  if (first && readMP3InfoTag(before, start, first)) {
+    start += first.frameLength;
+  }
+  const previous = [...readMP3Frames(before, start)];
+  const lead: Uint8Array[] = [];
+  let leadSamples = 0;
+  for (let i = previous.length - 1; i >= 0 && needed > 0; i--) {
+    lead.unshift(muteMP3Frame(before, previous[i]));
+    leadSamples += previous[i].header.samples;
+    needed -= readMainData(before, previous[i]).length;
+  }
+
+  const data = new Uint8Array(
+    lead.reduce((sum, frame) => sum + frame.length, audio.length),
+  );
+  let offset = 0;
+  for (const frame of [...lead, audio]) {
+    data.set(frame, offset);
+    offset += frame.length;
+  }
+  return { data, leadMs: (leadSamples * 1000) / format.sampleRate };
+}
+
 // ============================================================================
 // Edge Cases and Error Handling
 // ============================================================================
@@ -756,6 +1680,74 @@ export function validateExpoAVCompatibility(
 // Streaming Audio Validation for Real-time Processing
 // ============================================================================
 
+/**
+ * Validates MP3 audio chunk by chunk as it arrives
+ */
+export interface MP3ChunkValidator {
+  /**
+   * Validate the next chunk; frames may span chunks
+   *
+   * @returns False if the chunk breaks the frame sequence
+   */
+  validateChunk(chunk: Uint8Array): boolean;
+}
+
+/**
+ * Creates a validator that follows the MP3 frames across chunks.
+ * The first chunk must start with a frame or ID3v2 tag, and each frame must
+ * start where the one before ends.
+ *
+ * @returns MP3 chunk validator instance
+ */
+export function createMP3ChunkValidator(): MP3ChunkValidator {
+  let first: MP3FrameHeader | null = null;
+  // Start of a frame or tag that has not fully arrived
+  let pending: Uint8Array = new Uint8Array(0);
+
+  return {
+    validateChunk(chunk: Uint8Array): boolean {
+      let data = chunk;
+      if (pending.length > 0) {
+        data = new Uint8Array(pending.length + chunk.length);
+        data.set(pending);
+        data.set(chunk, pending.length);
+      }
+
+      let offset = 0;
+      if (!first) {
+        offset = skipID3v2Tags(data);
+        if (offset >= data.length) {
+          pending = data;
+          return true;
+        }
+        first = parseMP3FrameHeader(data, offset);
+        if (!first) {
+          // Only the sync byte of a header that is still arriving
+          pending = data;
+          return data.length - offset < 4 && data[offset] === 0xff;
+        }
+      }
+
+      for (const frame of readMP3Frames(data, offset)) {
+        const header = frame.header;
+        if (
+          header.version !== first.version ||
+          header.layer !== first.layer ||
+          header.sampleRate !== first.sampleRate
+        ) {
+          break;
+        }
+        offset = frame.offset + header.frameLength;
+      }
+      if (offset !== data.length && !isMP3Remainder(data, offset, first)) {
+        return false;
+      }
+      pending = data.slice(offset);
+      return true;
+    },
+  };
+}
+
 /**
  * Real-time streaming validator for audio processing
  */
@@ -4,8 +4,24 @@
  */
 
 import * as Crypto from "expo-crypto";
-import { SpeechOptions, SpeechError } from "../types";
-import { MAX_TEXT_LENGTH, PARAMETER_RANGES, DEFAULT_VOICE } from "../constants";
+import { SpeechOptions, SpeechError, SpeechInputType } from "../types";
+import {
+  AUDIO_FORMATS,
+  MAX_TEXT_LENGTH,
+  PARAMETER_RANGES,
+  DEFAULT_VOICE,
+  SSML_VALIDATION,
+} from "../constants";
+
+/**
+ * Supported values for SpeechOptions.inputType
+ */
+const SPEECH_INPUT_TYPES: readonly SpeechInputType[] = [
+  "text",
+  "ssml",
+  "markdown",
+  "html",
+];
 
 /**
  * Validation result interface
@@ -194,6 +210,87 @@ export function validateSpeechParameters(
     errors.push("Language must be a string");
   }
 
+  // Validate long text chunking flag
+  if (
+    options.chunkLongText !== undefined &&
+    typeof options.chunkLongText !== "boolean"
+  ) {
+    errors.push("chunkLongText must be a boolean");
+  }
+
+  // Validate automatic language detection flag
+  if (
+    options.autoLanguage !== undefined &&
+    typeof options.autoLanguage !== "boolean"
+  ) {
+    errors.push("autoLanguage must be a boolean");
+  }
+
+  // Validate input type
+  if (
+    options.inputType !== undefined &&
+    !SPEECH_INPUT_TYPES.includes(options.inputType)
+  ) {
+    errors.push(`Input type must be one of: ${SPEECH_INPUT_TYPES.join(", ")}`);
+  }
+
+  // Validate speaking style options
+  const { MIN_STYLE_DEGREE, MAX_STYLE_DEGREE, ROLES } =
+    SSML_VALIDATION.EXPRESS_AS;
+  if (
+    options.style !== undefined &&
+    (typeof options.style !== "string" || !/^[A-Za-z-]+$/.test(options.style))
+  ) {
+    errors.push("Style must be a style name such as cheerful or sad");
+  }
+  if (options.styleDegree !== undefined) {
+    if (typeof options.styleDegree !== "number" || isNaN(options.styleDegree)) {
+      errors.push("Style degree must be a valid number");
+    } else if (
+      options.styleDegree < MIN_STYLE_DEGREE ||
+      options.styleDegree > MAX_STYLE_DEGREE
+    ) {
+      if (clampValues) {
+        normalizedOptions.styleDegree = clampValue(
+          options.styleDegree,
+          MIN_STYLE_DEGREE,
+          MAX_STYLE_DEGREE,
+        );
+        warnings.push(
+          `Style degree ${options.styleDegree} clamped to ${normalizedOptions.styleDegree}`,
+        );
+      } else {
+        errors.push(
+          `Style degree ${options.styleDegree} is outside valid range ${MIN_STYLE_DEGREE}-${MAX_STYLE_DEGREE}`,
+        );
+      }
+    }
+    if (options.style === undefined) {
+      warnings.push("Style degree has no effect without a style");
+    }
+  }
+  if (
+    options.role !== undefined &&
+    !(ROLES as readonly string[]).includes(options.role)
+  ) {
+    errors.push(`Role must be one of: ${ROLES.join(", ")}`);
+  }
+
+  // Validate pronunciation lexicon
+  if (options.lexicon !== undefined) {
+    errors.push(...validateLexiconEntries(options.lexicon));
+  }
+
+  // Validate text normalization
+  if (options.normalize !== undefined) {
+    errors.push(...validateNormalizationOptions(options.normalize));
+  }
+
+  // Validate audio output format
+  if (options.outputFormat !== undefined) {
+    errors.push(...validateOutputFormat(options.outputFormat));
+  }
+
   return {
     result: {
       isValid: errors.length === 0,
@@ -204,6 +301,88 @@ export function validateSpeechParameters(
   };
 }
 
+/**
+ * Validate pronunciation lexicon entries
+ * @param entries - Lexicon from SpeechOptions or SpeechAPIConfig
+ * @returns Error messages, empty if the lexicon is valid
+ */
+export function validateLexiconEntries(entries: unknown): string[] {
+  if (!Array.isArray(entries)) {
+    return ["Lexicon must be an array of entries"];
+  }
+
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const label = `Lexicon entry ${index + 1}`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (
+      !(entry.match instanceof RegExp) &&
+      (typeof entry.match !== "string" || entry.match.trim() === "")
+    ) {
+      errors.push(`${label} must match a non-empty string or a RegExp`);
+    }
+
+    const targets = ["replacement", "phoneme", "alias"].filter(
+      (key) => entry[key] !== undefined,
+    );
+    if (targets.length !== 1) {
+      errors.push(
+        `${label} must have exactly one of replacement, phoneme or alias`,
+      );
+    } else if (typeof entry[targets[0]] !== "string") {
+      errors.push(`${label} ${targets[0]} must be a string`);
+    } else if (targets[0] !== "replacement" && !entry[targets[0]].trim()) {
+      errors.push(`${label} ${targets[0]} cannot be empty`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Validate text normalization settings
+ * @param normalize - normalize value from SpeechOptions or SpeechAPIConfig
+ * @returns Error messages, empty if the settings are valid
+ */
+export function validateNormalizationOptions(normalize: unknown): string[] {
+  if (typeof normalize === "boolean") {
+    return [];
+  }
+  if (!normalize || typeof normalize !== "object") {
+    return ["Normalize must be a boolean or a NormalizationOptions object"];
+  }
+
+  const { locale, skip } = normalize as { locale?: unknown; skip?: unknown };
+  const errors: string[] = [];
+  if (
+    locale !== undefined &&
+    (typeof locale !== "string" || locale.trim() === "")
+  ) {
+    errors.push("Normalization locale must be a non-empty string");
+  }
+  if (
+    skip !== undefined &&
+    (!Array.isArray(skip) || skip.some((name) => typeof name !== "string"))
+  ) {
+    errors.push("Normalization skip must be an array of normalizer names");
+  }
+  return errors;
+}
+
+/**
+ * Validate an audio output format
+ * @param outputFormat - outputFormat from SpeechOptions or SpeechAPIConfig
+ * @returns Error messages, empty if the format is supported
+ */
+export function validateOutputFormat(outputFormat: unknown): string[] {
+  const formats: unknown[] = Object.values(AUDIO_FORMATS);
+  return formats.includes(outputFormat)
+    ? []
+    : [`Output format must be one of: ${formats.join(", ")}`];
+}
+
 /**
  * Create a standardized SpeechError
  * @param name - Error name
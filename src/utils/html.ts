@@ -0,0 +1,813 @@
+/**
+ * HTML extraction for EdgeSpeech
+ * Reads web content as speech: scripts, styles, navigation and hidden
+ * elements are dropped, entities are decoded and text is read in document
+ * order with pauses between blocks. `lang` attributes mark the runs of text
+ * that should be read with a different voice.
+ */
+
+import type { TextNodePosition } from "../types";
+import { escapeXML, LanguageSegment } from "./ssmlUtils";
+
+/**
+ * Pause strengths used between blocks, weakest first
+ */
+const BREAK_STRENGTHS = ["weak", "medium", "strong"] as const;
+type BlockBreak = (typeof BREAK_STRENGTHS)[number];
+
+/** Elements whose content is never read */
+const SKIPPED_ELEMENTS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "head",
+  "title",
+  "nav",
+  "svg",
+  "iframe",
+  "object",
+  "canvas",
+  "textarea",
+]);
+
+/** Elements whose content is text up to the closing tag */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** Pause before and after an element */
+const ELEMENT_BREAKS: Record<string, BlockBreak> = {
+  h1: "strong",
+  h2: "strong",
+  h3: "strong",
+  h4: "strong",
+  h5: "strong",
+  h6: "strong",
+  hr: "strong",
+  address: "medium",
+  article: "medium",
+  aside: "medium",
+  blockquote: "medium",
+  caption: "medium",
+  dd: "medium",
+  details: "medium",
+  dialog: "medium",
+  div: "medium",
+  dl: "medium",
+  dt: "medium",
+  fieldset: "medium",
+  figcaption: "medium",
+  figure: "medium",
+  footer: "medium",
+  form: "medium",
+  header: "medium",
+  hgroup: "medium",
+  legend: "medium",
+  li: "medium",
+  main: "medium",
+  ol: "medium",
+  p: "medium",
+  pre: "medium",
+  section: "medium",
+  summary: "medium",
+  table: "medium",
+  tr: "medium",
+  ul: "medium",
+  br: "weak",
+  td: "weak",
+  th: "weak",
+};
+
+/**
+ * The named character references of HTML 4: Latin-1, Greek, punctuation
+ * and symbols
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  // Markup
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  // Latin-1
+  nbsp: "\u00a0",
+  iexcl: "¡",
+  cent: "¢",
+  pound: "£",
+  curren: "¤",
+  yen: "¥",
+  brvbar: "¦",
+  sect: "§",
+  uml: "¨",
+  copy: "©",
+  ordf: "ª",
+  laquo: "«",
+  not: "¬",
+  shy: "\u00ad",
+  reg: "®",
+  macr: "¯",
+  deg: "°",
+  plusmn: "±",
+  sup2: "²",
+  sup3: "³",
+  acute: "´",
+  micro: "µ",
+  para: "¶",
+  middot: "·",
+  cedil: "¸",
+  sup1: "¹",
+  ordm: "º",
+  raquo: "»",
+  frac14: "¼",
+  frac12: "½",
+  frac34: "¾",
+  iquest: "¿",
+  Agrave: "À",
+  Aacute: "Á",
+  Acirc: "Â",
+  Atilde: "Ã",
+  Auml: "Ä",
+  Aring: "Å",
+  AElig: "Æ",
+  Ccedil: "Ç",
+  Egrave: "È",
+  Eacute: "É",
+  Ecirc: "Ê",
+  Euml: "Ë",
+  Igrave: "Ì",
+  Iacute: "Í",
+  Icirc: "Î",
+  Iuml: "Ï",
+  ETH: "Ð",
+  Ntilde: "Ñ",
+  Ograve: "Ò",
+  Oacute: "Ó",
+  Ocirc: "Ô",
+  Otilde: "Õ",
+  Ouml: "Ö",
+  times: "×",
+  Oslash: "Ø",
+  Ugrave: "Ù",
+  Uacute: "Ú",
+  Ucirc: "Û",
+  Uuml: "Ü",
+  Yacute: "Ý",
+  THORN: "Þ",
+  szlig: "ß",
+  agrave: "à",
+  aacute: "á",
+  acirc: "â",
+  atilde: "ã",
+  auml: "ä",
+  aring: "å",
+  aelig: "æ",
+  ccedil: "ç",
+  egrave: "è",
+  eacute: "é",
+  ecirc: "ê",
+  euml: "ë",
+  igrave: "ì",
+  iacute: "í",
+  icirc: "î",
+  iuml: "ï",
+  eth: "ð",
+  ntilde: "ñ",
+  ograve: "ò",
+  oacute: "ó",
+  ocirc: "ô",
+  otilde: "õ",
+  ouml: "ö",
+  divide: "÷",
+  oslash: "ø",
+  ugrave: "ù",
+  uacute: "ú",
+  ucirc: "û",
+  uuml: "ü",
+  yacute: "ý",
+  thorn: "þ",
+  yuml: "ÿ",
+  // Latin Extended
+  OElig: "Œ",
+  oelig: "œ",
+  Scaron: "Š",
+  scaron: "š",
+  Yuml: "Ÿ",
+  fnof: "ƒ",
+  circ: "ˆ",
+  tilde: "˜",
+  // Greek
+  Alpha: "Α",
+  Beta: "Β",
+  Gamma: "Γ",
+  Delta: "Δ",
+  Epsilon: "Ε",
+  Zeta: "Ζ",
+  Eta: "Η",
+  Theta: "Θ",
+  Iota: "Ι",
+  Kappa: "Κ",
+  Lambda: "Λ",
+  Mu: "Μ",
+  Nu: "Ν",
+  Xi: "Ξ",
+  Omicron: "Ο",
+  Pi: "Π",
+  Rho: "Ρ",
+  Sigma: "Σ",
+  Tau: "Τ",
+  Upsilon: "Υ",
+  Phi: "Φ",
+  Chi: "Χ",
+  Psi: "Ψ",
+  Omega: "Ω",
+  alpha: "α",
+  beta: "β",
+  gamma: "γ",
+  delta: "δ",
+  epsilon: "ε",
+  zeta: "ζ",
+  eta: "η",
+  theta: "θ",
+  iota: "ι",
+  kappa: "κ",
+  lambda: "λ",
+  mu: "μ",
+  nu: "ν",
+  xi: "ξ",
+  omicron: "ο",
+  pi: "π",
+  rho: "ρ",
+  sigmaf: "ς",
+  sigma: "σ",
+  tau: "τ",
+  upsilon: "υ",
+  phi: "φ",
+  chi: "χ",
+  psi: "ψ",
+  omega: "ω",
+  thetasym: "ϑ",
+  upsih: "ϒ",
+  piv: "ϖ",
+  // Punctuation
+  ensp: "\u2002",
+  emsp: "\u2003",
+  thinsp: "\u2009",
+  zwnj: "\u200c",
+  zwj: "\u200d",
+  lrm: "\u200e",
+  rlm: "\u200f",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  sbquo: "‚",
+  ldquo: "“",
+  rdquo: "”",
+  bdquo: "„",
+  dagger: "†",
+  Dagger: "‡",
+  bull: "•",
+  hellip: "…",
+  permil: "‰",
+  prime: "′",
+  Prime: "″",
+  lsaquo: "‹",
+  rsaquo: "›",
+  oline: "‾",
+  frasl: "⁄",
+  // Letterlike symbols and arrows
+  euro: "€",
+  image: "ℑ",
+  weierp: "℘",
+  real: "ℜ",
+  trade: "™",
+  alefsym: "ℵ",
+  larr: "←",
+  uarr: "↑",
+  rarr: "→",
+  darr: "↓",
+  harr: "↔",
+  crarr: "↵",
+  lArr: "⇐",
+  uArr: "⇑",
+  rArr: "⇒",
+  dArr: "⇓",
+  hArr: "⇔",
+  // Mathematical and other symbols
+  forall: "∀",
+  part: "∂",
+  exist: "∃",
+  empty: "∅",
+  nabla: "∇",
+  isin: "∈",
+  notin: "∉",
+  ni: "∋",
+  prod: "∏",
+  sum: "∑",
+  minus: "−",
+  lowast: "∗",
+  radic: "√",
+  prop: "∝",
+  infin: "∞",
+  ang: "∠",
+  and: "∧",
+  or: "∨",
+  cap: "∩",
+  cup: "∪",
+  int: "∫",
+  there4: "∴",
+  sim: "∼",
+  cong: "≅",
+  asymp: "≈",
+  ne: "≠",
+  equiv: "≡",
+  le: "≤",
+  ge: "≥",
+  sub: "⊂",
+  sup: "⊃",
+  nsub: "⊄",
+  sube: "⊆",
+  supe: "⊇",
+  oplus: "⊕",
+  otimes: "⊗",
+  perp: "⊥",
+  sdot: "⋅",
+  lceil: "⌈",
+  rceil: "⌉",
+  lfloor: "⌊",
+  rfloor: "⌋",
+  lang: "⟨",
+  rang: "⟩",
+  loz: "◊",
+  spades: "♠",
+  clubs: "♣",
+  hearts: "♥",
+  diams: "♦",
+};
+
+const ENTITY =
+  /^&(?:#(\d{1,7})|#[xX]([0-9A-Fa-f]{1,6})|([A-Za-z][A-Za-z0-9]*));/;
+const OPEN_TAG =
+  /^<([A-Za-z][A-Za-z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+const CLOSE_TAG = /^<\/([A-Za-z][A-Za-z0-9-]*)[^>]*>/;
+const ATTRIBUTE =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Maps positions in extracted text to the DOM text nodes they came from
+ */
+export interface TextNodeMapper {
+  /** Text node position of a character, or undefined for added separators */
+  locate(charIndex: number): TextNodePosition | undefined;
+}
+
+/**
+ * Pause before the character at `index` of the extracted text
+ */
+export interface HTMLBreak {
+  index: number;
+  strength: BlockBreak;
+}
+
+/**
+ * Run of extracted text from `start` up to the next run, read in `language`.
+ * `language` is undefined where no `lang` attribute applies.
+ */
+export interface HTMLLanguageRun {
+  start: number;
+  language?: string;
+}
+
+/**
+ * Result of renderHTML()
+ */
+export interface RenderedHTML {
+  /** Extracted plain text; boundary offsets refer to it */
+  text: string;
+  breaks: HTMLBreak[];
+  languages: HTMLLanguageRun[];
+  textNodes: TextNodeMapper;
+}
+
+/**
+ * Extracted characters that map one-to-one to a text node's data
+ */
+interface TextNodeRun {
+  start: number;
+  length: number;
+  node: number;
+  offset: number;
+}
+
+/**
+ * Open element on the parser stack
+ */
+interface OpenElement {
+  name: string;
+  /** Value of lang or xml:lang; "" resets to the default voice */
+  lang?: string;
+  skip: boolean;
+}
+
+/**
+ * Decode a named or numeric character reference at the start of `text`
+ */
+function matchEntity(text: string): { length: number; value: string } | null {
+  const entity = ENTITY.exec(text);
+  if (!entity) {
+    return null;
+  }
+  if (entity[3] !== undefined) {
+    const value = NAMED_ENTITIES[entity[3]];
+    return value === undefined ? null : { length: entity[0].length, value };
+  }
+  const codePoint =
+    entity[1] !== undefined ? parseInt(entity[1], 10) : parseInt(entity[2], 16);
+  if (codePoint === 0 || codePoint > 0x10ffff) {
+    return { length: entity[0].length, value: "\ufffd" };
+  }
+  return { length: entity[0].length, value: String.fromCodePoint(codePoint) };
+}
+
+function decodeEntities(text: string): string {
+  let result = "";
+  for (let index = 0; index < text.length; index++) {
+    const entity = text[index] === "&" ? matchEntity(text.slice(index)) : null;
+    if (entity) {
+      result += entity.value;
+      index += entity.length - 1;
+    } else {
+      result += text[index];
+    }
+  }
+  return result;
+}
+
+/**
+ * Canonical BCP 47 casing, e.g. "en_gb" -> "en-GB"
+ */
+function normalizeLanguageTag(tag: string): string {
+  return tag
+    .trim()
+    .split(/[-_]/)
+    .map((part, index) => {
+      if (index === 0) {
+        return part.toLowerCase();
+      }
+      if (part.length === 2) {
+        return part.toUpperCase();
+      }
+      if (part.length === 4) {
+        return part[0].toUpperCase() + part.slice(1).toLowerCase();
+      }
+      return part.toLowerCase();
+    })
+    .join("-");
+}
+
+/**
+ * Single pass over the HTML source
+ */
+class HTMLRenderer {
+  private readonly source: string;
+  private readonly stack: OpenElement[] = [];
+  private text = "";
+  private readonly breaks: HTMLBreak[] = [];
+  private readonly languages: HTMLLanguageRun[] = [];
+  private readonly runs: TextNodeRun[] = [];
+  private pendingBreak: BlockBreak | null = null;
+  private pendingSpace: { node: number; offset: number } | null = null;
+  private nodeCount = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  render(): RenderedHTML {
+    let position = 0;
+    while (position < this.source.length) {
+      const next =
+        this.source[position] === "<" ? this.readMarkup(position) : null;
+      position = next ?? this.readText(position);
+    }
+
+    const runs = this.runs;
+    return {
+      text: this.text,
+      breaks: this.breaks,
+      languages: this.languages,
+      textNodes: {
+        locate: (charIndex) => {
+          const run = runs.find(
+            (candidate) =>
+              charIndex >= candidate.start &&
+              charIndex < candidate.start + candidate.length,
+          );
+          return run
+            ? { index: run.node, offset: run.offset + charIndex - run.start }
+            : undefined;
+        },
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Markup
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Read a tag, comment or declaration; returns null if `<` is literal text
+   */
+  private readMarkup(position: number): number | null {
+    const rest = this.source.slice(position);
+
+    if (rest.startsWith("<!--")) {
+      const end = this.source.indexOf("-->", position + 4);
+      return end === -1 ? this.source.length : end + 3;
+    }
+    if (rest.startsWith("<![CDATA[")) {
+      const end = this.source.indexOf("]]>", position);
+      return end === -1 ? this.source.length : end + 3;
+    }
+    if (rest.startsWith("<!") || rest.startsWith("<?")) {
+      const end = this.source.indexOf(">", position);
+      return end === -1 ? this.source.length : end + 1;
+    }
+
+    const close = CLOSE_TAG.exec(rest);
+    if (close) {
+      this.closeElement(close[1].toLowerCase());
+      return position + close[0].length;
+    }
+
+    const open = OPEN_TAG.exec(rest);
+    if (!open) {
+      return null;
+    }
+    const end = position + open[0].length;
+    const name = open[1].toLowerCase();
+    const attributes = this.parseAttributes(open[2]);
+    this.requestElementBreak(name);
+    if (VOID_ELEMENTS.has(name) || open[3] === "/") {
+      return end;
+    }
+
+    const lang = attributes.lang ?? attributes["xml:lang"];
+    this.stack.push({
+      name,
+      lang: lang === undefined ? undefined : normalizeLanguageTag(lang),
+      skip:
+        SKIPPED_ELEMENTS.has(name) ||
+        attributes.hidden !== undefined ||
+        attributes["aria-hidden"] === "true",
+    });
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      // Content is text up to the closing tag
+      const closing = new RegExp(`</${name}[\\s/>]`, "i").exec(
+        this.source.slice(end),
+      );
+      const contentEnd = closing ? end + closing.index : this.source.length;
+      if (contentEnd > end) {
+        this.nodeCount++;
+        if (!this.isSkipping()) {
+          this.appendText(
+            this.source.slice(end, contentEnd),
+            this.nodeCount - 1,
+          );
+        }
+      }
+      return contentEnd;
+    }
+    return end;
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE)) {
+      const value = match[2] ?? match[3] ?? match[4] ?? "";
+      attributes[match[1].toLowerCase()] = decodeEntities(value);
+    }
+    return attributes;
+  }
+
+  private closeElement(name: string): void {
+    this.requestElementBreak(name);
+    const index = this.stack.map((element) => element.name).lastIndexOf(name);
+    if (index !== -1) {
+      this.stack.length = index;
+    }
+  }
+
+  private requestElementBreak(name: string): void {
+    const strength = ELEMENT_BREAKS[name];
+    if (
+      strength &&
+      (this.pendingBreak === null ||
+        BREAK_STRENGTHS.indexOf(strength) >
+          BREAK_STRENGTHS.indexOf(this.pendingBreak))
+    ) {
+      this.pendingBreak = strength;
+    }
+  }
+
+  private isSkipping(): boolean {
+    return this.stack.some((element) => element.skip);
+  }
+
+  private currentLanguage(): string | undefined {
+    for (let index = this.stack.length - 1; index >= 0; index--) {
+      const { lang } = this.stack[index];
+      if (lang !== undefined) {
+        return lang || undefined;
+      }
+    }
+    return undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Read a text node up to the next tag or comment
+   */
+  private readText(position: number): number {
+    let end = position + 1;
+    while (end < this.source.length) {
+      end = this.source.indexOf("<", end);
+      if (end === -1) {
+        end = this.source.length;
+        break;
+      }
+      if (/^<(?:[A-Za-z/!?])/.test(this.source.slice(end, end + 2))) {
+        const probe = this.source.slice(end);
+        if (
+          probe.startsWith("<!") ||
+          probe.startsWith("<?") ||
+          CLOSE_TAG.test(probe) ||
+          OPEN_TAG.test(probe)
+        ) {
+          break;
+        }
+      }
+      end++;
+    }
+
+    this.nodeCount++;
+    if (!this.isSkipping()) {
+      this.appendText(this.source.slice(position, end), this.nodeCount - 1);
+    }
+    return end;
+  }
+
+  /**
+   * Append the decoded, whitespace-collapsed data of a text node
+   */
+  private appendText(data: string, node: number): void {
+    let offset = 0;
+    for (let index = 0; index < data.length; index++) {
+      let value = data[index];
+      if (value === "&") {
+        const entity = matchEntity(data.slice(index));
+        if (entity) {
+          value = entity.value;
+          index += entity.length - 1;
+        }
+      }
+
+      if (/^\s+$/.test(value)) {
+        if (this.text && !this.pendingSpace) {
+          this.pendingSpace = { node, offset };
+        }
+      } else if (value !== "\u00ad") {
+        this.appendCharacters(value, node, offset);
+      }
+      offset += value.length;
+    }
+  }
+
+  private appendCharacters(value: string, node: number, offset: number): void {
+    if (this.text) {
+      if (this.pendingBreak) {
+        // Separator keeps words of adjacent blocks apart
+        this.text += "\n";
+        this.breaks.push({
+          index: this.text.length,
+          strength: this.pendingBreak,
+        });
+      } else if (this.pendingSpace) {
+        this.addRun(this.pendingSpace.node, this.pendingSpace.offset, 1);
+        this.text += " ";
+      }
+    }
+    this.pendingBreak = null;
+    this.pendingSpace = null;
+
+    const language = this.currentLanguage();
+    const lastRun = this.languages[this.languages.length - 1];
+    if (!lastRun || lastRun.language !== language) {
+      this.languages.push({ start: this.text.length, language });
+    }
+    this.addRun(node, offset, value.length);
+    this.text += value;
+  }
+
+  private addRun(node: number, offset: number, length: number): void {
+    const last = this.runs[this.runs.length - 1];
+    if (
+      last &&
+      last.node === node &&
+      last.start + last.length === this.text.length &&
+      last.offset + last.length === offset
+    ) {
+      last.length += length;
+      return;
+    }
+    this.runs.push({ start: this.text.length, length, node, offset });
+  }
+}
+
+/**
+ * Extract speakable text from HTML.
+ * Scripts, styles, <head>, <nav> and hidden elements are dropped; headings,
+ * paragraphs, list items, table rows and cells are separated by pauses.
+ *
+ * @param html - HTML document or fragment
+ * @returns Extracted text, pauses, language runs and a map to text nodes
+ */
+export function renderHTML(html: string): RenderedHTML {
+  return new HTMLRenderer(html).render();
+}
+
+/**
+ * Extract the plain text that boundary events of HTML input refer to
+ */
+export function extractTextFromHTML(html: string): string {
+  return renderHTML(html).text;
+}
+
+/**
+ * Build escaped SSML markup for part of the extracted text, one segment per
+ * language run
+ * @param rendered - Result of renderHTML()
+ * @param start - Start of the part in the extracted text
+ * @param end - End of the part in the extracted text
+ */
+export function getHTMLSegments(
+  rendered: RenderedHTML,
+  start: number = 0,
+  end: number = rendered.text.length,
+): LanguageSegment[] {
+  const segments: LanguageSegment[] = [];
+  rendered.languages.forEach((run, index) => {
+    const runStart = Math.max(run.start, start);
+    const runEnd = Math.min(
+      rendered.languages[index + 1]?.start ?? rendered.text.length,
+      end,
+    );
+    if (runStart >= runEnd) {
+      return;
+    }
+
+    let markup = "";
+    let position = runStart;
+    rendered.breaks
+      .filter(
+        (pause) =>
+          pause.index > start &&
+          pause.index >= runStart &&
+          pause.index < runEnd,
+      )
+      .forEach((pause) => {
+        markup += escapeXML(rendered.text.slice(position, pause.index));
+        markup += `<break strength="${pause.strength}"/>`;
+        position = pause.index;
+      });
+    markup += escapeXML(rendered.text.slice(position, runEnd));
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.language === run.language) {
+      previous.markup += markup;
+    } else {
+      segments.push({ language: run.language, markup });
+    }
+  });
+  return segments;
+}
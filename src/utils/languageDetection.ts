@@ -0,0 +1,238 @@
+/**
+ * Language detection for EdgeSpeech
+ * Splits mixed-script text, such as English with Chinese or Japanese, into
+ * runs that each need a voice for their language. Works offline from Unicode
+ * script ranges and a few heuristics, so languages that share a script are
+ * only told apart where a script has telltale letters.
+ */
+
+/**
+ * Run of text in one language
+ */
+export interface LanguageRun {
+  start: number;
+  end: number;
+  /** Primary language subtag, e.g. "en", "zh" or "ja" */
+  language: string;
+}
+
+/**
+ * Script and the languages written in it.
+ * `language` is read when the default language is not one of `languages`.
+ */
+interface ScriptRule {
+  script: string;
+  pattern: RegExp;
+  language: string;
+  languages?: readonly string[];
+  /** Letters that identify another language of the script */
+  markers?: readonly { pattern: RegExp; language: string }[];
+}
+
+const SCRIPT_RULES: readonly ScriptRule[] = [
+  { script: "Hangul", pattern: /\p{Script=Hangul}/u, language: "ko" },
+  {
+    script: "Kana",
+    pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+    language: "ja",
+  },
+  {
+    script: "Han",
+    pattern: /\p{Script=Han}/u,
+    language: "zh",
+    languages: ["zh", "ja"],
+  },
+  {
+    script: "Cyrillic",
+    pattern: /\p{Script=Cyrillic}/u,
+    language: "ru",
+    languages: ["ru", "uk", "bg", "sr", "mk", "be", "kk", "mn"],
+    markers: [{ pattern: /[ЄІЇҐєіїґ]/u, language: "uk" }],
+  },
+  {
+    script: "Arabic",
+    pattern: /\p{Script=Arabic}/u,
+    language: "ar",
+    languages: ["ar", "fa", "ur", "ps"],
+    markers: [
+      { pattern: /[ٹڈڑںے]/u, language: "ur" },
+      { pattern: /[پچژگ]/u, language: "fa" },
+    ],
+  },
+  { script: "Greek", pattern: /\p{Script=Greek}/u, language: "el" },
+  { script: "Hebrew", pattern: /\p{Script=Hebrew}/u, language: "he" },
+  { script: "Thai", pattern: /\p{Script=Thai}/u, language: "th" },
+  {
+    script: "Devanagari",
+    pattern: /\p{Script=Devanagari}/u,
+    language: "hi",
+    languages: ["hi", "mr", "ne"],
+  },
+  { script: "Bengali", pattern: /\p{Script=Bengali}/u, language: "bn" },
+  { script: "Tamil", pattern: /\p{Script=Tamil}/u, language: "ta" },
+  { script: "Telugu", pattern: /\p{Script=Telugu}/u, language: "te" },
+  { script: "Kannada", pattern: /\p{Script=Kannada}/u, language: "kn" },
+  { script: "Malayalam", pattern: /\p{Script=Malayalam}/u, language: "ml" },
+  { script: "Gujarati", pattern: /\p{Script=Gujarati}/u, language: "gu" },
+  { script: "Gurmukhi", pattern: /\p{Script=Gurmukhi}/u, language: "pa" },
+  { script: "Georgian", pattern: /\p{Script=Georgian}/u, language: "ka" },
+  { script: "Armenian", pattern: /\p{Script=Armenian}/u, language: "hy" },
+  { script: "Khmer", pattern: /\p{Script=Khmer}/u, language: "km" },
+  { script: "Lao", pattern: /\p{Script=Lao}/u, language: "lo" },
+  { script: "Myanmar", pattern: /\p{Script=Myanmar}/u, language: "my" },
+  { script: "Sinhala", pattern: /\p{Script=Sinhala}/u, language: "si" },
+  { script: "Ethiopic", pattern: /\p{Script=Ethiopic}/u, language: "am" },
+  // Latin covers every language not claimed by another script
+  { script: "Latin", pattern: /\p{Script=Latin}/u, language: "en" },
+];
+
+/** Latin words read by the surrounding voice, e.g. "iPhone" in Chinese */
+const MAX_EMBEDDED_LATIN_WORDS = 2;
+
+/** Sentence end, after which Han is no longer read with neighboring kana */
+const SENTENCE_END = /[。．！？!?\n]\s*/gu;
+const ENDS_SENTENCE = new RegExp(`${SENTENCE_END.source}$`, "u");
+
+/**
+ * Run of one script before languages are assigned
+ */
+interface ScriptRun {
+  start: number;
+  end: number;
+  rule: ScriptRule;
+}
+
+function findRule(char: string): ScriptRule | undefined {
+  return SCRIPT_RULES.find((rule) => rule.pattern.test(char));
+}
+
+/**
+ * Whether a language is written in a script
+ */
+function writesIn(language: string, rule: ScriptRule): boolean {
+  if (rule.script === "Latin") {
+    return !SCRIPT_RULES.some(
+      (other) =>
+        other !== rule &&
+        (other.language === language || other.languages?.includes(language)),
+    );
+  }
+  return rule.language === language || !!rule.languages?.includes(language);
+}
+
+/**
+ * Split text into runs of one script. Spaces, digits, punctuation and
+ * symbols belong to the run before them.
+ */
+function splitScriptRuns(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  let index = 0;
+  for (const char of text) {
+    const rule = findRule(char);
+    const last = runs[runs.length - 1];
+    if (last && (!rule || rule === last.rule)) {
+      last.end = index + char.length;
+    } else if (rule) {
+      // Leading neutral characters join the first run
+      runs.push({ start: last ? index : 0, end: index + char.length, rule });
+    }
+    index += char.length;
+  }
+  return runs;
+}
+
+/**
+ * Split Han runs into sentences, so that only a sentence with kana in it is
+ * read as Japanese
+ */
+function splitHanSentences(text: string, runs: ScriptRun[]): ScriptRun[] {
+  return runs.flatMap((run) => {
+    if (run.rule.script !== "Han") {
+      return [run];
+    }
+    const sentences: ScriptRun[] = [];
+    let start = run.start;
+    for (const match of text.slice(run.start, run.end).matchAll(SENTENCE_END)) {
+      const end = run.start + match.index! + match[0].length;
+      sentences.push({ start, end, rule: run.rule });
+      start = end;
+    }
+    if (start < run.end) {
+      sentences.push({ start, end: run.end, rule: run.rule });
+    }
+    return sentences;
+  });
+}
+
+/**
+ * Detect the language of each run of text.
+ * Runs in the script of `defaultLanguage` keep it; Han in a sentence with
+ * kana is read as Japanese, other Han as Chinese unless the default language
+ * is Japanese; one or two Latin words between runs of the same language join
+ * them.
+ *
+ * @param text - Text to split
+ * @param defaultLanguage - Language of the session voice, e.g. "en" or "ja"
+ * @returns Runs covering the whole text, adjacent runs differing in language
+ */
+export function detectLanguageRuns(
+  text: string,
+  defaultLanguage: string = "en",
+): LanguageRun[] {
+  const primary = defaultLanguage.split(/[-_]/)[0].toLowerCase();
+  let scriptRuns = splitScriptRuns(text);
+  if (scriptRuns.length === 0) {
+    return text ? [{ start: 0, end: text.length, language: primary }] : [];
+  }
+  scriptRuns[scriptRuns.length - 1].end = text.length;
+  scriptRuns = splitHanSentences(text, scriptRuns);
+
+  const runs: LanguageRun[] = scriptRuns.map((run, index) => {
+    const { rule } = run;
+    const content = text.slice(run.start, run.end);
+    let language = writesIn(primary, rule) ? primary : rule.language;
+    if (rule.script === "Han" && language !== "ja") {
+      // Kana across a sentence end belongs to another sentence
+      const previous = scriptRuns[index - 1];
+      const next = scriptRuns[index + 1];
+      const isNextToKana =
+        (previous?.rule.script === "Kana" &&
+          !ENDS_SENTENCE.test(text.slice(previous.start, previous.end))) ||
+        (next?.rule.script === "Kana" && !ENDS_SENTENCE.test(content));
+      language = isNextToKana ? "ja" : "zh";
+    }
+    const marker = rule.markers?.find((candidate) =>
+      candidate.pattern.test(content),
+    );
+    if (marker && language === rule.language) {
+      language = marker.language;
+    }
+    return { start: run.start, end: run.end, language };
+  });
+
+  // Short Latin runs inside other text are read by the surrounding voice
+  runs.forEach((run, index) => {
+    const previous = runs[index - 1];
+    const next = runs[index + 1];
+    if (
+      scriptRuns[index].rule.script === "Latin" &&
+      previous &&
+      next &&
+      previous.language === next.language &&
+      text.slice(run.start, run.end).trim().split(/\s+/).length <=
+        MAX_EMBEDDED_LATIN_WORDS
+    ) {
+      run.language = previous.language;
+    }
+  });
+
+  return runs.reduce<LanguageRun[]>((merged, run) => {
+    const last = merged[merged.length - 1];
+    if (last && last.language === run.language) {
+      last.end = run.end;
+    } else {
+      merged.push({ ...run });
+    }
+    return merged;
+  }, []);
+}
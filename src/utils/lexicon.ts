@@ -0,0 +1,106 @@
+/**
+ * Pronunciation lexicon for EdgeSpeech
+ * Rewrites matched words before SSML generation as plain replacements,
+ * <phoneme> pronunciations or <sub> aliases, keeping an offset map back to
+ * the caller's text for boundary events.
+ */
+
+import type { LexiconEntry } from "../types";
+import { escapeXML } from "./ssmlUtils";
+import { MappedText, MappedTextBuilder } from "./textMapping";
+
+/**
+ * A lexicon match in the source text
+ */
+interface LexiconMatch {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+/**
+ * Build a global regular expression for an entry
+ */
+function createMatcher(entry: LexiconEntry): RegExp {
+  if (entry.match instanceof RegExp) {
+    const flags = entry.match.flags.includes("g")
+      ? entry.match.flags
+      : `${entry.match.flags}g`;
+    return new RegExp(entry.match.source, flags);
+  }
+
+  const escaped = entry.match.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // Whole words only; \b does not handle non-ASCII letters
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`,
+    entry.caseSensitive ? "gu" : "giu",
+  );
+}
+
+/**
+ * Find non-overlapping matches; earlier entries win over later ones
+ */
+function findMatches(text: string, entries: LexiconEntry[]): LexiconMatch[] {
+  const matches: LexiconMatch[] = [];
+
+  for (const entry of entries) {
+    const matcher = createMatcher(entry);
+    let match: RegExpExecArray | null;
+    while ((match = matcher.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        matcher.lastIndex++;
+        continue;
+      }
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlaps = matches.some(
+        (existing) => start < existing.end && end > existing.start,
+      );
+      if (!overlaps) {
+        matches.push({ start, end, entry });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Apply a pronunciation lexicon to plain text.
+ * Returns the text the service will speak, its escaped SSML markup and a map
+ * from spoken positions back to `text`.
+ */
+export function applyLexicon(
+  text: string,
+  entries: LexiconEntry[],
+): MappedText {
+  const builder = new MappedTextBuilder();
+  let position = 0;
+
+  for (const { start, end, entry } of findMatches(text, entries)) {
+    builder.keep(text.slice(position, start), position);
+
+    const word = text.slice(start, end);
+    if ("replacement" in entry) {
+      builder.replace(entry.replacement, start, end);
+    } else if ("phoneme" in entry) {
+      builder.replace(
+        word,
+        start,
+        end,
+        `<phoneme alphabet="${entry.alphabet ?? "ipa"}" ph="${escapeXML(entry.phoneme)}">${escapeXML(word)}</phoneme>`,
+      );
+    } else {
+      builder.replace(
+        entry.alias,
+        start,
+        end,
+        `<sub alias="${escapeXML(entry.alias)}">${escapeXML(word)}</sub>`,
+      );
+    }
+    position = end;
+  }
+
+  builder.keep(text.slice(position), position);
+  return builder.build();
+}
@@ -0,0 +1,564 @@
+/**
+ * Markdown rendering for EdgeSpeech
+ * Turns Markdown (chat and LLM output) into speech: syntax is dropped, block
+ * structure becomes <break> pauses, emphasis becomes <emphasis> and links are
+ * reduced to their labels. Keeps an offset map back to the Markdown source
+ * for boundary events.
+ */
+
+import { MappedText, MappedTextBuilder } from "./textMapping";
+
+/**
+ * Pause strengths used between blocks, weakest first
+ */
+const BREAK_STRENGTHS = ["weak", "medium", "strong"] as const;
+type BlockBreak = (typeof BREAK_STRENGTHS)[number];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}>[ \t]?/;
+const LIST_ITEM = /^[ \t]*(?:([-*+])|(\d{1,9})[.)])[ \t]+(?:\[[ xX]\][ \t]+)?/;
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]]+\]:/;
+const TABLE_DELIMITER_ROW =
+  /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_TAG = /^<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/;
+const AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]*:[^\s<>]+|[^\s<>@]+@[^\s<>@]+)>/;
+const BARE_URL = /^https?:\/\/[^\s<>()[\]]+[^\s<>()[\].,;:!?'"]/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+/**
+ * A source line without its line terminator
+ */
+interface SourceLine {
+  start: number;
+  end: number;
+  text: string;
+  /** Offset after the line terminator, or `end` on the last line */
+  next: number;
+}
+
+/**
+ * Line-based renderer over the Markdown source
+ */
+class MarkdownRenderer {
+  private readonly source: string;
+  private readonly lines: SourceLine[] = [];
+  private readonly builder = new MappedTextBuilder();
+  private pendingBreak: BlockBreak | null = null;
+  private hasOutput = false;
+
+  constructor(source: string) {
+    this.source = source;
+    let start = 0;
+    while (start <= source.length) {
+      const newline = source.indexOf("\n", start);
+      const end = newline === -1 ? source.length : newline;
+      const textEnd = source[end - 1] === "\r" ? end - 1 : end;
+      this.lines.push({
+        start,
+        end: textEnd,
+        text: source.slice(start, textEnd),
+        next: newline === -1 ? end : newline + 1,
+      });
+      if (newline === -1) {
+        break;
+      }
+      start = newline + 1;
+    }
+  }
+
+  render(): MappedText {
+    let index = 0;
+    while (index < this.lines.length) {
+      index = this.renderBlock(index);
+    }
+    return this.builder.build();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Blocks
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Render the block starting at a line; returns the index of the next line
+   */
+  private renderBlock(index: number): number {
+    const line = this.lines[index];
+    // Blockquote markers are dropped and the rest is rendered as usual
+    let start = line.start;
+    let quote: RegExpExecArray | null;
+    while ((quote = BLOCKQUOTE.exec(this.source.slice(start, line.end)))) {
+      start += quote[0].length;
+    }
+    const text = this.source.slice(start, line.end);
+
+    if (text.trim() === "") {
+      this.requestBreak("medium");
+      return index + 1;
+    }
+
+    const fence = FENCE.exec(text);
+    if (fence) {
+      return this.renderCodeBlock(index, fence[1]);
+    }
+
+    if (THEMATIC_BREAK.test(text) || SETEXT_UNDERLINE.test(text)) {
+      // "---" and "===" under a paragraph make it a heading
+      this.requestBreak("strong");
+      return index + 1;
+    }
+
+    if (REFERENCE_DEFINITION.test(text)) {
+      return index + 1;
+    }
+
+    const heading = HEADING.exec(text);
+    if (heading) {
+      const contentStart = start + heading[0].length;
+      // Optional closing sequence: "## Title ##"
+      const closing = /[ \t]+#+[ \t]*$|^#+[ \t]*$/.exec(
+        this.source.slice(contentStart, line.end),
+      );
+      this.requestBreak("strong");
+      this.renderLine(
+        contentStart,
+        closing ? contentStart + closing.index : line.end,
+        line,
+      );
+      this.requestBreak("strong");
+      return index + 1;
+    }
+
+    const next = this.lines[index + 1];
+    if (text.includes("|") && next && TABLE_DELIMITER_ROW.test(next.text)) {
+      return this.renderTable(index);
+    }
+
+    const item = LIST_ITEM.exec(text);
+    if (item) {
+      this.requestBreak("medium");
+      this.flushBreak();
+      if (item[2] !== undefined) {
+        // Keep the number of an ordered item, drop its punctuation
+        const numberStart = start + item[0].indexOf(item[2]);
+        this.builder.keep(item[2], numberStart);
+        this.builder.replace(
+          " ",
+          numberStart + item[2].length,
+          numberStart + item[2].length + 1,
+        );
+      }
+      this.renderLine(start + item[0].length, line.end, line);
+      this.requestBreak("medium");
+      return index + 1;
+    }
+
+    this.renderLine(start, line.end, line);
+    return index + 1;
+  }
+
+  /**
+   * Read a fenced code block verbatim, without its fences and info string
+   */
+  private renderCodeBlock(index: number, fence: string): number {
+    const closing = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}[ \\t]*$`);
+    let current = index + 1;
+    this.requestBreak("medium");
+    while (
+      current < this.lines.length &&
+      !closing.test(this.lines[current].text)
+    ) {
+      const line = this.lines[current];
+      if (line.text.trim() !== "") {
+        this.flushBreak();
+        this.builder.keep(this.source.slice(line.start, line.next), line.start);
+        this.hasOutput = true;
+      }
+      current++;
+    }
+    this.requestBreak("medium");
+    return current + 1;
+  }
+
+  /**
+   * Read a table row by row; cells are separated by short pauses
+   */
+  private renderTable(index: number): number {
+    let current = index;
+    while (current < this.lines.length) {
+      const line = this.lines[current];
+      if (current === index + 1) {
+        // Delimiter row
+        current++;
+        continue;
+      }
+      if (current > index && !line.text.includes("|")) {
+        break;
+      }
+
+      const cells = this.splitTableRow(line);
+      this.requestBreak("medium");
+      cells.forEach(([cellStart, cellEnd], cellIndex) => {
+        if (cellIndex > 0) {
+          // The pipe between cells is read as a short pause
+          const pipe = this.source.lastIndexOf("|", cellStart);
+          this.builder.replace(" ", pipe, pipe + 1);
+          this.requestBreak("weak");
+        }
+        this.renderInlineBlock(cellStart, cellEnd);
+      });
+      this.separateFrom(line);
+      this.requestBreak("medium");
+      current++;
+    }
+    return current;
+  }
+
+  /**
+   * Trimmed cell ranges of a table row, split on unescaped pipes
+   */
+  private splitTableRow(line: SourceLine): [number, number][] {
+    const cells: [number, number][] = [];
+    let cellStart = line.start;
+    for (let i = line.start; i <= line.end; i++) {
+      if (i < line.end && this.source[i] === "\\") {
+        i++;
+        continue;
+      }
+      if (i === line.end || this.source[i] === "|") {
+        let start = cellStart;
+        let end = i;
+        while (start < end && /\s/.test(this.source[start])) start++;
+        while (end > start && /\s/.test(this.source[end - 1])) end--;
+        const isOuterPipe =
+          start === end && (cellStart === line.start || i === line.end);
+        if (!isOuterPipe) {
+          cells.push([start, end]);
+        }
+        cellStart = i + 1;
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Render inline content followed by the line terminator
+   */
+  private renderLine(start: number, end: number, line: SourceLine): void {
+    this.renderInlineBlock(start, end);
+    this.separateFrom(line);
+  }
+
+  private renderInlineBlock(start: number, end: number): void {
+    if (this.source.slice(start, end).trim() === "") {
+      return;
+    }
+    this.flushBreak();
+    this.renderInline(start, end);
+    this.hasOutput = true;
+  }
+
+  /**
+   * Keep the line terminator so words of adjacent lines stay apart
+   */
+  private separateFrom(line: SourceLine): void {
+    if (line.next > line.end && this.hasOutput) {
+      this.builder.keep("\n", line.next - 1);
+    }
+  }
+
+  private requestBreak(strength: BlockBreak): void {
+    if (
+      this.pendingBreak === null ||
+      BREAK_STRENGTHS.indexOf(strength) >
+        BREAK_STRENGTHS.indexOf(this.pendingBreak)
+    ) {
+      this.pendingBreak = strength;
+    }
+  }
+
+  /**
+   * Emit the pending pause; pauses before the first or after the last
+   * spoken text are dropped
+   */
+  private flushBreak(): void {
+    if (this.pendingBreak && this.hasOutput) {
+      this.builder.appendMarkup(`<break strength="${this.pendingBreak}"/>`);
+    }
+    this.pendingBreak = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Inline content
+  // ---------------------------------------------------------------------------
+
+  private renderInline(start: number, end: number): void {
+    let runStart = start;
+    let position = start;
+    while (position < end) {
+      const token = this.matchInline(position, end);
+      if (!token) {
+        position++;
+        continue;
+      }
+      if (position > runStart) {
+        this.builder.keep(this.source.slice(runStart, position), runStart);
+      }
+      token.render();
+      position = token.end;
+      runStart = position;
+    }
+    if (end > runStart) {
+      this.builder.keep(this.source.slice(runStart, end), runStart);
+    }
+  }
+
+  /**
+   * Recognize the inline syntax starting at a position
+   */
+  private matchInline(position: number, end: number): InlineToken | null {
+    const rest = this.source.slice(position, end);
+
+    switch (this.source[position]) {
+      case "\\": {
+        const escaped = this.source[position + 1];
+        if (position + 1 >= end || !ESCAPABLE.test(escaped)) {
+          return null;
+        }
+        return {
+          end: position + 2,
+          render: () => this.builder.keep(escaped, position + 1),
+        };
+      }
+      case "`":
+        return this.matchCodeSpan(position, end);
+      case "!":
+      case "[":
+        return this.matchLink(position, end);
+      case "<": {
+        const autolink = AUTOLINK.exec(rest);
+        if (autolink) {
+          const tokenEnd = position + autolink[0].length;
+          return {
+            end: tokenEnd,
+            render: () => this.speakUrl(autolink[1], position, tokenEnd),
+          };
+        }
+        const tag = HTML_TAG.exec(rest);
+        return tag ? { end: position + tag[0].length, render: () => {} } : null;
+      }
+      case "h": {
+        const url = BARE_URL.exec(rest);
+        if (!url || /[\p{L}\p{N}]/u.test(this.source[position - 1] ?? "")) {
+          return null;
+        }
+        const tokenEnd = position + url[0].length;
+        return {
+          end: tokenEnd,
+          render: () => this.speakUrl(url[0], position, tokenEnd),
+        };
+      }
+      case "*":
+      case "_":
+        return this.matchEmphasis(position, end);
+      case "~": {
+        const close = this.source.indexOf("~~", position + 2);
+        if (
+          !rest.startsWith("~~") ||
+          close <= position + 2 ||
+          close + 2 > end
+        ) {
+          return null;
+        }
+        return {
+          end: close + 2,
+          render: () => this.renderInline(position + 2, close),
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * `code` spans are read verbatim
+   */
+  private matchCodeSpan(position: number, end: number): InlineToken | null {
+    const run = /^`+/.exec(this.source.slice(position, end))![0];
+    let contentStart = position + run.length;
+    let close = this.source.indexOf(run, contentStart);
+    // A longer backtick run does not close the span
+    while (close !== -1 && this.source[close + run.length] === "`") {
+      close = this.source.indexOf(run, close + run.length + 1);
+    }
+    if (close === -1 || close + run.length > end) {
+      return null;
+    }
+
+    let contentEnd = close;
+    if (/^ [^]* $/.test(this.source.slice(contentStart, contentEnd))) {
+      contentStart++;
+      contentEnd--;
+    }
+    return {
+      end: close + run.length,
+      render: () =>
+        this.builder.keep(
+          this.source.slice(contentStart, contentEnd),
+          contentStart,
+        ),
+    };
+  }
+
+  /**
+   * Links and images are reduced to their label or alt text; footnote
+   * references are dropped
+   */
+  private matchLink(position: number, end: number): InlineToken | null {
+    const isImage = this.source[position] === "!";
+    const labelStart = position + (isImage ? 2 : 1);
+    if (isImage && this.source[position + 1] !== "[") {
+      return null;
+    }
+
+    const labelEnd = this.findClosing(labelStart, end, "[", "]");
+    if (labelEnd === -1) {
+      return null;
+    }
+    if (!isImage && this.source[labelStart] === "^") {
+      return { end: labelEnd + 1, render: () => {} };
+    }
+
+    let tokenEnd: number;
+    const opener = this.source[labelEnd + 1];
+    if (opener === "(") {
+      tokenEnd = this.findClosing(labelEnd + 2, end, "(", ")") + 1;
+    } else if (opener === "[") {
+      tokenEnd = this.findClosing(labelEnd + 2, end, "[", "]") + 1;
+    } else {
+      return null;
+    }
+    if (tokenEnd === 0) {
+      return null;
+    }
+    return {
+      end: tokenEnd,
+      render: () => this.renderInline(labelStart, labelEnd),
+    };
+  }
+
+  /**
+   * `*text*` and `_text_` read with moderate emphasis, doubled or tripled
+   * delimiters with strong emphasis. Unmatched delimiters stay literal.
+   */
+  private matchEmphasis(position: number, end: number): InlineToken | null {
+    const delimiter = this.source[position];
+    const run = new RegExp(`^\\${delimiter}+`).exec(
+      this.source.slice(position, end),
+    )![0];
+    const size = Math.min(run.length, 3);
+    const contentStart = position + size;
+    const isWordChar = (char: string | undefined) =>
+      char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+    if (
+      /\s/.test(this.source[position + run.length] ?? " ") ||
+      (delimiter === "_" && isWordChar(this.source[position - 1]))
+    ) {
+      return null;
+    }
+
+    let index = position + run.length;
+    while (index < end) {
+      if (this.source[index] !== delimiter) {
+        index++;
+        continue;
+      }
+      let runEnd = index;
+      while (runEnd < end && this.source[runEnd] === delimiter) {
+        runEnd++;
+      }
+      const close = runEnd - size;
+      if (
+        runEnd - index >= size &&
+        close > contentStart &&
+        !/\s/.test(this.source[index - 1]) &&
+        !(delimiter === "_" && isWordChar(this.source[runEnd]))
+      ) {
+        const level = size === 1 ? "moderate" : "strong";
+        return {
+          end: close + size,
+          render: () => {
+            this.builder.appendMarkup(`<emphasis level="${level}">`);
+            this.renderInline(contentStart, close);
+            this.builder.appendMarkup("</emphasis>");
+          },
+        };
+      }
+      index = runEnd;
+    }
+    return null;
+  }
+
+  /**
+   * Index of the bracket closing one opened just before `start`, or -1
+   */
+  private findClosing(
+    start: number,
+    end: number,
+    open: string,
+    close: string,
+  ): number {
+    let depth = 0;
+    for (let index = start; index < end; index++) {
+      const char = this.source[index];
+      if (char === "\\") {
+        index++;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close) {
+        if (depth === 0) {
+          return index;
+        }
+        depth--;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * URLs are read as their host name, e-mail addresses as they are
+   */
+  private speakUrl(url: string, start: number, end: number): void {
+    const host = /^[A-Za-z][A-Za-z0-9+.-]*:\/\/(?:[^@/]*@)?([^/:?#]+)/.exec(
+      url,
+    );
+    const spoken = host
+      ? host[1].replace(/^www\./i, "")
+      : url.replace(/^mailto:/i, "");
+    this.builder.replace(spoken, start, end);
+  }
+}
+
+/**
+ * Inline syntax recognized at a position; `render` writes its output
+ */
+interface InlineToken {
+  end: number;
+  render: () => void;
+}
+
+/**
+ * Render Markdown as speech.
+ * Headings, paragraphs, list items, table rows and code blocks are separated
+ * by pauses; emphasis maps to <emphasis>; links and images are reduced to
+ * their label or alt text and bare URLs to their host name.
+ *
+ * @param source - Markdown source
+ * @returns Spoken text, SSML markup and a map back to `source` offsets
+ */
+export function renderMarkdown(source: string): MappedText {
+  return new MarkdownRenderer(source).render();
+}
@@ -0,0 +1,785 @@
+/**
+ * Number spelling for EdgeSpeech text normalization
+ * Spells cardinals, ordinals, decimals and years as words for the languages
+ * the built-in normalizers support.
+ */
+
+/**
+ * Languages with built-in number spelling
+ */
+export type NumberLanguage = "en" | "de" | "fr" | "es" | "zh";
+
+/**
+ * Largest integer the spelling functions handle
+ */
+export const MAX_SPELLED_NUMBER = 999_999_999_999_999;
+
+/**
+ * Spelling rules of one language
+ */
+interface NumberLanguageRules {
+  cardinal(value: number): string;
+  ordinal(value: number, feminine: boolean): string;
+  year(value: number): string;
+  /** Adjust a cardinal that precedes a noun, e.g. "eins" -> "ein" */
+  attributive(words: string, feminine: boolean): string;
+  digits: readonly string[];
+  decimalPoint: string;
+  minus: string;
+  /** Separator between number words and the words around them */
+  space: string;
+}
+
+// =============================================================================
+// English
+// =============================================================================
+
+const EN_ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const EN_TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+const EN_SCALES = ["", "thousand", "million", "billion", "trillion"];
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+function enBelowThousand(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words: string[] = [];
+  if (hundreds > 0) {
+    words.push(`${EN_ONES[hundreds]} hundred`);
+  }
+  if (rest >= 20) {
+    const units = rest % 10;
+    words.push(
+      units > 0
+        ? `${EN_TENS[Math.floor(rest / 10)]}-${EN_ONES[units]}`
+        : EN_TENS[rest / 10],
+    );
+  } else if (rest > 0) {
+    words.push(EN_ONES[rest]);
+  }
+  return words.join(" ");
+}
+
+function enCardinal(value: number): string {
+  if (value === 0) {
+    return EN_ONES[0];
+  }
+  const words: string[] = [];
+  for (let scale = EN_SCALES.length - 1; scale >= 0; scale--) {
+    const group = Math.floor(value / 1000 ** scale) % 1000;
+    if (group > 0) {
+      words.push(`${enBelowThousand(group)} ${EN_SCALES[scale]}`.trim());
+    }
+  }
+  return words.join(" ");
+}
+
+function enOrdinal(value: number): string {
+  const cardinal = enCardinal(value);
+  const match = /^(.*?)([a-z]+)$/.exec(cardinal)!;
+  const [, prefix, last] = match;
+  const ordinal =
+    EN_IRREGULAR_ORDINALS[last] ??
+    (last.endsWith("y") ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return prefix + ordinal;
+}
+
+function enYear(value: number): string {
+  // "nineteen oh five", "twenty twenty-four"; 2000-2009 and round
+  // thousands read as cardinals
+  if (
+    value < 1100 ||
+    value > 9999 ||
+    value % 1000 === 0 ||
+    (value >= 2000 && value <= 2009)
+  ) {
+    return enCardinal(value);
+  }
+  const high = Math.floor(value / 100);
+  const low = value % 100;
+  if (low === 0) {
+    return `${enCardinal(high)} hundred`;
+  }
+  return low < 10
+    ? `${enCardinal(high)} oh ${EN_ONES[low]}`
+    : `${enCardinal(high)} ${enCardinal(low)}`;
+}
+
+// =============================================================================
+// German
+// =============================================================================
+
+const DE_ONES = [
+  "null",
+  "eins",
+  "zwei",
+  "drei",
+  "vier",
+  "fünf",
+  "sechs",
+  "sieben",
+  "acht",
+  "neun",
+  "zehn",
+  "elf",
+  "zwölf",
+  "dreizehn",
+  "vierzehn",
+  "fünfzehn",
+  "sechzehn",
+  "siebzehn",
+  "achtzehn",
+  "neunzehn",
+];
+const DE_TENS = [
+  "",
+  "",
+  "zwanzig",
+  "dreißig",
+  "vierzig",
+  "fünfzig",
+  "sechzig",
+  "siebzig",
+  "achtzig",
+  "neunzig",
+];
+const DE_SCALES: readonly [number, string, string][] = [
+  [1e12, "Billion", "Billionen"],
+  [1e9, "Milliarde", "Milliarden"],
+  [1e6, "Million", "Millionen"],
+];
+const DE_IRREGULAR_ORDINALS: Record<number, string> = {
+  1: "erste",
+  3: "dritte",
+  7: "siebte",
+  8: "achte",
+};
+
+/**
+ * `final` is false inside compounds ("einundzwanzig", "eintausend")
+ */
+function deBelowHundred(value: number, final: boolean): string {
+  if (value === 1) {
+    return final ? "eins" : "ein";
+  }
+  if (value < 20) {
+    return DE_ONES[value];
+  }
+  const units = value % 10;
+  const tens = DE_TENS[Math.floor(value / 10)];
+  return units > 0 ? `${units === 1 ? "ein" : DE_ONES[units]}und${tens}` : tens;
+}
+
+function deBelowThousand(value: number, final: boolean): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  return (
+    (hundreds > 0 ? `${deBelowHundred(hundreds, false)}hundert` : "") +
+    (rest > 0 ? deBelowHundred(rest, final) : "")
+  );
+}
+
+function deCardinal(value: number): string {
+  if (value === 0) {
+    return DE_ONES[0];
+  }
+  const words: string[] = [];
+  let rest = value;
+  for (const [scale, singular, plural] of DE_SCALES) {
+    const count = Math.floor(rest / scale);
+    rest %= scale;
+    if (count > 0) {
+      words.push(
+        count === 1
+          ? `eine ${singular}`
+          : `${deBelowThousand(count, true)} ${plural}`,
+      );
+    }
+  }
+  const thousands = Math.floor(rest / 1000);
+  const below =
+    (thousands > 0 ? `${deBelowThousand(thousands, false)}tausend` : "") +
+    (rest % 1000 > 0 ? deBelowThousand(rest % 1000, true) : "");
+  if (below) {
+    words.push(below);
+  }
+  return words.join(" ");
+}
+
+function deOrdinal(value: number): string {
+  const rest = value % 100;
+  if (rest > 0 && rest < 20) {
+    const head = value - rest;
+    const prefix =
+      head === 0 ? "" : `${deCardinal(head)}${head % 1e6 === 0 ? " " : ""}`;
+    return prefix + (DE_IRREGULAR_ORDINALS[rest] ?? `${DE_ONES[rest]}te`);
+  }
+  return `${deCardinal(value)}ste`;
+}
+
+function deYear(value: number): string {
+  // "neunzehnhundertneunundneunzig"
+  if (value >= 1100 && value < 2000) {
+    const rest = value % 100;
+    return `${deBelowHundred(Math.floor(value / 100), false)}hundert${
+      rest > 0 ? deBelowHundred(rest, true) : ""
+    }`;
+  }
+  return deCardinal(value);
+}
+
+// =============================================================================
+// French
+// =============================================================================
+
+const FR_ONES = [
+  "zéro",
+  "un",
+  "deux",
+  "trois",
+  "quatre",
+  "cinq",
+  "six",
+  "sept",
+  "huit",
+  "neuf",
+  "dix",
+  "onze",
+  "douze",
+  "treize",
+  "quatorze",
+  "quinze",
+  "seize",
+];
+const FR_TENS = [
+  "",
+  "",
+  "vingt",
+  "trente",
+  "quarante",
+  "cinquante",
+  "soixante",
+];
+const FR_SCALES: readonly [number, string][] = [
+  [1e12, "billion"],
+  [1e9, "milliard"],
+  [1e6, "million"],
+];
+
+/**
+ * `final` is false when another number word follows ("quatre-vingt mille")
+ */
+function frBelowHundred(value: number, final: boolean): string {
+  if (value < 17) {
+    return FR_ONES[value];
+  }
+  if (value < 20) {
+    return `dix-${FR_ONES[value - 10]}`;
+  }
+  const tens = Math.floor(value / 10);
+  const units = value % 10;
+  if (tens <= 6) {
+    if (units === 0) {
+      return FR_TENS[tens];
+    }
+    return units === 1
+      ? `${FR_TENS[tens]} et un`
+      : `${FR_TENS[tens]}-${FR_ONES[units]}`;
+  }
+  if (tens === 7) {
+    return units === 1
+      ? "soixante et onze"
+      : `soixante-${frBelowHundred(10 + units, final)}`;
+  }
+  if (tens === 8) {
+    return units === 0
+      ? final
+        ? "quatre-vingts"
+        : "quatre-vingt"
+      : `quatre-vingt-${FR_ONES[units]}`;
+  }
+  return `quatre-vingt-${frBelowHundred(10 + units, final)}`;
+}
+
+function frBelowThousand(value: number, final: boolean): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds === 0) {
+    return frBelowHundred(rest, final);
+  }
+  const hundredWords =
+    hundreds === 1
+      ? "cent"
+      : `${FR_ONES[hundreds]} cent${rest === 0 && final ? "s" : ""}`;
+  return rest > 0
+    ? `${hundredWords} ${frBelowHundred(rest, final)}`
+    : hundredWords;
+}
+
+function frCardinal(value: number): string {
+  if (value === 0) {
+    return FR_ONES[0];
+  }
+  const words: string[] = [];
+  let rest = value;
+  for (const [scale, noun] of FR_SCALES) {
+    const count = Math.floor(rest / scale);
+    rest %= scale;
+    if (count > 0) {
+      words.push(
+        `${frBelowThousand(count, true)} ${noun}${count > 1 ? "s" : ""}`,
+      );
+    }
+  }
+  const thousands = Math.floor(rest / 1000);
+  if (thousands > 0) {
+    words.push(
+      thousands === 1 ? "mille" : `${frBelowThousand(thousands, false)} mille`,
+    );
+  }
+  if (rest % 1000 > 0) {
+    words.push(frBelowThousand(rest % 1000, true));
+  }
+  return words.join(" ");
+}
+
+function frOrdinal(value: number, feminine: boolean): string {
+  if (value === 1) {
+    return feminine ? "première" : "premier";
+  }
+  const match = /^(.*?)([a-zéè]+)$/.exec(frCardinal(value))!;
+  let stem = match[2];
+  if (stem === "vingts" || stem === "cents") {
+    stem = stem.slice(0, -1);
+  } else if (stem === "cinq") {
+    stem = "cinqu";
+  } else if (stem === "neuf") {
+    stem = "neuv";
+  } else if (stem.endsWith("e")) {
+    stem = stem.slice(0, -1);
+  }
+  return `${match[1]}${stem}ième`;
+}
+
+// =============================================================================
+// Spanish
+// =============================================================================
+
+const ES_BELOW_THIRTY = [
+  "cero",
+  "uno",
+  "dos",
+  "tres",
+  "cuatro",
+  "cinco",
+  "seis",
+  "siete",
+  "ocho",
+  "nueve",
+  "diez",
+  "once",
+  "doce",
+  "trece",
+  "catorce",
+  "quince",
+  "dieciséis",
+  "diecisiete",
+  "dieciocho",
+  "diecinueve",
+  "veinte",
+  "veintiuno",
+  "veintidós",
+  "veintitrés",
+  "veinticuatro",
+  "veinticinco",
+  "veintiséis",
+  "veintisiete",
+  "veintiocho",
+  "veintinueve",
+];
+const ES_TENS = [
+  "",
+  "",
+  "",
+  "treinta",
+  "cuarenta",
+  "cincuenta",
+  "sesenta",
+  "setenta",
+  "ochenta",
+  "noventa",
+];
+const ES_HUNDREDS = [
+  "",
+  "ciento",
+  "doscientos",
+  "trescientos",
+  "cuatrocientos",
+  "quinientos",
+  "seiscientos",
+  "setecientos",
+  "ochocientos",
+  "novecientos",
+];
+const ES_ORDINAL_UNITS = [
+  "",
+  "primero",
+  "segundo",
+  "tercero",
+  "cuarto",
+  "quinto",
+  "sexto",
+  "séptimo",
+  "octavo",
+  "noveno",
+];
+const ES_ORDINAL_TENS = [
+  "",
+  "décimo",
+  "vigésimo",
+  "trigésimo",
+  "cuadragésimo",
+  "quincuagésimo",
+  "sexagésimo",
+  "septuagésimo",
+  "octogésimo",
+  "nonagésimo",
+];
+const ES_ORDINAL_HUNDREDS = [
+  "",
+  "centésimo",
+  "ducentésimo",
+  "tricentésimo",
+  "cuadringentésimo",
+  "quingentésimo",
+  "sexcentésimo",
+  "septingentésimo",
+  "octingentésimo",
+  "noningentésimo",
+];
+
+function esBelowThousand(value: number): string {
+  if (value === 100) {
+    return "cien";
+  }
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words: string[] = [];
+  if (hundreds > 0) {
+    words.push(ES_HUNDREDS[hundreds]);
+  }
+  if (rest >= 30) {
+    const units = rest % 10;
+    words.push(
+      units > 0
+        ? `${ES_TENS[Math.floor(rest / 10)]} y ${ES_BELOW_THIRTY[units]}`
+        : ES_TENS[rest / 10],
+    );
+  } else if (rest > 0 || hundreds === 0) {
+    words.push(ES_BELOW_THIRTY[rest]);
+  }
+  return words.join(" ");
+}
+
+/**
+ * "uno" becomes "un" (or "una") before a noun
+ */
+function esAttributive(words: string, feminine: boolean): string {
+  return words
+    .replace(/veintiuno$/, feminine ? "veintiuna" : "veintiún")
+    .replace(/(^|\s)uno$/, feminine ? "$1una" : "$1un");
+}
+
+function esCardinal(value: number): string {
+  const scales: readonly [number, string, string][] = [
+    [1e12, "un billón", "billones"],
+    [1e6, "un millón", "millones"],
+  ];
+  for (const [scale, single, plural] of scales) {
+    if (value >= scale) {
+      const count = Math.floor(value / scale);
+      const rest = value % scale;
+      const head =
+        count === 1
+          ? single
+          : `${esAttributive(esCardinal(count), false)} ${plural}`;
+      return rest > 0 ? `${head} ${esCardinal(rest)}` : head;
+    }
+  }
+  if (value >= 1000) {
+    const count = Math.floor(value / 1000);
+    const rest = value % 1000;
+    const head =
+      count === 1 ? "mil" : `${esAttributive(esCardinal(count), false)} mil`;
+    return rest > 0 ? `${head} ${esBelowThousand(rest)}` : head;
+  }
+  return esBelowThousand(value);
+}
+
+function esOrdinal(value: number, feminine: boolean): string {
+  if (value >= 1000) {
+    return esCardinal(value);
+  }
+  const words = [
+    ES_ORDINAL_HUNDREDS[Math.floor(value / 100)],
+    ES_ORDINAL_TENS[Math.floor(value / 10) % 10],
+    ES_ORDINAL_UNITS[value % 10],
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return feminine ? words.replace(/o\b/g, "a") : words;
+}
+
+// =============================================================================
+// Chinese
+// =============================================================================
+
+const ZH_DIGITS = ["零", "一", "二", "三", "四", "五", "六", "七", "八", "九"];
+const ZH_UNITS = ["千", "百", "十", ""];
+const ZH_SCALES: readonly [number, string][] = [
+  [1e12, "万亿"],
+  [1e8, "亿"],
+  [1e4, "万"],
+  [1, ""],
+];
+
+function zhBelowTenThousand(value: number): string {
+  const digits = [
+    Math.floor(value / 1000),
+    Math.floor(value / 100) % 10,
+    Math.floor(value / 10) % 10,
+    value % 10,
+  ];
+  let words = "";
+  let pendingZero = false;
+  digits.forEach((digit, index) => {
+    if (digit === 0) {
+      pendingZero = words.length > 0;
+      return;
+    }
+    if (pendingZero) {
+      words += ZH_DIGITS[0];
+      pendingZero = false;
+    }
+    // "两千" rather than "二千" at the start of a group
+    words +=
+      (digit === 2 && index === 0 && !words ? "两" : ZH_DIGITS[digit]) +
+      ZH_UNITS[index];
+  });
+  return words;
+}
+
+function zhCardinal(value: number): string {
+  if (value === 0) {
+    return ZH_DIGITS[0];
+  }
+  let words = "";
+  let pendingZero = false;
+  let rest = value;
+  for (const [scale, unit] of ZH_SCALES) {
+    const group = Math.floor(rest / scale);
+    rest %= scale;
+    if (group === 0) {
+      pendingZero = words.length > 0;
+      continue;
+    }
+    if (words && (pendingZero || group < 1000)) {
+      words += ZH_DIGITS[0];
+    }
+    words += (group === 2 && unit ? "两" : zhBelowTenThousand(group)) + unit;
+    pendingZero = false;
+  }
+  // 10-19 read as "十一" rather than "一十一"
+  return words.startsWith("一十") ? words.slice(1) : words;
+}
+
+// =============================================================================
+// Language table
+// =============================================================================
+
+const NUMBER_LANGUAGES: Record<NumberLanguage, NumberLanguageRules> = {
+  en: {
+    cardinal: enCardinal,
+    ordinal: enOrdinal,
+    year: enYear,
+    attributive: (words) => words,
+    digits: EN_ONES.slice(0, 10),
+    decimalPoint: "point",
+    minus: "minus",
+    space: " ",
+  },
+  de: {
+    cardinal: deCardinal,
+    ordinal: deOrdinal,
+    year: deYear,
+    attributive: (words, feminine) =>
+      words.replace(/eins$/, feminine ? "eine" : "ein"),
+    digits: DE_ONES.slice(0, 10),
+    decimalPoint: "Komma",
+    minus: "minus",
+    space: " ",
+  },
+  fr: {
+    cardinal: frCardinal,
+    ordinal: frOrdinal,
+    year: frCardinal,
+    attributive: (words, feminine) =>
+      feminine ? words.replace(/(^|[\s-])un$/, "$1une") : words,
+    digits: FR_ONES.slice(0, 10),
+    decimalPoint: "virgule",
+    minus: "moins",
+    space: " ",
+  },
+  es: {
+    cardinal: esCardinal,
+    ordinal: esOrdinal,
+    year: esCardinal,
+    attributive: esAttributive,
+    digits: ES_BELOW_THIRTY.slice(0, 10),
+    decimalPoint: "coma",
+    minus: "menos",
+    space: " ",
+  },
+  zh: {
+    cardinal: zhCardinal,
+    ordinal: (value) => `第${zhCardinal(value)}`,
+    year: (value) =>
+      [...String(value)]
+        .map((digit) => "〇一二三四五六七八九"[+digit])
+        .join(""),
+    attributive: (words) => words,
+    digits: ZH_DIGITS,
+    decimalPoint: "点",
+    minus: "负",
+    space: "",
+  },
+};
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Language with built-in number spelling for a BCP 47 locale, or null
+ */
+export function getNumberLanguage(locale: string): NumberLanguage | null {
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  return language in NUMBER_LANGUAGES ? (language as NumberLanguage) : null;
+}
+
+/**
+ * Separator between number words and neighbouring words ("" for Chinese)
+ */
+export function getWordSpace(language: NumberLanguage): string {
+  return NUMBER_LANGUAGES[language].space;
+}
+
+/**
+ * Spell an integer, e.g. 21 -> "twenty-one".
+ * `attributive` adjusts the form used before a noun ("ein Euro", "un euro").
+ */
+export function cardinalToWords(
+  value: number,
+  language: NumberLanguage,
+  options: { attributive?: boolean; feminine?: boolean } = {},
+): string {
+  const rules = NUMBER_LANGUAGES[language];
+  const words = rules.cardinal(Math.abs(value));
+  const spelled = options.attributive
+    ? rules.attributive(words, options.feminine ?? false)
+    : words;
+  return value < 0 ? negateWords(spelled, language) : spelled;
+}
+
+/**
+ * Prefix spelled words with the minus word, e.g. "minus five"
+ */
+export function negateWords(words: string, language: NumberLanguage): string {
+  const rules = NUMBER_LANGUAGES[language];
+  return `${rules.minus}${rules.space}${words}`;
+}
+
+/**
+ * Spell an ordinal, e.g. 3 -> "third"
+ */
+export function ordinalToWords(
+  value: number,
+  language: NumberLanguage,
+  feminine: boolean = false,
+): string {
+  return NUMBER_LANGUAGES[language].ordinal(value, feminine);
+}
+
+/**
+ * Spell a year, e.g. 1999 -> "nineteen ninety-nine"
+ */
+export function yearToWords(value: number, language: NumberLanguage): string {
+  return NUMBER_LANGUAGES[language].year(value);
+}
+
+/**
+ * Read a digit string digit by digit, e.g. "007" -> "zero zero seven"
+ */
+export function digitsToWords(
+  digits: string,
+  language: NumberLanguage,
+): string {
+  const rules = NUMBER_LANGUAGES[language];
+  return [...digits].map((digit) => rules.digits[+digit]).join(rules.space);
+}
+
+/**
+ * Spell a decimal number; fraction digits are read one by one,
+ * e.g. (3, "14") -> "three point one four"
+ */
+export function decimalToWords(
+  integer: number,
+  fraction: string,
+  language: NumberLanguage,
+): string {
+  const rules = NUMBER_LANGUAGES[language];
+  return [
+    cardinalToWords(integer, language),
+    rules.decimalPoint,
+    digitsToWords(fraction, language),
+  ].join(rules.space);
+}
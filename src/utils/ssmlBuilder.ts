@@ -0,0 +1,260 @@
+/**
+ * Typed SSML builder for EdgeSpeech
+ * Builds escaped SSML markup (breaks, emphasis, say-as) that speak() can send
+ * without hand-written tags, while tracking the plain text being spoken.
+ */
+
+import type {
+  SpeechOptions,
+  SSMLBreakOptions,
+  SSMLBreakStrength,
+  SSMLEmphasisLevel,
+  SSMLSayAsInterpretation,
+  SSMLSayAsOptions,
+} from "../types";
+import { SSML_VALIDATION } from "../constants";
+import { escapeXML, generateSSMLFromMarkup } from "./ssmlUtils";
+import type { SSMLBookmark } from "./ssmlUtils";
+
+/** Letters and digits that need a space between them to stay two words */
+const WORD_END = /[\p{L}\p{M}\p{N}]$/u;
+const WORD_START = /^[\p{L}\p{N}]/u;
+
+const EMPHASIS_LEVELS: readonly SSMLEmphasisLevel[] = [
+  "strong",
+  "moderate",
+  "reduced",
+  "none",
+];
+
+const BREAK_STRENGTHS: readonly SSMLBreakStrength[] = [
+  "none",
+  "x-weak",
+  "weak",
+  "medium",
+  "strong",
+  "x-strong",
+];
+
+const SAY_AS_INTERPRETATIONS: readonly SSMLSayAsInterpretation[] = [
+  "address",
+  "cardinal",
+  "characters",
+  "date",
+  "digits",
+  "duration",
+  "fraction",
+  "name",
+  "number",
+  "ordinal",
+  "spell-out",
+  "telephone",
+  "time",
+];
+
+/**
+ * Convert a break time option to an SSML duration string
+ */
+function formatBreakTime(time: number | string): string {
+  const { MAX_TIME_MS, TIME_PATTERN } = SSML_VALIDATION.BREAK_LIMITS;
+
+  if (typeof time === "number") {
+    if (!Number.isFinite(time) || time < 0 || time > MAX_TIME_MS) {
+      throw new Error(
+        `Break time must be between 0 and ${MAX_TIME_MS} milliseconds.`,
+      );
+    }
+    return `${Math.round(time)}ms`;
+  }
+
+  if (typeof time !== "string" || !TIME_PATTERN.test(time)) {
+    throw new Error(
+      `Invalid break time "${time}". Use milliseconds or a duration such as "500ms" or "2s".`,
+    );
+  }
+  const milliseconds = time.endsWith("ms")
+    ? parseFloat(time)
+    : parseFloat(time) * 1000;
+  if (milliseconds > MAX_TIME_MS) {
+    throw new Error(`Break time cannot exceed ${MAX_TIME_MS} milliseconds.`);
+  }
+  return time;
+}
+
+/**
+ * Ensure an element's text content is a string
+ */
+function requireText(text: string, element: string): string {
+  if (typeof text !== "string" || text.trim().length === 0) {
+    throw new Error(`${element} text must be a non-empty string.`);
+  }
+  return text;
+}
+
+/**
+ * Fluent builder for SSML content.
+ *
+ * Text passed to the builder is escaped exactly once. The resulting markup is
+ * placed inside the generated <prosody> element, so voice, rate, pitch and
+ * volume still come from SpeechOptions.
+ *
+ * @example
+ * ```typescript
+ * const content = ssml()
+ *   .text("Hi")
+ *   .break({ time: 500 })
+ *   .emphasis("really", "strong")
+ *   .bookmark("date")
+ *   .sayAs("2024-01-01", "date");
+ *
+ * Speech.speak(content, { voice: "en-US-AriaNeural" });
+ * ```
+ */
+export class SSMLBuilder {
+  private markup = "";
+  private plainText = "";
+  private bookmarks: SSMLBookmark[] = [];
+
+  /**
+   * Append plain text
+   */
+  text(text: string): this {
+    if (typeof text !== "string") {
+      throw new Error("Text must be a string.");
+    }
+    return this.append(escapeXML(text), text);
+  }
+
+  /**
+   * Append a pause
+   */
+  break(options: SSMLBreakOptions = {}): this {
+    if (options.time !== undefined) {
+      return this.append(
+        `<break time="${formatBreakTime(options.time)}"/>`,
+        "",
+      );
+    }
+    if (options.strength !== undefined) {
+      if (!BREAK_STRENGTHS.includes(options.strength)) {
+        throw new Error(`Invalid break strength "${options.strength}".`);
+      }
+      return this.append(`<break strength="${options.strength}"/>`, "");
+    }
+    return this.append("<break/>", "");
+  }
+
+  /**
+   * Append emphasized text
+   */
+  emphasis(text: string, level: SSMLEmphasisLevel = "moderate"): this {
+    requireText(text, "Emphasis");
+    if (!EMPHASIS_LEVELS.includes(level)) {
+      throw new Error(`Invalid emphasis level "${level}".`);
+    }
+    return this.append(
+      `<emphasis level="${level}">${escapeXML(text)}</emphasis>`,
+      text,
+    );
+  }
+
+  /**
+   * Append text with an explicit interpretation (dates, numbers, ...)
+   */
+  sayAs(
+    text: string,
+    interpretAs: SSMLSayAsInterpretation,
+    options: SSMLSayAsOptions = {},
+  ): this {
+    requireText(text, "Say-as");
+    if (!SAY_AS_INTERPRETATIONS.includes(interpretAs)) {
+      throw new Error(`Invalid say-as interpretation "${interpretAs}".`);
+    }
+
+    let attributes = `interpret-as="${interpretAs}"`;
+    if (options.format) {
+      attributes += ` format="${escapeXML(options.format)}"`;
+    }
+    if (options.detail) {
+      attributes += ` detail="${escapeXML(options.detail)}"`;
+    }
+    return this.append(
+      `<say-as ${attributes}>${escapeXML(text)}</say-as>`,
+      text,
+    );
+  }
+
+  /**
+   * Append a bookmark; onMark fires when playback reaches it
+   */
+  bookmark(name: string): this {
+    if (typeof name !== "string" || name.length === 0) {
+      throw new Error("Bookmark name must be a non-empty string.");
+    }
+    this.bookmarks.push({ name, charIndex: this.plainText.length });
+    return this.append(`<bookmark mark="${escapeXML(name)}"/>`, "");
+  }
+
+  /**
+   * Escaped SSML markup for use inside a <prosody> element
+   */
+  toMarkup(): string {
+    return this.markup;
+  }
+
+  /**
+   * The text that will be spoken, used for boundary char offsets
+   */
+  toPlainText(): string {
+    return this.plainText;
+  }
+
+  /**
+   * Bookmarks with the position of the word that follows each one
+   */
+  toBookmarks(): SSMLBookmark[] {
+    return this.bookmarks.map(({ name, charIndex }) => ({
+      name,
+      // Skip the space added before the next word
+      charIndex: /\s/.test(this.plainText[charIndex] ?? "")
+        ? charIndex + 1
+        : charIndex,
+    }));
+  }
+
+  /**
+   * Whether the builder contains no spoken text
+   */
+  isEmpty(): boolean {
+    return this.plainText.trim().length === 0;
+  }
+
+  /**
+   * Build a complete SSML document for the given speech options
+   */
+  build(options?: SpeechOptions): string {
+    return generateSSMLFromMarkup(this.markup, options);
+  }
+
+  /**
+   * Append markup, separating adjacent words with a single space.
+   * Punctuation and whitespace are left as given, so "Hello, " + "world" +
+   * "!" reads "Hello, world!".
+   */
+  private append(markup: string, text: string): this {
+    if (WORD_END.test(this.plainText) && WORD_START.test(text)) {
+      this.markup += " ";
+      this.plainText += " ";
+    }
+    this.markup += markup;
+    this.plainText += text;
+    return this;
+  }
+}
+
+/**
+ * Create a new SSML builder
+ */
+export function ssml(): SSMLBuilder {
+  return new SSMLBuilder();
+}
@@ -0,0 +1,471 @@
+/**
+ * Lightweight SSML/XML parser for EdgeSpeech
+ * Tokenizes SSML documents into an element tree with source positions so that
+ * validation errors can point at a line and column. Works without a DOM, so it
+ * runs in React Native.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Position of a node or error in the source document (1-based)
+ */
+export interface SSMLSourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/**
+ * Parsed attribute with its position
+ */
+export interface SSMLAttribute {
+  name: string;
+  /** Value with entities decoded */
+  value: string;
+  position: SSMLSourcePosition;
+}
+
+/**
+ * Parsed element
+ */
+export interface SSMLElementNode {
+  type: "element";
+  name: string;
+  attributes: SSMLAttribute[];
+  children: SSMLNode[];
+  position: SSMLSourcePosition;
+}
+
+/**
+ * Parsed text content
+ */
+export interface SSMLTextNode {
+  type: "text";
+  /** Text with entities decoded */
+  text: string;
+  position: SSMLSourcePosition;
+}
+
+export type SSMLNode = SSMLElementNode | SSMLTextNode;
+
+/**
+ * Well-formedness error found while parsing
+ */
+export interface SSMLParseError {
+  message: string;
+  position: SSMLSourcePosition;
+}
+
+/**
+ * Result of parsing an SSML document
+ */
+export interface SSMLParseResult {
+  /** Root element, or null if the document has none */
+  root: SSMLElementNode | null;
+  errors: SSMLParseError[];
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const NAME_START = /[A-Za-z_:]/;
+const NAME_CHAR = /[A-Za-z0-9_:.-]/;
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Get the value of an attribute by name
+ */
+export function getAttribute(
+  element: SSMLElementNode,
+  name: string,
+): string | undefined {
+  return element.attributes.find((attribute) => attribute.name === name)?.value;
+}
+
+/**
+ * Single-pass recursive descent parser over the source string
+ */
+class SSMLParser {
+  private readonly source: string;
+  private readonly lineStarts: number[] = [0];
+  private index = 0;
+  private readonly errors: SSMLParseError[] = [];
+
+  constructor(source: string) {
+    this.source = source;
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  parse(): SSMLParseResult {
+    let root: SSMLElementNode | null = null;
+
+    while (this.index < this.source.length) {
+      if (this.startsWith("<?")) {
+        this.skipProcessingInstruction();
+      } else if (this.startsWith("<!--")) {
+        this.skipComment();
+      } else if (this.startsWith("<!")) {
+        this.error("Document type declarations are not allowed");
+        this.skipUntil(">");
+      } else if (this.startsWith("</")) {
+        const start = this.index;
+        const name = this.readEndTag();
+        this.error(`Unexpected closing tag </${name}>`, start);
+      } else if (this.source[this.index] === "<") {
+        const start = this.index;
+        const element = this.parseElement([]);
+        if (element && root) {
+          this.error("Document must have a single root element", start);
+        } else if (element) {
+          root = element;
+        }
+      } else {
+        const start = this.index;
+        const text = this.readRawText();
+        if (text.trim().length > 0) {
+          this.error("Text is not allowed outside the root element", start);
+        }
+      }
+    }
+
+    return { root, errors: this.errors };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Elements
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Parse an element starting at "<"; `openNames` are the enclosing elements
+   */
+  private parseElement(openNames: string[]): SSMLElementNode | null {
+    const start = this.index;
+    this.index++; // "<"
+
+    const name = this.readName();
+    if (!name) {
+      this.error("Expected an element name after '<'", start);
+      this.skipUntil(">");
+      return null;
+    }
+
+    const element: SSMLElementNode = {
+      type: "element",
+      name,
+      attributes: [],
+      children: [],
+      position: this.positionAt(start),
+    };
+
+    // Attributes
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      if (this.index >= this.source.length) {
+        this.error(`Unterminated start tag <${name}>`, start);
+        return element;
+      }
+      if (this.startsWith("/>")) {
+        this.index += 2;
+        return element;
+      }
+      if (this.source[this.index] === ">") {
+        this.index++;
+        break;
+      }
+      if (!hadWhitespace) {
+        this.error(`Expected whitespace before attribute in <${name}>`);
+      }
+      if (!this.parseAttribute(element)) {
+        this.skipUntil(">");
+        return element;
+      }
+    }
+
+    // Content
+    const innerNames = [...openNames, name];
+    while (this.index < this.source.length) {
+      if (this.startsWith("</")) {
+        const endStart = this.index;
+        const endName = this.readEndTag();
+        if (endName !== name) {
+          this.error(`Mismatched <${name}> tags`, endStart);
+          // Let an enclosing element consume its own closing tag
+          if (openNames.includes(endName)) {
+            this.index = endStart;
+          }
+        }
+        return element;
+      }
+      if (this.startsWith("<!--")) {
+        this.skipComment();
+      } else if (this.startsWith("<![CDATA[")) {
+        this.readCData(element);
+      } else if (this.startsWith("<?")) {
+        this.skipProcessingInstruction();
+      } else if (this.source[this.index] === "<") {
+        const child = this.parseElement(innerNames);
+        if (child) {
+          element.children.push(child);
+        }
+      } else {
+        const textStart = this.index;
+        const raw = this.readRawText();
+        element.children.push({
+          type: "text",
+          text: this.decodeEntities(raw, textStart),
+          position: this.positionAt(textStart),
+        });
+      }
+    }
+
+    this.error(`Unclosed <${name}> element`, start);
+    return element;
+  }
+
+  /**
+   * Parse one name="value" attribute; returns false on unrecoverable errors
+   */
+  private parseAttribute(element: SSMLElementNode): boolean {
+    const start = this.index;
+    const name = this.readName();
+    if (!name) {
+      this.error(`Invalid character in <${element.name}> start tag`);
+      return false;
+    }
+
+    this.skipWhitespace();
+    if (this.source[this.index] !== "=") {
+      this.error(`Attribute "${name}" must have a value`, start);
+      return false;
+    }
+    this.index++;
+    this.skipWhitespace();
+
+    const quote = this.source[this.index];
+    if (quote !== '"' && quote !== "'") {
+      this.error(`Value of attribute "${name}" must be quoted`, start);
+      return false;
+    }
+    const valueStart = this.index + 1;
+    const valueEnd = this.source.indexOf(quote, valueStart);
+    if (valueEnd === -1) {
+      this.error(`Unterminated value for attribute "${name}"`, start);
+      this.index = this.source.length;
+      return false;
+    }
+
+    const raw = this.source.slice(valueStart, valueEnd);
+    const lessThan = raw.indexOf("<");
+    if (lessThan !== -1) {
+      this.error(
+        `Attribute "${name}" value must not contain '<'`,
+        valueStart + lessThan,
+      );
+    }
+    this.index = valueEnd + 1;
+
+    if (element.attributes.some((attribute) => attribute.name === name)) {
+      this.error(`Duplicate attribute "${name}" on <${element.name}>`, start);
+    }
+    element.attributes.push({
+      name,
+      value: this.decodeEntities(raw, valueStart),
+      position: this.positionAt(start),
+    });
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lexical helpers
+  // ---------------------------------------------------------------------------
+
+  private readName(): string {
+    const start = this.index;
+    if (!NAME_START.test(this.source[this.index] ?? "")) {
+      return "";
+    }
+    this.index++;
+    while (NAME_CHAR.test(this.source[this.index] ?? "")) {
+      this.index++;
+    }
+    return this.source.slice(start, this.index);
+  }
+
+  private readEndTag(): string {
+    this.index += 2; // "</"
+    const name = this.readName();
+    this.skipWhitespace();
+    if (this.source[this.index] === ">") {
+      this.index++;
+    } else {
+      this.error(`Malformed closing tag </${name}>`);
+      this.skipUntil(">");
+    }
+    return name;
+  }
+
+  private readRawText(): string {
+    const end = this.source.indexOf("<", this.index);
+    const stop = end === -1 ? this.source.length : end;
+    const raw = this.source.slice(this.index, stop);
+    this.index = stop;
+    return raw;
+  }
+
+  private readCData(element: SSMLElementNode): void {
+    const start = this.index;
+    const end = this.source.indexOf("]]>", start);
+    if (end === -1) {
+      this.error("Unterminated CDATA section", start);
+      this.index = this.source.length;
+      return;
+    }
+    element.children.push({
+      type: "text",
+      text: this.source.slice(start + 9, end),
+      position: this.positionAt(start),
+    });
+    this.index = end + 3;
+  }
+
+  private skipComment(): void {
+    const end = this.source.indexOf("-->", this.index + 4);
+    if (end === -1) {
+      this.error("Unterminated comment");
+      this.index = this.source.length;
+      return;
+    }
+    this.index = end + 3;
+  }
+
+  private skipProcessingInstruction(): void {
+    const end = this.source.indexOf("?>", this.index + 2);
+    if (end === -1) {
+      this.error("Unterminated processing instruction");
+      this.index = this.source.length;
+      return;
+    }
+    this.index = end + 2;
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.index;
+    while (/\s/.test(this.source[this.index] ?? "")) {
+      this.index++;
+    }
+    return this.index > start;
+  }
+
+  private skipUntil(char: string): void {
+    const end = this.source.indexOf(char, this.index);
+    this.index = end === -1 ? this.source.length : end + 1;
+  }
+
+  private startsWith(token: string): boolean {
+    return this.source.startsWith(token, this.index);
+  }
+
+  /**
+   * Decode entity and character references, reporting invalid ones
+   */
+  private decodeEntities(raw: string, offset: number): string {
+    let result = "";
+    let i = 0;
+    while (i < raw.length) {
+      const ampersand = raw.indexOf("&", i);
+      if (ampersand === -1) {
+        result += raw.slice(i);
+        break;
+      }
+      result += raw.slice(i, ampersand);
+
+      const semicolon = raw.indexOf(";", ampersand);
+      const reference =
+        semicolon === -1 ? "" : raw.slice(ampersand + 1, semicolon);
+      const decoded = this.decodeReference(reference);
+      if (decoded === null) {
+        this.error(
+          reference && /^#?[A-Za-z0-9]+$/.test(reference)
+            ? `Invalid entity reference "&${reference};"`
+            : "Unescaped '&' must be written as &amp;",
+          offset + ampersand,
+        );
+        result += "&";
+        i = ampersand + 1;
+      } else {
+        result += decoded;
+        i = semicolon + 1;
+      }
+    }
+    return result;
+  }
+
+  private decodeReference(reference: string): string | null {
+    if (reference in PREDEFINED_ENTITIES) {
+      return PREDEFINED_ENTITIES[reference];
+    }
+    const match = /^#(?:x([0-9a-fA-F]+)|([0-9]+))$/.exec(reference);
+    if (!match) {
+      return null;
+    }
+    const codePoint = match[1]
+      ? parseInt(match[1], 16)
+      : parseInt(match[2], 10);
+    const isValid =
+      codePoint === 0x9 ||
+      codePoint === 0xa ||
+      codePoint === 0xd ||
+      (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+      (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+      (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+    return isValid ? String.fromCodePoint(codePoint) : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Positions and errors
+  // ---------------------------------------------------------------------------
+
+  private positionAt(offset: number): SSMLSourcePosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return {
+      line: low + 1,
+      column: offset - this.lineStarts[low] + 1,
+      offset,
+    };
+  }
+
+  private error(message: string, offset: number = this.index): void {
+    this.errors.push({ message, position: this.positionAt(offset) });
+  }
+}
+
+/**
+ * Parse an SSML document into an element tree.
+ * Never throws; well-formedness problems are returned in `errors`.
+ */
+export function parseSSML(source: string): SSMLParseResult {
+  return new SSMLParser(source).parse();
+}
@@ -1,7 +1,12 @@
 /**
  * SSML generation and processing utilities for EdgeSpeech
  */
-import { SpeechOptions, EdgeSpeechVoice } from "../types";
+import {
+  SpeechOptions,
+  EdgeSpeechVoice,
+  DialogueLine,
+  DialogueOptions,
+} from "../types";
 import { clampValue } from "./commonUtils";
 import {
   PARAMETER_RANGES,
@@ -9,7 +14,14 @@ import {
   SSML_NAMESPACE,
   MAX_TEXT_LENGTH,
   DEFAULT_VOICE,
+  SSML_VALIDATION,
 } from "../constants";
+import {
+  parseSSML,
+  getAttribute,
+  SSMLElementNode,
+  SSMLSourcePosition,
+} from "./ssmlParser";
 
 /**
  * SSML validation result interface
@@ -18,6 +30,20 @@ export interface SSMLValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  /** Errors and warnings with their source position, when available */
+  issues?: SSMLValidationIssue[];
+}
+
+/**
+ * Validation error or warning located in the SSML source
+ */
+export interface SSMLValidationIssue {
+  severity: "error" | "warning";
+  message: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
 }
 
 /**
@@ -160,90 +186,387 @@ export function formatVoiceNameForEdgeTTS(voiceIdentifier: string): string {
 }
 
 /**
- * Validate SSML markup structure
+ * Attribute rules for a known SSML element.
+ * `xml:*` and `xmlns*` attributes are accepted on every element.
  */
-export function validateSSML(ssml: string): SSMLValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+interface SSMLElementRule {
+  required: readonly string[];
+  optional: readonly string[];
+  /** Element must not have content */
+  empty?: boolean;
+}
 
-  if (!ssml || typeof ssml !== "string") {
-    errors.push("SSML content is empty or invalid");
-    return { isValid: false, errors, warnings };
+/**
+ * Elements understood by Edge TTS and the attributes they accept
+ */
+const SSML_ELEMENT_RULES: Record<string, SSMLElementRule> = {
+  speak: { required: [], optional: ["version", "xmlns"] },
+  voice: {
+    required: SSML_VALIDATION.REQUIRED_ATTRIBUTES.VOICE,
+    optional: ["effect"],
+  },
+  prosody: {
+    required: [],
+    optional: ["rate", "pitch", "volume", "contour", "range"],
+  },
+  break: { required: [], optional: ["time", "strength"], empty: true },
+  emphasis: { required: [], optional: ["level"] },
+  "say-as": { required: ["interpret-as"], optional: ["format", "detail"] },
+  sub: { required: ["alias"], optional: [] },
+  phoneme: { required: ["ph"], optional: ["alphabet"] },
+  lexicon: { required: ["uri"], optional: [], empty: true },
+  audio: { required: ["src"], optional: [] },
+  bookmark: { required: ["mark"], optional: [], empty: true },
+  mark: { required: ["name"], optional: [], empty: true },
+  lang: { required: ["xml:lang"], optional: [] },
+  p: { required: [], optional: [] },
+  s: { required: [], optional: [] },
+  "mstts:express-as": {
+    required: [],
+    optional: ["style", "styledegree", "role"],
+  },
+  "mstts:silence": { required: ["type", "value"], optional: [], empty: true },
+  "mstts:backgroundaudio": {
+    required: ["src"],
+    optional: ["volume", "fadein", "fadeout"],
+    empty: true,
+  },
+  "mstts:viseme": { required: ["type"], optional: [], empty: true },
+  "mstts:audioduration": { required: ["value"], optional: [], empty: true },
+};
+
+const BREAK_STRENGTHS = [
+  "none",
+  "x-weak",
+  "weak",
+  "medium",
+  "strong",
+  "x-strong",
+] as const;
+
+const EMPHASIS_LEVELS = ["strong", "moderate", "reduced", "none"] as const;
+
+/**
+ * Named prosody values accepted in place of relative percentages
+ */
+const PROSODY_KEYWORDS = {
+  rate: ["x-slow", "slow", "medium", "fast", "x-fast", "default"],
+  pitch: ["x-low", "low", "medium", "high", "x-high", "default"],
+  volume: ["silent", "x-soft", "soft", "medium", "loud", "x-loud", "default"],
+} as const;
+
+/**
+ * Check whether a prosody attribute value is accepted by Edge TTS
+ */
+function isValidProsodyValue(
+  attribute: keyof typeof PROSODY_KEYWORDS,
+  value: string,
+): boolean {
+  const ranges = SSML_VALIDATION.PROSODY_RANGES;
+  if ((PROSODY_KEYWORDS[attribute] as readonly string[]).includes(value)) {
+    return true;
+  }
+  switch (attribute) {
+    case "rate":
+      return (
+        ranges.RATE.RELATIVE_PATTERN.test(value) || /^\d+(\.\d+)?$/.test(value)
+      );
+    case "pitch":
+      return (
+        ranges.PITCH.RELATIVE_PATTERN.test(value) ||
+        ranges.PITCH.HZ_PATTERN.test(value)
+      );
+    case "volume":
+      return (
+        ranges.VOLUME.RELATIVE_PATTERN.test(value) ||
+        /^\d+(\.\d+)?$/.test(value)
+      );
+  }
+}
+
+/**
+ * Check whether a break time is well formed and within the service limit
+ */
+function isValidBreakTime(value: string): boolean {
+  const { MAX_TIME_MS, TIME_PATTERN } = SSML_VALIDATION.BREAK_LIMITS;
+  if (!TIME_PATTERN.test(value)) {
+    return false;
   }
-  if (!ssml.includes("<speak")) {
-    errors.push("Missing required <speak> root element");
+  const milliseconds = value.endsWith("ms")
+    ? parseFloat(value)
+    : parseFloat(value) * 1000;
+  return milliseconds <= MAX_TIME_MS;
+}
+
+/**
+ * Collects errors and warnings while walking a parsed SSML tree
+ */
+class SSMLValidationContext {
+  readonly issues: SSMLValidationIssue[] = [];
+  voiceCount = 0;
+  maxProsodyDepth = 0;
+
+  error(message: string, position: SSMLSourcePosition): void {
+    this.add("error", message, position);
   }
-  if (!ssml.includes('version="1.0"')) {
-    errors.push('Missing required version="1.0" attribute');
+
+  warning(message: string, position: SSMLSourcePosition): void {
+    this.add("warning", message, position);
   }
-  if (!ssml.includes(`xmlns="${SSML_CONSTANTS.XMLNS}"`)) {
-    errors.push("Missing required xmlns attribute");
+
+  toResult(): SSMLValidationResult {
+    const errors = this.issues
+      .filter((issue) => issue.severity === "error")
+      .map((issue) => issue.message);
+    const warnings = this.issues
+      .filter((issue) => issue.severity === "warning")
+      .map((issue) => issue.message);
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      issues: this.issues,
+    };
   }
-  if (!ssml.includes("xml:lang=")) {
-    warnings.push("Missing xml:lang attribute (recommended)");
+
+  private add(
+    severity: SSMLValidationIssue["severity"],
+    message: string,
+    position: SSMLSourcePosition,
+  ): void {
+    this.issues.push({
+      severity,
+      message,
+      line: position.line,
+      column: position.column,
+    });
   }
-  if (!ssml.includes("<voice")) {
-    errors.push("Missing required <voice> element");
+}
+
+/**
+ * Validate the <speak> root element's attributes
+ */
+function validateSpeakAttributes(
+  speak: SSMLElementNode,
+  context: SSMLValidationContext,
+): void {
+  const version = getAttribute(speak, "version");
+  if (version === undefined) {
+    context.error('Missing required version="1.0" attribute', speak.position);
+  } else if (version !== SSML_CONSTANTS.VERSION) {
+    context.error(
+      `Unsupported SSML version "${version}", expected "${SSML_CONSTANTS.VERSION}"`,
+      speak.position,
+    );
   }
-  if (ssml.includes("<voice") && !ssml.includes('name="')) {
-    errors.push("Missing required name attribute in <voice> element");
+
+  const xmlns = getAttribute(speak, "xmlns");
+  if (xmlns === undefined) {
+    context.error("Missing required xmlns attribute", speak.position);
+  } else if (xmlns !== SSML_CONSTANTS.XMLNS) {
+    context.error(
+      `Invalid xmlns "${xmlns}", expected "${SSML_CONSTANTS.XMLNS}"`,
+      speak.position,
+    );
   }
-  if (ssml.includes('name=""')) {
-    errors.push("Voice name attribute cannot be empty in <voice> element");
+
+  // Edge TTS falls back to the voice locale, so xml:lang is only recommended
+  if (getAttribute(speak, "xml:lang") === undefined) {
+    context.warning("Missing xml:lang attribute (recommended)", speak.position);
   }
+}
 
-  try {
-    const speakCount = (ssml.match(/<speak/g) || []).length;
-    const speakCloseCount = (ssml.match(/<\/speak>/g) || []).length;
-    if (speakCount !== speakCloseCount) {
-      errors.push("Mismatched <speak> tags");
-    }
-    const voiceCount = (ssml.match(/<voice/g) || []).length;
-    const voiceCloseCount = (ssml.match(/<\/voice>/g) || []).length;
-    if (voiceCount !== voiceCloseCount) {
-      errors.push("Mismatched <voice> tags");
-    }
-    const prosodyCount = (ssml.match(/<prosody/g) || []).length;
-    const prosodyCloseCount = (ssml.match(/<\/prosody>/g) || []).length;
-    if (prosodyCount !== prosodyCloseCount) {
-      errors.push("Mismatched <prosody> tags");
-    }
-    const tagStack: string[] = [];
-    const tagRegex = /<\/?(\w+)[^>]*>/g;
-    let match;
-    while ((match = tagRegex.exec(ssml)) !== null) {
-      const fullTag = match[0];
-      const tagName = match[1];
-      if (fullTag.startsWith("</")) {
-        if (tagStack.length === 0) {
-          errors.push(`Unexpected closing tag: </${tagName}>`);
-          break;
+/**
+ * Validate attribute values that have a fixed format
+ */
+function validateAttributeValues(
+  element: SSMLElementNode,
+  context: SSMLValidationContext,
+): void {
+  for (const { name, value, position } of element.attributes) {
+    switch (`${element.name} ${name}`) {
+      case "voice name":
+        if (value.trim() === "") {
+          context.error(
+            "Voice name attribute cannot be empty in <voice> element",
+            position,
+          );
         }
-        const lastOpenTag = tagStack.pop();
-        if (lastOpenTag !== tagName) {
-          errors.push(
-            `Mismatched tags: expected </${lastOpenTag}> but found </${tagName}>`,
+        break;
+      case "prosody rate":
+      case "prosody pitch":
+      case "prosody volume":
+        if (
+          !isValidProsodyValue(name as keyof typeof PROSODY_KEYWORDS, value)
+        ) {
+          context.error(`Invalid prosody ${name} value "${value}"`, position);
+        }
+        break;
+      case "break time":
+        if (!isValidBreakTime(value)) {
+          context.error(
+            `Invalid break time "${value}", expected a duration up to ${SSML_VALIDATION.BREAK_LIMITS.MAX_TIME_MS}ms`,
+            position,
           );
-          break;
         }
-      } else if (!fullTag.endsWith("/>")) {
-        tagStack.push(tagName);
+        break;
+      case "break strength":
+        if (!(BREAK_STRENGTHS as readonly string[]).includes(value)) {
+          context.error(`Invalid break strength "${value}"`, position);
+        }
+        break;
+      case "emphasis level":
+        if (!(EMPHASIS_LEVELS as readonly string[]).includes(value)) {
+          context.error(`Invalid emphasis level "${value}"`, position);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Validate an element and its descendants
+ */
+function validateElement(
+  element: SSMLElementNode,
+  ancestors: SSMLElementNode[],
+  context: SSMLValidationContext,
+): void {
+  const { name, position } = element;
+
+  // Namespace prefixes must be declared on the element or an ancestor
+  const prefix = name.includes(":") ? name.split(":")[0] : null;
+  if (
+    prefix &&
+    ![...ancestors, element].some(
+      (scope) => getAttribute(scope, `xmlns:${prefix}`) !== undefined,
+    )
+  ) {
+    context.error(
+      `Undeclared namespace prefix "${prefix}" on <${name}>`,
+      position,
+    );
+  }
+
+  const rule = SSML_ELEMENT_RULES[name];
+  if (!rule) {
+    context.error(`Unknown element <${name}>`, position);
+  } else {
+    if (name === "speak") {
+      if (ancestors.length > 0) {
+        context.error("<speak> must be the root element", position);
       }
+      validateSpeakAttributes(element, context);
     }
-    if (tagStack.length > 0) {
-      errors.push(
-        `Unclosed tags: ${tagStack.map((tag) => `<${tag}>`).join(", ")}`,
-      );
+
+    for (const required of rule.required) {
+      if (getAttribute(element, required) === undefined) {
+        context.error(
+          `Missing required ${required} attribute in <${name}> element`,
+          position,
+        );
+      }
+    }
+    for (const attribute of element.attributes) {
+      if (
+        !attribute.name.startsWith("xml:") &&
+        !attribute.name.startsWith("xmlns") &&
+        !rule.required.includes(attribute.name) &&
+        !rule.optional.includes(attribute.name)
+      ) {
+        context.error(
+          `Unknown attribute "${attribute.name}" on <${name}>`,
+          attribute.position,
+        );
+      }
+    }
+    validateAttributeValues(element, context);
+
+    if (rule.empty && element.children.length > 0) {
+      context.error(`<${name}> element must be empty`, position);
     }
-  } catch {
-    errors.push("Invalid XML structure during parsing attempt");
   }
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings,
-  };
+  if (name === "voice") {
+    context.voiceCount++;
+    if (ancestors.some((ancestor) => ancestor.name === "voice")) {
+      context.error("<voice> elements cannot be nested", position);
+    }
+  }
+  if (name === "prosody") {
+    const depth =
+      ancestors.filter((ancestor) => ancestor.name === "prosody").length + 1;
+    context.maxProsodyDepth = Math.max(context.maxProsodyDepth, depth);
+  }
+
+  const insideVoice =
+    name === "voice" || ancestors.some((ancestor) => ancestor.name === "voice");
+  const scope = [...ancestors, element];
+  for (const child of element.children) {
+    if (child.type === "element") {
+      validateElement(child, scope, context);
+    } else if (!insideVoice && child.text.trim().length > 0) {
+      context.error("Text must be inside a <voice> element", child.position);
+    }
+  }
+}
+
+/**
+ * Validate SSML markup.
+ *
+ * The document is parsed without a DOM, so well-formedness errors (mismatched
+ * tags, bad entities, duplicate attributes), unknown elements and attributes,
+ * missing required attributes and the SSML_VALIDATION limits are all reported.
+ * `issues` carries the line and column of each error and warning.
+ */
+export function validateSSML(ssml: string): SSMLValidationResult {
+  const context = new SSMLValidationContext();
+  const documentStart: SSMLSourcePosition = { line: 1, column: 1, offset: 0 };
+  const { TEXT_LIMITS } = SSML_VALIDATION;
+
+  if (!ssml || typeof ssml !== "string") {
+    context.error("SSML content is empty or invalid", documentStart);
+    return context.toResult();
+  }
+
+  if (ssml.length > TEXT_LIMITS.MAX_SSML_LENGTH) {
+    context.error(
+      `SSML length (${ssml.length}) exceeds maximum of ${TEXT_LIMITS.MAX_SSML_LENGTH} characters`,
+      documentStart,
+    );
+  }
+
+  const { root, errors } = parseSSML(ssml);
+  for (const parseError of errors) {
+    context.error(parseError.message, parseError.position);
+  }
+
+  if (!root || root.name !== "speak") {
+    context.error(
+      "Missing required <speak> root element",
+      root?.position ?? documentStart,
+    );
+    return context.toResult();
+  }
+
+  validateElement(root, [], context);
+
+  if (context.voiceCount === 0) {
+    context.error("Missing required <voice> element", root.position);
+  } else if (context.voiceCount > TEXT_LIMITS.MAX_VOICE_ELEMENTS) {
+    context.error(
+      `Too many <voice> elements (${context.voiceCount}), maximum is ${TEXT_LIMITS.MAX_VOICE_ELEMENTS}`,
+      root.position,
+    );
+  }
+  if (context.maxProsodyDepth > TEXT_LIMITS.MAX_PROSODY_NESTING) {
+    context.error(
+      `<prosody> elements nested ${context.maxProsodyDepth} deep, maximum is ${TEXT_LIMITS.MAX_PROSODY_NESTING}`,
+      root.position,
+    );
+  }
+
+  return context.toResult();
 }
 
 /**
@@ -334,6 +657,70 @@ export function generateSSML(text: string, options?: SpeechOptions): string {
     );
   }
 
+  return wrapSSMLContent(escapeXML(text), options);
+}
+
+/**
+ * Generates SSML for Microsoft Edge TTS around content that is already
+ * escaped SSML markup, such as the output of SSMLBuilder.toMarkup().
+ * The markup is inserted as-is without escaping it again.
+ * @throws Error if markup is empty.
+ */
+export function generateSSMLFromMarkup(
+  markup: string,
+  options?: SpeechOptions,
+): string {
+  if (!markup || typeof markup !== "string") {
+    throw new Error("Markup must be a non-empty string.");
+  }
+
+  return wrapSSMLContent(markup, options);
+}
+
+/**
+ * Escaped markup for a run of text in one language.
+ * `language` is undefined for text read with the session voice.
+ */
+export interface LanguageSegment {
+  language?: string;
+  markup: string;
+}
+
+/**
+ * Escaped markup read by one voice of a multi-voice document
+ */
+export interface SSMLVoiceSegment {
+  voice: string;
+  markup: string;
+}
+
+/**
+ * Generates one SSML document with a <voice> element per segment, each with
+ * the prosody and speaking style of `options`. Used for text whose language
+ * runs switch voices (HTML `lang` attributes, autoLanguage).
+ * @throws Error if there are no segments or a voice is invalid.
+ */
+export function generateMultiVoiceSSML(
+  segments: SSMLVoiceSegment[],
+  options?: SpeechOptions,
+): string {
+  if (!Array.isArray(segments) || segments.length === 0) {
+    throw new Error("SSML must contain at least one voice segment.");
+  }
+
+  const voices = segments
+    .map(({ voice, markup }) => createVoiceElement(voice, markup, options))
+    .join("");
+  const language =
+    options?.language || extractLanguageFromVoice(segments[0].voice);
+
+  return `<speak version="${SSML_CONSTANTS.VERSION}" xmlns="${SSML_CONSTANTS.XMLNS}" xmlns:mstts="${SSML_CONSTANTS.XMLNS_MSTTS}" xml:lang="${language}">${voices}</speak>`;
+}
+
+/**
+ * Wrap escaped content in speak, voice and prosody elements
+ */
+function wrapSSMLContent(content: string, options?: SpeechOptions): string {
   const voiceToUse =
     options?.voice !== undefined ? options.voice : DEFAULT_VOICE;
 
@@ -341,13 +728,28 @@ export function generateSSML(text: string, options?: SpeechOptions): string {
     throw new Error("Voice option must be a valid string.");
   }
 
-  const escapedText = escapeXML(text);
+  const voiceElement = createVoiceElement(voiceToUse, content, options);
+
+  // Use language from options if provided, otherwise extract from voice
+  const language = options?.language || extractLanguageFromVoice(voiceToUse);
+
+  return `<speak version="${SSML_CONSTANTS.VERSION}" xmlns="${SSML_CONSTANTS.XMLNS}" xmlns:mstts="${SSML_CONSTANTS.XMLNS_MSTTS}" xml:lang="${language}">${voiceElement}</speak>`;
+}
+
+/**
+ * Wrap escaped content in voice and prosody elements
+ */
+function createVoiceElement(
+  voice: string,
+  content: string,
+  options?: SpeechOptions,
+): string {
   const { rate, pitch, volume } = options || {};
 
-  const formattedVoiceName = formatVoiceNameForEdgeTTS(voiceToUse);
+  const formattedVoiceName = formatVoiceNameForEdgeTTS(voice);
   if (!formattedVoiceName) {
     throw new Error(
-      `Failed to format voice name for Edge TTS: "${voiceToUse}". Ensure it's a valid identifier (e.g., en-US-AriaNeural) or already in Microsoft format.`,
+      `Failed to format voice name for Edge TTS: "${voice}". Ensure it's a valid identifier (e.g., en-US-AriaNeural) or already in Microsoft format.`,
     );
   }
 
@@ -355,10 +757,112 @@ export function generateSSML(text: string, options?: SpeechOptions): string {
   const formattedPitch = formatPitch(pitch);
   const formattedVolume = formatVolume(volume);
 
-  // Use language from options if provided, otherwise extract from voice
-  const language = options?.language || extractLanguageFromVoice(voiceToUse);
+  const prosody = `<prosody rate="${formattedRate}" pitch="${formattedPitch}" volume="${formattedVolume}">${content}</prosody>`;
+
+  return `<voice name="${formattedVoiceName}">${wrapExpressAs(prosody, options)}</voice>`;
+}
+
+/**
+ * Wrap content in <mstts:express-as> when a speaking style or role is set
+ */
+function wrapExpressAs(content: string, options?: SpeechOptions): string {
+  const { style, styleDegree, role } = options || {};
+  if (!style && !role) {
+    return content;
+  }
+
+  let attributes = "";
+  if (style) {
+    attributes += ` style="${escapeXML(style)}"`;
+    if (styleDegree !== undefined) {
+      attributes += ` styledegree="${styleDegree}"`;
+    }
+  }
+  if (role) {
+    attributes += ` role="${escapeXML(role)}"`;
+  }
+  return `<mstts:express-as${attributes}>${content}</mstts:express-as>`;
+}
+
+/**
+ * Lines of a dialogue that fit into one SSML document
+ */
+export interface DialogueBatch {
+  /** Index of the batch's first line in the full dialogue */
+  startIndex: number;
+  lines: DialogueLine[];
+  ssml: string;
+}
+
+/**
+ * Generates one SSML document with a <voice> element per dialogue line
+ * @throws Error if a line has no text or an invalid voice.
+ */
+export function generateDialogueSSML(
+  lines: DialogueLine[],
+  options: DialogueOptions = {},
+): string {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new Error("Dialogue must contain at least one line.");
+  }
 
-  return `<speak version="${SSML_CONSTANTS.VERSION}" xmlns="${SSML_CONSTANTS.XMLNS}" xmlns:mstts="${SSML_CONSTANTS.XMLNS_MSTTS}" xml:lang="${language}"><voice name="${formattedVoiceName}"><prosody rate="${formattedRate}" pitch="${formattedPitch}" volume="${formattedVolume}">${escapedText}</prosody></voice></speak>`;
+  const voices = lines.map((line, index) => {
+    if (!line.text || typeof line.text !== "string") {
+      throw new Error(`Dialogue line ${index + 1} must have non-empty text.`);
+    }
+    const formattedVoiceName =
+      typeof line.voice === "string"
+        ? formatVoiceNameForEdgeTTS(line.voice)
+        : "";
+    if (!formattedVoiceName) {
+      throw new Error(
+        `Failed to format voice name for dialogue line ${index + 1}: "${line.voice}".`,
+      );
+    }
+
+    const prosody = `<prosody rate="${formatRate(line.rate)}" pitch="${formatPitch(line.pitch)}" volume="${formatVolume(line.volume)}">${escapeXML(line.text)}</prosody>`;
+    return `<voice name="${formattedVoiceName}">${wrapExpressAs(prosody, line)}</voice>`;
+  });
+
+  const language = options.language || extractLanguageFromVoice(lines[0].voice);
+
+  return `<speak version="${SSML_CONSTANTS.VERSION}" xmlns="${SSML_CONSTANTS.XMLNS}" xmlns:mstts="${SSML_CONSTANTS.XMLNS_MSTTS}" xml:lang="${language}">${voices.join("")}</speak>`;
+}
+
+/**
+ * Split a dialogue into SSML documents that stay within
+ * SSML_VALIDATION.TEXT_LIMITS (voice elements and document length)
+ * @throws Error if a single line does not fit into a document.
+ */
+export function splitDialogueIntoBatches(
+  lines: DialogueLine[],
+  options: DialogueOptions = {},
+): DialogueBatch[] {
+  const { MAX_VOICE_ELEMENTS, MAX_SSML_LENGTH } = SSML_VALIDATION.TEXT_LIMITS;
+  const batches: DialogueBatch[] = [];
+  let current: DialogueBatch | null = null;
+
+  lines.forEach((line, index) => {
+    if (current && current.lines.length < MAX_VOICE_ELEMENTS) {
+      const ssml = generateDialogueSSML([...current.lines, line], options);
+      if (ssml.length <= MAX_SSML_LENGTH) {
+        current.lines.push(line);
+        current.ssml = ssml;
+        return;
+      }
+    }
+
+    const ssml = generateDialogueSSML([line], options);
+    if (ssml.length > MAX_SSML_LENGTH) {
+      throw new Error(
+        `Dialogue line ${index + 1} exceeds the maximum SSML length of ${MAX_SSML_LENGTH} characters.`,
+      );
+    }
+    current = { startIndex: index, lines: [line], ssml };
+    batches.push(current);
+  });
+
+  return batches;
 }
 
 /**
@@ -432,21 +936,139 @@ export function isValidSSML(content: string): boolean {
   return validation.isValid;
 }
 
+/**
+ * Decode XML entities and character references
+ */
+export function unescapeXML(text: string): string {
+  return text.replace(
+    /&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi,
+    (entity, name: string) => {
+      switch (name.toLowerCase()) {
+        case "amp":
+          return "&";
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+      }
+      const codePoint =
+        name[1] === "x" || name[1] === "X"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      try {
+        return String.fromCodePoint(codePoint);
+      } catch {
+        return entity;
+      }
+    },
+  );
+}
+
+/**
+ * Elements that wrap part of a word or sentence without separating it from
+ * its neighbours; every other element is a word boundary
+ */
+const INLINE_SSML_ELEMENTS = new Set([
+  "emphasis",
+  "prosody",
+  "say-as",
+  "sub",
+  "phoneme",
+  "lang",
+  "bookmark",
+  "mark",
+]);
+
+/**
+ * SSML <bookmark> and the position in the spoken text that follows it
+ */
+export interface SSMLBookmark {
+  name: string;
+  charIndex: number;
+}
+
+/**
+ * Build the spoken text and bookmark positions of SSML markup from its
+ * parse tree. Markup may be a whole document or a fragment of one.
+ */
+function readSSMLText(ssml: string): {
+  text: string;
+  bookmarks: SSMLBookmark[];
+} {
+  const { root } = parseSSML(`<ssml-fragment>${ssml}</ssml-fragment>`);
+  let text = "";
+  const bookmarks: SSMLBookmark[] = [];
+
+  const separate = (): void => {
+    if (text.length > 0 && !text.endsWith(" ")) {
+      text += " ";
+    }
+  };
+  const visit = (element: SSMLElementNode): void => {
+    const inline = INLINE_SSML_ELEMENTS.has(element.name);
+    if (!inline) separate();
+    if (element.name === "bookmark") {
+      const mark = getAttribute(element, "mark");
+      if (mark !== undefined) {
+        bookmarks.push({ name: mark, charIndex: text.length });
+      }
+    }
+    for (const child of element.children) {
+      if (child.type === "element") {
+        visit(child);
+        continue;
+      }
+      const words = child.text.replace(/\s+/g, " ");
+      text +=
+        text.length === 0 || text.endsWith(" ") ? words.trimStart() : words;
+    }
+    if (!inline) separate();
+  };
+  if (root) visit(root);
+
+  text = text.trimEnd();
+  for (const bookmark of bookmarks) {
+    if (text[bookmark.charIndex] === " ") {
+      bookmark.charIndex++;
+    }
+    bookmark.charIndex = Math.min(bookmark.charIndex, text.length);
+  }
+  return { text, bookmarks };
+}
+
 /**
  * Extract text content from SSML markup
+ * Text is read from the parse tree: entities and CDATA are decoded, and
+ * elements other than inline ones such as <emphasis> or <prosody> become
+ * word separators, so the result is the text that boundary events refer to.
  */
 export function extractTextFromSSML(ssml: string): string {
   if (!ssml) return "";
   try {
-    return ssml
-      .replace(/<[^>]*>/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
+    return readSSMLText(ssml).text;
   } catch {
     return ssml;
   }
 }
 
+/**
+ * Find the <bookmark> elements of SSML markup
+ * Positions refer to extractTextFromSSML(ssml), pointing at the word that
+ * follows each bookmark.
+ */
+export function extractBookmarksFromSSML(ssml: string): SSMLBookmark[] {
+  if (!ssml) return [];
+  try {
+    return readSSMLText(ssml).bookmarks;
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Normalize SSML formatting for consistent output
  */
@@ -0,0 +1,233 @@
+/**
+ * Subtitle export for EdgeSpeech
+ * Turns the timed boundaries of a finished synthesis into SRT or WebVTT
+ * subtitles, or a JSON word alignment. Words are merged into cues by length,
+ * duration and sentence, much like the SubMaker of the Python edge-tts.
+ */
+
+import { TimedBoundary, TimedWordBoundary } from "../types";
+import { ticksToMilliseconds } from "./audioUtils";
+
+/**
+ * Subtitle document format
+ */
+export type SubtitleFormat = "srt" | "vtt" | "json";
+
+/**
+ * Options for merging words into cues
+ */
+export interface SubtitleOptions {
+  /**
+   * Text the boundary character indexes point into. Cue text is cut from it,
+   * keeping its punctuation; otherwise the words sent by the service are
+   * joined with spaces.
+   */
+  text?: string;
+  /** Longest cue text in characters; a longer single word keeps its own cue (default: 42) */
+  maxChars?: number;
+  /** Longest cue in milliseconds; a longer single word keeps its own cue (default: 5000) */
+  maxDurationMs?: number;
+  /** Start a new cue at each sentence boundary (default: true) */
+  splitSentences?: boolean;
+  /**
+   * Time cues against the audio, without the 875 ms padding the service adds
+   * to its offsets (default: true). Turn off to keep the raw service offsets.
+   */
+  compensateOffset?: boolean;
+}
+
+/**
+ * Word with its place in the text and the audio
+ */
+export interface SubtitleWord {
+  text: string;
+  charIndex: number;
+  charLength: number;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Subtitle cue of one or more words
+ */
+export interface SubtitleCue {
+  /** One-based cue number */
+  index: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+  words: SubtitleWord[];
+}
+
+const DEFAULT_MAX_CHARS = 42;
+const DEFAULT_MAX_DURATION_MS = 5000;
+const PUNCTUATION = /[^\s\p{L}\p{N}]/u;
+
+/**
+ * Order boundaries by audio offset, a sentence before the word it starts with
+ */
+function sortBoundaries(boundaries: readonly TimedBoundary[]): TimedBoundary[] {
+  const rank = (item: TimedBoundary) => (item.type === "word" ? 1 : 0);
+  return [...boundaries].sort(
+    (a, b) => a.timing.offsetMs - b.timing.offsetMs || rank(a) - rank(b),
+  );
+}
+
+function toWord(
+  item: TimedWordBoundary,
+  options: SubtitleOptions,
+): SubtitleWord {
+  const { boundary, timing } = item;
+  const startMs =
+    options.compensateOffset === false
+      ? ticksToMilliseconds(timing.rawOffset)
+      : timing.offsetMs;
+  return {
+    text:
+      options.text !== undefined
+        ? options.text.slice(
+            boundary.charIndex,
+            boundary.charIndex + boundary.charLength,
+          )
+        : (boundary.text ?? ""),
+    charIndex: boundary.charIndex,
+    charLength: boundary.charLength,
+    startMs,
+    endMs: startMs + timing.durationMs,
+  };
+}
+
+function cueText(words: SubtitleWord[], source?: string): string {
+  if (source === undefined) {
+    return words
+      .map((word) => word.text)
+      .join(" ")
+      .trim();
+  }
+  let start = Math.min(...words.map((word) => word.charIndex));
+  let end = Math.max(...words.map((word) => word.charIndex + word.charLength));
+  // Keep quotes and punctuation attached to the first and last word
+  while (start > 0 && PUNCTUATION.test(source[start - 1])) {
+    start--;
+  }
+  while (end < source.length && PUNCTUATION.test(source[end])) {
+    end++;
+  }
+  return source.slice(start, end).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Merge the words of a synthesis into subtitle cues.
+ * Cues hold words only; sentence boundaries split them and marks are ignored.
+ *
+ * @param boundaries - Timed boundaries, e.g. `SynthesisResponse.boundaries`
+ * @param options - Cue merging options
+ * @returns Cues in audio order, numbered from 1
+ */
+export function createSubtitleCues(
+  boundaries: readonly TimedBoundary[],
+  options: SubtitleOptions = {},
+): SubtitleCue[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const maxDurationMs = options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+  const cues: SubtitleCue[] = [];
+  let words: SubtitleWord[] = [];
+
+  const flush = () => {
+    if (words.length > 0) {
+      cues.push({
+        index: cues.length + 1,
+        startMs: words[0].startMs,
+        endMs: Math.max(...words.map((word) => word.endMs)),
+        text: cueText(words, options.text),
+        words,
+      });
+      words = [];
+    }
+  };
+
+  for (const item of sortBoundaries(boundaries)) {
+    if (item.type === "sentence") {
+      if (options.splitSentences !== false) {
+        flush();
+      }
+      continue;
+    }
+    if (item.type !== "word") {
+      continue;
+    }
+    const word = toWord(item, options);
+    if (
+      words.length > 0 &&
+      (cueText([...words, word], options.text).length > maxChars ||
+        word.endMs - words[0].startMs > maxDurationMs)
+    ) {
+      flush();
+    }
+    words.push(word);
+  }
+  flush();
+
+  return cues;
+}
+
+/**
+ * Format milliseconds as HH:MM:SS plus milliseconds after `separator`
+ */
+function formatTimestamp(ms: number, separator: string): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (value: number, length: number = 2) =>
+    String(value).padStart(length, "0");
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+function formatSRT(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue) =>
+        `${cue.index}\n${formatTimestamp(cue.startMs, ",")} --> ${formatTimestamp(cue.endMs, ",")}\n${cue.text}\n`,
+    )
+    .join("\n");
+}
+
+function formatWebVTT(cues: SubtitleCue[]): string {
+  const escape = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return ["WEBVTT\n"]
+    .concat(
+      cues.map(
+        (cue) =>
+          `${formatTimestamp(cue.startMs, ".")} --> ${formatTimestamp(cue.endMs, ".")}\n${escape(cue.text)}\n`,
+      ),
+    )
+    .join("\n");
+}
+
+/**
+ * Create a subtitle document from the boundaries of a synthesis
+ *
+ * @param boundaries - Timed boundaries, e.g. `SynthesisResponse.boundaries`
+ * @param format - "srt", "vtt" or "json" for the cues with their words
+ * @param options - Cue merging options
+ * @returns Subtitle document text
+ */
+export function createSubtitles(
+  boundaries: readonly TimedBoundary[],
+  format: SubtitleFormat = "srt",
+  options: SubtitleOptions = {},
+): string {
+  const cues = createSubtitleCues(boundaries, options);
+  switch (format) {
+    case "srt":
+      return formatSRT(cues);
+    case "vtt":
+      return formatWebVTT(cues);
+    case "json":
+      return JSON.stringify(cues, null, 2);
+    default:
+      throw new Error(`Unsupported subtitle format: ${String(format)}`);
+  }
+}
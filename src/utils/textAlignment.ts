@@ -0,0 +1,309 @@
+/**
+ * Boundary text alignment for EdgeSpeech
+ * Finds the words the service reports in boundary events in the text they
+ * were spoken from. Matching ignores case, Unicode normalization form,
+ * diacritics and punctuation, needs no spaces between words (CJK, Thai) and
+ * follows numbers, symbols and abbreviations the service reads as other
+ * words. Each match has a confidence; unmatched words do not move the
+ * alignment on.
+ */
+
+import {
+  cardinalToWords,
+  digitsToWords,
+  getNumberLanguage,
+  MAX_SPELLED_NUMBER,
+  NumberLanguage,
+  ordinalToWords,
+  yearToWords,
+} from "./numberWords";
+
+/**
+ * Position of a spoken word in the text
+ */
+export interface AlignmentResult {
+  charIndex: number;
+  charLength: number;
+  /**
+   * 1 for an exact match, lower for normalized, skipped-ahead or expanded
+   * matches, 0 when the word was not found; `charIndex` is then the current
+   * position and `charLength` 0
+   */
+  confidence: number;
+}
+
+/**
+ * Confidence of each kind of match
+ */
+const CONFIDENCE = Object.freeze({
+  EXACT: 1,
+  /** Differs in case, normalization form, diacritics or inner punctuation */
+  NORMALIZED: 0.9,
+  /** A known spelling of the number being read */
+  NUMBER_WORD: 0.8,
+  /** Found after text the service did not read */
+  SKIPPED_AHEAD: 0.6,
+  /** Any other word read for a number, symbol or abbreviation */
+  EXPANSION: 0.5,
+  NONE: 0,
+});
+
+/** Letters and digits the service may skip before the next word it reads */
+const MAX_SKIPPED_CHARS = 24;
+
+/** Tokens the service reads as other words: numbers, symbols, abbreviations */
+const EXPANDABLE =
+  /\p{Sc}?\p{N}+(?:[.,:/]\p{N}+)*(?:st|nd|rd|th|%|\p{Sc})?|[\p{S}&%#@*/\\§]+|(?:\p{L}\.){2,}|\p{Lu}\p{Ll}{0,3}\./uy;
+/** Punctuation that is not read, unlike "&" or "%" */
+const SEPARATOR = /[\s\p{Cc}\p{Cf}]|(?![&%#@*/\\§])\p{P}/u;
+const KEY_CHAR = /[\p{L}\p{N}]/u;
+const MARK = /\p{M}/u;
+const MARKS = /\p{M}/gu;
+
+/**
+ * Span of the text, end exclusive
+ */
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Letter or digit of the comparison key and the source text it came from
+ */
+interface KeyChar {
+  char: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Comparison form of a code point: compatibility-decomposed, lowercase,
+ * without diacritics and with only letters and digits
+ */
+function toKey(text: string): string {
+  return [...text.normalize("NFKD").toLowerCase().replace(MARKS, "")]
+    .filter((char) => KEY_CHAR.test(char))
+    .join("");
+}
+
+/**
+ * Build the comparison key of a text, walking code points so surrogate
+ * pairs stay whole
+ */
+function buildKey(text: string): KeyChar[] {
+  const key: KeyChar[] = [];
+  let index = 0;
+  for (const codePoint of text) {
+    const end = index + codePoint.length;
+    const last = key[key.length - 1];
+    if (MARK.test(codePoint) && last?.end === index) {
+      // Combining marks belong to the letter before them
+      last.end = end;
+    } else {
+      // One entry per code unit keeps indexes in line with the key text
+      for (const char of toKey(codePoint).split("")) {
+        key.push({ char, start: index, end });
+      }
+    }
+    index = end;
+  }
+  return key;
+}
+
+/**
+ * Spoken forms of a number token, e.g. "21st" -> "twenty-first"
+ */
+function spellNumber(token: string, language: NumberLanguage | null): string {
+  const digits = token.replace(/[^\d.]/g, "");
+  const value = Number(digits.replace(/\.(?=\d{3}(?:\D|$))/g, ""));
+  const integer = Math.trunc(value);
+  if (!language || !digits || !(integer <= MAX_SPELLED_NUMBER)) {
+    return "";
+  }
+  return [
+    cardinalToWords(integer, language),
+    ordinalToWords(integer, language),
+    yearToWords(integer, language),
+    digitsToWords(digits.replace(/\D/g, ""), language),
+  ].join(" ");
+}
+
+/**
+ * Aligns the words of boundary events, in order, against one text
+ */
+export class TextAligner {
+  private readonly text: string;
+  private readonly key: KeyChar[];
+  private readonly keyText: string;
+  private readonly language: NumberLanguage | null;
+  private cursor = 0;
+  private keyCursor = 0;
+  /** Token being read as several words, e.g. "25" as "twenty five" */
+  private expansion: Span | null = null;
+
+  /**
+   * @param text - Text the words were spoken from
+   * @param locale - Language of the voice, e.g. "en-US", for number spelling
+   */
+  constructor(text: string, locale: string = "en") {
+    this.text = text;
+    this.key = buildKey(text);
+    this.keyText = this.key.map((entry) => entry.char).join("");
+    this.language = getNumberLanguage(locale);
+  }
+
+  /**
+   * Text offset after the last aligned word
+   */
+  get position(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Align the next spoken word
+   *
+   * @param word - Word text from the boundary event
+   * @returns Its position in the text and how sure the match is
+   */
+  align(word: string): AlignmentResult {
+    const wordKey = toKey(word);
+    if (!wordKey) {
+      return this.alignSymbol(word);
+    }
+
+    const index = this.keyText.indexOf(wordKey, this.keyCursor);
+    const skipped = index === -1 ? Infinity : index - this.keyCursor;
+    if (skipped === 0) {
+      return this.accept(index, wordKey.length, word, 0);
+    }
+
+    const expansion = this.expansion;
+    if (expansion && this.isNumberWord(wordKey, expansion)) {
+      return this.result(expansion, CONFIDENCE.NUMBER_WORD);
+    }
+    const token = this.nextExpandable();
+    if (token && this.isNumberWord(wordKey, token)) {
+      return this.expand(token, CONFIDENCE.NUMBER_WORD);
+    }
+    // A later match behind a number or symbol is more likely a coincidence
+    if (skipped <= MAX_SKIPPED_CHARS && !token) {
+      return this.accept(index, wordKey.length, word, skipped);
+    }
+    if (expansion) {
+      return this.result(expansion, CONFIDENCE.EXPANSION);
+    }
+    if (token) {
+      return this.expand(token, CONFIDENCE.EXPANSION);
+    }
+    if (skipped <= MAX_SKIPPED_CHARS) {
+      return this.accept(index, wordKey.length, word, skipped);
+    }
+    return this.result(
+      { start: this.cursor, end: this.cursor },
+      CONFIDENCE.NONE,
+    );
+  }
+
+  /**
+   * Take a key match and move the cursor after it
+   */
+  private accept(
+    keyIndex: number,
+    keyLength: number,
+    word: string,
+    skipped: number,
+  ): AlignmentResult {
+    const start = this.key[keyIndex].start;
+    const end = this.key[keyIndex + keyLength - 1].end;
+    this.expansion = null;
+    this.moveTo(end);
+    let confidence: number = CONFIDENCE.SKIPPED_AHEAD;
+    if (skipped === 0) {
+      const source = this.text.slice(start, end).normalize("NFC");
+      confidence =
+        source.toLowerCase() === word.normalize("NFC").toLowerCase()
+          ? CONFIDENCE.EXACT
+          : CONFIDENCE.NORMALIZED;
+    }
+    return this.result({ start, end }, confidence);
+  }
+
+  /**
+   * Read the word as part of a number, symbol or abbreviation
+   */
+  private expand(token: Span, confidence: number): AlignmentResult {
+    this.expansion = token;
+    this.moveTo(token.end);
+    return this.result(token, confidence);
+  }
+
+  /**
+   * Align a word without letters or digits, such as "&", by its text
+   */
+  private alignSymbol(word: string): AlignmentResult {
+    const start = this.text.indexOf(word, this.cursor);
+    const between = this.text.slice(this.cursor, Math.max(start, 0));
+    if (!word || start === -1 || toKey(between)) {
+      return this.result(
+        { start: this.cursor, end: this.cursor },
+        CONFIDENCE.NONE,
+      );
+    }
+    this.expansion = null;
+    this.moveTo(start + word.length);
+    return this.result({ start, end: start + word.length }, CONFIDENCE.EXACT);
+  }
+
+  private result(range: Span, confidence: number): AlignmentResult {
+    return {
+      charIndex: range.start,
+      charLength: range.end - range.start,
+      confidence,
+    };
+  }
+
+  private moveTo(position: number): void {
+    this.cursor = position;
+    while (
+      this.keyCursor < this.key.length &&
+      this.key[this.keyCursor].start < position
+    ) {
+      this.keyCursor++;
+    }
+  }
+
+  /**
+   * Offset of the next token after separators
+   */
+  private nextTokenStart(): number {
+    let index = this.cursor;
+    while (index < this.text.length && SEPARATOR.test(this.text[index])) {
+      index++;
+    }
+    return index;
+  }
+
+  private nextExpandable(): Span | null {
+    EXPANDABLE.lastIndex = this.nextTokenStart();
+    const match = EXPANDABLE.exec(this.text);
+    return match
+      ? { start: match.index, end: match.index + match[0].length }
+      : null;
+  }
+
+  private isNumberWord(wordKey: string, token: Span): boolean {
+    const spelled = spellNumber(
+      this.text.slice(token.start, token.end),
+      this.language,
+    );
+    return (
+      !!spelled &&
+      (toKey(spelled).includes(wordKey) ||
+        // Inflected forms, e.g. "dritten" for "dritte"
+        spelled
+          .split(/[\s-]+/)
+          .some((form) => form.length >= 4 && wordKey.startsWith(toKey(form))))
+    );
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Offset mapping for transformed text
+ * Text transforms (lexicon substitution, normalization) change what the
+ * service speaks. The maps built here translate boundary positions in the
+ * spoken text back to the text the caller passed in.
+ */
+
+import { escapeXML } from "./ssmlUtils";
+
+/**
+ * Character range in a text
+ */
+export interface TextRange {
+  charIndex: number;
+  charLength: number;
+}
+
+/**
+ * Anything that can translate a range in transformed text to its source
+ */
+export interface TextRangeMapper {
+  mapRange(charIndex: number, charLength: number): TextRange;
+}
+
+/**
+ * Part of the output text and the source text it came from
+ */
+interface MappingSegment {
+  outputStart: number;
+  outputEnd: number;
+  sourceStart: number;
+  sourceEnd: number;
+  /** Output equals source character for character */
+  identity: boolean;
+}
+
+/**
+ * Result of a text transform
+ */
+export interface MappedText {
+  /** Text the service speaks, used to align boundary events */
+  text: string;
+  /** Escaped SSML markup for the text */
+  markup: string;
+  /** Maps ranges in `text` to ranges in the source text */
+  map: TextRangeMapper;
+}
+
+/**
+ * Piecewise map from output positions to source positions.
+ * Positions inside unchanged text map one-to-one; a range touching a
+ * replacement expands to the whole replaced source range.
+ */
+export class TextOffsetMap implements TextRangeMapper {
+  private readonly segments: MappingSegment[];
+
+  constructor(segments: MappingSegment[]) {
+    this.segments = segments;
+  }
+
+  /**
+   * Map of a text that was not changed
+   */
+  static identity(length: number): TextOffsetMap {
+    return new TextOffsetMap([
+      {
+        outputStart: 0,
+        outputEnd: length,
+        sourceStart: 0,
+        sourceEnd: length,
+        identity: true,
+      },
+    ]);
+  }
+
+  mapRange(charIndex: number, charLength: number): TextRange {
+    if (this.segments.length === 0) {
+      return { charIndex, charLength };
+    }
+
+    const start = this.mapPosition(charIndex, false);
+    const end = this.mapPosition(charIndex + Math.max(0, charLength), true);
+    return { charIndex: start, charLength: Math.max(0, end - start) };
+  }
+
+  /**
+   * Map a start (or exclusive end) position in the output text
+   */
+  private mapPosition(position: number, isEnd: boolean): number {
+    const segment =
+      this.segments.find((candidate) =>
+        isEnd
+          ? position > candidate.outputStart && position <= candidate.outputEnd
+          : position >= candidate.outputStart && position < candidate.outputEnd,
+      ) ??
+      (position <= 0
+        ? this.segments[0]
+        : this.segments[this.segments.length - 1]);
+
+    if (segment.identity) {
+      const offset = Math.min(
+        Math.max(position - segment.outputStart, 0),
+        segment.sourceEnd - segment.sourceStart,
+      );
+      return segment.sourceStart + offset;
+    }
+    return isEnd ? segment.sourceEnd : segment.sourceStart;
+  }
+}
+
+/**
+ * Chain mappers of successive transforms, from the first transform applied
+ * to the last. The result maps ranges in the final text to the original.
+ */
+export function chainRangeMappers(
+  ...mappers: (TextRangeMapper | undefined)[]
+): TextRangeMapper {
+  const steps = mappers.filter(
+    (mapper): mapper is TextRangeMapper => mapper !== undefined,
+  );
+  return {
+    mapRange: (charIndex, charLength) =>
+      steps.reduceRight<TextRange>(
+        (range, mapper) => mapper.mapRange(range.charIndex, range.charLength),
+        { charIndex, charLength },
+      ),
+  };
+}
+
+/**
+ * Part of a text that was transformed on its own
+ */
+export interface MappedTextPart {
+  /** Start of the part's transformed text in the joined text */
+  outputStart: number;
+  /** Start of the part in the source text */
+  sourceStart: number;
+  /** Map of the part's transform, if it changed the text */
+  map?: TextRangeMapper;
+}
+
+/**
+ * Join the maps of consecutive parts of a text, each transformed separately.
+ * Parts must be ordered by `outputStart`.
+ */
+export function joinRangeMappers(parts: MappedTextPart[]): TextRangeMapper {
+  return {
+    mapRange: (charIndex, charLength) => {
+      const part =
+        [...parts]
+          .reverse()
+          .find((candidate) => candidate.outputStart <= charIndex) ?? parts[0];
+      const range = part.map
+        ? part.map.mapRange(charIndex - part.outputStart, charLength)
+        : { charIndex: charIndex - part.outputStart, charLength };
+      return {
+        charIndex: range.charIndex + part.sourceStart,
+        charLength: range.charLength,
+      };
+    },
+  };
+}
+
+/**
+ * Builds transformed text, its markup and offset map in one pass over the
+ * source text
+ */
+export class MappedTextBuilder {
+  private text = "";
+  private markup = "";
+  private readonly segments: MappingSegment[] = [];
+
+  /**
+   * Append source text unchanged
+   */
+  keep(sourceText: string, sourceStart: number): this {
+    if (sourceText.length === 0) {
+      return this;
+    }
+    this.segments.push({
+      outputStart: this.text.length,
+      outputEnd: this.text.length + sourceText.length,
+      sourceStart,
+      sourceEnd: sourceStart + sourceText.length,
+      identity: true,
+    });
+    this.text += sourceText;
+    this.markup += escapeXML(sourceText);
+    return this;
+  }
+
+  /**
+   * Append spoken text that replaces source[sourceStart, sourceEnd).
+   * `markup` defaults to the escaped spoken text.
+   */
+  replace(
+    spokenText: string,
+    sourceStart: number,
+    sourceEnd: number,
+    markup: string = escapeXML(spokenText),
+  ): this {
+    this.segments.push({
+      outputStart: this.text.length,
+      outputEnd: this.text.length + spokenText.length,
+      sourceStart,
+      sourceEnd,
+      identity: false,
+    });
+    this.text += spokenText;
+    this.markup += markup;
+    return this;
+  }
+
+  /**
+   * Append SSML markup that adds no spoken text, such as a <break>
+   */
+  appendMarkup(markup: string): this {
+    this.markup += markup;
+    return this;
+  }
+
+  build(): MappedText {
+    return {
+      text: this.text,
+      markup: this.markup,
+      map: new TextOffsetMap([...this.segments]),
+    };
+  }
+}
@@ -0,0 +1,1352 @@
+/**
+ * Locale-aware text normalization for EdgeSpeech
+ * Rewrites abbreviations, dates, times, currencies, units, ordinals and
+ * numbers in plain text as words before SSML generation. Each normalizer runs
+ * as its own stage with an offset map, so boundary events still point at the
+ * caller's text.
+ */
+
+import type { BuiltInNormalizerName, TextNormalizer } from "../types";
+import { escapeXML } from "./ssmlUtils";
+import {
+  MappedText,
+  MappedTextBuilder,
+  TextOffsetMap,
+  TextRangeMapper,
+  chainRangeMappers,
+} from "./textMapping";
+import {
+  MAX_SPELLED_NUMBER,
+  NumberLanguage,
+  cardinalToWords,
+  decimalToWords,
+  digitsToWords,
+  getNumberLanguage,
+  getWordSpace,
+  negateWords,
+  ordinalToWords,
+  yearToWords,
+} from "./numberWords";
+
+// =============================================================================
+// Locale rules
+// =============================================================================
+
+type CurrencyCode = "USD" | "EUR" | "GBP" | "JPY" | "CNY";
+
+type UnitSymbol =
+  | "km/h"
+  | "min"
+  | "mph"
+  | "km"
+  | "cm"
+  | "mm"
+  | "kg"
+  | "mg"
+  | "ml"
+  | "m"
+  | "g"
+  | "l"
+  | "°C"
+  | "°F"
+  | "%";
+
+/**
+ * Singular and plural form of a noun
+ */
+type NounForms = readonly [string, string];
+
+interface CurrencyNames {
+  major: NounForms;
+  /** Hundredth unit; amounts are read as decimals if omitted */
+  minor?: NounForms;
+  /** Major unit is grammatically feminine ("une livre") */
+  feminine?: boolean;
+}
+
+/**
+ * Spoken forms for one language
+ */
+interface LocaleRules {
+  /** Thousands separators, as the body of a regex character class */
+  groupSeparators: string;
+  decimalSeparator: "." | ",";
+  months: readonly string[];
+  currencies: Record<CurrencyCode, CurrencyNames>;
+  /** Word between major and minor currency amounts */
+  currencyJoiner: string;
+  units: Record<UnitSymbol, NounForms>;
+  abbreviations: Record<string, string>;
+  isPlural(value: number): boolean;
+  /** `before` is the text preceding the date, for grammatical case */
+  formatDate(
+    day: number,
+    month: number,
+    year: number | undefined,
+    locale: string,
+    before: string,
+  ): string;
+  formatTime(hour: number, minute: number, period?: "AM" | "PM"): string;
+}
+
+const CURRENCY_SYMBOLS = "$€£¥";
+const CURRENCY_CODES: readonly CurrencyCode[] = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CNY",
+];
+
+/**
+ * Longest symbols first so "km/h" wins over "km" and "m"
+ */
+const UNIT_SYMBOLS: readonly UnitSymbol[] = [
+  "km/h",
+  "min",
+  "mph",
+  "km",
+  "cm",
+  "mm",
+  "kg",
+  "mg",
+  "ml",
+  "m",
+  "g",
+  "l",
+  "°C",
+  "°F",
+  "%",
+];
+
+const LOCALE_RULES: Record<NumberLanguage, LocaleRules> = {
+  en: {
+    groupSeparators: ",",
+    decimalSeparator: ".",
+    months: [
+      "January",
+      "February",
+      "March",
+      "April",
+      "May",
+      "June",
+      "July",
+      "August",
+      "September",
+      "October",
+      "November",
+      "December",
+    ],
+    currencies: {
+      USD: { major: ["dollar", "dollars"], minor: ["cent", "cents"] },
+      EUR: { major: ["euro", "euros"], minor: ["cent", "cents"] },
+      GBP: { major: ["pound", "pounds"], minor: ["penny", "pence"] },
+      JPY: { major: ["yen", "yen"] },
+      CNY: { major: ["yuan", "yuan"] },
+    },
+    currencyJoiner: "and",
+    units: {
+      "km/h": ["kilometer per hour", "kilometers per hour"],
+      min: ["minute", "minutes"],
+      mph: ["mile per hour", "miles per hour"],
+      km: ["kilometer", "kilometers"],
+      cm: ["centimeter", "centimeters"],
+      mm: ["millimeter", "millimeters"],
+      kg: ["kilogram", "kilograms"],
+      mg: ["milligram", "milligrams"],
+      ml: ["milliliter", "milliliters"],
+      m: ["meter", "meters"],
+      g: ["gram", "grams"],
+      l: ["liter", "liters"],
+      "°C": ["degree Celsius", "degrees Celsius"],
+      "°F": ["degree Fahrenheit", "degrees Fahrenheit"],
+      "%": ["percent", "percent"],
+    },
+    abbreviations: {
+      "Mr.": "Mister",
+      "Mrs.": "Missus",
+      "Ms.": "Miz",
+      "Dr.": "Doctor",
+      "Prof.": "Professor",
+      "Jr.": "Junior",
+      "Sr.": "Senior",
+      "etc.": "et cetera",
+      "e.g.": "for example",
+      "i.e.": "that is",
+      "vs.": "versus",
+      "approx.": "approximately",
+    },
+    isPlural: (value) => value !== 1,
+    formatDate(day, month, year, locale) {
+      const monthName = LOCALE_RULES.en.months[month - 1];
+      const yearWords = year === undefined ? "" : yearToWords(year, "en");
+      // Month first in American English, day first elsewhere
+      if (/^en-US$/i.test(locale)) {
+        const date = `${monthName} ${ordinalToWords(day, "en")}`;
+        return yearWords ? `${date}, ${yearWords}` : date;
+      }
+      const date = `the ${ordinalToWords(day, "en")} of ${monthName}`;
+      return yearWords ? `${date} ${yearWords}` : date;
+    },
+    formatTime(hour, minute, period) {
+      const hourWords = cardinalToWords(hour, "en");
+      const minuteWords =
+        minute === 0
+          ? ""
+          : minute < 10
+            ? `oh ${cardinalToWords(minute, "en")}`
+            : cardinalToWords(minute, "en");
+      if (period) {
+        return [hourWords, minuteWords, period].filter(Boolean).join(" ");
+      }
+      if (minute === 0) {
+        return hour <= 12 ? `${hourWords} o'clock` : `${hourWords} hundred`;
+      }
+      return `${hourWords} ${minuteWords}`;
+    },
+  },
+  de: {
+    groupSeparators: ".",
+    decimalSeparator: ",",
+    months: [
+      "Januar",
+      "Februar",
+      "März",
+      "April",
+      "Mai",
+      "Juni",
+      "Juli",
+      "August",
+      "September",
+      "Oktober",
+      "November",
+      "Dezember",
+    ],
+    currencies: {
+      USD: { major: ["Dollar", "Dollar"], minor: ["Cent", "Cent"] },
+      EUR: { major: ["Euro", "Euro"], minor: ["Cent", "Cent"] },
+      GBP: { major: ["Pfund", "Pfund"], minor: ["Penny", "Pence"] },
+      JPY: { major: ["Yen", "Yen"] },
+      CNY: { major: ["Yuan", "Yuan"] },
+    },
+    currencyJoiner: "und",
+    units: {
+      "km/h": ["Kilometer pro Stunde", "Kilometer pro Stunde"],
+      min: ["Minute", "Minuten"],
+      mph: ["Meile pro Stunde", "Meilen pro Stunde"],
+      km: ["Kilometer", "Kilometer"],
+      cm: ["Zentimeter", "Zentimeter"],
+      mm: ["Millimeter", "Millimeter"],
+      kg: ["Kilogramm", "Kilogramm"],
+      mg: ["Milligramm", "Milligramm"],
+      ml: ["Milliliter", "Milliliter"],
+      m: ["Meter", "Meter"],
+      g: ["Gramm", "Gramm"],
+      l: ["Liter", "Liter"],
+      "°C": ["Grad Celsius", "Grad Celsius"],
+      "°F": ["Grad Fahrenheit", "Grad Fahrenheit"],
+      "%": ["Prozent", "Prozent"],
+    },
+    abbreviations: {
+      "z. B.": "zum Beispiel",
+      "z.B.": "zum Beispiel",
+      "d. h.": "das heißt",
+      "d.h.": "das heißt",
+      "u. a.": "unter anderem",
+      "u.a.": "unter anderem",
+      "usw.": "und so weiter",
+      "bzw.": "beziehungsweise",
+      "ca.": "circa",
+      "evtl.": "eventuell",
+      "ggf.": "gegebenenfalls",
+      "Nr.": "Nummer",
+      "Dr.": "Doktor",
+      "Prof.": "Professor",
+    },
+    isPlural: (value) => value !== 1,
+    formatDate(day, month, year, _locale, before) {
+      // "am 3. Mai" -> "am dritten Mai", "der 3. Mai" -> "der dritte Mai",
+      // otherwise "dritter Mai"
+      const ending = /(?:^|\s)(?:am|vom|zum|dem|den)\s*$/i.test(before)
+        ? "n"
+        : /(?:^|\s)(?:der|die|das)\s*$/i.test(before)
+          ? ""
+          : "r";
+      const date = `${ordinalToWords(day, "de")}${ending} ${LOCALE_RULES.de.months[month - 1]}`;
+      return year === undefined ? date : `${date} ${yearToWords(year, "de")}`;
+    },
+    formatTime(hour, minute) {
+      const hourWords = `${cardinalToWords(hour, "de", { attributive: true })} Uhr`;
+      return minute === 0
+        ? hourWords
+        : `${hourWords} ${cardinalToWords(minute, "de")}`;
+    },
+  },
+  fr: {
+    groupSeparators: " \\u00A0\\u202F",
+    decimalSeparator: ",",
+    months: [
+      "janvier",
+      "février",
+      "mars",
+      "avril",
+      "mai",
+      "juin",
+      "juillet",
+      "août",
+      "septembre",
+      "octobre",
+      "novembre",
+      "décembre",
+    ],
+    currencies: {
+      USD: { major: ["dollar", "dollars"], minor: ["cent", "cents"] },
+      EUR: { major: ["euro", "euros"], minor: ["centime", "centimes"] },
+      GBP: {
+        major: ["livre", "livres"],
+        minor: ["penny", "pence"],
+        feminine: true,
+      },
+      JPY: { major: ["yen", "yens"] },
+      CNY: { major: ["yuan", "yuans"] },
+    },
+    currencyJoiner: "et",
+    units: {
+      "km/h": ["kilomètre par heure", "kilomètres par heure"],
+      min: ["minute", "minutes"],
+      mph: ["mile par heure", "miles par heure"],
+      km: ["kilomètre", "kilomètres"],
+      cm: ["centimètre", "centimètres"],
+      mm: ["millimètre", "millimètres"],
+      kg: ["kilogramme", "kilogrammes"],
+      mg: ["milligramme", "milligrammes"],
+      ml: ["millilitre", "millilitres"],
+      m: ["mètre", "mètres"],
+      g: ["gramme", "grammes"],
+      l: ["litre", "litres"],
+      "°C": ["degré Celsius", "degrés Celsius"],
+      "°F": ["degré Fahrenheit", "degrés Fahrenheit"],
+      "%": ["pour cent", "pour cent"],
+    },
+    abbreviations: {
+      "M.": "Monsieur",
+      Mme: "Madame",
+      Mmes: "Mesdames",
+      Mlle: "Mademoiselle",
+      Dr: "Docteur",
+      "etc.": "et cetera",
+      "p. ex.": "par exemple",
+      "c.-à-d.": "c'est-à-dire",
+      "env.": "environ",
+      "n°": "numéro",
+    },
+    // French uses the singular below two: "1,5 kilomètre"
+    isPlural: (value) => value >= 2,
+    formatDate(day, month, year) {
+      const dayWords = day === 1 ? "premier" : cardinalToWords(day, "fr");
+      const date = `${dayWords} ${LOCALE_RULES.fr.months[month - 1]}`;
+      return year === undefined ? date : `${date} ${yearToWords(year, "fr")}`;
+    },
+    formatTime(hour, minute) {
+      const hourWords = `${cardinalToWords(hour, "fr", {
+        attributive: true,
+        feminine: true,
+      })} ${hour >= 2 ? "heures" : "heure"}`;
+      return minute === 0
+        ? hourWords
+        : `${hourWords} ${cardinalToWords(minute, "fr")}`;
+    },
+  },
+  es: {
+    groupSeparators: ".",
+    decimalSeparator: ",",
+    months: [
+      "enero",
+      "febrero",
+      "marzo",
+      "abril",
+      "mayo",
+      "junio",
+      "julio",
+      "agosto",
+      "septiembre",
+      "octubre",
+      "noviembre",
+      "diciembre",
+    ],
+    currencies: {
+      USD: { major: ["dólar", "dólares"], minor: ["centavo", "centavos"] },
+      EUR: { major: ["euro", "euros"], minor: ["céntimo", "céntimos"] },
+      GBP: {
+        major: ["libra", "libras"],
+        minor: ["penique", "peniques"],
+        feminine: true,
+      },
+      JPY: { major: ["yen", "yenes"] },
+      CNY: { major: ["yuan", "yuanes"] },
+    },
+    currencyJoiner: "con",
+    units: {
+      "km/h": ["kilómetro por hora", "kilómetros por hora"],
+      min: ["minuto", "minutos"],
+      mph: ["milla por hora", "millas por hora"],
+      km: ["kilómetro", "kilómetros"],
+      cm: ["centímetro", "centímetros"],
+      mm: ["milímetro", "milímetros"],
+      kg: ["kilogramo", "kilogramos"],
+      mg: ["miligramo", "miligramos"],
+      ml: ["mililitro", "mililitros"],
+      m: ["metro", "metros"],
+      g: ["gramo", "gramos"],
+      l: ["litro", "litros"],
+      "°C": ["grado Celsius", "grados Celsius"],
+      "°F": ["grado Fahrenheit", "grados Fahrenheit"],
+      "%": ["por ciento", "por ciento"],
+    },
+    abbreviations: {
+      "Sr.": "señor",
+      "Sra.": "señora",
+      "Srta.": "señorita",
+      "Dr.": "doctor",
+      "Dra.": "doctora",
+      "Ud.": "usted",
+      "Uds.": "ustedes",
+      "etc.": "etcétera",
+      "p. ej.": "por ejemplo",
+      "aprox.": "aproximadamente",
+      "núm.": "número",
+    },
+    isPlural: (value) => value !== 1,
+    formatDate(day, month, year) {
+      const dayWords = day === 1 ? "primero" : cardinalToWords(day, "es");
+      const date = `${dayWords} de ${LOCALE_RULES.es.months[month - 1]}`;
+      return year === undefined
+        ? date
+        : `${date} de ${yearToWords(year, "es")}`;
+    },
+    formatTime(hour, minute) {
+      const hourWords = cardinalToWords(hour, "es", {
+        attributive: true,
+        feminine: true,
+      });
+      return minute === 0
+        ? `${hourWords} en punto`
+        : `${hourWords} y ${cardinalToWords(minute, "es")}`;
+    },
+  },
+  zh: {
+    groupSeparators: ",",
+    decimalSeparator: ".",
+    months: [],
+    currencies: {
+      USD: { major: ["美元", "美元"] },
+      EUR: { major: ["欧元", "欧元"] },
+      GBP: { major: ["英镑", "英镑"] },
+      JPY: { major: ["日元", "日元"] },
+      CNY: { major: ["元", "元"] },
+    },
+    currencyJoiner: "",
+    units: {
+      "km/h": ["公里每小时", "公里每小时"],
+      min: ["分钟", "分钟"],
+      mph: ["英里每小时", "英里每小时"],
+      km: ["公里", "公里"],
+      cm: ["厘米", "厘米"],
+      mm: ["毫米", "毫米"],
+      kg: ["公斤", "公斤"],
+      mg: ["毫克", "毫克"],
+      ml: ["毫升", "毫升"],
+      m: ["米", "米"],
+      g: ["克", "克"],
+      l: ["升", "升"],
+      "°C": ["摄氏度", "摄氏度"],
+      "°F": ["华氏度", "华氏度"],
+      "%": ["", ""],
+    },
+    abbreviations: {},
+    isPlural: () => false,
+    formatDate(day, month, year) {
+      const date = `${cardinalToWords(month, "zh")}月${cardinalToWords(day, "zh")}日`;
+      return year === undefined ? date : `${yearToWords(year, "zh")}年${date}`;
+    },
+    formatTime(hour, minute) {
+      // "两点" rather than "二点"
+      const hourWords = hour === 2 ? "两" : cardinalToWords(hour, "zh");
+      if (minute === 0) {
+        return `${hourWords}点`;
+      }
+      return `${hourWords}点${minute < 10 ? "零" : ""}${cardinalToWords(minute, "zh")}分`;
+    },
+  },
+};
+
+// =============================================================================
+// Pattern helpers
+// =============================================================================
+
+/** Optional minus sign at the start of a word */
+const SIGN = "(?:(?<![^\\s(])([-\\u2212]))?";
+/** Start of a number that is not part of a word, version or larger number */
+const NUMBER_START = "(?<![\\p{Script=Latin}\\d_]|\\d[.,])";
+/** End of a number that is not followed by letters or more digits */
+const NUMBER_END = "(?![\\p{Script=Latin}\\d_]|[.,]\\d)";
+/** End of a word */
+const WORD_END = "(?![\\p{L}\\p{N}_])";
+/** Two numbers around a slash that are not part of a longer date: 12/25, 3/4 */
+const NUMBER_PAIR = `${NUMBER_START}(?<!\\d/)(\\d{1,2})/(\\d{1,2})(?!/\\d)${NUMBER_END}`;
+/** Digit groups joined by hyphens, such as phone numbers: 555-1234 */
+const DIGIT_GROUPS = `${NUMBER_START}(\\d+(?:-\\d+)+)${NUMBER_END}`;
+
+/**
+ * Parsed locale-formatted number
+ */
+interface ParsedNumber {
+  /** Integer digits without separators */
+  integer: string;
+  /** Fraction digits, empty if there are none */
+  fraction: string;
+  value: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Regex source for a number with the locale's separators
+ */
+function numberSource(rules: LocaleRules): string {
+  const group = `[${rules.groupSeparators}]`;
+  const decimal = escapeRegExp(rules.decimalSeparator);
+  return `\\d{1,3}(?:${group}\\d{3})+(?:${decimal}\\d+)?|\\d+(?:${decimal}\\d+)?`;
+}
+
+function parseNumber(raw: string, rules: LocaleRules): ParsedNumber {
+  const [integer, fraction = ""] = raw
+    .replace(new RegExp(`[${rules.groupSeparators}]`, "g"), "")
+    .split(rules.decimalSeparator);
+  return { integer, fraction, value: Number(`${integer}.${fraction || 0}`) };
+}
+
+/**
+ * Spell a parsed number, or return undefined if it is too large
+ */
+function spellNumber(
+  number: ParsedNumber,
+  language: NumberLanguage,
+  options: { attributive?: boolean; feminine?: boolean } = {},
+): string | undefined {
+  const integer = Number(number.integer);
+  if (integer > MAX_SPELLED_NUMBER) {
+    return undefined;
+  }
+  return number.fraction
+    ? decimalToWords(integer, number.fraction, language)
+    : cardinalToWords(integer, language, options);
+}
+
+/**
+ * Halves to tenths smaller than one, which "3/4" usually is rather than a
+ * date
+ */
+function isCommonFraction(numerator: string, denominator: string): boolean {
+  const value = Number(numerator);
+  return value > 0 && value < Number(denominator) && Number(denominator) <= 10;
+}
+
+/**
+ * Year range such as "1990-1995", which is read as years rather than
+ * digit by digit
+ */
+function isYearRange(groups: string[]): boolean {
+  return (
+    groups.length === 2 &&
+    groups.every(
+      (group) => /^\d{4}$/.test(group) && +group >= 1100 && +group < 2100,
+    )
+  );
+}
+
+/**
+ * English fraction, e.g. (3, 4) -> "three quarters"
+ */
+function fractionToWords(numerator: number, denominator: number): string {
+  const [singular, plural] =
+    denominator === 2
+      ? ["half", "halves"]
+      : denominator === 4
+        ? ["quarter", "quarters"]
+        : [
+            ordinalToWords(denominator, "en"),
+            `${ordinalToWords(denominator, "en")}s`,
+          ];
+  return `${cardinalToWords(numerator, "en")} ${numerator === 1 ? singular : plural}`;
+}
+
+function withSign(
+  sign: string | undefined,
+  words: string,
+  language: NumberLanguage,
+): string {
+  return sign ? negateWords(words, language) : words;
+}
+
+function joinWords(language: NumberLanguage, ...words: string[]): string {
+  return words.filter(Boolean).join(getWordSpace(language));
+}
+
+// =============================================================================
+// Built-in normalizers
+// =============================================================================
+
+/**
+ * Factories for the built-in normalizers of one language, in run order
+ */
+const BUILT_IN_FACTORIES: readonly [
+  BuiltInNormalizerName,
+  (language: NumberLanguage, rules: LocaleRules) => TextNormalizer[],
+][] = [
+  ["abbreviations", createAbbreviationNormalizers],
+  ["dates", createDateNormalizers],
+  ["times", createTimeNormalizers],
+  ["currencies", createCurrencyNormalizers],
+  ["units", createUnitNormalizers],
+  ["ordinals", createOrdinalNormalizers],
+  ["numbers", createNumberNormalizers],
+];
+
+function createAbbreviationNormalizers(
+  language: NumberLanguage,
+  rules: LocaleRules,
+): TextNormalizer[] {
+  const abbreviations = Object.keys(rules.abbreviations).sort(
+    (a, b) => b.length - a.length,
+  );
+  if (abbreviations.length === 0) {
+    return [];
+  }
+  const alternatives = abbreviations
+    .map(
+      (abbreviation) =>
+        escapeRegExp(abbreviation) +
+        (abbreviation.endsWith(".") ? "" : WORD_END),
+    )
+    .join("|");
+
+  return [
+    {
+      name: "abbreviations",
+      locales: [language],
+      pattern: new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives})`, "u"),
+      normalize: (match) => {
+        const expansion = rules.abbreviations[match[0]];
+        // Keep the full stop of an abbreviation that ends a paragraph
+        const rest = match.input.slice(match.index + match[0].length);
+        return match[0].endsWith(".") && /^[^\S\n]*(?:\n|$)/.test(rest)
+          ? `${expansion}.`
+          : expansion;
+      },
+    },
+  ];
+}
+
+function createDateNormalizers(
+  language: NumberLanguage,
+  rules: LocaleRules,
+): TextNormalizer[] {
+  const format = (
+    match: RegExpExecArray,
+    locale: string,
+    day: string,
+    month: string | number,
+    year?: string,
+  ): string | undefined => {
+    const dayValue = Number(day);
+    const monthValue = Number(month);
+    if (dayValue < 1 || dayValue > 31 || monthValue < 1 || monthValue > 12) {
+      return undefined;
+    }
+    return rules.formatDate(
+      dayValue,
+      monthValue,
+      year === undefined ? undefined : Number(year),
+      locale,
+      match.input.slice(0, match.index),
+    );
+  };
+  const normalizers: TextNormalizer[] = [
+    {
+      // ISO 8601: 2024-03-15
+      name: "dates",
+      locales: [language],
+      pattern: new RegExp(
+        `${NUMBER_START}(\\d{4})-(\\d{2})-(\\d{2})${NUMBER_END}`,
+        "u",
+      ),
+      normalize: (match, locale) =>
+        format(match, locale, match[3], match[2], match[1]),
+    },
+  ];
+  const monthNames = rules.months.map(escapeRegExp).join("|");
+  const monthIndex = (name: string) =>
+    rules.months.findIndex(
+      (month) => month.toLowerCase() === name.toLowerCase(),
+    ) + 1;
+
+  switch (language) {
+    case "en":
+      normalizers.push(
+        {
+          // 3/15/2024 in American English, 15/3/2024 elsewhere
+          name: "dates",
+          locales: ["en"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d{1,2})/(\\d{1,2})/(\\d{4})${NUMBER_END}`,
+            "u",
+          ),
+          normalize: (match, locale) =>
+            /^en-US$/i.test(locale)
+              ? format(match, locale, match[2], match[1], match[3])
+              : format(match, locale, match[1], match[2], match[3]),
+        },
+        {
+          // 12/25; common fractions such as 3/4 are read by the numbers stage
+          name: "dates",
+          locales: ["en"],
+          pattern: new RegExp(NUMBER_PAIR, "u"),
+          normalize: (match, locale) => {
+            if (isCommonFraction(match[1], match[2])) {
+              return undefined;
+            }
+            return /^en-US$/i.test(locale)
+              ? format(match, locale, match[2], match[1])
+              : format(match, locale, match[1], match[2]);
+          },
+        },
+        {
+          // March 15, 2024
+          name: "dates",
+          locales: ["en"],
+          pattern: new RegExp(
+            `\\b(${monthNames}) (\\d{1,2})(?:st|nd|rd|th)?(?:, (\\d{4}))?${NUMBER_END}`,
+            "u",
+          ),
+          normalize: (match) =>
+            format(match, "en-US", match[2], monthIndex(match[1]), match[3]),
+        },
+        {
+          // 15 March 2024
+          name: "dates",
+          locales: ["en"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d{1,2})(?:st|nd|rd|th)? (${monthNames})(?: (\\d{4}))?${NUMBER_END}`,
+            "u",
+          ),
+          normalize: (match) =>
+            format(match, "en-GB", match[1], monthIndex(match[2]), match[3]),
+        },
+      );
+      break;
+    case "de":
+      normalizers.push(
+        {
+          // 15.03.2024
+          name: "dates",
+          locales: ["de"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${NUMBER_END}`,
+            "u",
+          ),
+          normalize: (match, locale) =>
+            format(match, locale, match[1], match[2], match[3]),
+        },
+        {
+          // 15. März 2024
+          name: "dates",
+          locales: ["de"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d{1,2})\\. (${monthNames})(?: (\\d{4}))?${NUMBER_END}`,
+            "u",
+          ),
+          normalize: (match, locale) =>
+            format(match, locale, match[1], monthIndex(match[2]), match[3]),
+        },
+      );
+      break;
+    case "fr":
+    case "es":
+      normalizers.push(
+        {
+          // 15/03/2024
+          name: "dates",
+          locales: [language],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d{1,2})/(\\d{1,2})/(\\d{4})${NUMBER_END}`,
+            "u",
+          ),
+          normalize: (match, locale) =>
+            format(match, locale, match[1], match[2], match[3]),
+        },
+        {
+          // 1er mars 2024, 15 de marzo de 2024
+          name: "dates",
+          locales: [language],
+          pattern: new RegExp(
+            language === "fr"
+              ? `${NUMBER_START}(\\d{1,2})(?:er)? (${monthNames})(?: (\\d{4}))?${NUMBER_END}`
+              : `${NUMBER_START}(\\d{1,2}) de (${monthNames})(?: de (\\d{4}))?${NUMBER_END}`,
+            "iu",
+          ),
+          normalize: (match, locale) =>
+            format(match, locale, match[1], monthIndex(match[2]), match[3]),
+        },
+      );
+      break;
+    case "zh":
+      normalizers.push({
+        // 2024年3月15日
+        name: "dates",
+        locales: ["zh"],
+        pattern: /(?<!\d)(\d{4})年(\d{1,2})月(\d{1,2})日/u,
+        normalize: (match, locale) =>
+          format(match, locale, match[3], match[2], match[1]),
+      });
+      break;
+  }
+  return normalizers;
+}
+
+function createTimeNormalizers(
+  language: NumberLanguage,
+  rules: LocaleRules,
+): TextNormalizer[] {
+  const format = (
+    match: RegExpExecArray,
+    hour: string,
+    minute: string = "0",
+    period?: string,
+  ): string | undefined => {
+    const hourValue = Number(hour);
+    const minuteValue = Number(minute);
+    const maxHour = period ? 12 : 24;
+    if (hourValue > maxHour || minuteValue > 59) {
+      return undefined;
+    }
+    const time = rules.formatTime(
+      hourValue,
+      minuteValue,
+      period ? (period.toLowerCase() === "a" ? "AM" : "PM") : undefined,
+    );
+    // "a.m." at the end of a sentence also ends the sentence
+    const rest = match.input.slice(match.index + match[0].length);
+    return match[0].endsWith(".") && /^(?:\s*$|\s+\p{Lu})/u.test(rest)
+      ? `${time}.`
+      : time;
+  };
+  // Words that belong to the time and are replaced with it
+  const suffix =
+    language === "en"
+      ? "(?:\\s?([AaPp])(?:[Mm]|\\.[Mm]\\.)(?![\\p{L}]))?"
+      : language === "de"
+        ? "(?:\\s?Uhr(?![\\p{L}]))?"
+        : language === "fr"
+          ? "(?:\\s?h(?![\\p{L}]))?"
+          : "";
+  const normalizers: TextNormalizer[] = [
+    {
+      // 14:30
+      name: "times",
+      locales: [language],
+      pattern: new RegExp(
+        `${NUMBER_START}(\\d{1,2}):(\\d{2})(?![\\d:])${suffix}`,
+        "u",
+      ),
+      normalize: (match) => format(match, match[1], match[2], match[3]),
+    },
+  ];
+  if (language === "en") {
+    normalizers.push({
+      // 9am, 9 p.m.
+      name: "times",
+      locales: ["en"],
+      pattern: new RegExp(
+        `${NUMBER_START}(\\d{1,2})\\s?([AaPp])(?:[Mm]|\\.[Mm]\\.)(?![\\p{L}])`,
+        "u",
+      ),
+      normalize: (match) => format(match, match[1], undefined, match[2]),
+    });
+  } else if (language === "fr") {
+    normalizers.push({
+      // 14h30, 14 h
+      name: "times",
+      locales: ["fr"],
+      pattern: new RegExp(
+        `${NUMBER_START}(\\d{1,2})\\s?h(\\d{2})?(?![\\p{L}\\d])`,
+        "u",
+      ),
+      normalize: (match) => format(match, match[1], match[2]),
+    });
+  }
+  return normalizers;
+}
+
+function createCurrencyNormalizers(
+  language: NumberLanguage,
+  rules: LocaleRules,
+): TextNormalizer[] {
+  const number = numberSource(rules);
+  const codes = CURRENCY_CODES.join("|");
+  const toCode = (symbol: string | undefined, code: string | undefined) => {
+    switch (symbol) {
+      case "$":
+        return "USD";
+      case "€":
+        return "EUR";
+      case "£":
+        return "GBP";
+      case "¥":
+        // ¥ is the renminbi in Chinese text and the yen elsewhere
+        return language === "zh" ? "CNY" : "JPY";
+      default:
+        return code as CurrencyCode;
+    }
+  };
+  const format = (
+    sign: string | undefined,
+    raw: string,
+    code: CurrencyCode,
+    scale?: string,
+  ): string | undefined => {
+    const names = rules.currencies[code];
+    const amount = parseNumber(raw, rules);
+    const plural = (forms: NounForms, value: number) =>
+      forms[rules.isPlural(value) ? 1 : 0];
+    let words: string | undefined;
+
+    if (scale) {
+      // "$5 million" -> "five million dollars"
+      const spelled = spellNumber(amount, language);
+      words = spelled && joinWords(language, spelled, scale, names.major[1]);
+    } else if (
+      names.minor &&
+      amount.fraction.length > 0 &&
+      amount.fraction.length <= 2
+    ) {
+      const major = Number(amount.integer);
+      const minor = Number(amount.fraction.padEnd(2, "0"));
+      if (major > MAX_SPELLED_NUMBER) {
+        return undefined;
+      }
+      const minorWords = joinWords(
+        language,
+        cardinalToWords(minor, language, { attributive: true }),
+        plural(names.minor, minor),
+      );
+      const majorWords = joinWords(
+        language,
+        cardinalToWords(major, language, {
+          attributive: true,
+          feminine: names.feminine,
+        }),
+        plural(names.major, major),
+      );
+      words =
+        major === 0
+          ? minorWords
+          : minor === 0
+            ? majorWords
+            : joinWords(language, majorWords, rules.currencyJoiner, minorWords);
+    } else {
+      const spelled = spellNumber(amount, language, {
+        attributive: true,
+        feminine: names.feminine,
+      });
+      words =
+        spelled &&
+        joinWords(language, spelled, plural(names.major, amount.value));
+    }
+    return words && withSign(sign, words, language);
+  };
+
+  const scaleWords =
+    language === "en" ? "(?: (thousand|million|billion|trillion)\\b)?" : "";
+  return [
+    {
+      // $12.50, USD 12.50
+      name: "currencies",
+      locales: [language],
+      pattern: new RegExp(
+        `${SIGN}(?:([${CURRENCY_SYMBOLS}])|(?<![\\p{L}])(${codes}) )\\s?(${number})${NUMBER_END}${scaleWords}`,
+        "u",
+      ),
+      normalize: (match) =>
+        format(match[1], match[4], toCode(match[2], match[3]), match[5]),
+    },
+    {
+      // 12,50 €, 12.50 USD
+      name: "currencies",
+      locales: [language],
+      pattern: new RegExp(
+        `${SIGN}${NUMBER_START}(${number})\\s?(?:([${CURRENCY_SYMBOLS}])|(${codes})${WORD_END})`,
+        "u",
+      ),
+      normalize: (match) =>
+        format(match[1], match[2], toCode(match[3], match[4])),
+    },
+  ];
+}
+
+function createUnitNormalizers(
+  language: NumberLanguage,
+  rules: LocaleRules,
+): TextNormalizer[] {
+  const symbols = UNIT_SYMBOLS.map(escapeRegExp).join("|");
+  return [
+    {
+      // 5 km, 2.5kg, 20 °C, 50%
+      name: "units",
+      locales: [language],
+      pattern: new RegExp(
+        `${SIGN}${NUMBER_START}(${numberSource(rules)})\\s?(${symbols}|L|mL)${WORD_END}`,
+        "u",
+      ),
+      normalize: (match) => {
+        const unit = (
+          match[3] === "L" ? "l" : match[3] === "mL" ? "ml" : match[3]
+        ) as UnitSymbol;
+        const amount = parseNumber(match[2], rules);
+        const spelled = spellNumber(amount, language, { attributive: true });
+        if (!spelled) {
+          return undefined;
+        }
+        const amountWords = withSign(match[1], spelled, language);
+        if (language === "zh" && unit === "%") {
+          return `百分之${amountWords}`;
+        }
+        const forms = rules.units[unit];
+        return joinWords(
+          language,
+          amountWords,
+          forms[rules.isPlural(amount.value) ? 1 : 0],
+        );
+      },
+    },
+  ];
+}
+
+function createOrdinalNormalizers(language: NumberLanguage): TextNormalizer[] {
+  const ordinal = (value: string, feminine = false) =>
+    Number(value) > 0 && Number(value) <= MAX_SPELLED_NUMBER
+      ? ordinalToWords(Number(value), language, feminine)
+      : undefined;
+
+  switch (language) {
+    case "en":
+      return [
+        {
+          // 1st, 22nd, 103rd
+          name: "ordinals",
+          locales: ["en"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d+)(?:st|nd|rd|th)${WORD_END}`,
+            "u",
+          ),
+          normalize: (match) => ordinal(match[1]),
+        },
+      ];
+    case "de":
+      return [
+        {
+          // "3. Platz"; a number followed by a full stop and a word
+          name: "ordinals",
+          locales: ["de"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d+)\\.(?=[ \\u00A0]\\p{L})`,
+            "u",
+          ),
+          normalize: (match) => ordinal(match[1]),
+        },
+      ];
+    case "fr":
+      return [
+        {
+          // 1er, 1re, 2e, 3ème
+          name: "ordinals",
+          locales: ["fr"],
+          pattern: new RegExp(
+            `${NUMBER_START}(\\d+)(?:(er)|(re|ère)|e|ème|nde?)${WORD_END}`,
+            "u",
+          ),
+          normalize: (match) => ordinal(match[1], match[3] !== undefined),
+        },
+      ];
+    case "es":
+      return [
+        {
+          // 1º, 1.ª
+          name: "ordinals",
+          locales: ["es"],
+          pattern: new RegExp(`${NUMBER_START}(\\d+)\\.?([ºª])`, "u"),
+          normalize: (match) => ordinal(match[1], match[2] === "ª"),
+        },
+      ];
+    default:
+      // Chinese ordinals ("第3") are handled by the numbers stage
+      return [];
+  }
+}
+
+function createNumberNormalizers(
+  language: NumberLanguage,
+  rules: LocaleRules,
+): TextNormalizer[] {
+  // 3/4; other numbers around a slash are read one by one
+  const fractions: TextNormalizer[] =
+    language === "en"
+      ? [
+          {
+            name: "numbers",
+            locales: ["en"],
+            pattern: new RegExp(NUMBER_PAIR, "u"),
+            normalize: (match) =>
+              isCommonFraction(match[1], match[2])
+                ? fractionToWords(Number(match[1]), Number(match[2]))
+                : undefined,
+          },
+        ]
+      : [];
+  return [
+    {
+      // 555-1234, 1-800-555-0199; shorter groups such as "10-20" are ranges
+      name: "numbers",
+      locales: [language],
+      pattern: new RegExp(DIGIT_GROUPS, "u"),
+      normalize: (match) => {
+        const groups = match[1].split("-");
+        if (groups.join("").length < 7 || isYearRange(groups)) {
+          return undefined;
+        }
+        return groups
+          .map((group) => digitsToWords(group, language))
+          .join(language === "zh" ? "，" : ", ");
+      },
+    },
+    ...fractions,
+    {
+      name: "numbers",
+      locales: [language],
+      pattern: new RegExp(
+        `${SIGN}${NUMBER_START}(${numberSource(rules)})${NUMBER_END}`,
+        "u",
+      ),
+      normalize: (match) => {
+        const number = parseNumber(match[2], rules);
+        let words: string | undefined;
+        if (number.integer.length > 1 && number.integer.startsWith("0")) {
+          // Codes such as "007" are read digit by digit
+          words = digitsToWords(number.integer, language);
+        } else if (
+          language === "en" &&
+          !match[1] &&
+          /^\d{4}$/.test(match[2]) &&
+          number.value >= 1100 &&
+          number.value < 2100
+        ) {
+          // Four-digit numbers in English are usually years
+          words = yearToWords(number.value, language);
+        } else {
+          words = spellNumber(number, language);
+        }
+        return words && withSign(match[1], words, language);
+      },
+    },
+  ];
+}
+
+const BUILT_IN_NORMALIZERS: readonly TextNormalizer[] =
+  BUILT_IN_FACTORIES.flatMap(([, create]) =>
+    (Object.keys(LOCALE_RULES) as NumberLanguage[]).flatMap((language) =>
+      create(language, LOCALE_RULES[language]),
+    ),
+  );
+
+const BUILT_IN_NAMES: readonly string[] = BUILT_IN_FACTORIES.map(
+  ([name]) => name,
+);
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/**
+ * Normalizers registered by the app, in registration order
+ */
+const registeredNormalizers: TextNormalizer[] = [];
+
+/**
+ * Register a custom normalizer. Registered normalizers run before the
+ * built-in ones; registering an existing name replaces that normalizer.
+ */
+export function registerNormalizer(normalizer: TextNormalizer): void {
+  if (
+    !normalizer ||
+    typeof normalizer.name !== "string" ||
+    normalizer.name.trim() === ""
+  ) {
+    throw new Error("Normalizer must have a non-empty name");
+  }
+  if (BUILT_IN_NAMES.includes(normalizer.name)) {
+    throw new Error(
+      `Normalizer name "${normalizer.name}" is reserved for a built-in normalizer`,
+    );
+  }
+  if (!(normalizer.pattern instanceof RegExp)) {
+    throw new Error(
+      `Normalizer "${normalizer.name}" must have a RegExp pattern`,
+    );
+  }
+  if (typeof normalizer.normalize !== "function") {
+    throw new Error(
+      `Normalizer "${normalizer.name}" must have a normalize function`,
+    );
+  }
+  if (
+    normalizer.locales !== undefined &&
+    (!Array.isArray(normalizer.locales) ||
+      normalizer.locales.some((locale) => typeof locale !== "string"))
+  ) {
+    throw new Error(
+      `Normalizer "${normalizer.name}" locales must be an array of strings`,
+    );
+  }
+
+  const index = registeredNormalizers.findIndex(
+    (existing) => existing.name === normalizer.name,
+  );
+  if (index === -1) {
+    registeredNormalizers.push(normalizer);
+  } else {
+    registeredNormalizers[index] = normalizer;
+  }
+}
+
+/**
+ * Remove a registered normalizer
+ * @returns true if a normalizer with that name was registered
+ */
+export function unregisterNormalizer(name: string): boolean {
+  const index = registeredNormalizers.findIndex(
+    (normalizer) => normalizer.name === name,
+  );
+  if (index === -1) {
+    return false;
+  }
+  registeredNormalizers.splice(index, 1);
+  return true;
+}
+
+// =============================================================================
+// Pipeline
+// =============================================================================
+
+/**
+ * "en" matches "en-US"; "en-US" matches only itself
+ */
+function appliesToLocale(normalizer: TextNormalizer, locale: string): boolean {
+  if (!normalizer.locales) {
+    return true;
+  }
+  const target = locale.replace(/_/g, "-").toLowerCase();
+  return normalizer.locales.some((candidate) => {
+    const prefix = candidate.replace(/_/g, "-").toLowerCase();
+    return target === prefix || target.startsWith(`${prefix}-`);
+  });
+}
+
+/**
+ * Run one normalizer over the text; returns null if nothing changed
+ */
+function applyNormalizer(
+  text: string,
+  normalizer: TextNormalizer,
+  locale: string,
+): MappedText | null {
+  const flags = normalizer.pattern.flags.includes("g")
+    ? normalizer.pattern.flags
+    : `${normalizer.pattern.flags}g`;
+  const matcher = new RegExp(normalizer.pattern.source, flags);
+  const builder = new MappedTextBuilder();
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  try {
+    while ((match = matcher.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        matcher.lastIndex++;
+        continue;
+      }
+      const spoken = normalizer.normalize(match, locale);
+      if (spoken === undefined || spoken === match[0]) {
+        continue;
+      }
+      builder.keep(text.slice(position, match.index), position);
+      builder.replace(spoken, match.index, match.index + match[0].length);
+      position = match.index + match[0].length;
+    }
+  } catch (error) {
+    console.warn(
+      `[TextNormalization] Normalizer "${normalizer.name}" failed, skipping it:`,
+      error,
+    );
+    return null;
+  }
+
+  if (position === 0) {
+    return null;
+  }
+  builder.keep(text.slice(position), position);
+  return builder.build();
+}
+
+/**
+ * Normalize plain text for a locale.
+ * Runs registered normalizers, then the built-in ones (abbreviations, dates,
+ * times, currencies, units, ordinals, numbers), skipping the names in
+ * `skip`. The returned map translates ranges in the normalized text back to
+ * `text`.
+ */
+export function normalizeText(
+  text: string,
+  locale: string,
+  skip: readonly string[] = [],
+): MappedText {
+  const normalizers = [...registeredNormalizers, ...BUILT_IN_NORMALIZERS]
+    .filter((normalizer) => !skip.includes(normalizer.name))
+    .filter((normalizer) => appliesToLocale(normalizer, locale));
+
+  const maps: TextRangeMapper[] = [];
+  let current = text;
+  for (const normalizer of normalizers) {
+    const stage = applyNormalizer(current, normalizer, locale);
+    if (stage) {
+      maps.push(stage.map);
+      current = stage.text;
+    }
+  }
+
+  return {
+    text: current,
+    markup: escapeXML(current),
+    map:
+      maps.length === 0
+        ? TextOffsetMap.identity(text.length)
+        : chainRangeMappers(...maps),
+  };
+}
+
+/**
+ * Whether the built-in normalizers support a locale
+ */
+export function hasBuiltInNormalization(locale: string): boolean {
+  return getNumberLanguage(locale) !== null;
+}
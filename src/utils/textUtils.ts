@@ -0,0 +1,267 @@
+/**
+ * Plain text processing utilities for EdgeSpeech
+ * Splits long input into synthesizable chunks while keeping track of where
+ * each chunk starts in the original string, and finds the words and
+ * sentences of a text.
+ */
+
+import { MAX_TEXT_LENGTH } from "../constants";
+
+/**
+ * A slice of the original text that can be synthesized on its own
+ */
+export interface TextChunk {
+  /** Chunk content */
+  text: string;
+  /** Character index of the chunk start in the original text */
+  offset: number;
+}
+
+/**
+ * Sentence terminators. Latin terminators only count when followed by
+ * whitespace, CJK terminators end a sentence on their own.
+ */
+const SENTENCE_TERMINATORS = /[.!?…]/;
+const CJK_SENTENCE_TERMINATORS = /[。！？．]/;
+
+/**
+ * Clause separators, handled the same way as sentence terminators
+ */
+const CLAUSE_SEPARATORS = /[,;:–—]/;
+const CJK_CLAUSE_SEPARATORS = /[、，；：]/;
+
+/**
+ * Closing quotes and brackets that stay attached to the preceding punctuation
+ */
+const CLOSING_PUNCTUATION = /["'’”»)\]}」』）]/;
+
+/**
+ * Longest XML entity or character reference we try to keep intact
+ */
+const MAX_ENTITY_LENGTH = 10;
+
+/**
+ * Check whether a character is whitespace
+ */
+function isWhitespace(char: string | undefined): boolean {
+  return char !== undefined && /\s/.test(char);
+}
+
+/**
+ * Check whether splitting at the given index would separate a surrogate pair
+ */
+function splitsSurrogatePair(text: string, index: number): boolean {
+  if (index <= 0 || index >= text.length) {
+    return false;
+  }
+  const previous = text.charCodeAt(index - 1);
+  const next = text.charCodeAt(index);
+  return (
+    previous >= 0xd800 && previous <= 0xdbff && next >= 0xdc00 && next <= 0xdfff
+  );
+}
+
+/**
+ * Check whether splitting at the given index would cut an XML entity
+ * such as `&amp;` or `&#x4e2d;` that is already present in the text
+ */
+function splitsXMLEntity(text: string, index: number): boolean {
+  const ampersand = text.lastIndexOf("&", index - 1);
+  if (ampersand === -1 || index - ampersand > MAX_ENTITY_LENGTH) {
+    return false;
+  }
+  const match = /^&(?:#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/i.exec(
+    text.slice(ampersand, ampersand + MAX_ENTITY_LENGTH + 1),
+  );
+  return match !== null && ampersand + match[0].length > index;
+}
+
+/**
+ * Check whether a split at the given index is safe
+ */
+function isSafeSplit(text: string, index: number): boolean {
+  return !splitsSurrogatePair(text, index) && !splitsXMLEntity(text, index);
+}
+
+/**
+ * Find the end of a punctuation-based break that ends right before `index`
+ * (exclusive), extending over trailing closing quotes and brackets.
+ * Returns -1 if the character at `index - 1` does not end a break.
+ */
+function punctuationBreakAt(
+  text: string,
+  index: number,
+  latin: RegExp,
+  cjk: RegExp,
+): number {
+  let end = index;
+  while (end > 0 && CLOSING_PUNCTUATION.test(text[end - 1])) {
+    end--;
+  }
+  const char = text[end - 1];
+  if (char === undefined) {
+    return -1;
+  }
+  if (cjk.test(char)) {
+    return index;
+  }
+  if (latin.test(char) && (index >= text.length || isWhitespace(text[index]))) {
+    return index;
+  }
+  return -1;
+}
+
+/**
+ * Find the best split position in `text` between `start` (exclusive) and
+ * `limit` (inclusive). Prefers sentence ends, then clause separators, then
+ * whitespace, and only splits inside a word as a last resort.
+ */
+function findSplitIndex(text: string, start: number, limit: number): number {
+  const candidates = [
+    (index: number) =>
+      punctuationBreakAt(
+        text,
+        index,
+        SENTENCE_TERMINATORS,
+        CJK_SENTENCE_TERMINATORS,
+      ) !== -1,
+    (index: number) =>
+      punctuationBreakAt(
+        text,
+        index,
+        CLAUSE_SEPARATORS,
+        CJK_CLAUSE_SEPARATORS,
+      ) !== -1,
+    (index: number) => isWhitespace(text[index]),
+  ];
+
+  for (const isBreak of candidates) {
+    for (let index = limit; index > start; index--) {
+      if (isBreak(index) && isSafeSplit(text, index)) {
+        return index;
+      }
+    }
+  }
+
+  // No natural break: hard split without cutting surrogate pairs or entities
+  for (let index = limit; index > start; index--) {
+    if (isSafeSplit(text, index)) {
+      return index;
+    }
+  }
+  return limit;
+}
+
+/**
+ * Split text into chunks no longer than `maxLength` characters.
+ *
+ * Chunks end at sentence or clause boundaries where possible and never split
+ * a word (unless a single word exceeds `maxLength`), a surrogate pair or an
+ * XML entity. Whitespace between chunks is dropped; each chunk records its
+ * offset in the original text so positions can be mapped back.
+ *
+ * @param text - Text to split
+ * @param maxLength - Maximum chunk length in characters
+ * @returns Chunks in reading order
+ */
+export function splitTextIntoChunks(
+  text: string,
+  maxLength: number = MAX_TEXT_LENGTH,
+): TextChunk[] {
+  if (!text || typeof text !== "string") {
+    return [];
+  }
+  if (!Number.isFinite(maxLength) || maxLength < 1) {
+    throw new Error("Maximum chunk length must be a positive number.");
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    // Skip whitespace between chunks
+    while (start < text.length && isWhitespace(text[start])) {
+      start++;
+    }
+    if (start >= text.length) {
+      break;
+    }
+
+    let end = text.length;
+    if (end - start > maxLength) {
+      end = findSplitIndex(text, start, start + maxLength);
+    }
+
+    const chunkText = text.slice(start, end).trimEnd();
+    if (chunkText.length > 0) {
+      chunks.push({ text: chunkText, offset: start });
+    }
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Range of the text, end exclusive
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/** Letters and digits, with apostrophes inside words such as "don't" */
+const WORD = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+
+/**
+ * Find the words of a text, for moving through text the service has not
+ * reported boundaries for. Runs of CJK characters count as one word.
+ *
+ * @param text - Text to search
+ * @returns Word ranges in reading order
+ */
+export function findWords(text: string): TextRange[] {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Find the sentences of a text, from their first word to their last.
+ * Sentences end at the same terminators splitTextIntoChunks() breaks at.
+ *
+ * @param text - Text to search
+ * @returns Sentence ranges in reading order
+ */
+export function findSentences(text: string): TextRange[] {
+  const sentences: TextRange[] = [];
+  for (const word of findWords(text)) {
+    const last = sentences[sentences.length - 1];
+    if (last && !hasSentenceBreak(text, last.end, word.start)) {
+      last.end = word.end;
+    } else {
+      sentences.push({ ...word });
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Check whether a sentence ends between two positions of the text
+ */
+function hasSentenceBreak(text: string, start: number, end: number): boolean {
+  for (let index = start + 1; index <= end; index++) {
+    if (
+      punctuationBreakAt(
+        text,
+        index,
+        SENTENCE_TERMINATORS,
+        CJK_SENTENCE_TERMINATORS,
+      ) !== -1
+    ) {
+      return true;
+    }
+  }
+  return false;
+}